@@ -16,6 +16,12 @@ import OTPScreen from './components/OTPScreen';
 import OnboardingScreen from './components/OnboardingScreen';
 import TermsScreen from './components/TermsScreen';
 import IncomeScreen from './components/IncomeScreen';
+import MoneyAccountsScreen from './components/MoneyAccountsScreen';
+import SharedExpensesScreen from './components/SharedExpensesScreen';
+import LoansScreen from './components/LoansScreen';
+import EmiPlannerScreen from './components/EmiPlannerScreen';
+import GoalsScreen from './components/GoalsScreen';
+import CategoriesScreen from './components/CategoriesScreen';
 import { Category } from './types';
 
 // App Content Wrapper to use Data Context
@@ -72,6 +78,8 @@ const AppContent: React.FC = () => {
       {currentTab === 'dashboard' && (
         <Dashboard 
             onProfileClick={() => setCurrentTab('account')} 
+            onManageAccounts={() => setCurrentTab('money_accounts')}
+            onManageGoals={() => setCurrentTab('goals')}
             onNavigateToHistory={(category) => {
                 setHistoryFilter(category);
                 setCurrentTab('expenses');
@@ -112,6 +120,12 @@ const AppContent: React.FC = () => {
               onBack={() => setCurrentTab('dashboard')} 
               onNavigateToProfile={() => setCurrentTab('profile_edit')}
               onNavigateToSettings={() => setCurrentTab('settings')}
+              onNavigateToAccounts={() => setCurrentTab('money_accounts')}
+              onNavigateToCategories={() => setCurrentTab('categories')}
+              onNavigateToShared={() => setCurrentTab('shared')}
+              onNavigateToLoans={() => setCurrentTab('loans')}
+              onNavigateToEmiPlanner={() => setCurrentTab('emi_planner')}
+              onNavigateToGoals={() => setCurrentTab('goals')}
           />
       )}
 
@@ -119,6 +133,30 @@ const AppContent: React.FC = () => {
           <ProfileEditScreen onBack={() => setCurrentTab('account')} />
       )}
 
+      {currentTab === 'money_accounts' && (
+          <MoneyAccountsScreen onBack={() => setCurrentTab('account')} />
+      )}
+
+      {currentTab === 'shared' && (
+          <SharedExpensesScreen onBack={() => setCurrentTab('account')} />
+      )}
+
+      {currentTab === 'loans' && (
+          <LoansScreen onBack={() => setCurrentTab('account')} />
+      )}
+
+      {currentTab === 'emi_planner' && (
+          <EmiPlannerScreen onBack={() => setCurrentTab('account')} />
+      )}
+
+      {currentTab === 'goals' && (
+          <GoalsScreen onBack={() => setCurrentTab('account')} />
+      )}
+
+      {currentTab === 'categories' && (
+          <CategoriesScreen onBack={() => setCurrentTab('account')} />
+      )}
+
       {currentTab === 'settings' && (
           <SettingsScreen onBack={() => setCurrentTab('account')} />
       )}
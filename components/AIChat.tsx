@@ -2,11 +2,13 @@
 import React, { useState, useRef, useEffect } from 'react';
 import { useData } from '../contexts/DataContext';
 import { chatWithFinancialAssistant } from '../services/geminiService';
-import { ChatMessage, Category } from '../types';
+import { normalizeRecurrenceRule } from '../utils/recurrence';
+import { resolveCategory } from '../utils/categories';
+import { ChatMessage } from '../types';
 import { Send, Bot, Loader2 } from 'lucide-react';
 
 const AIChat: React.FC = () => {
-  const { expenses, budgets, incomes, currency, userName, addExpense, addIncome, deleteExpense, deleteIncome, t, chatHistory, addChatMessage } = useData();
+  const { expenses, budgets, incomes, tenants, categories, currency, userName, addExpense, addIncome, deleteExpense, deleteIncome, t, chatHistory, addChatMessage } = useData();
   
   // Use a ref to track if we've initialized the welcome message to prevent double-posting
   const hasInitialized = useRef(false);
@@ -41,7 +43,7 @@ const AIChat: React.FC = () => {
       const amount = parseFloat(args.amount);
       if (isNaN(amount)) throw new Error("Invalid Amount");
 
-      const category = args.category as Category || 'Other';
+      const { category, subcategory } = resolveCategory(categories, 'expense', args.category);
       const description = args.description || 'Expense from AI';
       const date = args.date || new Date().toISOString().split('T')[0];
       const paymentMethod = args.paymentMethod || 'Cash'; // Default if missing
@@ -49,6 +51,7 @@ const AIChat: React.FC = () => {
       addExpense({
           amount,
           category,
+          subcategory,
           description,
           date,
           paymentMethod
@@ -59,17 +62,32 @@ const AIChat: React.FC = () => {
       const amount = parseFloat(args.amount);
       if (isNaN(amount)) throw new Error("Invalid Amount");
 
-      const category = args.category as any || 'Salary';
+      const { category, subcategory } = resolveCategory(categories, 'income', args.category || 'Salary');
       const source = args.source || 'Income from AI';
       const date = args.date || new Date().toISOString().split('T')[0];
       const recurrence = args.recurrence || 'None';
+      const recurrenceRule = normalizeRecurrenceRule(recurrence, {
+          interval: args.interval,
+          unit: args.intervalUnit,
+          endDate: args.endDate,
+          count: args.occurrences,
+          lastDayOfMonth: args.lastDayOfMonth
+      });
+
+      // Rent for a known tenant is linked to them by name
+      const tenant = category === 'Rent'
+          ? tenants.find(tn => tn.name.toLowerCase() === source.trim().toLowerCase())
+          : undefined;
 
       addIncome({
           amount,
           category,
+          subcategory,
           source,
           date,
-          recurrence
+          recurrence,
+          recurrenceRule,
+          tenantId: tenant?.id
       });
   };
 
@@ -121,7 +139,7 @@ const AIChat: React.FC = () => {
       const responseText = await chatWithFinancialAssistant(
         userMessage.text,
         chatHistory, // Pass current history state (which doesn't include userMessage yet due to async state update)
-        { expenses, budgets, currency, incomes, userName },
+        { expenses, budgets, categories, currency, incomes, userName },
         handleAddExpenseTool, // Pass expense tool handler
         handleAddIncomeTool, // Pass income tool handler
         handleDeleteTransactionTool // Pass delete tool handler
@@ -0,0 +1,39 @@
+import React from 'react';
+import { useData } from '../contexts/DataContext';
+import { MoneyAccount } from '../types';
+import { ChevronDown } from 'lucide-react';
+
+interface AccountPickerProps {
+  value?: string;
+  onChange: (account: MoneyAccount) => void;
+  excludeId?: string; // e.g. the other side of a transfer
+}
+
+// Select of the user's active accounts. An archived account stays listed while it is the current value.
+const AccountPicker: React.FC<AccountPickerProps> = ({ value, onChange, excludeId }) => {
+  const { accounts, t } = useData();
+  const options = accounts.filter(a => (!a.archived || a.id === value) && a.id !== excludeId);
+
+  return (
+    <div className="relative">
+        <select
+            value={value || ''}
+            onChange={(e) => {
+                const account = accounts.find(a => a.id === e.target.value);
+                if (account) onChange(account);
+            }}
+            className="w-full pl-4 pr-10 py-3 bg-gray-50 dark:bg-slate-700 border border-gray-200 dark:border-slate-600 rounded-xl appearance-none text-sm text-gray-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-teal-500"
+        >
+            {!value && <option value="" disabled>{t('Select Account')}</option>}
+            {options.map(account => (
+                <option key={account.id} value={account.id}>
+                    {account.name} ({t(account.type)})
+                </option>
+            ))}
+        </select>
+        <ChevronDown className="absolute right-4 top-3.5 text-gray-400 pointer-events-none" size={18} />
+    </div>
+  );
+};
+
+export default AccountPicker;
@@ -1,16 +1,22 @@
 
 import React, { useState, useRef } from 'react';
 import { useData } from '../contexts/DataContext';
-import { User, Settings, Shield, LogOut, ChevronRight, ArrowLeft, Download, Upload, FileText, Fingerprint, ToggleLeft, ToggleRight } from 'lucide-react';
+import { User, Settings, Wallet, Shapes, Users, HandCoins, Landmark, Target, Shield, LogOut, ChevronRight, ArrowLeft, Download, Upload, FileText, Fingerprint, ToggleLeft, ToggleRight } from 'lucide-react';
 import EncryptionModal from './EncryptionModal';
 
 interface AccountScreenProps {
   onBack: () => void;
   onNavigateToProfile: () => void;
   onNavigateToSettings: () => void;
+  onNavigateToAccounts: () => void;
+  onNavigateToCategories: () => void;
+  onNavigateToShared: () => void;
+  onNavigateToLoans: () => void;
+  onNavigateToEmiPlanner: () => void;
+  onNavigateToGoals: () => void;
 }
 
-const AccountScreen: React.FC<AccountScreenProps> = ({ onBack, onNavigateToProfile, onNavigateToSettings }) => {
+const AccountScreen: React.FC<AccountScreenProps> = ({ onBack, onNavigateToProfile, onNavigateToSettings, onNavigateToAccounts, onNavigateToCategories, onNavigateToShared, onNavigateToLoans, onNavigateToEmiPlanner, onNavigateToGoals }) => {
   const { userName, backupData, exportData, importData, logout, t, userProfile, isBiometricSupported, registerBiometric, updateProfileState } = useData();
   const [isBackingUp, setIsBackingUp] = useState(false);
   const [isExporting, setIsExporting] = useState(false);
@@ -34,8 +40,17 @@ const AccountScreen: React.FC<AccountScreenProps> = ({ onBack, onNavigateToProfi
       if (encryptionMode === 'encrypt') {
           // Perform Backup
           setIsBackingUp(true);
-          await backupData(password);
-          setIsBackingUp(false);
+          try {
+              await backupData(password);
+          } catch (e: any) {
+              if (e.message === 'PASSWORD_REQUIRED') {
+                  alert(t('backup_password_required'));
+              } else {
+                  alert("Backup failed: " + e.message);
+              }
+          } finally {
+              setIsBackingUp(false);
+          }
       } else {
           // Perform Pending Import (Retry with password)
           if (pendingImportFile) {
@@ -45,8 +60,12 @@ const AccountScreen: React.FC<AccountScreenProps> = ({ onBack, onNavigateToProfi
                   if (success) {
                       alert(t('Data imported successfully!'));
                   }
-              } catch (e) {
-                  alert("Failed to decrypt or import data. Incorrect password?");
+              } catch (e: any) {
+                  if (e.message === 'UNSUPPORTED_VERSION') {
+                      alert(t('backup_version_unsupported'));
+                  } else {
+                      alert("Failed to decrypt or import data. Incorrect password?");
+                  }
               } finally {
                   setIsImporting(false);
                   setPendingImportFile(null);
@@ -86,6 +105,8 @@ const AccountScreen: React.FC<AccountScreenProps> = ({ onBack, onNavigateToProfi
                   setPendingImportFile(file);
                   setEncryptionMode('decrypt');
                   setShowEncryptionModal(true);
+              } else if (err.message === 'UNSUPPORTED_VERSION') {
+                  alert(t('backup_version_unsupported'));
               } else {
                   alert("Import failed: " + err.message);
               }
@@ -116,6 +137,12 @@ const AccountScreen: React.FC<AccountScreenProps> = ({ onBack, onNavigateToProfi
 
   const menuItems = [
     { icon: User, label: 'Profile', onClick: onNavigateToProfile },
+    { icon: Wallet, label: 'Money Accounts', onClick: onNavigateToAccounts },
+    { icon: Shapes, label: 'Categories', onClick: onNavigateToCategories },
+    { icon: Users, label: 'Shared Expenses', onClick: onNavigateToShared },
+    { icon: HandCoins, label: 'Loans', onClick: onNavigateToLoans },
+    { icon: Landmark, label: 'EMI Planner', onClick: onNavigateToEmiPlanner },
+    { icon: Target, label: 'Savings Goals', onClick: onNavigateToGoals },
     { icon: Settings, label: 'Settings', onClick: onNavigateToSettings },
   ];
 
@@ -0,0 +1,19 @@
+import React from 'react';
+import { MoneyAccountType } from '../types';
+import { Landmark, Banknote, CreditCard, Smartphone, Wallet, PiggyBank } from 'lucide-react';
+
+const ICONS: Record<MoneyAccountType, React.ElementType> = {
+  'Bank': Landmark,
+  'Cash': Banknote,
+  'Credit Card': CreditCard,
+  'UPI Lite': Smartphone,
+  'Wallet': Wallet,
+  'Other': PiggyBank,
+};
+
+const AccountTypeIcon: React.FC<{ type: MoneyAccountType; size?: number; className?: string }> = ({ type, size = 18, className }) => {
+  const Icon = ICONS[type] || PiggyBank;
+  return <Icon size={size} className={className} />;
+};
+
+export default AccountTypeIcon;
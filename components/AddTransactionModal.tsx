@@ -1,10 +1,19 @@
 
 import React, { useState } from 'react';
 import { useData } from '../contexts/DataContext';
-import { Category, IncomeCategory, Recurrence } from '../types';
+import { Category, IncomeCategory, Recurrence, RecurrenceRule, Tenant } from '../types';
+import { normalizeRecurrenceRule } from '../utils/recurrence';
+import { RentTerms, normalizeRentTerms } from '../utils/rentTerms';
 import { X, Calendar as CalendarIcon, Check, Loader2, User, Phone, TrendingUp, TrendingDown } from 'lucide-react';
 import { parseExpenseFromText, parseIncomeFromText } from '../services/geminiService';
 import DatePicker from './DatePicker';
+import RecurrencePicker from './RecurrencePicker';
+import RentTermsFields from './RentTermsFields';
+import TenantPicker from './TenantPicker';
+import AccountPicker from './AccountPicker';
+import CategoryPicker from './CategoryPicker';
+import { getAccountPaymentMethod, getDefaultAccountId } from '../utils/accounts';
+import { resolveCategory } from '../utils/categories';
 
 interface AddTransactionModalProps {
   onClose: () => void;
@@ -12,15 +21,19 @@ interface AddTransactionModalProps {
 }
 
 const AddTransactionModal: React.FC<AddTransactionModalProps> = ({ onClose, initialTab = 'expense' }) => {
-  const { addExpense, addIncome, currency, t } = useData();
+  const { addExpense, addIncome, tenants, accounts, categories, currency, t } = useData();
   const [activeTab, setActiveTab] = useState<'expense' | 'income'>(initialTab);
 
   // --- Expense State ---
   const [expAmount, setExpAmount] = useState('');
   const [expCategory, setExpCategory] = useState<Category>('Food');
+  const [expSubcategory, setExpSubcategory] = useState<Category | undefined>();
   const [expDesc, setExpDesc] = useState('');
   const [expDate, setExpDate] = useState(new Date().toISOString().split('T')[0]);
   const [expPaymentMethod, setExpPaymentMethod] = useState<'Cash' | 'Card' | 'UPI' | 'Other'>('UPI');
+  const [expAccountId, setExpAccountId] = useState(() => getDefaultAccountId(accounts, 'UPI'));
+  const [expRecurrence, setExpRecurrence] = useState<Recurrence>('None');
+  const [expRecurrenceRule, setExpRecurrenceRule] = useState<RecurrenceRule>({});
   const [expErrors, setExpErrors] = useState<{ amount?: string; description?: string; date?: string }>({});
   
   // AI State
@@ -31,10 +44,15 @@ const AddTransactionModal: React.FC<AddTransactionModalProps> = ({ onClose, init
   // --- Income State ---
   const [incAmount, setIncAmount] = useState('');
   const [incCategory, setIncCategory] = useState<IncomeCategory>('Salary');
+  const [incSubcategory, setIncSubcategory] = useState<IncomeCategory | undefined>();
   const [incSource, setIncSource] = useState('');
   const [incDate, setIncDate] = useState(new Date().toISOString().split('T')[0]);
   const [incRecurrence, setIncRecurrence] = useState<Recurrence>('None');
+  const [incRecurrenceRule, setIncRecurrenceRule] = useState<RecurrenceRule>({});
   const [tenantContact, setTenantContact] = useState('');
+  const [tenantId, setTenantId] = useState('');
+  const [rentTerms, setRentTerms] = useState<RentTerms>({});
+  const [incAccountId, setIncAccountId] = useState(() => getDefaultAccountId(accounts));
   const [incErrors, setIncErrors] = useState<{ amount?: string; source?: string }>({});
 
   // --- Shared Date Picker ---
@@ -56,9 +74,13 @@ const AddTransactionModal: React.FC<AddTransactionModalProps> = ({ onClose, init
     addExpense({
       amount: parseFloat(expAmount),
       category: expCategory,
+      subcategory: expSubcategory,
       description: expDesc.trim(),
       date: expDate,
       paymentMethod: expPaymentMethod,
+      accountId: expAccountId,
+      recurrence: expRecurrence,
+      recurrenceRule: normalizeRecurrenceRule(expRecurrence, expRecurrenceRule),
     });
     onClose();
   };
@@ -68,19 +90,30 @@ const AddTransactionModal: React.FC<AddTransactionModalProps> = ({ onClose, init
       setIsParsing(true);
       try {
           if (activeTab === 'expense') {
-              const parsed = await parseExpenseFromText(nlInput);
+              const parsed = await parseExpenseFromText(nlInput, categories);
               if (parsed.amount) setExpAmount(parsed.amount.toString());
-              if (parsed.category) setExpCategory(parsed.category);
+              if (parsed.category) {
+                  const resolved = resolveCategory(categories, 'expense', parsed.category);
+                  setExpCategory(resolved.category);
+                  setExpSubcategory(resolved.subcategory);
+              }
               if (parsed.description) setExpDesc(parsed.description);
-              if (parsed.paymentMethod) setExpPaymentMethod(parsed.paymentMethod);
+              if (parsed.paymentMethod) {
+                  setExpPaymentMethod(parsed.paymentMethod);
+                  setExpAccountId(getDefaultAccountId(accounts, parsed.paymentMethod));
+              }
               if (parsed.date) {
                 const d = new Date(parsed.date);
                 if (!isNaN(d.getTime())) setExpDate(parsed.date);
               }
           } else {
-              const parsed = await parseIncomeFromText(nlInput);
+              const parsed = await parseIncomeFromText(nlInput, categories);
               if (parsed.amount) setIncAmount(parsed.amount.toString());
-              if (parsed.category) setIncCategory(parsed.category);
+              if (parsed.category) {
+                  const resolved = resolveCategory(categories, 'income', parsed.category);
+                  setIncCategory(resolved.category);
+                  setIncSubcategory(resolved.subcategory);
+              }
               if (parsed.source) setIncSource(parsed.source);
               if (parsed.date) {
                 const d = new Date(parsed.date);
@@ -113,14 +146,27 @@ const AddTransactionModal: React.FC<AddTransactionModalProps> = ({ onClose, init
     addIncome({
       amount: parseFloat(incAmount),
       category: incCategory,
+      subcategory: incSubcategory,
       source: incSource.trim(),
       date: incDate,
       recurrence: incRecurrence,
-      tenantContact: incCategory === 'Rent' ? tenantContact : undefined
+      recurrenceRule: normalizeRecurrenceRule(incRecurrence, incRecurrenceRule),
+      accountId: incAccountId,
+      tenantId: incCategory === 'Rent' && tenantId ? tenantId : undefined,
+      tenantContact: incCategory === 'Rent' && !tenantId ? tenantContact : undefined,
+      ...(incCategory === 'Rent' ? normalizeRentTerms(rentTerms, incDate) : {})
     });
     onClose();
   };
 
+  // Picking a saved tenant fills in their name and, if still empty, the agreed rent
+  const handleTenantSelect = (tenant: Tenant | null) => {
+    setTenantId(tenant?.id || '');
+    if (!tenant) return;
+    setIncSource(tenant.name);
+    if (!incAmount) setIncAmount(tenant.agreedRent.toString());
+  };
+
   // --- Date Handler ---
   const handleDateSelect = (selectedDate: Date) => {
       const dateStr = selectedDate.toISOString().split('T')[0];
@@ -228,15 +274,13 @@ const AddTransactionModal: React.FC<AddTransactionModalProps> = ({ onClose, init
                     <div className="grid grid-cols-2 gap-3">
                         <div>
                             <label className="block text-xs font-medium text-gray-500 dark:text-slate-400 mb-1 uppercase">{t('Category')}</label>
-                            <select
-                            value={expCategory}
-                            onChange={(e) => setExpCategory(e.target.value as Category)}
+                            <CategoryPicker
+                            kind="expense"
+                            category={expCategory}
+                            subcategory={expSubcategory}
+                            onChange={(c, sub) => { setExpCategory(c); setExpSubcategory(sub); }}
                             className="w-full px-3 py-3 bg-gray-50 dark:bg-slate-700 border border-gray-200 dark:border-slate-600 rounded-xl focus:outline-none focus:ring-2 focus:ring-red-500 appearance-none text-gray-900 dark:text-white text-sm"
-                            >
-                            {['Food', 'Transport', 'Entertainment', 'Utilities', 'Healthcare', 'Shopping', 'Housing', 'Other'].map(c => (
-                                <option key={c} value={c}>{t(c)}</option>
-                            ))}
-                            </select>
+                            />
                         </div>
                         
                         <div className="relative">
@@ -254,6 +298,20 @@ const AddTransactionModal: React.FC<AddTransactionModalProps> = ({ onClose, init
                         </div>
                     </div>
 
+                    {accounts.length > 0 && (
+                    <div>
+                        <label className="block text-xs font-medium text-gray-500 dark:text-slate-400 mb-2 uppercase">{t('Paid From')}</label>
+                        <AccountPicker
+                            value={expAccountId}
+                            onChange={(account) => {
+                                setExpAccountId(account.id);
+                                const method = getAccountPaymentMethod(account.type);
+                                if (method) setExpPaymentMethod(method);
+                            }}
+                        />
+                    </div>
+                    )}
+
                     <div>
                         <label className="block text-xs font-medium text-gray-500 dark:text-slate-400 mb-2 uppercase">{t('Payment Method')}</label>
                         <div className="flex gap-2">
@@ -274,6 +332,17 @@ const AddTransactionModal: React.FC<AddTransactionModalProps> = ({ onClose, init
                         </div>
                     </div>
 
+                    <div>
+                        <label className="block text-xs font-medium text-gray-500 dark:text-slate-400 mb-2 uppercase">{t('Repeat')}</label>
+                        <RecurrencePicker
+                            recurrence={expRecurrence}
+                            rule={expRecurrenceRule}
+                            onChange={(r, rule) => { setExpRecurrence(r); setExpRecurrenceRule(rule); }}
+                            accentClassName="bg-red-500"
+                            compact
+                        />
+                    </div>
+
                     <button
                         type="submit"
                         className="w-full bg-red-500 text-white py-4 rounded-xl font-bold text-lg hover:bg-red-600 shadow-lg shadow-red-500/20 transition-transform active:scale-[0.98] mt-2"
@@ -337,6 +406,16 @@ const AddTransactionModal: React.FC<AddTransactionModalProps> = ({ onClose, init
                         <label className="block text-xs font-medium text-gray-500 dark:text-slate-400 mb-1 uppercase">
                             {incCategory === 'Rent' ? t('Tenant Name') : t('Source')}
                         </label>
+                        {incCategory === 'Rent' && tenants.length > 0 && (
+                            <div className={tenantId ? '' : 'mb-2'}>
+                                <TenantPicker
+                                    tenantId={tenantId}
+                                    onSelect={handleTenantSelect}
+                                    className="w-full pl-10 pr-4 py-3 bg-gray-50 dark:bg-slate-700 border border-gray-200 dark:border-slate-600 rounded-xl focus:outline-none focus:ring-2 focus:ring-teal-500 text-gray-900 dark:text-white"
+                                />
+                            </div>
+                        )}
+                        {!(incCategory === 'Rent' && tenantId) && (
                         <div className="relative">
                             <User className="absolute left-3 top-3.5 text-gray-400 dark:text-slate-500" size={18} />
                             <input
@@ -347,20 +426,19 @@ const AddTransactionModal: React.FC<AddTransactionModalProps> = ({ onClose, init
                                 placeholder={incCategory === 'Rent' ? "e.g., John Doe" : "e.g., Employer, Bank"}
                             />
                         </div>
+                        )}
                     </div>
 
                     <div className="grid grid-cols-2 gap-3">
                         <div>
                             <label className="block text-xs font-medium text-gray-500 dark:text-slate-400 mb-1 uppercase">{t('Category')}</label>
-                            <select
-                                value={incCategory}
-                                onChange={(e) => setIncCategory(e.target.value as IncomeCategory)}
+                            <CategoryPicker
+                                kind="income"
+                                category={incCategory}
+                                subcategory={incSubcategory}
+                                onChange={(c, sub) => { setIncCategory(c); setIncSubcategory(sub); }}
                                 className="w-full px-3 py-3 bg-gray-50 dark:bg-slate-700 border border-gray-200 dark:border-slate-600 rounded-xl focus:outline-none focus:ring-2 focus:ring-teal-500 text-gray-900 dark:text-white text-sm"
-                            >
-                                {['Salary', 'Rent', 'Interest', 'Business', 'Gift', 'Other'].map(c => (
-                                    <option key={c} value={c}>{t(c)}</option>
-                                ))}
-                            </select>
+                            />
                         </div>
                         <div className="relative">
                             <label className="block text-xs font-medium text-gray-500 dark:text-slate-400 mb-1 uppercase">{t('Date')}</label>
@@ -377,7 +455,7 @@ const AddTransactionModal: React.FC<AddTransactionModalProps> = ({ onClose, init
                         </div>
                     </div>
 
-                    {incCategory === 'Rent' && (
+                    {incCategory === 'Rent' && !tenantId && (
                         <div>
                             <label className="block text-xs font-medium text-gray-500 dark:text-slate-400 mb-1 uppercase">{t('Tenant Mobile')}</label>
                             <div className="relative">
@@ -393,26 +471,28 @@ const AddTransactionModal: React.FC<AddTransactionModalProps> = ({ onClose, init
                         </div>
                     )}
 
+                    {accounts.length > 0 && (
+                    <div>
+                        <label className="block text-xs font-medium text-gray-500 dark:text-slate-400 mb-2 uppercase">{t('Received Into')}</label>
+                        <AccountPicker value={incAccountId} onChange={(account) => setIncAccountId(account.id)} />
+                    </div>
+                    )}
+
                     <div>
                         <label className="block text-xs font-medium text-gray-500 dark:text-slate-400 mb-2 uppercase">{t('Recurrence')}</label>
-                        <div className="flex gap-2">
-                            {['None', 'Monthly', 'Yearly'].map((r) => (
-                                <button
-                                    key={r}
-                                    type="button"
-                                    onClick={() => setIncRecurrence(r as Recurrence)}
-                                    className={`flex-1 py-2 px-1 rounded-lg text-xs font-medium transition-colors ${
-                                        incRecurrence === r
-                                        ? 'bg-teal-600 text-white shadow-md' 
-                                        : 'bg-gray-100 dark:bg-slate-700 text-gray-600 dark:text-slate-300 hover:bg-gray-200 dark:hover:bg-slate-600'
-                                    }`}
-                                >
-                                    {t(r)}
-                                </button>
-                            ))}
-                        </div>
+                        <RecurrencePicker
+                            recurrence={incRecurrence}
+                            rule={incRecurrenceRule}
+                            onChange={(r, rule) => { setIncRecurrence(r); setIncRecurrenceRule(rule); }}
+                            accentClassName="bg-teal-600"
+                            compact
+                        />
                     </div>
 
+                    {incCategory === 'Rent' && (
+                        <RentTermsFields terms={rentTerms} onChange={setRentTerms} date={incDate} compact />
+                    )}
+
                     <button
                         type="submit"
                         className="w-full bg-teal-600 text-white py-4 rounded-xl font-bold text-lg hover:bg-teal-700 shadow-lg shadow-teal-600/20 transition-transform active:scale-[0.98] mt-2"
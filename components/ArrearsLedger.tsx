@@ -0,0 +1,44 @@
+import React, { useMemo } from 'react';
+import { useData } from '../contexts/DataContext';
+import { Income } from '../types';
+import { buildArrearsLedger } from '../utils/incomeLedger';
+
+interface ArrearsLedgerProps {
+  incomes: Income[]; // Entries of a single tenant or source
+  today: string;
+}
+
+// Dues and payments of one tenant/source in date order, with the running balance owed
+const ArrearsLedger: React.FC<ArrearsLedgerProps> = ({ incomes, today }) => {
+  const { currency, t } = useData();
+  const entries = useMemo(() => buildArrearsLedger(incomes, today), [incomes, today]);
+
+  if (entries.length === 0) {
+      return <p className="text-sm text-gray-400 dark:text-slate-500 text-center py-4">{t('No rent recorded yet.')}</p>;
+  }
+
+  return (
+    <div className="rounded-xl border border-gray-100 dark:border-slate-700 overflow-hidden">
+        <div className="grid grid-cols-4 gap-2 px-3 py-2 bg-gray-50 dark:bg-slate-700/50 text-[10px] uppercase font-bold text-gray-400">
+            <span>{t('Date')}</span>
+            <span className="text-right">{t('Due')}</span>
+            <span className="text-right">{t('Paid')}</span>
+            <span className="text-right">{t('Balance')}</span>
+        </div>
+        {entries.slice().reverse().map(entry => (
+            <div key={entry.id} className="grid grid-cols-4 gap-2 px-3 py-2 text-sm border-t border-gray-50 dark:border-slate-700/50">
+                <span className="text-gray-600 dark:text-slate-300">
+                    {new Date(entry.date).toLocaleDateString(undefined, { month: 'short', day: 'numeric', year: '2-digit' })}
+                </span>
+                <span className="text-right text-gray-800 dark:text-white">{entry.type === 'due' ? `${currency}${entry.amount.toFixed(0)}` : ''}</span>
+                <span className="text-right text-teal-600 dark:text-teal-400">{entry.type === 'payment' ? `${currency}${entry.amount.toFixed(0)}` : ''}</span>
+                <span className={`text-right font-semibold ${entry.balance > 0 ? 'text-red-500' : 'text-gray-500 dark:text-slate-400'}`}>
+                    {entry.balance < 0 ? `-${currency}${Math.abs(entry.balance).toFixed(0)}` : `${currency}${entry.balance.toFixed(0)}`}
+                </span>
+            </div>
+        ))}
+    </div>
+  );
+};
+
+export default ArrearsLedger;
@@ -1,8 +1,11 @@
 
 import React, { useState } from 'react';
 import { useData } from '../contexts/DataContext';
-import { Category, Budget } from '../types';
+import { Category } from '../types';
 import { Edit2, Save, AlertTriangle, ChevronRight, ArrowLeft } from 'lucide-react';
+import { getTopLevelCategories } from '../utils/categories';
+import { getCategorySpend } from '../utils/splits';
+import CategoryBadge from './CategoryBadge';
 
 interface BudgetViewProps {
   onCategorySelect: (category: Category) => void;
@@ -10,7 +13,7 @@ interface BudgetViewProps {
 }
 
 const BudgetView: React.FC<BudgetViewProps> = ({ onCategorySelect, onBack }) => {
-  const { expenses, budgets, setBudget, currency, t } = useData();
+  const { expenses, budgets, categories: allCategories, setBudget, currency, t } = useData();
   const [editingCategory, setEditingCategory] = useState<Category | null>(null);
   const [editAmount, setEditAmount] = useState('');
   const [error, setError] = useState(false);
@@ -21,14 +24,15 @@ const BudgetView: React.FC<BudgetViewProps> = ({ onCategorySelect, onBack }) =>
     
     // Get current month spending for this category
     const currentMonth = new Date().toISOString().slice(0, 7); // YYYY-MM
-    const spent = expenses
-      .filter(e => e.category === category && e.date.startsWith(currentMonth))
-      .reduce((acc, curr) => acc + curr.amount, 0);
+    const spent = getCategorySpend(expenses.filter(e => e.date.startsWith(currentMonth)), category);
 
     return { spent, limit, percentage: Math.min((spent / limit) * 100, 100) };
   };
 
-  const categories: Category[] = ['Food', 'Transport', 'Entertainment', 'Utilities', 'Healthcare', 'Shopping', 'Housing', 'Other'];
+  // Budgets are set per top-level category and include spending in its subcategories.
+  // Archived categories stay listed while they still have a budget.
+  const categories = getTopLevelCategories(allCategories, 'expense', true)
+    .filter(c => !c.archived || budgets.some(b => b.category === c.id && b.limit > 0));
 
   const handleEditClick = (e: React.MouseEvent, category: Category, currentLimit: number) => {
     e.stopPropagation();
@@ -81,7 +85,7 @@ const BudgetView: React.FC<BudgetViewProps> = ({ onCategorySelect, onBack }) =>
 
       <div className="flex-1 overflow-y-auto p-6 pt-2 no-scrollbar">
         <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
-            {categories.map(category => {
+            {categories.map(({ id: category, name }) => {
             const { spent, limit, percentage } = calculateProgress(category);
             const isOverBudget = spent > limit && limit > 0;
             const isEditing = editingCategory === category;
@@ -94,7 +98,8 @@ const BudgetView: React.FC<BudgetViewProps> = ({ onCategorySelect, onBack }) =>
                 >
                 <div className="flex justify-between items-center mb-2">
                     <div className="flex items-center space-x-2">
-                        <span className="font-semibold text-gray-700 dark:text-white">{t(category)}</span>
+                        <CategoryBadge category={category} size={14} className="w-7 h-7" />
+                        <span className="font-semibold text-gray-700 dark:text-white">{t(name)}</span>
                         {isOverBudget && <AlertTriangle size={16} className="text-red-500" />}
                     </div>
                     
@@ -0,0 +1,119 @@
+import React, { useState } from 'react';
+import { useData } from '../contexts/DataContext';
+import { CategoryDefinition, CategoryKind } from '../types';
+import { getSubcategories, getTopLevelCategories } from '../utils/categories';
+import { ArrowLeft, Plus, ChevronRight } from 'lucide-react';
+import CategoryIcon from './CategoryIcon';
+import CategoryForm from './CategoryForm';
+
+interface CategoriesScreenProps {
+  onBack: () => void;
+}
+
+const CategoriesScreen: React.FC<CategoriesScreenProps> = ({ onBack }) => {
+  const { categories, t } = useData();
+  const [kind, setKind] = useState<CategoryKind>('expense');
+  const [editing, setEditing] = useState<CategoryDefinition | null>(null);
+  const [adding, setAdding] = useState<{ parentId?: string } | null>(null);
+
+  const parents = getTopLevelCategories(categories, kind, true);
+  const active = parents.filter(c => !c.archived);
+  const archived = parents.filter(c => c.archived);
+
+  const renderRow = (category: CategoryDefinition, isSubcategory = false) => (
+      <button
+          key={category.id}
+          onClick={() => setEditing(category)}
+          className={`w-full flex items-center justify-between py-3 pr-4 ${isSubcategory ? 'pl-14' : 'pl-4'} hover:bg-gray-50 dark:hover:bg-slate-700/50 transition-colors text-left ${category.archived ? 'opacity-60' : ''}`}
+      >
+          <div className="flex items-center space-x-3 min-w-0">
+              <div
+                  className={`${isSubcategory ? 'w-7 h-7' : 'w-9 h-9'} rounded-full flex items-center justify-center shrink-0`}
+                  style={{ backgroundColor: `${category.color}26`, color: category.color }}
+              >
+                  <CategoryIcon icon={category.icon} size={isSubcategory ? 14 : 18} />
+              </div>
+              <span className={`truncate ${isSubcategory ? 'text-sm text-gray-700 dark:text-slate-300' : 'font-semibold text-gray-800 dark:text-white'}`}>
+                  {t(category.name)}
+              </span>
+          </div>
+          <ChevronRight size={16} className="text-gray-300 dark:text-slate-600 shrink-0" />
+      </button>
+  );
+
+  const renderGroup = (parent: CategoryDefinition) => (
+      <div key={parent.id} className="bg-white dark:bg-slate-800 rounded-2xl shadow-sm border border-gray-100 dark:border-slate-700 overflow-hidden divide-y divide-gray-50 dark:divide-slate-700/50">
+          {renderRow(parent)}
+          {getSubcategories(categories, parent.id, true).map(sub => renderRow(sub, true))}
+          {!parent.archived && (
+              <button
+                  onClick={() => setAdding({ parentId: parent.id })}
+                  className="w-full flex items-center py-2.5 pl-14 pr-4 text-xs font-semibold text-teal-600 dark:text-teal-400 hover:bg-gray-50 dark:hover:bg-slate-700/50 transition-colors"
+              >
+                  <Plus size={14} className="mr-1" />
+                  {t('Add Subcategory')}
+              </button>
+          )}
+      </div>
+  );
+
+  return (
+    <div className="h-full flex flex-col animate-fade-in bg-gray-50 dark:bg-slate-900 transition-colors">
+      <div className="shrink-0 p-6 pb-2 z-10 bg-gray-50 dark:bg-slate-900 transition-colors">
+        <header className="flex items-center justify-between py-2">
+            <div className="flex items-center space-x-3">
+                <button
+                onClick={onBack}
+                className="p-2 -ml-2 rounded-full hover:bg-gray-200 dark:hover:bg-slate-800 text-gray-600 dark:text-gray-300 transition-colors"
+                >
+                <ArrowLeft size={24} />
+                </button>
+                <h1 className="text-2xl font-bold text-gray-800 dark:text-white">{t('Categories')}</h1>
+            </div>
+            <button
+                onClick={() => setAdding({})}
+                className="p-2 bg-teal-600 text-white rounded-full shadow-md hover:bg-teal-700 transition-colors"
+            >
+                <Plus size={20} />
+            </button>
+        </header>
+
+        <div className="flex bg-gray-200 dark:bg-slate-800 p-1 rounded-xl mt-2 max-w-2xl mx-auto">
+            {(['expense', 'income'] as CategoryKind[]).map(option => (
+                <button
+                    key={option}
+                    onClick={() => setKind(option)}
+                    className={`flex-1 py-2 rounded-lg text-sm font-semibold transition-colors ${kind === option ? 'bg-white dark:bg-slate-700 text-gray-900 dark:text-white shadow-sm' : 'text-gray-500 dark:text-slate-400'}`}
+                >
+                    {option === 'expense' ? t('Expense') : t('Income')}
+                </button>
+            ))}
+        </div>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-6 pt-2 no-scrollbar">
+        <div className="max-w-2xl mx-auto w-full space-y-3">
+            {active.map(renderGroup)}
+
+            {archived.length > 0 && (
+                <section className="space-y-3 pt-3">
+                    <h3 className="text-sm font-semibold text-gray-500 dark:text-slate-400 uppercase tracking-wider">{t('Archived')}</h3>
+                    {archived.map(renderGroup)}
+                </section>
+            )}
+        </div>
+      </div>
+
+      {(adding || editing) && (
+          <CategoryForm
+              category={editing || undefined}
+              kind={kind}
+              parentId={adding?.parentId}
+              onClose={() => { setAdding(null); setEditing(null); }}
+          />
+      )}
+    </div>
+  );
+};
+
+export default CategoriesScreen;
@@ -0,0 +1,30 @@
+import React from 'react';
+import { useData } from '../contexts/DataContext';
+import { findCategory } from '../utils/categories';
+import CategoryIcon from './CategoryIcon';
+
+interface CategoryBadgeProps {
+  category: string;
+  subcategory?: string;
+  size?: number; // Icon size
+  className?: string; // Circle size, e.g. "w-10 h-10"
+}
+
+// Round icon of a record's category in the category colour; a subcategory's own icon wins over its parent's
+const CategoryBadge: React.FC<CategoryBadgeProps> = ({ category, subcategory, size = 18, className = 'w-10 h-10' }) => {
+  const { categories } = useData();
+  const parent = findCategory(categories, category);
+  const icon = findCategory(categories, subcategory)?.icon || parent?.icon;
+  const color = parent?.color || '#64748B';
+
+  return (
+    <div
+      className={`${className} rounded-full flex items-center justify-center flex-shrink-0`}
+      style={{ backgroundColor: `${color}26`, color }}
+    >
+      <CategoryIcon icon={icon} size={size} />
+    </div>
+  );
+};
+
+export default CategoryBadge;
@@ -4,6 +4,8 @@ import { useData } from '../contexts/DataContext';
 import { Category, Expense } from '../types';
 import { ArrowLeft, ArrowUpDown, Filter, Calendar, Trash2, X, AlertCircle } from 'lucide-react';
 import DatePicker from './DatePicker';
+import { getCategoryName, getSubcategories } from '../utils/categories';
+import { getExpenseParts, isSplitExpense } from '../utils/splits';
 
 interface CategoryExpensesViewProps {
   category: Category;
@@ -13,8 +15,18 @@ interface CategoryExpensesViewProps {
 type SortOption = 'date-desc' | 'date-asc' | 'amount-desc' | 'amount-asc';
 
 const CategoryExpensesView: React.FC<CategoryExpensesViewProps> = ({ category, onBack }) => {
-  const { expenses, currency, deleteExpense, t } = useData();
+  const { expenses, categories, currency, deleteExpense, t } = useData();
   const [sortOption, setSortOption] = useState<SortOption>('date-desc');
+  const [subcategoryFilter, setSubcategoryFilter] = useState<string | null>(null);
+
+  // A split expense is listed once per line in this category, with that line's amount
+  const categoryEntries = useMemo(() => expenses.flatMap(e => getExpenseParts(e)
+      .map((part, index) => ({ ...e, ...part, key: `${e.id}:${index}`, total: e.amount, isSplit: isSplitExpense(e) }))
+      .filter(entry => entry.category === category)
+  ), [expenses, category]);
+
+  const subcategories = getSubcategories(categories, category, true)
+      .filter(sub => !sub.archived || categoryEntries.some(e => e.subcategory === sub.id));
   const [showFilters, setShowFilters] = useState(false);
   
   // Filter States
@@ -38,7 +50,11 @@ const CategoryExpensesView: React.FC<CategoryExpensesViewProps> = ({ category, o
     // Skip filtering if invalid ranges
     if (dateError || amountError) return [];
 
-    let result = expenses.filter(e => e.category === category);
+    let result = [...categoryEntries];
+
+    if (subcategoryFilter) {
+      result = result.filter(e => e.subcategory === subcategoryFilter);
+    }
 
     // Apply Date Filter
     if (startDate) {
@@ -71,7 +87,7 @@ const CategoryExpensesView: React.FC<CategoryExpensesViewProps> = ({ category, o
           return 0;
       }
     });
-  }, [expenses, category, startDate, endDate, minAmount, maxAmount, sortOption, dateError, amountError]);
+  }, [categoryEntries, subcategoryFilter, startDate, endDate, minAmount, maxAmount, sortOption, dateError, amountError]);
 
   const totalAmount = filteredAndSortedExpenses.reduce((sum, e) => sum + e.amount, 0);
 
@@ -115,7 +131,7 @@ const CategoryExpensesView: React.FC<CategoryExpensesViewProps> = ({ category, o
             <ArrowLeft size={24} />
             </button>
             <div>
-            <h1 className="text-2xl font-bold text-gray-800 dark:text-white">{t(category)}</h1>
+            <h1 className="text-2xl font-bold text-gray-800 dark:text-white">{t(getCategoryName(categories, category))}</h1>
             <p className="text-sm text-gray-500 dark:text-slate-400">{filteredAndSortedExpenses.length} {t('records')} • {t('Total')} {currency}{totalAmount.toFixed(2)}</p>
             </div>
         </header>
@@ -219,6 +235,21 @@ const CategoryExpensesView: React.FC<CategoryExpensesViewProps> = ({ category, o
                     )}
                 </div>
             )}
+
+            {/* Subcategory Pills */}
+            {subcategories.length > 0 && (
+                <div className="flex overflow-x-auto no-scrollbar space-x-2 pt-2 border-t border-gray-50 dark:border-slate-700">
+                    {[{ id: null as string | null, name: 'All' }, ...subcategories].map(sub => (
+                        <button
+                            key={sub.id || 'all'}
+                            onClick={() => setSubcategoryFilter(sub.id)}
+                            className={`flex-shrink-0 px-3 py-1.5 rounded-full text-xs font-medium whitespace-nowrap transition-colors ${subcategoryFilter === sub.id ? 'bg-teal-600 text-white' : 'bg-gray-100 dark:bg-slate-700 text-gray-600 dark:text-slate-300'}`}
+                        >
+                            {t(sub.name)}
+                        </button>
+                    ))}
+                </div>
+            )}
         </div>
       </div>
 
@@ -239,7 +270,7 @@ const CategoryExpensesView: React.FC<CategoryExpensesViewProps> = ({ category, o
         ) : (
             <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-3">
             {filteredAndSortedExpenses.map(expense => (
-                <div key={expense.id} className="bg-white dark:bg-slate-800 p-4 rounded-xl shadow-sm border border-slate-50 dark:border-slate-700 flex justify-between items-center transition-colors">
+                <div key={expense.key} className="bg-white dark:bg-slate-800 p-4 rounded-xl shadow-sm border border-slate-50 dark:border-slate-700 flex justify-between items-center transition-colors">
                     <div className="flex items-center space-x-3">
                          <div className="bg-gray-100 dark:bg-slate-700 w-10 h-10 rounded-full flex items-center justify-center text-gray-500 dark:text-slate-400">
                              <Calendar size={18} />
@@ -250,13 +281,24 @@ const CategoryExpensesView: React.FC<CategoryExpensesViewProps> = ({ category, o
                                 {new Date(expense.date).toLocaleDateString(undefined, { month: 'short', day: 'numeric', year: 'numeric' })}
                                 <span className="mx-1">•</span>
                                 {t(expense.paymentMethod)}
+                                {expense.subcategory && (
+                                    <><span className="mx-1">•</span>{t(getCategoryName(categories, expense.subcategory))}</>
+                                )}
                              </div>
+                             {expense.isSplit && (
+                                <div className="text-xs text-teal-600 dark:text-teal-400">
+                                    {t('Part of')} {currency}{expense.total.toFixed(2)}{expense.note ? ` • ${expense.note}` : ''}
+                                </div>
+                             )}
                          </div>
                     </div>
                     <div className="flex items-center space-x-3">
                         <span className="font-bold text-gray-800 dark:text-white">{currency}{expense.amount.toFixed(2)}</span>
                         <button 
-                            onClick={() => deleteExpense(expense.id)}
+                            onClick={() => {
+                                // Deleting a line removes the whole split transaction
+                                if (!expense.isSplit || confirm(t('delete_split_expense_confirm'))) deleteExpense(expense.id);
+                            }}
                             className="text-gray-300 dark:text-slate-600 hover:text-red-500 dark:hover:text-red-400 transition-colors p-2"
                         >
                             <Trash2 size={16} />
@@ -0,0 +1,225 @@
+import React, { useState } from 'react';
+import { useData } from '../contexts/DataContext';
+import { CategoryDefinition, CategoryKind } from '../types';
+import { CATEGORY_COLORS, findCategory, getTopLevelCategories, isCategoryInUse, isProtectedCategory } from '../utils/categories';
+import { X, Archive, Trash2 } from 'lucide-react';
+import CategoryIcon, { CATEGORY_ICONS } from './CategoryIcon';
+
+interface CategoryFormProps {
+  onClose: () => void;
+  category?: CategoryDefinition; // When provided, the form edits this category instead of adding a new one
+  kind?: CategoryKind; // Kind of a new category
+  parentId?: string; // Parent of a new subcategory
+}
+
+const CategoryForm: React.FC<CategoryFormProps> = ({ onClose, category, kind: initialKind = 'expense', parentId: initialParentId }) => {
+  const { categories, addCategory, updateCategory, deleteCategory, expenses, incomes, recurringExpenses, budgets, goals, t } = useData();
+  const initialParent = findCategory(categories, category?.parentId || initialParentId);
+  const [name, setName] = useState(category?.name || '');
+  const [kind, setKind] = useState<CategoryKind>(category?.kind || initialParent?.kind || initialKind);
+  // The parent is fixed once created, so records never need to move between categories
+  const [parentId, setParentId] = useState(category?.parentId || initialParentId || '');
+  const [icon, setIcon] = useState(category?.icon || initialParent?.icon || 'tag');
+  const [color, setColor] = useState(category?.color || initialParent?.color || CATEGORY_COLORS[0]);
+  const [error, setError] = useState('');
+
+  // Categories with history can only be archived, so past entries keep pointing at them
+  const inUse = !!category && isCategoryInUse(categories, category.id, { expenses, incomes, recurringExpenses, budgets, goals });
+  const isProtected = !!category && isProtectedCategory(category.id);
+  const hasSubcategories = !!category && categories.some(c => c.parentId === category.id);
+  const parentOptions = getTopLevelCategories(categories, kind).filter(c => c.id !== category?.id);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const trimmed = name.trim();
+    if (!trimmed) {
+        setError(t('Category name is required'));
+        return;
+    }
+    const duplicate = categories.some(c =>
+        c.id !== category?.id && c.kind === kind && (c.parentId || '') === parentId && c.name.toLowerCase() === trimmed.toLowerCase()
+    );
+    if (duplicate) {
+        setError(t('A category with this name already exists'));
+        return;
+    }
+
+    const details = {
+      name: trimmed,
+      kind,
+      icon,
+      color,
+      parentId: parentId || undefined,
+      archived: category?.archived,
+    };
+
+    if (category) {
+      updateCategory(category.id, details);
+    } else {
+      addCategory(details);
+    }
+    onClose();
+  };
+
+  const handleArchiveToggle = () => {
+    if (!category) return;
+    const { id, createdAt, ...details } = category;
+    updateCategory(id, { ...details, archived: !category.archived });
+    onClose();
+  };
+
+  const handleDelete = () => {
+    if (!category) return;
+    if (confirm(t('delete_category_confirm'))) {
+        deleteCategory(category.id);
+        onClose();
+    }
+  };
+
+  return (
+    <div
+      className="fixed inset-0 bg-black/50 z-50 flex items-end sm:items-center justify-center animate-fade-in backdrop-blur-sm"
+      onClick={onClose}
+    >
+      <div
+        className="bg-white dark:bg-slate-800 w-full sm:max-w-md sm:rounded-2xl rounded-t-2xl px-6 pt-6 pb-[calc(2rem+env(safe-area-inset-bottom))] sm:pb-6 shadow-xl max-h-[90vh] h-auto overflow-y-auto no-scrollbar"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex justify-between items-center mb-6">
+          <h2 className="text-xl font-bold text-gray-800 dark:text-white">{category ? t('Edit Category') : t('Add Category')}</h2>
+          <button onClick={onClose} className="p-2 bg-gray-100 dark:bg-slate-700 rounded-full hover:bg-gray-200 dark:hover:bg-slate-600 transition-colors">
+            <X size={20} className="text-gray-600 dark:text-slate-300" />
+          </button>
+        </div>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-slate-300 mb-1">{t('Category Name')}</label>
+            <div className="relative">
+                <div className="absolute left-3 top-3" style={{ color }}>
+                    <CategoryIcon icon={icon} size={20} />
+                </div>
+                <input
+                    type="text"
+                    value={name}
+                    onChange={(e) => { setName(e.target.value); setError(''); }}
+                    className="w-full pl-11 pr-4 py-3 bg-gray-50 dark:bg-slate-700 border border-gray-200 dark:border-slate-600 rounded-xl focus:outline-none focus:ring-2 focus:ring-teal-500 text-gray-900 dark:text-white"
+                    placeholder="e.g., Groceries"
+                />
+            </div>
+          </div>
+
+          {!category && (
+            <div>
+                <label className="block text-sm font-medium text-gray-700 dark:text-slate-300 mb-2">{t('Type')}</label>
+                <div className="grid grid-cols-2 gap-2">
+                    {(['expense', 'income'] as CategoryKind[]).map(option => (
+                        <button
+                            key={option}
+                            type="button"
+                            onClick={() => { setKind(option); setParentId(''); }}
+                            className={`py-2 rounded-lg text-sm font-medium transition-colors ${
+                                kind === option
+                                ? 'bg-teal-600 text-white shadow-md'
+                                : 'bg-gray-100 dark:bg-slate-700 text-gray-600 dark:text-slate-300 hover:bg-gray-200 dark:hover:bg-slate-600'
+                            }`}
+                        >
+                            {option === 'expense' ? t('Expense') : t('Income')}
+                        </button>
+                    ))}
+                </div>
+            </div>
+          )}
+
+          {!hasSubcategories && (
+            <div>
+                <label className="block text-sm font-medium text-gray-700 dark:text-slate-300 mb-1">{t('Subcategory of')}</label>
+                <select
+                    value={parentId}
+                    disabled={!!category || isProtected}
+                    onChange={(e) => setParentId(e.target.value)}
+                    className="w-full px-4 py-3 bg-gray-50 dark:bg-slate-700 border border-gray-200 dark:border-slate-600 rounded-xl focus:outline-none focus:ring-2 focus:ring-teal-500 appearance-none text-gray-900 dark:text-white disabled:opacity-60"
+                >
+                    <option value="">{t('None (main category)')}</option>
+                    {parentOptions.map(c => (
+                        <option key={c.id} value={c.id}>{t(c.name)}</option>
+                    ))}
+                    {category?.parentId && !parentOptions.some(c => c.id === category.parentId) && (
+                        <option value={category.parentId}>{t(initialParent?.name || category.parentId)}</option>
+                    )}
+                </select>
+            </div>
+          )}
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-slate-300 mb-2">{t('Icon')}</label>
+            <div className="grid grid-cols-7 gap-2">
+                {Object.keys(CATEGORY_ICONS).map(key => (
+                    <button
+                        key={key}
+                        type="button"
+                        onClick={() => setIcon(key)}
+                        className={`aspect-square flex items-center justify-center rounded-lg transition-colors ${
+                            icon === key ? 'ring-2 ring-teal-500 bg-teal-50 dark:bg-teal-900/30' : 'bg-gray-100 dark:bg-slate-700 hover:bg-gray-200 dark:hover:bg-slate-600'
+                        }`}
+                        style={icon === key ? { color } : undefined}
+                    >
+                        <CategoryIcon icon={key} size={18} className={icon === key ? '' : 'text-gray-500 dark:text-slate-400'} />
+                    </button>
+                ))}
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-slate-300 mb-2">{t('Colour')}</label>
+            <div className="flex flex-wrap gap-2">
+                {CATEGORY_COLORS.map(option => (
+                    <button
+                        key={option}
+                        type="button"
+                        onClick={() => setColor(option)}
+                        className={`w-8 h-8 rounded-full transition-transform ${color === option ? 'ring-2 ring-offset-2 ring-teal-500 dark:ring-offset-slate-800 scale-110' : ''}`}
+                        style={{ backgroundColor: option }}
+                        aria-label={option}
+                    />
+                ))}
+            </div>
+          </div>
+
+          {error && <p className="text-red-500 text-xs">{error}</p>}
+
+          <button
+            type="submit"
+            className="w-full bg-teal-600 text-white py-4 rounded-xl font-bold text-lg hover:bg-teal-700 shadow-lg shadow-teal-600/20 transition-transform active:scale-[0.98] mt-4"
+          >
+            {t('Save Category')}
+          </button>
+
+          {category && !isProtected && (
+            inUse ? (
+                <button
+                    type="button"
+                    onClick={handleArchiveToggle}
+                    className="w-full flex items-center justify-center space-x-2 py-3 rounded-xl font-semibold text-sm text-gray-600 dark:text-slate-300 bg-gray-100 dark:bg-slate-700 hover:bg-gray-200 dark:hover:bg-slate-600 transition-colors"
+                >
+                    <Archive size={16} />
+                    <span>{category.archived ? t('Unarchive Category') : t('Archive Category')}</span>
+                </button>
+            ) : (
+                <button
+                    type="button"
+                    onClick={handleDelete}
+                    className="w-full flex items-center justify-center space-x-2 py-3 rounded-xl font-semibold text-sm text-red-600 bg-red-50 dark:bg-red-900/20 hover:bg-red-100 dark:hover:bg-red-900/30 transition-colors"
+                >
+                    <Trash2 size={16} />
+                    <span>{t('Delete Category')}</span>
+                </button>
+            )
+          )}
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default CategoryForm;
@@ -0,0 +1,52 @@
+import React from 'react';
+import {
+  Utensils, Car, Film, Zap, HeartPulse, ShoppingBag, Home, Tag, ShoppingCart, Coffee, Fuel, Bus, Wifi, Smartphone,
+  GraduationCap, Plane, Baby, PawPrint, Shirt, Dumbbell, Receipt, Wrench, BookOpen, Music, Pill, Gift,
+  Briefcase, Building2, Percent, Store, HandCoins, TrendingUp, Landmark, Wallet, Sparkles,
+} from 'lucide-react';
+
+// Icons a category can use; CategoryDefinition.icon holds the key
+export const CATEGORY_ICONS: Record<string, React.ElementType> = {
+  'utensils': Utensils,
+  'shopping-cart': ShoppingCart,
+  'coffee': Coffee,
+  'car': Car,
+  'fuel': Fuel,
+  'bus': Bus,
+  'plane': Plane,
+  'film': Film,
+  'music': Music,
+  'zap': Zap,
+  'wifi': Wifi,
+  'smartphone': Smartphone,
+  'heart-pulse': HeartPulse,
+  'pill': Pill,
+  'dumbbell': Dumbbell,
+  'shopping-bag': ShoppingBag,
+  'shirt': Shirt,
+  'home': Home,
+  'wrench': Wrench,
+  'graduation-cap': GraduationCap,
+  'book-open': BookOpen,
+  'baby': Baby,
+  'paw-print': PawPrint,
+  'receipt': Receipt,
+  'gift': Gift,
+  'briefcase': Briefcase,
+  'building': Building2,
+  'percent': Percent,
+  'store': Store,
+  'trending-up': TrendingUp,
+  'landmark': Landmark,
+  'wallet': Wallet,
+  'hand-coins': HandCoins,
+  'sparkles': Sparkles,
+  'tag': Tag,
+};
+
+const CategoryIcon: React.FC<{ icon?: string; size?: number; className?: string }> = ({ icon, size = 18, className }) => {
+  const Icon = (icon && CATEGORY_ICONS[icon]) || Tag;
+  return <Icon size={size} className={className} />;
+};
+
+export default CategoryIcon;
@@ -0,0 +1,52 @@
+import React from 'react';
+import { useData } from '../contexts/DataContext';
+import { CategoryKind } from '../types';
+import { findCategory, getSubcategories, getTopLevelCategories } from '../utils/categories';
+
+interface CategoryPickerProps {
+  kind: CategoryKind;
+  category: string;
+  subcategory?: string;
+  onChange: (category: string, subcategory?: string) => void;
+  className?: string;
+}
+
+// One select listing each category followed by its subcategories. An option's value is the id of the
+// subcategory or category it stands for; choosing a subcategory also sets its parent.
+const CategoryPicker: React.FC<CategoryPickerProps> = ({ kind, category, subcategory, onChange, className }) => {
+  const { categories, t } = useData();
+
+  // Keep the record's own category listed even after it was archived
+  const isVisible = (id: string) => !findCategory(categories, id)?.archived || id === category || id === subcategory;
+  const parents = getTopLevelCategories(categories, kind, true).filter(c => isVisible(c.id));
+
+  const handleChange = (id: string) => {
+      const selected = findCategory(categories, id);
+      if (selected?.parentId) {
+          onChange(selected.parentId, selected.id);
+      } else {
+          onChange(id);
+      }
+  };
+
+  return (
+    <select
+      value={subcategory || category}
+      onChange={(e) => handleChange(e.target.value)}
+      className={className || "w-full px-4 py-3 bg-gray-50 dark:bg-slate-700 border border-gray-200 dark:border-slate-600 rounded-xl focus:outline-none focus:ring-2 focus:ring-teal-500 appearance-none text-gray-900 dark:text-white"}
+    >
+      {parents.map(parent => (
+        <React.Fragment key={parent.id}>
+          <option value={parent.id}>{t(parent.name)}</option>
+          {getSubcategories(categories, parent.id, true).filter(c => isVisible(c.id)).map(sub => (
+            <option key={sub.id} value={sub.id}>{t(parent.name)} › {t(sub.name)}</option>
+          ))}
+        </React.Fragment>
+      ))}
+      {/* Records may still point at a category removed from this device (e.g. restored from an older backup) */}
+      {!findCategory(categories, category) && <option value={category}>{t(category)}</option>}
+    </select>
+  );
+};
+
+export default CategoryPicker;
@@ -0,0 +1,138 @@
+import React, { useState } from 'react';
+import { useData } from '../contexts/DataContext';
+import { Contact } from '../types';
+import { isContactInUse } from '../utils/sharing';
+import { X, User, Phone, Archive, Trash2 } from 'lucide-react';
+
+interface ContactFormProps {
+  onClose: () => void;
+  contact?: Contact; // When provided, the form edits this contact instead of adding a new one
+}
+
+const ContactForm: React.FC<ContactFormProps> = ({ onClose, contact }) => {
+  const { addContact, updateContact, deleteContact, expenses, recurringExpenses, settlements, groups, loans, t } = useData();
+  const [name, setName] = useState(contact?.name || '');
+  const [mobile, setMobile] = useState(contact?.mobile || '');
+  const [error, setError] = useState('');
+
+  // Contacts with shared history can only be archived, so balances keep their names
+  const inUse = !!contact && isContactInUse(contact.id, { expenses, recurringExpenses, settlements, groups, loans });
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim()) {
+        setError(t('Name is required'));
+        return;
+    }
+
+    const details = {
+      name: name.trim(),
+      mobile: mobile.trim() || undefined,
+      archived: contact?.archived,
+    };
+
+    if (contact) {
+      updateContact(contact.id, details);
+    } else {
+      addContact(details);
+    }
+    onClose();
+  };
+
+  const handleArchiveToggle = () => {
+    if (!contact) return;
+    const { id, createdAt, ...details } = contact;
+    updateContact(id, { ...details, archived: !contact.archived });
+    onClose();
+  };
+
+  const handleDelete = () => {
+    if (!contact) return;
+    if (confirm(t('delete_contact_confirm'))) {
+        deleteContact(contact.id);
+        onClose();
+    }
+  };
+
+  return (
+    <div
+      className="fixed inset-0 bg-black/50 z-50 flex items-end sm:items-center justify-center animate-fade-in backdrop-blur-sm"
+      onClick={onClose}
+    >
+      <div
+        className="bg-white dark:bg-slate-800 w-full sm:max-w-md sm:rounded-2xl rounded-t-2xl px-6 pt-6 pb-[calc(2rem+env(safe-area-inset-bottom))] sm:pb-6 shadow-xl max-h-[90vh] h-auto overflow-y-auto no-scrollbar"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex justify-between items-center mb-6">
+          <h2 className="text-xl font-bold text-gray-800 dark:text-white">{contact ? t('Edit Contact') : t('Add Contact')}</h2>
+          <button onClick={onClose} className="p-2 bg-gray-100 dark:bg-slate-700 rounded-full hover:bg-gray-200 dark:hover:bg-slate-600 transition-colors">
+            <X size={20} className="text-gray-600 dark:text-slate-300" />
+          </button>
+        </div>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-slate-300 mb-1">{t('Name')}</label>
+            <div className="relative">
+                <User className="absolute left-3 top-3.5 text-gray-400 dark:text-slate-500" size={18} />
+                <input
+                    type="text"
+                    value={name}
+                    onChange={(e) => { setName(e.target.value); setError(''); }}
+                    className="w-full pl-10 pr-4 py-3 bg-gray-50 dark:bg-slate-700 border border-gray-200 dark:border-slate-600 rounded-xl focus:outline-none focus:ring-2 focus:ring-teal-500 text-gray-900 dark:text-white"
+                    placeholder="e.g., Priya"
+                />
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-slate-300 mb-1">{t('Mobile Number')}</label>
+            <div className="relative">
+                <Phone className="absolute left-3 top-3.5 text-gray-400 dark:text-slate-500" size={18} />
+                <input
+                    type="tel"
+                    value={mobile}
+                    onChange={(e) => setMobile(e.target.value)}
+                    className="w-full pl-10 pr-4 py-3 bg-gray-50 dark:bg-slate-700 border border-gray-200 dark:border-slate-600 rounded-xl focus:outline-none focus:ring-2 focus:ring-teal-500 text-gray-900 dark:text-white"
+                    placeholder="e.g., 9876543210"
+                />
+            </div>
+          </div>
+
+          {error && <p className="text-red-500 text-xs">{error}</p>}
+
+          <button
+            type="submit"
+            className="w-full bg-teal-600 text-white py-4 rounded-xl font-bold text-lg hover:bg-teal-700 shadow-lg shadow-teal-600/20 transition-transform active:scale-[0.98] mt-4"
+          >
+            {t('Save Contact')}
+          </button>
+
+          {contact && (
+            inUse ? (
+                <button
+                    type="button"
+                    onClick={handleArchiveToggle}
+                    className="w-full flex items-center justify-center space-x-2 py-3 rounded-xl font-semibold text-sm text-gray-600 dark:text-slate-300 bg-gray-100 dark:bg-slate-700 hover:bg-gray-200 dark:hover:bg-slate-600 transition-colors"
+                >
+                    <Archive size={16} />
+                    <span>{contact.archived ? t('Unarchive Contact') : t('Archive Contact')}</span>
+                </button>
+            ) : (
+                <button
+                    type="button"
+                    onClick={handleDelete}
+                    className="w-full flex items-center justify-center space-x-2 py-3 rounded-xl font-semibold text-sm text-red-600 bg-red-50 dark:bg-red-900/20 hover:bg-red-100 dark:hover:bg-red-900/30 transition-colors"
+                >
+                    <Trash2 size={16} />
+                    <span>{t('Delete Contact')}</span>
+                </button>
+            )
+          )}
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default ContactForm;
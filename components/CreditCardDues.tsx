@@ -0,0 +1,100 @@
+import React, { useMemo, useState } from 'react';
+import { useData } from '../contexts/DataContext';
+import { getCardSummaries, CardSummary } from '../utils/creditCards';
+import { CreditCard, CheckCircle } from 'lucide-react';
+import TransferForm from './TransferForm';
+
+// Statement, due date and utilisation of each credit card, with a shortcut to pay the bill
+const CreditCardDues: React.FC<{ today: string }> = ({ today }) => {
+  const { accounts, expenses, incomes, transfers, settlements, loans, emiPlans, currency, t } = useData();
+  const [paying, setPaying] = useState<CardSummary | null>(null);
+
+  const cards = useMemo(
+      () => getCardSummaries(accounts, { expenses, incomes, transfers, settlements, loans, emiPlans }, today),
+      [accounts, expenses, incomes, transfers, settlements, loans, emiPlans, today]
+  );
+
+  if (cards.length === 0) return null;
+
+  const formatDay = (date: string) => new Date(`${date}T00:00:00`).toLocaleDateString(undefined, { month: 'short', day: 'numeric' });
+
+  return (
+    <div className="bg-white dark:bg-slate-800 p-4 rounded-2xl shadow-sm border border-slate-100 dark:border-slate-700">
+        <div className="flex items-center space-x-2 mb-3">
+            <div className="bg-rose-50 dark:bg-rose-900/30 p-2 rounded-full text-rose-600 dark:text-rose-400">
+                <CreditCard size={20} />
+            </div>
+            <h3 className="text-xs font-bold text-gray-500 dark:text-slate-400 uppercase tracking-wide">{t('Credit Card Dues')}</h3>
+        </div>
+
+        <div className="space-y-4">
+            {cards.map(card => {
+                const statement = card.statement;
+                const isDue = !!statement && statement.remaining > 0;
+                const isOverdue = isDue && statement!.dueDate < today;
+                const utilisation = card.utilisation !== undefined ? Math.round(card.utilisation * 100) : undefined;
+
+                return (
+                    <div key={card.account.id} className="space-y-2">
+                        <div className="flex items-start justify-between">
+                            <div className="min-w-0">
+                                <p className="font-semibold text-gray-800 dark:text-white truncate">{card.account.name}</p>
+                                {isDue ? (
+                                    <p className={`text-xs ${isOverdue ? 'text-red-500 font-semibold' : 'text-gray-500 dark:text-slate-400'}`}>
+                                        {currency}{statement!.remaining.toFixed(0)} {isOverdue ? t('overdue since') : t('due on')} {formatDay(statement!.dueDate)}
+                                    </p>
+                                ) : statement && statement.amount > 0 ? (
+                                    <p className="text-xs text-green-600 dark:text-green-400 flex items-center">
+                                        <CheckCircle size={12} className="mr-1" />
+                                        {t('Statement paid')}
+                                    </p>
+                                ) : (
+                                    <p className="text-xs text-gray-500 dark:text-slate-400">{t('No amount due')}</p>
+                                )}
+                                <p className="text-[10px] text-gray-400">
+                                    {t('Unbilled')}: {currency}{card.unbilled.toFixed(0)} • {t('Next statement')} {formatDay(card.nextStatementDate)}
+                                </p>
+                            </div>
+                            {isDue && (
+                                <button
+                                    onClick={() => setPaying(card)}
+                                    className="shrink-0 px-3 py-1.5 bg-rose-50 dark:bg-rose-900/20 text-rose-600 dark:text-rose-300 text-xs font-bold rounded-lg hover:bg-rose-100 dark:hover:bg-rose-900/30 transition-colors"
+                                >
+                                    {t('Pay Bill')}
+                                </button>
+                            )}
+                        </div>
+
+                        {utilisation !== undefined && (
+                            <div>
+                                <div className="h-2 bg-gray-100 dark:bg-slate-700 rounded-full overflow-hidden">
+                                    <div
+                                        className={`h-full rounded-full ${utilisation > 80 ? 'bg-red-500' : utilisation > 30 ? 'bg-amber-500' : 'bg-teal-500'}`}
+                                        style={{ width: `${Math.min(utilisation, 100)}%` }}
+                                    />
+                                </div>
+                                <div className="flex justify-between text-[10px] text-gray-400 mt-1">
+                                    <span>{utilisation}% {t('utilised')}</span>
+                                    <span>{t('Available')}: {currency}{(card.available || 0).toFixed(0)}</span>
+                                </div>
+                            </div>
+                        )}
+                    </div>
+                );
+            })}
+        </div>
+
+        {paying && (
+            <TransferForm
+                title={t('Pay Card Bill')}
+                toAccountId={paying.account.id}
+                initialAmount={paying.statement?.remaining}
+                initialNote={`${paying.account.name} ${t('bill payment')}`}
+                onClose={() => setPaying(null)}
+            />
+        )}
+    </div>
+  );
+};
+
+export default CreditCardDues;
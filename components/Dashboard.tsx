@@ -3,32 +3,30 @@ import React, { useMemo, useState, useEffect, useRef } from 'react';
 import { useData } from '../contexts/DataContext';
 import { generateSpendingInsight } from '../services/geminiService';
 import { AreaChart, Area, XAxis, YAxis, CartesianGrid, ResponsiveContainer, Tooltip as RechartsTooltip, PieChart, Pie, Cell } from 'recharts';
-import { Sparkles, TrendingUp, ChevronDown, ChevronLeft, ChevronRight, PieChart as PieChartIcon, Calendar, ArrowUpCircle, ArrowDownCircle } from 'lucide-react';
+import { Sparkles, TrendingUp, ChevronDown, ChevronLeft, ChevronRight, PieChart as PieChartIcon, Calendar, ArrowUpCircle, ArrowDownCircle, Wallet } from 'lucide-react';
 import { Category } from '../types';
 import DatePicker from './DatePicker';
-
-const COLORS = ['#0F766E', '#0D9488', '#14B8A6', '#2DD4BF', '#5EEAD4', '#99F6E4', '#CCFBF1', '#F59E0B'];
-
-const CATEGORY_COLOR_MAP: Record<string, string> = {
-  'Food': COLORS[0],
-  'Transport': COLORS[1],
-  'Entertainment': COLORS[2],
-  'Utilities': COLORS[3],
-  'Healthcare': COLORS[4],
-  'Shopping': COLORS[5],
-  'Housing': COLORS[6],
-  'Other': COLORS[7]
-};
+import UpcomingBills from './UpcomingBills';
+import AccountTypeIcon from './AccountTypeIcon';
+import CreditCardDues from './CreditCardDues';
+import GoalProgress from './GoalProgress';
+import CategoryBadge from './CategoryBadge';
+import { getIncomeReceipts } from '../utils/incomeLedger';
+import { getAccountBalances } from '../utils/accounts';
+import { getCategoryColor, getCategoryName } from '../utils/categories';
+import { getCategoryBreakdown } from '../utils/splits';
 
 type TimeRange = 'Daily' | 'Weekly' | 'Monthly' | 'Quarterly' | 'Half-Yearly' | 'Yearly' | 'Custom';
 
 interface DashboardProps {
   onProfileClick: () => void;
   onNavigateToHistory: (category: Category | 'All') => void;
+  onManageAccounts: () => void;
+  onManageGoals: () => void;
 }
 
-const Dashboard: React.FC<DashboardProps> = ({ onProfileClick, onNavigateToHistory }) => {
-  const { expenses, incomes, budgets, currency, userName, userProfile, theme, t } = useData();
+const Dashboard: React.FC<DashboardProps> = ({ onProfileClick, onNavigateToHistory, onManageAccounts, onManageGoals }) => {
+  const { expenses, incomes, budgets, accounts, transfers, settlements, loans, emiPlans, categories, currency, userName, userProfile, theme, t } = useData();
   const [insight, setInsight] = useState<string>('');
   const [isLoadingInsight, setIsLoadingInsight] = useState(false);
   
@@ -63,7 +61,7 @@ const Dashboard: React.FC<DashboardProps> = ({ onProfileClick, onNavigateToHisto
       if ((expenses.length > 0 || incomes.length > 0) && !insight) {
         setIsLoadingInsight(true);
         try {
-          const result = await generateSpendingInsight({ expenses, incomes, budgets, currency, userName });
+          const result = await generateSpendingInsight({ expenses, incomes, budgets, categories, currency, userName });
           setInsight(result);
         } catch (e) {
           console.error(e);
@@ -406,20 +404,17 @@ const Dashboard: React.FC<DashboardProps> = ({ onProfileClick, onNavigateToHisto
         return d >= start && d <= end;
     });
 
-    const breakdown: Record<string, number> = {};
-    let total = 0;
-
-    relevantExpenses.forEach(e => {
-        breakdown[e.category] = (breakdown[e.category] || 0) + e.amount;
-        total += e.amount;
-    });
+    // Split expenses add each line to its own slice
+    const breakdown = getCategoryBreakdown(relevantExpenses);
+    const total = relevantExpenses.reduce((sum, e) => sum + e.amount, 0);
 
+    // Subcategories roll up into their category; slices use the category's own colour
     const data = Object.entries(breakdown)
-        .map(([name, value]) => ({ name, value }))
+        .map(([id, value]) => ({ id, name: getCategoryName(categories, id), color: getCategoryColor(categories, id), value }))
         .sort((a, b) => b.value - a.value);
 
     return { data, total, label };
-  }, [expenses, timeRange, categoryDate, customStart, customEnd]);
+  }, [expenses, categories, timeRange, categoryDate, customStart, customEnd]);
 
   // View Stats synced with Trend Date (Primary View)
   const currentViewStats = useMemo(() => {
@@ -432,13 +427,13 @@ const Dashboard: React.FC<DashboardProps> = ({ onProfileClick, onNavigateToHisto
           })
           .reduce((sum, e) => sum + e.amount, 0);
 
-      const periodIncome = incomes
-          .filter(i => i.status === 'Received')
-          .filter(i => {
-              const d = new Date(i.date);
+      // Instalments count in the period they were paid
+      const periodIncome = getIncomeReceipts(incomes)
+          .filter(r => {
+              const d = new Date(r.date);
               return d >= start && d <= end;
           })
-          .reduce((sum, i) => sum + i.amount, 0);
+          .reduce((sum, r) => sum + r.amount, 0);
     
       const today = new Date().toISOString().split('T')[0];
       const todayExpense = expenses
@@ -449,6 +444,17 @@ const Dashboard: React.FC<DashboardProps> = ({ onProfileClick, onNavigateToHisto
 
   }, [expenses, incomes, timeRange, trendDate, customStart, customEnd]);
 
+  // Current balance of every open account; transfers move money between them without changing the total
+  const accountBalances = useMemo(() => {
+      return getAccountBalances(accounts, { expenses, incomes, transfers, settlements, loans, emiPlans }).filter(b => !b.account.archived);
+  }, [accounts, expenses, incomes, transfers, settlements, loans, emiPlans]);
+  const netBalance = accountBalances.reduce((sum, b) => sum + b.balance, 0);
+
+  const localToday = (() => {
+      const d = new Date();
+      return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
+  })();
+
   const recentExpenses = useMemo(() => {
       return [...expenses].sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime()).slice(0, 5);
   }, [expenses]);
@@ -593,6 +599,44 @@ const Dashboard: React.FC<DashboardProps> = ({ onProfileClick, onNavigateToHisto
             </div>
         </div>
 
+        {/* Net Balance per Account */}
+        {accountBalances.length > 0 && (
+            <button
+                onClick={onManageAccounts}
+                className="w-full text-left bg-white dark:bg-slate-800 p-4 rounded-2xl shadow-sm border border-slate-100 dark:border-slate-700 hover:bg-gray-50 dark:hover:bg-slate-700/50 transition-colors"
+            >
+                <div className="flex items-center justify-between mb-3">
+                    <div className="flex items-center space-x-2">
+                        <div className="bg-indigo-50 dark:bg-indigo-900/30 p-2 rounded-full text-indigo-600 dark:text-indigo-400">
+                            <Wallet size={20} />
+                        </div>
+                        <h3 className="text-xs font-bold text-gray-500 dark:text-slate-400 uppercase tracking-wide">{t('Net Balance')}</h3>
+                    </div>
+                    <ChevronRight size={16} className="text-gray-300 dark:text-slate-600" />
+                </div>
+                <div className={`text-2xl font-bold ${netBalance < 0 ? 'text-red-500' : 'text-gray-900 dark:text-white'}`}>
+                    {netBalance < 0 ? '-' : ''}{currency}{Math.abs(netBalance).toFixed(0)}
+                </div>
+                <div className="mt-3 grid grid-cols-1 sm:grid-cols-2 gap-2">
+                    {accountBalances.map(({ account, balance }) => (
+                        <div key={account.id} className="flex items-center justify-between bg-gray-50 dark:bg-slate-700/50 rounded-xl px-3 py-2">
+                            <div className="flex items-center space-x-2 min-w-0">
+                                <AccountTypeIcon type={account.type} size={14} className="text-gray-400 dark:text-slate-400 shrink-0" />
+                                <span className="text-xs font-medium text-gray-600 dark:text-slate-300 truncate">{account.name}</span>
+                            </div>
+                            <span className={`text-sm font-semibold shrink-0 ${balance < 0 ? 'text-red-500' : 'text-gray-800 dark:text-slate-200'}`}>
+                                {balance < 0 ? '-' : ''}{currency}{Math.abs(balance).toFixed(0)}
+                            </span>
+                        </div>
+                    ))}
+                </div>
+            </button>
+        )}
+
+        <CreditCardDues today={localToday} />
+
+        <GoalProgress today={localToday} onManageGoals={onManageGoals} />
+
         {/* Charts Grid */}
         <div className="grid grid-cols-1 lg:grid-cols-2 gap-6 pb-6">
             {/* Spending Trends Chart */}
@@ -695,8 +739,8 @@ const Dashboard: React.FC<DashboardProps> = ({ onProfileClick, onNavigateToHisto
                                         paddingAngle={2}
                                         dataKey="value"
                                     >
-                                        {categoryStats.data.map((entry, index) => (
-                                            <Cell key={`cell-${index}`} fill={CATEGORY_COLOR_MAP[entry.name] || COLORS[index % COLORS.length]} />
+                                        {categoryStats.data.map((entry) => (
+                                            <Cell key={entry.id} fill={entry.color} />
                                         ))}
                                     </Pie>
                                 </PieChart>
@@ -708,10 +752,10 @@ const Dashboard: React.FC<DashboardProps> = ({ onProfileClick, onNavigateToHisto
                         </div>
                         
                         <div className="flex-1 w-full sm:w-1/2 space-y-2 overflow-y-auto max-h-full no-scrollbar">
-                            {categoryStats.data.slice(0, 5).map((item, index) => (
-                                <div key={item.name} className="flex items-center justify-between text-sm">
+                            {categoryStats.data.slice(0, 5).map((item) => (
+                                <div key={item.id} className="flex items-center justify-between text-sm">
                                     <div className="flex items-center space-x-2">
-                                        <div className="w-3 h-3 rounded-full" style={{ backgroundColor: CATEGORY_COLOR_MAP[item.name] || COLORS[index % COLORS.length] }}></div>
+                                        <div className="w-3 h-3 rounded-full" style={{ backgroundColor: item.color }}></div>
                                         <span className="text-gray-700 dark:text-slate-300">{t(item.name)}</span>
                                     </div>
                                     <span className="font-medium text-gray-800 dark:text-white">{currency}{item.value.toFixed(0)}</span>
@@ -728,6 +772,9 @@ const Dashboard: React.FC<DashboardProps> = ({ onProfileClick, onNavigateToHisto
             </div>
         </div>
 
+        {/* Recurring Expenses Due Next */}
+        <UpcomingBills />
+
         {/* Recent Transactions Snippet */}
         <div className="pb-6">
             <div className="flex justify-between items-center mb-2 px-1">
@@ -745,13 +792,7 @@ const Dashboard: React.FC<DashboardProps> = ({ onProfileClick, onNavigateToHisto
                     recentExpenses.map(expense => (
                         <div key={expense.id} className="bg-white dark:bg-slate-800 p-3 rounded-xl shadow-sm border border-slate-50 dark:border-slate-700 flex justify-between items-center">
                             <div className="flex items-center space-x-3">
-                                <div className={`w-8 h-8 rounded-full flex items-center justify-center text-sm
-                                    ${expense.category === 'Food' ? 'bg-orange-100 text-orange-600 dark:bg-orange-900/30 dark:text-orange-400' : 
-                                    expense.category === 'Transport' ? 'bg-blue-100 text-blue-600 dark:bg-blue-900/30 dark:text-blue-400' :
-                                    'bg-gray-100 text-gray-600 dark:bg-slate-700 dark:text-slate-400'}
-                                `}>
-                                    {expense.category[0]}
-                                </div>
+                                <CategoryBadge category={expense.category} subcategory={expense.subcategory} size={14} className="w-8 h-8" />
                                 <div>
                                     <div className="font-medium text-sm text-gray-800 dark:text-white truncate max-w-[150px]">{expense.description}</div>
                                     <div className="text-xs text-gray-400 dark:text-slate-500">
@@ -0,0 +1,263 @@
+import React, { useState } from 'react';
+import { useData } from '../contexts/DataContext';
+import { EmiPlan } from '../types';
+import { X, Calendar as CalendarIcon, Trash2 } from 'lucide-react';
+import AccountPicker from './AccountPicker';
+import CategoryPicker from './CategoryPicker';
+import DatePicker from './DatePicker';
+import { getDefaultAccountId } from '../utils/accounts';
+import { OTHER_EXPENSE_CATEGORY } from '../utils/categories';
+import { calculateEmi, getAmortizationSchedule, getTotalInterest } from '../utils/emi';
+
+interface EmiPlanFormProps {
+  onClose: () => void;
+  plan?: EmiPlan; // When provided, the form edits this plan instead of adding a new one
+}
+
+const EmiPlanForm: React.FC<EmiPlanFormProps> = ({ onClose, plan }) => {
+  const { accounts, categories, addEmiPlan, updateEmiPlan, deleteEmiPlan, currency, t } = useData();
+  const defaultCategory = categories.some(c => c.id === 'Housing' && !c.archived) ? 'Housing' : OTHER_EXPENSE_CATEGORY;
+  const [name, setName] = useState(plan?.name || '');
+  const [lender, setLender] = useState(plan?.lender || '');
+  const [principal, setPrincipal] = useState(plan ? plan.principal.toString() : '');
+  const [interestRate, setInterestRate] = useState(plan ? plan.interestRate.toString() : '');
+  const [tenureMonths, setTenureMonths] = useState(plan ? plan.tenureMonths.toString() : '240');
+  const [firstEmiDate, setFirstEmiDate] = useState(plan?.firstEmiDate || new Date().toISOString().split('T')[0]);
+  const [category, setCategory] = useState(plan?.category || defaultCategory);
+  const [subcategory, setSubcategory] = useState<string | undefined>(plan?.subcategory);
+  const [accountId, setAccountId] = useState(plan?.accountId || getDefaultAccountId(accounts));
+  const [error, setError] = useState('');
+  const [showDatePicker, setShowDatePicker] = useState(false);
+
+  const terms = {
+      principal: parseFloat(principal) || 0,
+      interestRate: parseFloat(interestRate) || 0,
+      tenureMonths: parseInt(tenureMonths, 10) || 0,
+      firstEmiDate,
+  };
+  const emi = calculateEmi(terms.principal, terms.interestRate, terms.tenureMonths);
+  // Preview of the plan as entered, before any prepayments
+  const totalInterest = emi > 0
+      ? getTotalInterest(getAmortizationSchedule({ ...terms, id: '', name, category, prepayments: [], createdAt: 0 }))
+      : 0;
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim()) {
+        setError(t('Name is required'));
+        return;
+    }
+    if (terms.principal <= 0) {
+        setError(t('Valid amount required'));
+        return;
+    }
+    if (terms.interestRate < 0 || !interestRate) {
+        setError(t('Enter the interest rate'));
+        return;
+    }
+    if (terms.tenureMonths <= 0) {
+        setError(t('Enter the tenure in months'));
+        return;
+    }
+
+    const details = {
+      ...terms,
+      name: name.trim(),
+      lender: lender.trim() || undefined,
+      category,
+      subcategory,
+      accountId,
+    };
+
+    if (plan) {
+      updateEmiPlan(plan.id, details);
+    } else {
+      addEmiPlan(details);
+    }
+    onClose();
+  };
+
+  const handleDelete = () => {
+    if (!plan) return;
+    if (confirm(t('delete_emi_plan_confirm'))) {
+        deleteEmiPlan(plan.id);
+        onClose();
+    }
+  };
+
+  const handleDateSelect = (selectedDate: Date) => {
+      const year = selectedDate.getFullYear();
+      const month = selectedDate.getMonth();
+      const day = selectedDate.getDate();
+      setFirstEmiDate(`${year}-${String(month + 1).padStart(2, '0')}-${String(day).padStart(2, '0')}`);
+  };
+
+  const inputClass = "w-full px-4 py-3 bg-gray-50 dark:bg-slate-700 border border-gray-200 dark:border-slate-600 rounded-xl focus:outline-none focus:ring-2 focus:ring-teal-500 text-gray-900 dark:text-white";
+
+  return (
+    <div
+      className="fixed inset-0 bg-black/50 z-50 flex items-end sm:items-center justify-center animate-fade-in backdrop-blur-sm"
+      onClick={onClose}
+    >
+      <div
+        className="bg-white dark:bg-slate-800 w-full sm:max-w-md sm:rounded-2xl rounded-t-2xl px-6 pt-6 pb-[calc(2rem+env(safe-area-inset-bottom))] sm:pb-6 shadow-xl max-h-[90vh] h-auto overflow-y-auto no-scrollbar"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex justify-between items-center mb-6">
+          <h2 className="text-xl font-bold text-gray-800 dark:text-white">{plan ? t('Edit EMI Plan') : t('Add EMI Plan')}</h2>
+          <button onClick={onClose} className="p-2 bg-gray-100 dark:bg-slate-700 rounded-full hover:bg-gray-200 dark:hover:bg-slate-600 transition-colors">
+            <X size={20} className="text-gray-600 dark:text-slate-300" />
+          </button>
+        </div>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+                <label className="block text-sm font-medium text-gray-700 dark:text-slate-300 mb-1">{t('Name')}</label>
+                <input
+                    type="text"
+                    value={name}
+                    onChange={(e) => { setName(e.target.value); setError(''); }}
+                    className={inputClass}
+                    placeholder="e.g., Home Loan"
+                />
+            </div>
+            <div>
+                <label className="block text-sm font-medium text-gray-700 dark:text-slate-300 mb-1">{t('Lender')}</label>
+                <input
+                    type="text"
+                    value={lender}
+                    onChange={(e) => setLender(e.target.value)}
+                    className={inputClass}
+                    placeholder="e.g., SBI"
+                />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+                <label className="block text-sm font-medium text-gray-700 dark:text-slate-300 mb-1">{t('Principal')}</label>
+                <div className="relative">
+                    <span className="absolute left-3 top-3.5 text-gray-400 dark:text-slate-400 font-bold">{currency}</span>
+                    <input
+                        type="number"
+                        step="0.01"
+                        value={principal}
+                        onChange={(e) => { setPrincipal(e.target.value); setError(''); }}
+                        className="w-full pl-8 pr-4 py-3 bg-gray-50 dark:bg-slate-700 border border-gray-200 dark:border-slate-600 rounded-xl focus:outline-none focus:ring-2 focus:ring-teal-500 font-semibold text-gray-900 dark:text-white"
+                        placeholder="0.00"
+                    />
+                </div>
+            </div>
+            <div>
+                <label className="block text-sm font-medium text-gray-700 dark:text-slate-300 mb-1">{t('Rate (% per year)')}</label>
+                <input
+                    type="number"
+                    step="0.01"
+                    value={interestRate}
+                    onChange={(e) => { setInterestRate(e.target.value); setError(''); }}
+                    className={inputClass}
+                    placeholder="e.g., 8.5"
+                />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+                <label className="block text-sm font-medium text-gray-700 dark:text-slate-300 mb-1">{t('Tenure (months)')}</label>
+                <input
+                    type="number"
+                    min="1"
+                    step="1"
+                    value={tenureMonths}
+                    onChange={(e) => { setTenureMonths(e.target.value); setError(''); }}
+                    className={inputClass}
+                />
+            </div>
+            <div>
+                <label className="block text-sm font-medium text-gray-700 dark:text-slate-300 mb-1">{t('First EMI')}</label>
+                <button
+                    type="button"
+                    onClick={() => setShowDatePicker(true)}
+                    className="w-full px-4 py-3 bg-gray-50 dark:bg-slate-700 border border-gray-200 dark:border-slate-600 rounded-xl flex items-center justify-between text-left focus:outline-none focus:ring-2 focus:ring-teal-500"
+                >
+                    <span className="text-sm text-gray-900 dark:text-white truncate">
+                        {new Date(`${firstEmiDate}T00:00:00`).toLocaleDateString(undefined, { month: 'short', day: 'numeric', year: 'numeric' })}
+                    </span>
+                    <CalendarIcon size={18} className="text-gray-400 dark:text-slate-400 shrink-0" />
+                </button>
+            </div>
+          </div>
+
+          {emi > 0 && (
+            <div className="grid grid-cols-3 gap-2 text-center">
+                <div className="bg-gray-50 dark:bg-slate-700/50 rounded-xl p-2">
+                    <div className="text-[10px] uppercase font-bold text-gray-400">{t('EMI')}</div>
+                    <div className="font-bold text-sm text-teal-600 dark:text-teal-400">{currency}{emi.toFixed(0)}</div>
+                </div>
+                <div className="bg-gray-50 dark:bg-slate-700/50 rounded-xl p-2">
+                    <div className="text-[10px] uppercase font-bold text-gray-400">{t('Interest')}</div>
+                    <div className="font-bold text-sm text-gray-800 dark:text-white">{currency}{totalInterest.toFixed(0)}</div>
+                </div>
+                <div className="bg-gray-50 dark:bg-slate-700/50 rounded-xl p-2">
+                    <div className="text-[10px] uppercase font-bold text-gray-400">{t('Total')}</div>
+                    <div className="font-bold text-sm text-gray-800 dark:text-white">{currency}{(terms.principal + totalInterest).toFixed(0)}</div>
+                </div>
+            </div>
+          )}
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-slate-300 mb-1">{t('Category')}</label>
+            <CategoryPicker
+                kind="expense"
+                category={category}
+                subcategory={subcategory}
+                onChange={(c, sub) => { setCategory(c); setSubcategory(sub); }}
+            />
+          </div>
+
+          {accounts.length > 0 && (
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-slate-300 mb-1">{t('Paid From')}</label>
+            <AccountPicker value={accountId} onChange={(account) => setAccountId(account.id)} />
+          </div>
+          )}
+
+          {!plan && (
+            <p className="text-xs text-gray-500 dark:text-slate-400">{t('emi_plan_series_hint')}</p>
+          )}
+
+          {error && <p className="text-red-500 text-xs">{error}</p>}
+
+          <button
+            type="submit"
+            className="w-full bg-teal-600 text-white py-4 rounded-xl font-bold text-lg hover:bg-teal-700 shadow-lg shadow-teal-600/20 transition-transform active:scale-[0.98] mt-2"
+          >
+            {t('Save EMI Plan')}
+          </button>
+
+          {plan && (
+            <button
+                type="button"
+                onClick={handleDelete}
+                className="w-full flex items-center justify-center space-x-2 py-3 rounded-xl font-semibold text-sm text-red-600 bg-red-50 dark:bg-red-900/20 hover:bg-red-100 dark:hover:bg-red-900/30 transition-colors"
+            >
+                <Trash2 size={16} />
+                <span>{t('Delete EMI Plan')}</span>
+            </button>
+          )}
+        </form>
+
+        <DatePicker
+            isOpen={showDatePicker}
+            onClose={() => setShowDatePicker(false)}
+            onSelect={handleDateSelect}
+            initialDate={new Date(`${firstEmiDate}T00:00:00`)}
+            title={t('First EMI')}
+        />
+      </div>
+    </div>
+  );
+};
+
+export default EmiPlanForm;
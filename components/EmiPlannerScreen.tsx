@@ -0,0 +1,241 @@
+import React, { useState } from 'react';
+import { useData } from '../contexts/DataContext';
+import { EmiPlan } from '../types';
+import { getAmortizationSchedule, getCurrentEmi, getEmiProgress, getFinancialYear, getFinancialYearTotals } from '../utils/emi';
+import { ArrowLeft, Plus, Landmark, Pencil, PiggyBank } from 'lucide-react';
+import EmiPlanForm from './EmiPlanForm';
+import EmiPrepaymentModal from './EmiPrepaymentModal';
+
+interface EmiPlannerScreenProps {
+  onBack: () => void;
+}
+
+type DetailTab = 'schedule' | 'years';
+
+// Bank loans repaid in EMIs: the principal/interest split of every instalment, what is still outstanding,
+// and the interest and principal paid in each financial year for tax deductions
+const EmiPlannerScreen: React.FC<EmiPlannerScreenProps> = ({ onBack }) => {
+  const { emiPlans, currency, t } = useData();
+  const [viewingId, setViewingId] = useState<string | null>(null);
+  const [detailTab, setDetailTab] = useState<DetailTab>('schedule');
+  const [editing, setEditing] = useState<EmiPlan | null>(null);
+  const [isAdding, setIsAdding] = useState(false);
+  const [isPrepaying, setIsPrepaying] = useState(false);
+
+  const today = (() => {
+      const d = new Date();
+      return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
+  })();
+
+  // Read live so prepayments and edits show straight away; a deleted plan falls back to the list
+  const viewing = emiPlans.find(p => p.id === viewingId);
+  const totalOutstanding = emiPlans.reduce((sum, p) => sum + getEmiProgress(p, today).outstanding, 0);
+  const totalEmi = emiPlans.reduce((sum, p) => sum + (getEmiProgress(p, today).remainingInstalments > 0 ? getCurrentEmi(p, today) : 0), 0);
+
+  const formatDate = (date?: string) => date ? new Date(`${date}T00:00:00`).toLocaleDateString(undefined, { month: 'short', year: 'numeric' }) : '-';
+  const formatAmount = (amount: number) => `${currency}${amount.toLocaleString(undefined, { maximumFractionDigits: 0 })}`;
+
+  const renderPlan = (plan: EmiPlan) => {
+      const progress = getEmiProgress(plan, today);
+      const repaidShare = plan.principal > 0 ? Math.min(100, (progress.principalRepaid / plan.principal) * 100) : 0;
+      return (
+          <button
+              key={plan.id}
+              onClick={() => { setViewingId(plan.id); setDetailTab('schedule'); }}
+              className="w-full text-left bg-white dark:bg-slate-800 rounded-2xl shadow-sm border border-gray-100 dark:border-slate-700 p-4 space-y-3 hover:border-teal-200 dark:hover:border-teal-800 transition-colors"
+          >
+              <div className="flex items-start justify-between">
+                  <div className="flex items-center space-x-3 min-w-0">
+                      <div className="p-2 rounded-full bg-teal-50 dark:bg-teal-900/30 text-teal-600 dark:text-teal-400 shrink-0">
+                          <Landmark size={18} />
+                      </div>
+                      <div className="min-w-0">
+                          <p className="font-semibold text-gray-800 dark:text-white truncate">{plan.name}</p>
+                          <p className="text-xs text-gray-500 dark:text-slate-400 truncate">
+                              {plan.lender ? `${plan.lender} • ` : ''}{plan.interestRate}% • {t('Ends')} {formatDate(progress.endDate)}
+                          </p>
+                      </div>
+                  </div>
+                  <div className="text-right shrink-0">
+                      <p className="font-bold text-gray-800 dark:text-white">{formatAmount(getCurrentEmi(plan, today))}</p>
+                      <p className="text-[10px] uppercase font-bold text-gray-400">{t('EMI')}</p>
+                  </div>
+              </div>
+              <div>
+                  <div className="flex justify-between text-xs mb-1">
+                      <span className="text-gray-500 dark:text-slate-400">{progress.paidInstalments} / {progress.paidInstalments + progress.remainingInstalments} {t('EMIs paid')}</span>
+                      <span className="font-bold text-gray-800 dark:text-white">{t('Outstanding')} {formatAmount(progress.outstanding)}</span>
+                  </div>
+                  <div className="h-2 bg-gray-100 dark:bg-slate-700 rounded-full overflow-hidden">
+                      <div className="h-full bg-teal-500 rounded-full" style={{ width: `${repaidShare}%` }} />
+                  </div>
+              </div>
+          </button>
+      );
+  };
+
+  const renderDetail = (plan: EmiPlan) => {
+      const progress = getEmiProgress(plan, today);
+      const schedule = getAmortizationSchedule(plan);
+      const currentYear = getFinancialYear(today);
+      const tabClass = (selected: boolean) => `flex-1 py-2 rounded-lg text-sm font-semibold transition-colors ${
+          selected ? 'bg-white dark:bg-slate-700 text-gray-900 dark:text-white shadow-sm' : 'text-gray-500 dark:text-slate-400'
+      }`;
+
+      return (
+          <div className="space-y-6">
+              <div className="grid grid-cols-2 gap-3">
+                  <div className="bg-white dark:bg-slate-800 rounded-2xl p-4 shadow-sm border border-gray-100 dark:border-slate-700">
+                      <p className="text-xs font-bold uppercase tracking-wide text-gray-500 dark:text-slate-400">{t('Outstanding')}</p>
+                      <p className="text-xl font-bold text-red-500 mt-1">{formatAmount(progress.outstanding)}</p>
+                      <p className="text-xs text-gray-400 mt-1">{t('of')} {formatAmount(plan.principal)}</p>
+                  </div>
+                  <div className="bg-white dark:bg-slate-800 rounded-2xl p-4 shadow-sm border border-gray-100 dark:border-slate-700">
+                      <p className="text-xs font-bold uppercase tracking-wide text-gray-500 dark:text-slate-400">{t('EMI')}</p>
+                      <p className="text-xl font-bold text-gray-800 dark:text-white mt-1">{formatAmount(getCurrentEmi(plan, today))}</p>
+                      <p className="text-xs text-gray-400 mt-1">{progress.remainingInstalments} {t('left')} • {t('Ends')} {formatDate(progress.endDate)}</p>
+                  </div>
+                  <div className="bg-white dark:bg-slate-800 rounded-2xl p-4 shadow-sm border border-gray-100 dark:border-slate-700">
+                      <p className="text-xs font-bold uppercase tracking-wide text-gray-500 dark:text-slate-400">{t('Principal paid')}</p>
+                      <p className="text-xl font-bold text-teal-600 dark:text-teal-400 mt-1">{formatAmount(progress.principalRepaid)}</p>
+                  </div>
+                  <div className="bg-white dark:bg-slate-800 rounded-2xl p-4 shadow-sm border border-gray-100 dark:border-slate-700">
+                      <p className="text-xs font-bold uppercase tracking-wide text-gray-500 dark:text-slate-400">{t('Interest paid')}</p>
+                      <p className="text-xl font-bold text-orange-500 mt-1">{formatAmount(progress.interestPaid)}</p>
+                  </div>
+              </div>
+
+              <div className="flex gap-2">
+                  <button
+                      onClick={() => setIsPrepaying(true)}
+                      className="flex-1 flex items-center justify-center space-x-2 py-3 bg-teal-600 text-white rounded-xl font-semibold hover:bg-teal-700 transition-colors"
+                  >
+                      <PiggyBank size={18} />
+                      <span>{t('Prepay')}</span>
+                  </button>
+                  <button
+                      onClick={() => setEditing(plan)}
+                      className="flex-1 flex items-center justify-center space-x-2 py-3 bg-gray-100 dark:bg-slate-800 text-gray-700 dark:text-slate-200 rounded-xl font-semibold hover:bg-gray-200 dark:hover:bg-slate-700 transition-colors"
+                  >
+                      <Pencil size={18} />
+                      <span>{t('Edit')}</span>
+                  </button>
+              </div>
+
+              <div className="flex bg-gray-200 dark:bg-slate-800 p-1 rounded-xl">
+                  <button onClick={() => setDetailTab('schedule')} className={tabClass(detailTab === 'schedule')}>{t('Schedule')}</button>
+                  <button onClick={() => setDetailTab('years')} className={tabClass(detailTab === 'years')}>{t('By Financial Year')}</button>
+              </div>
+
+              {detailTab === 'schedule' ? (
+                  <div className="bg-white dark:bg-slate-800 rounded-2xl shadow-sm border border-gray-100 dark:border-slate-700 overflow-hidden">
+                      <div className="grid grid-cols-5 gap-1 px-3 py-2 text-[10px] uppercase font-bold text-gray-400 bg-gray-50 dark:bg-slate-700/50">
+                          <span>{t('Date')}</span>
+                          <span className="text-right">{t('EMI')}</span>
+                          <span className="text-right">{t('Principal')}</span>
+                          <span className="text-right">{t('Interest')}</span>
+                          <span className="text-right">{t('Balance')}</span>
+                      </div>
+                      <div className="divide-y divide-gray-100 dark:divide-slate-700">
+                          {schedule.map(row => (
+                              <div key={row.number} className={`px-3 py-2 text-xs ${row.date <= today ? 'text-gray-400 dark:text-slate-500' : 'text-gray-700 dark:text-slate-200'}`}>
+                                  {row.prepayment > 0 && (
+                                      <p className="text-[10px] font-semibold text-teal-600 dark:text-teal-400 mb-1">{t('Prepaid')} {formatAmount(row.prepayment)}</p>
+                                  )}
+                                  <div className="grid grid-cols-5 gap-1">
+                                      <span>{formatDate(row.date)}</span>
+                                      <span className="text-right font-semibold">{formatAmount(row.emi)}</span>
+                                      <span className="text-right">{formatAmount(row.principal)}</span>
+                                      <span className="text-right">{formatAmount(row.interest)}</span>
+                                      <span className="text-right">{formatAmount(row.balance)}</span>
+                                  </div>
+                              </div>
+                          ))}
+                      </div>
+                  </div>
+              ) : (
+                  <div className="bg-white dark:bg-slate-800 rounded-2xl shadow-sm border border-gray-100 dark:border-slate-700 overflow-hidden">
+                      <div className="grid grid-cols-3 gap-1 px-4 py-2 text-[10px] uppercase font-bold text-gray-400 bg-gray-50 dark:bg-slate-700/50">
+                          <span>{t('Financial Year')}</span>
+                          <span className="text-right">{t('Interest')}</span>
+                          <span className="text-right">{t('Principal')}</span>
+                      </div>
+                      <div className="divide-y divide-gray-100 dark:divide-slate-700">
+                          {getFinancialYearTotals(plan).map(year => (
+                              <div key={year.year} className={`grid grid-cols-3 gap-1 px-4 py-3 text-sm ${year.year === currentYear ? 'bg-teal-50 dark:bg-teal-900/20' : ''}`}>
+                                  <span className="font-medium text-gray-800 dark:text-white">{t('FY')} {year.year}</span>
+                                  <span className="text-right font-semibold text-orange-500">{formatAmount(year.interest)}</span>
+                                  <span className="text-right text-gray-700 dark:text-slate-200">{formatAmount(year.principal)}</span>
+                              </div>
+                          ))}
+                      </div>
+                  </div>
+              )}
+          </div>
+      );
+  };
+
+  return (
+    <div className="h-full flex flex-col animate-fade-in bg-gray-50 dark:bg-slate-900 transition-colors">
+      <div className="shrink-0 p-6 pb-2 z-10 bg-gray-50 dark:bg-slate-900 transition-colors">
+        <header className="flex items-center justify-between py-2">
+            <div className="flex items-center space-x-3 min-w-0">
+                <button
+                onClick={() => viewing ? setViewingId(null) : onBack()}
+                className="p-2 -ml-2 rounded-full hover:bg-gray-200 dark:hover:bg-slate-800 text-gray-600 dark:text-gray-300 transition-colors"
+                >
+                <ArrowLeft size={24} />
+                </button>
+                <h1 className="text-2xl font-bold text-gray-800 dark:text-white truncate">{viewing ? viewing.name : t('EMI Planner')}</h1>
+            </div>
+            {!viewing && (
+                <button
+                    onClick={() => setIsAdding(true)}
+                    className="p-2 bg-teal-600 text-white rounded-full shadow-md hover:bg-teal-700 transition-colors"
+                >
+                    <Plus size={20} />
+                </button>
+            )}
+        </header>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-6 pt-2 no-scrollbar">
+        <div className="max-w-2xl mx-auto w-full space-y-6">
+            {viewing ? renderDetail(viewing) : (
+                <>
+                    <div className="grid grid-cols-2 gap-4">
+                        <div className="bg-white dark:bg-slate-800 rounded-2xl p-4 shadow-sm border border-gray-100 dark:border-slate-700">
+                            <p className="text-xs font-bold uppercase tracking-wide text-gray-500 dark:text-slate-400">{t('Outstanding')}</p>
+                            <p className="text-2xl font-bold text-red-500 mt-1">{formatAmount(totalOutstanding)}</p>
+                        </div>
+                        <div className="bg-white dark:bg-slate-800 rounded-2xl p-4 shadow-sm border border-gray-100 dark:border-slate-700">
+                            <p className="text-xs font-bold uppercase tracking-wide text-gray-500 dark:text-slate-400">{t('Monthly EMIs')}</p>
+                            <p className="text-2xl font-bold text-gray-800 dark:text-white mt-1">{formatAmount(totalEmi)}</p>
+                        </div>
+                    </div>
+
+                    <section className="space-y-3">
+                        {emiPlans.length === 0 ? (
+                            <p className="text-sm text-gray-500 dark:text-slate-400 text-center py-6">{t('No EMI plans yet')}</p>
+                        ) : emiPlans.map(renderPlan)}
+                    </section>
+                </>
+            )}
+        </div>
+      </div>
+
+      {(isAdding || editing) && (
+          <EmiPlanForm
+              plan={editing || undefined}
+              onClose={() => { setIsAdding(false); setEditing(null); }}
+          />
+      )}
+
+      {isPrepaying && viewing && (
+          <EmiPrepaymentModal plan={viewing} today={today} onClose={() => setIsPrepaying(false)} />
+      )}
+    </div>
+  );
+};
+
+export default EmiPlannerScreen;
@@ -0,0 +1,190 @@
+import React, { useState } from 'react';
+import { useData } from '../contexts/DataContext';
+import { EmiPlan, EmiPrepaymentMode } from '../types';
+import { getDefaultAccountId } from '../utils/accounts';
+import { getAmortizationSchedule, getCurrentEmi, getEmiInstalments, getEmiProgress, getTotalInterest } from '../utils/emi';
+import { X, Calendar as CalendarIcon, Trash2 } from 'lucide-react';
+import AccountPicker from './AccountPicker';
+import DatePicker from './DatePicker';
+
+interface EmiPrepaymentModalProps {
+  plan: EmiPlan;
+  today: string;
+  onClose: () => void;
+}
+
+const PREPAYMENT_MODES: EmiPrepaymentMode[] = ['Reduce Tenure', 'Reduce EMI'];
+
+const toDateString = (d: Date) => `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
+
+// Records a part-prepayment and shows what it does to the EMI, the end date and the interest before saving
+const EmiPrepaymentModal: React.FC<EmiPrepaymentModalProps> = ({ plan, today, onClose }) => {
+  const { accounts, addEmiPrepayment, deleteEmiPrepayment, currency, t } = useData();
+  const [amount, setAmount] = useState('');
+  const [date, setDate] = useState(today);
+  const [mode, setMode] = useState<EmiPrepaymentMode>('Reduce Tenure');
+  const [accountId, setAccountId] = useState(getDefaultAccountId(accounts));
+  const [error, setError] = useState('');
+  const [isDatePickerOpen, setIsDatePickerOpen] = useState(false);
+
+  const value = parseFloat(amount) || 0;
+  const outstanding = getEmiProgress(plan, date).outstanding;
+  const before = getAmortizationSchedule(plan);
+  const preview: EmiPlan | null = value > 0 && value <= outstanding
+      ? { ...plan, prepayments: [...plan.prepayments, { id: '', amount: value, date, mode, createdAt: 0 }] }
+      : null;
+  const after = preview && getAmortizationSchedule(preview);
+  const lastDate = (schedule: typeof before) => getEmiInstalments(schedule).slice(-1)[0]?.date;
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (value <= 0) {
+        setError(t('Valid amount required'));
+        return;
+    }
+    if (value > outstanding) {
+        setError(t('Prepayment exceeds the outstanding principal'));
+        return;
+    }
+    addEmiPrepayment(plan.id, { amount: value, date, mode, accountId });
+    onClose();
+  };
+
+  const handleDeletePrepayment = (prepaymentId: string) => {
+    if (confirm(t('delete_payment_confirm'))) {
+        deleteEmiPrepayment(plan.id, prepaymentId);
+    }
+  };
+
+  const formatDate = (value?: string) => value ? new Date(`${value}T00:00:00`).toLocaleDateString(undefined, { month: 'short', year: 'numeric' }) : '-';
+
+  const chipClass = (selected: boolean) => `flex-1 py-2 px-1 rounded-lg text-xs font-medium transition-colors ${
+      selected ? 'bg-teal-600 text-white shadow-md' : 'bg-gray-100 dark:bg-slate-700 text-gray-600 dark:text-slate-300 hover:bg-gray-200 dark:hover:bg-slate-600'
+  }`;
+
+  return (
+    <div
+      className="fixed inset-0 bg-black/50 z-50 flex items-end sm:items-center justify-center animate-fade-in backdrop-blur-sm"
+      onClick={onClose}
+    >
+      <div
+        className="bg-white dark:bg-slate-800 w-full sm:max-w-md sm:rounded-2xl rounded-t-2xl px-6 pt-6 pb-[calc(2rem+env(safe-area-inset-bottom))] sm:pb-6 shadow-xl max-h-[90vh] h-auto overflow-y-auto no-scrollbar"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex justify-between items-center mb-4">
+          <div>
+            <h2 className="text-xl font-bold text-gray-800 dark:text-white">{t('Prepay')}</h2>
+            <p className="text-xs text-gray-500 dark:text-slate-400">{plan.name} • {t('Outstanding')} {currency}{outstanding.toFixed(0)}</p>
+          </div>
+          <button onClick={onClose} className="p-2 bg-gray-100 dark:bg-slate-700 rounded-full hover:bg-gray-200 dark:hover:bg-slate-600 transition-colors">
+            <X size={20} className="text-gray-600 dark:text-slate-300" />
+          </button>
+        </div>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+                <label className="block text-sm font-medium text-gray-700 dark:text-slate-300 mb-1">{t('Amount')}</label>
+                <div className="relative">
+                    <span className="absolute left-3 top-3 text-gray-400 dark:text-slate-400 font-bold">{currency}</span>
+                    <input
+                        type="number"
+                        step="0.01"
+                        value={amount}
+                        onChange={(e) => { setAmount(e.target.value); setError(''); }}
+                        className="w-full pl-8 pr-3 py-3 bg-gray-50 dark:bg-slate-700 border border-gray-200 dark:border-slate-600 rounded-xl focus:outline-none focus:ring-2 focus:ring-teal-500 font-semibold text-gray-900 dark:text-white"
+                        placeholder="0"
+                    />
+                </div>
+            </div>
+            <div>
+                <label className="block text-sm font-medium text-gray-700 dark:text-slate-300 mb-1">{t('Date')}</label>
+                <button
+                    type="button"
+                    onClick={() => setIsDatePickerOpen(true)}
+                    className="w-full px-3 py-3 bg-gray-50 dark:bg-slate-700 border border-gray-200 dark:border-slate-600 rounded-xl flex items-center justify-between text-left text-sm text-gray-900 dark:text-white"
+                >
+                    <span className="truncate">{new Date(`${date}T00:00:00`).toLocaleDateString(undefined, { month: 'short', day: 'numeric', year: 'numeric' })}</span>
+                    <CalendarIcon size={16} className="text-gray-400 shrink-0" />
+                </button>
+            </div>
+          </div>
+
+          <div className="flex gap-2">
+              {PREPAYMENT_MODES.map(option => (
+                  <button key={option} type="button" onClick={() => setMode(option)} className={chipClass(mode === option)}>
+                      {t(option)}
+                  </button>
+              ))}
+          </div>
+
+          {preview && after && (
+            <div className="grid grid-cols-3 gap-2 text-center">
+                <div className="bg-gray-50 dark:bg-slate-700/50 rounded-xl p-2">
+                    <div className="text-[10px] uppercase font-bold text-gray-400">{t('EMI')}</div>
+                    <div className="font-bold text-sm text-gray-800 dark:text-white">{currency}{getCurrentEmi(preview, date).toFixed(0)}</div>
+                    <div className="text-[10px] text-gray-400 line-through">{currency}{getCurrentEmi(plan, date).toFixed(0)}</div>
+                </div>
+                <div className="bg-gray-50 dark:bg-slate-700/50 rounded-xl p-2">
+                    <div className="text-[10px] uppercase font-bold text-gray-400">{t('Ends')}</div>
+                    <div className="font-bold text-sm text-gray-800 dark:text-white">{formatDate(lastDate(after))}</div>
+                    <div className="text-[10px] text-gray-400 line-through">{formatDate(lastDate(before))}</div>
+                </div>
+                <div className="bg-gray-50 dark:bg-slate-700/50 rounded-xl p-2">
+                    <div className="text-[10px] uppercase font-bold text-gray-400">{t('Interest saved')}</div>
+                    <div className="font-bold text-sm text-green-600 dark:text-green-400">{currency}{(getTotalInterest(before) - getTotalInterest(after)).toFixed(0)}</div>
+                </div>
+            </div>
+          )}
+
+          {accounts.length > 0 && (
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-slate-300 mb-1">{t('Paid From')}</label>
+            <AccountPicker value={accountId} onChange={(account) => setAccountId(account.id)} />
+          </div>
+          )}
+          {error && <p className="text-red-500 text-xs -mt-2">{error}</p>}
+
+          <button
+            type="submit"
+            className="w-full bg-teal-600 text-white py-4 rounded-xl font-bold text-lg hover:bg-teal-700 shadow-lg shadow-teal-600/20 transition-transform active:scale-[0.98]"
+          >
+            {t('Save Prepayment')}
+          </button>
+        </form>
+
+        {plan.prepayments.length > 0 && (
+            <div className="mt-6">
+                <h4 className="text-xs font-bold text-gray-500 dark:text-slate-400 uppercase tracking-wide mb-2">{t('Prepayments')}</h4>
+                <div className="space-y-2">
+                    {[...plan.prepayments].sort((a, b) => a.date.localeCompare(b.date)).map(prepayment => (
+                        <div key={prepayment.id} className="flex justify-between items-center p-3 rounded-xl border border-gray-100 dark:border-slate-700">
+                            <div>
+                                <p className="text-sm text-gray-700 dark:text-slate-200">{new Date(`${prepayment.date}T00:00:00`).toLocaleDateString(undefined, { month: 'short', day: 'numeric', year: 'numeric' })}</p>
+                                <p className="text-xs text-gray-500 dark:text-slate-400">{t(prepayment.mode)}</p>
+                            </div>
+                            <div className="flex items-center space-x-2">
+                                <span className="font-semibold text-sm text-gray-800 dark:text-white">{currency}{prepayment.amount.toFixed(0)}</span>
+                                <button onClick={() => handleDeletePrepayment(prepayment.id)} className="p-1.5 text-gray-300 hover:text-red-500">
+                                    <Trash2 size={14} />
+                                </button>
+                            </div>
+                        </div>
+                    ))}
+                </div>
+            </div>
+        )}
+
+        <DatePicker
+            isOpen={isDatePickerOpen}
+            onClose={() => setIsDatePickerOpen(false)}
+            onSelect={(d) => setDate(toDateString(d))}
+            initialDate={new Date(`${date}T00:00:00`)}
+            title={t('Date')}
+        />
+      </div>
+    </div>
+  );
+};
+
+export default EmiPrepaymentModal;
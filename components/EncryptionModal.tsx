@@ -11,18 +11,21 @@ interface EncryptionModalProps {
 }
 
 const EncryptionModal: React.FC<EncryptionModalProps> = ({ isOpen, mode, onClose, onConfirm }) => {
-  const { t } = useData();
+  const { canUseLoginPasswordForBackup, t } = useData();
   const [password, setPassword] = useState('');
   const [error, setError] = useState('');
 
   if (!isOpen) return null;
 
+  // Without a login password to fall back on, an encrypted backup needs its own password
+  const canSkip = mode === 'encrypt' && canUseLoginPasswordForBackup;
+
   const handleSubmit = (e: React.FormEvent) => {
       e.preventDefault();
       setError('');
 
-      if (mode === 'decrypt' && !password.trim()) {
-          setError(t('Password is required to decrypt'));
+      if (!canSkip && !password.trim()) {
+          setError(t(mode === 'decrypt' ? 'Password is required to decrypt' : 'backup_password_required'));
           return;
       }
       
@@ -49,7 +52,9 @@ const EncryptionModal: React.FC<EncryptionModalProps> = ({ isOpen, mode, onClose
                         {mode === 'encrypt' ? t('Secure Backup') : t('Unlock Backup')}
                     </h2>
                     <p className="text-xs text-gray-500 dark:text-slate-400 mt-1">
-                        {mode === 'encrypt' ? t('set_backup_password_desc') : t('enter_backup_password_desc')}
+                        {mode === 'encrypt'
+                            ? t(canSkip ? 'set_backup_password_desc' : 'set_backup_password_required_desc')
+                            : t('enter_backup_password_desc')}
                     </p>
                 </div>
             </div>
@@ -61,7 +66,7 @@ const EncryptionModal: React.FC<EncryptionModalProps> = ({ isOpen, mode, onClose
         <form onSubmit={handleSubmit} className="space-y-4">
             <div>
                 <label className="block text-sm font-medium text-gray-700 dark:text-slate-300 mb-2">
-                    {mode === 'encrypt' ? t('Set Password (Optional)') : t('Enter Password')}
+                    {mode === 'encrypt' ? t(canSkip ? 'Set Password (Optional)' : 'Set Password') : t('Enter Password')}
                 </label>
                 <div className="relative">
                     <KeyRound className="absolute left-3 top-3.5 text-gray-400" size={18} />
@@ -70,7 +75,7 @@ const EncryptionModal: React.FC<EncryptionModalProps> = ({ isOpen, mode, onClose
                         value={password}
                         onChange={(e) => setPassword(e.target.value)}
                         className={`w-full pl-10 pr-4 py-3 bg-gray-50 dark:bg-slate-700 border ${error ? 'border-red-500' : 'border-gray-200 dark:border-slate-600'} rounded-xl focus:outline-none focus:ring-2 focus:ring-teal-500 text-gray-900 dark:text-white`}
-                        placeholder={mode === 'encrypt' ? t('Leave blank for default security') : "••••••••"}
+                        placeholder={canSkip ? t('Leave blank to use your login password') : "••••••••"}
                         autoFocus
                     />
                 </div>
@@ -92,7 +97,7 @@ const EncryptionModal: React.FC<EncryptionModalProps> = ({ isOpen, mode, onClose
                     }`}
                 >
                     {mode === 'encrypt' 
-                        ? (password ? t('Encrypt & Backup') : t('Skip / Use Default')) 
+                        ? (password || !canSkip ? t('Encrypt & Backup') : t('Skip / Use Default')) 
                         : t('Decrypt & Restore')
                     }
                 </button>
@@ -1,25 +1,51 @@
 
 import React, { useState, useEffect } from 'react';
 import { useData } from '../contexts/DataContext';
-import { Category } from '../types';
-import { X, Check, Loader2, AlertCircle, Calendar as CalendarIcon } from 'lucide-react';
+import { Category, Expense, Recurrence, RecurrenceRule } from '../types';
+import { X, Check, Loader2, AlertCircle, Calendar as CalendarIcon, Users } from 'lucide-react';
 import { parseExpenseFromText } from '../services/geminiService';
 import DatePicker from './DatePicker';
+import RecurrencePicker from './RecurrencePicker';
+import AccountPicker from './AccountPicker';
+import CategoryPicker from './CategoryPicker';
+import TagInput from './TagInput';
+import SplitEditor, { SplitLine } from './SplitEditor';
+import SharingEditor, { SharingDraft, buildSharing, createSharingDraft } from './SharingEditor';
+import { normalizeRecurrenceRule } from '../utils/recurrence';
+import { getAccountPaymentMethod, getDefaultAccountId } from '../utils/accounts';
+import { OTHER_EXPENSE_CATEGORY, resolveCategory } from '../utils/categories';
+import { getPrimaryPart, isSplitBalanced } from '../utils/splits';
+import { getAllTags } from '../utils/tags';
+import { getOwnShare, isSharingBalanced, SELF_ID } from '../utils/sharing';
 
 interface ExpenseFormProps {
   onClose: () => void;
+  expense?: Expense; // When provided, the form edits this expense instead of adding a new one
 }
 
-const ExpenseForm: React.FC<ExpenseFormProps> = ({ onClose }) => {
-  const { addExpense, currency, t } = useData();
-  const [amount, setAmount] = useState('');
-  const [category, setCategory] = useState<Category>('Food');
-  const [description, setDescription] = useState('');
-  const [date, setDate] = useState(new Date().toISOString().split('T')[0]);
-  const [paymentMethod, setPaymentMethod] = useState<'Cash' | 'Card' | 'UPI' | 'Other'>('UPI');
+const ExpenseForm: React.FC<ExpenseFormProps> = ({ onClose, expense }) => {
+  const { addExpense, updateExpense, expenses, incomes, accounts, categories, currency, t } = useData();
+  const isEditing = !!expense;
+  const [amount, setAmount] = useState(expense ? (expense.sharing ? expense.sharing.total : expense.amount).toString() : '');
+  const [category, setCategory] = useState<Category>(expense?.category || 'Food');
+  const [subcategory, setSubcategory] = useState<Category | undefined>(expense?.subcategory);
+  const [description, setDescription] = useState(expense?.description || '');
+  const [date, setDate] = useState(expense?.date || new Date().toISOString().split('T')[0]);
+  const [paymentMethod, setPaymentMethod] = useState<'Cash' | 'Card' | 'UPI' | 'Other'>(expense?.paymentMethod || 'UPI');
+  const [accountId, setAccountId] = useState(expense?.accountId || getDefaultAccountId(accounts, expense?.paymentMethod || 'UPI'));
+  const [splitLines, setSplitLines] = useState<SplitLine[]>(
+      (expense?.splits || []).map(p => ({ amount: p.amount.toString(), category: p.category, subcategory: p.subcategory, note: p.note || '' }))
+  );
+  const isSplit = splitLines.length > 0;
+  const [sharing, setSharing] = useState<SharingDraft | null>(expense?.sharing ? createSharingDraft(expense.sharing) : null);
+  const paidByFriend = !!sharing && sharing.paidBy !== SELF_ID;
+  const [tags, setTags] = useState<string[]>(expense?.tags || []);
+  const [notes, setNotes] = useState(expense?.notes || '');
+  const [recurrence, setRecurrence] = useState<Recurrence>('None');
+  const [recurrenceRule, setRecurrenceRule] = useState<RecurrenceRule>({});
   
   // Validation State
-  const [errors, setErrors] = useState<{ amount?: string; description?: string; date?: string }>({});
+  const [errors, setErrors] = useState<{ amount?: string; description?: string; date?: string; splits?: string; sharing?: string }>({});
   
   // AI Parsing State
   const [nlInput, setNlInput] = useState('');
@@ -30,7 +56,7 @@ const ExpenseForm: React.FC<ExpenseFormProps> = ({ onClose }) => {
   const [showDatePicker, setShowDatePicker] = useState(false);
 
   const validate = () => {
-    const newErrors: { amount?: string; description?: string; date?: string } = {};
+    const newErrors: { amount?: string; description?: string; date?: string; splits?: string; sharing?: string } = {};
     
     if (!amount) {
         newErrors.amount = "Amount is required";
@@ -46,6 +72,26 @@ const ExpenseForm: React.FC<ExpenseFormProps> = ({ onClose }) => {
         newErrors.date = "Date is required";
     }
 
+    if (isSplit) {
+        const parts = splitLines.map(l => ({ amount: parseFloat(l.amount) || 0 }));
+        if (parts.some(p => p.amount <= 0)) {
+            newErrors.splits = t('Each part needs an amount');
+        } else if (!isSplitBalanced(parseFloat(amount) || 0, parts)) {
+            newErrors.splits = t('Parts must add up to the total');
+        }
+    }
+
+    if (sharing) {
+        const built = buildSharing(sharing, parseFloat(amount) || 0);
+        if (!built.participants.some(p => p.contactId !== SELF_ID) && built.paidBy === SELF_ID) {
+            newErrors.sharing = t('Add someone to share with');
+        } else if (sharing.mode === 'shares' && sharing.participants.every(p => !(parseFloat(p.shares) > 0))) {
+            newErrors.sharing = t('Shares must add up to more than zero');
+        } else if (!isSharingBalanced(built)) {
+            newErrors.sharing = t('Parts must add up to the total');
+        }
+    }
+
     setErrors(newErrors);
     return Object.keys(newErrors).length === 0;
   };
@@ -55,25 +101,72 @@ const ExpenseForm: React.FC<ExpenseFormProps> = ({ onClose }) => {
     
     if (!validate()) return;
 
-    addExpense({
-      amount: parseFloat(amount),
-      category,
+    // A split expense is listed under its largest line
+    const splits = isSplit
+      ? splitLines.map(l => ({ amount: parseFloat(l.amount), category: l.category, subcategory: l.subcategory, note: l.note.trim() || undefined }))
+      : undefined;
+    const primary = splits ? getPrimaryPart(splits) : { category, subcategory };
+    // A shared expense counts only the user's part; the whole bill is kept on `sharing`
+    const shared = sharing ? buildSharing(sharing, parseFloat(amount)) : undefined;
+
+    const details = {
+      amount: shared ? getOwnShare(shared) : parseFloat(amount),
+      category: primary.category,
+      subcategory: primary.subcategory,
+      splits,
+      sharing: shared,
       description: description.trim(),
       date,
       paymentMethod,
-    });
+      accountId: paidByFriend ? undefined : accountId,
+      tags: tags.length > 0 ? tags : undefined,
+      notes: notes.trim() || undefined,
+    };
+
+    if (expense) {
+      updateExpense(expense.id, details);
+    } else {
+      addExpense({ ...details, recurrence, recurrenceRule: normalizeRecurrenceRule(recurrence, recurrenceRule) });
+    }
     onClose();
   };
 
+  // Splitting starts from the current category holding the whole amount, plus an empty line to fill in
+  const toggleSplit = () => {
+      if (isSplit) {
+          setSplitLines([]);
+      } else {
+          setSplitLines([
+              { amount, category, subcategory, note: '' },
+              { amount: '', category: OTHER_EXPENSE_CATEGORY, note: '' },
+          ]);
+      }
+      setErrors(prev => ({ ...prev, splits: undefined }));
+  };
+
+  // Sharing and splitting don't mix: a shared bill is kept in one category
+  const toggleSharing = () => {
+      setSharing(sharing ? null : createSharingDraft());
+      setSplitLines([]);
+      setErrors(prev => ({ ...prev, sharing: undefined, splits: undefined }));
+  };
+
   const handleAIParse = async () => {
       if(!nlInput.trim()) return;
       setIsParsing(true);
       try {
-          const parsed = await parseExpenseFromText(nlInput);
+          const parsed = await parseExpenseFromText(nlInput, categories);
           if (parsed.amount) setAmount(parsed.amount.toString());
-          if (parsed.category) setCategory(parsed.category);
+          if (parsed.category) {
+              const resolved = resolveCategory(categories, 'expense', parsed.category);
+              setCategory(resolved.category);
+              setSubcategory(resolved.subcategory);
+          }
           if (parsed.description) setDescription(parsed.description);
-          if (parsed.paymentMethod) setPaymentMethod(parsed.paymentMethod);
+          if (parsed.paymentMethod) {
+              setPaymentMethod(parsed.paymentMethod);
+              setAccountId(getDefaultAccountId(accounts, parsed.paymentMethod));
+          }
           if (parsed.date) {
             // Check if valid date
             const d = new Date(parsed.date);
@@ -110,13 +203,14 @@ const ExpenseForm: React.FC<ExpenseFormProps> = ({ onClose }) => {
         onClick={(e) => e.stopPropagation()}
       >
         <div className="flex justify-between items-center mb-6">
-          <h2 className="text-xl font-bold text-gray-800 dark:text-white">{t('Add Expense')}</h2>
+          <h2 className="text-xl font-bold text-gray-800 dark:text-white">{isEditing ? t('Edit Expense') : t('Add Expense')}</h2>
           <button onClick={onClose} className="p-2 bg-gray-100 dark:bg-slate-700 rounded-full hover:bg-gray-200 dark:hover:bg-slate-600 transition-colors">
             <X size={20} className="text-gray-600 dark:text-slate-300" />
           </button>
         </div>
 
-        {/* AI Quick Entry Toggle */}
+        {/* AI Quick Entry Toggle (new entries only) */}
+        {!isEditing && (
         <div className="mb-6">
             {!showAIInput ? (
                 <button 
@@ -148,10 +242,11 @@ const ExpenseForm: React.FC<ExpenseFormProps> = ({ onClose }) => {
                 </div>
             )}
         </div>
+        )}
 
         <form onSubmit={handleSubmit} className="space-y-4">
           <div>
-            <label className="block text-sm font-medium text-gray-700 dark:text-slate-300 mb-1">{t('Amount')}</label>
+            <label className="block text-sm font-medium text-gray-700 dark:text-slate-300 mb-1">{sharing ? t('Total Bill') : t('Amount')}</label>
             <div className="relative">
                 <span className="absolute left-3 top-3.5 text-gray-400 dark:text-slate-400 font-bold">{currency}</span>
                 <input
@@ -198,16 +293,26 @@ const ExpenseForm: React.FC<ExpenseFormProps> = ({ onClose }) => {
 
           <div className="grid grid-cols-2 gap-4">
             <div>
-                <label className="block text-sm font-medium text-gray-700 dark:text-slate-300 mb-1">{t('Category')}</label>
-                <select
-                value={category}
-                onChange={(e) => setCategory(e.target.value as Category)}
-                className="w-full px-4 py-3 bg-gray-50 dark:bg-slate-700 border border-gray-200 dark:border-slate-600 rounded-xl focus:outline-none focus:ring-2 focus:ring-teal-500 appearance-none text-gray-900 dark:text-white"
-                >
-                {['Food', 'Transport', 'Entertainment', 'Utilities', 'Healthcare', 'Shopping', 'Housing', 'Other'].map(c => (
-                    <option key={c} value={c}>{t(c)}</option>
-                ))}
-                </select>
+                <div className="flex justify-between items-center mb-1">
+                    <label className="block text-sm font-medium text-gray-700 dark:text-slate-300">{t('Category')}</label>
+                    {!sharing && (
+                    <button type="button" onClick={toggleSplit} className="text-xs font-semibold text-teal-600 dark:text-teal-400">
+                        {isSplit ? t('Unsplit') : t('Split')}
+                    </button>
+                    )}
+                </div>
+                {isSplit ? (
+                    <div className="w-full px-4 py-3 bg-gray-100 dark:bg-slate-700/50 border border-gray-200 dark:border-slate-600 rounded-xl text-sm text-gray-500 dark:text-slate-400">
+                        {splitLines.length} {t('parts')}
+                    </div>
+                ) : (
+                <CategoryPicker
+                kind="expense"
+                category={category}
+                subcategory={subcategory}
+                onChange={(c, sub) => { setCategory(c); setSubcategory(sub); }}
+                />
+                )}
             </div>
             
             {/* Custom Date Picker */}
@@ -232,6 +337,66 @@ const ExpenseForm: React.FC<ExpenseFormProps> = ({ onClose }) => {
             </div>
           </div>
 
+          {isSplit && (
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-slate-300 mb-2">{t('Split across categories')}</label>
+            <SplitEditor
+                lines={splitLines}
+                onChange={(lines) => {
+                    setSplitLines(lines);
+                    if (errors.splits) setErrors(prev => ({ ...prev, splits: undefined }));
+                }}
+                total={parseFloat(amount) || 0}
+            />
+            {errors.splits && (
+                <div className="flex items-center mt-1 text-red-500 text-xs">
+                    <AlertCircle size={12} className="mr-1" />
+                    {errors.splits}
+                </div>
+            )}
+          </div>
+          )}
+
+          <div>
+            <div className="flex justify-between items-center mb-2">
+                <label className="block text-sm font-medium text-gray-700 dark:text-slate-300">{t('Shared Expense')}</label>
+                <button type="button" onClick={toggleSharing} className="flex items-center text-xs font-semibold text-teal-600 dark:text-teal-400">
+                    <Users size={14} className="mr-1" />
+                    {sharing ? t('Not shared') : t('Share with others')}
+                </button>
+            </div>
+            {sharing && (
+                <SharingEditor
+                    draft={sharing}
+                    onChange={(draft) => {
+                        setSharing(draft);
+                        if (errors.sharing) setErrors(prev => ({ ...prev, sharing: undefined }));
+                    }}
+                    total={parseFloat(amount) || 0}
+                />
+            )}
+            {errors.sharing && (
+                <div className="flex items-center mt-1 text-red-500 text-xs">
+                    <AlertCircle size={12} className="mr-1" />
+                    {errors.sharing}
+                </div>
+            )}
+          </div>
+
+          {accounts.length > 0 && !paidByFriend && (
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-slate-300 mb-2">{t('Paid From')}</label>
+            <AccountPicker
+                value={accountId}
+                onChange={(account) => {
+                    setAccountId(account.id);
+                    const method = getAccountPaymentMethod(account.type);
+                    if (method) setPaymentMethod(method);
+                }}
+            />
+          </div>
+          )}
+
           <div>
             <label className="block text-sm font-medium text-gray-700 dark:text-slate-300 mb-2">{t('Payment Method')}</label>
             <div className="flex gap-2">
@@ -252,6 +417,40 @@ const ExpenseForm: React.FC<ExpenseFormProps> = ({ onClose }) => {
             </div>
           </div>
 
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-slate-300 mb-1">{t('Tags')}</label>
+            <TagInput
+                tags={tags}
+                onChange={setTags}
+                suggestions={getAllTags([...expenses, ...incomes])}
+                placeholder={t('tags_placeholder')}
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-slate-300 mb-1">{t('Notes')}</label>
+            <textarea
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              rows={3}
+              className="w-full px-4 py-3 bg-gray-50 dark:bg-slate-700 border border-gray-200 dark:border-slate-600 rounded-xl focus:outline-none focus:ring-2 focus:ring-teal-500 text-gray-900 dark:text-white placeholder-gray-400 transition-colors resize-none"
+              placeholder={t('notes_placeholder')}
+            />
+          </div>
+
+          {/* Repeating expenses are set up once; each occurrence is edited on its own afterwards */}
+          {!isEditing && (
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-slate-300 mb-2">{t('Repeat')}</label>
+            <RecurrencePicker
+                recurrence={recurrence}
+                rule={recurrenceRule}
+                onChange={(r, rule) => { setRecurrence(r); setRecurrenceRule(rule); }}
+                accentClassName="bg-teal-600"
+            />
+          </div>
+          )}
+
           <button
             type="submit"
             className="w-full bg-teal-600 text-white py-4 rounded-xl font-bold text-lg hover:bg-teal-700 shadow-lg shadow-teal-600/20 transition-transform active:scale-[0.98] mt-4"
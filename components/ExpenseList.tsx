@@ -2,9 +2,13 @@
 import React, { useState, useEffect, useRef, useMemo } from 'react';
 import { useData } from '../contexts/DataContext';
 import { Trash2, Search, RotateCcw, ArrowRight, ArrowUpDown, Filter, X, AlertCircle } from 'lucide-react';
-import { Category, Expense, Income, IncomeCategory } from '../types';
+import { Category, Expense, Income } from '../types';
+import { getCategoryName, getTopLevelCategories } from '../utils/categories';
+import { formatTag, getAllTags, getTagTotals } from '../utils/tags';
+import { getExpenseParts, isSplitExpense } from '../utils/splits';
 import DatePicker from './DatePicker';
 import TransactionDetailsModal from './TransactionDetailsModal';
+import CategoryBadge from './CategoryBadge';
 
 interface ExpenseListProps {
   initialCategory?: Category | 'All';
@@ -19,10 +23,10 @@ interface SwipeableItemProps {
   currency: string;
   onDelete: (id: string, type: 'expense' | 'income') => void;
   onItemClick: (item: TransactionItem) => void;
-  t: (key: string) => string;
+  categoryLabel: string;
 }
 
-const SwipeableItem: React.FC<SwipeableItemProps> = ({ item, currency, onDelete, onItemClick, t }) => {
+const SwipeableItem: React.FC<SwipeableItemProps> = ({ item, currency, onDelete, onItemClick, categoryLabel }) => {
   const [offsetX, setOffsetX] = useState(0);
   const [isDragging, setIsDragging] = useState(false);
   const startX = useRef<number>(0);
@@ -131,20 +135,13 @@ const SwipeableItem: React.FC<SwipeableItemProps> = ({ item, currency, onDelete,
         onClick={handleClick}
       >
         <div className="flex items-center space-x-3 pointer-events-none">
-          <div className={`w-10 h-10 rounded-full flex items-center justify-center text-lg flex-shrink-0
-            ${!isExpense ? 'bg-teal-100 text-teal-600 dark:bg-teal-900/30 dark:text-teal-400' :
-              item.category === 'Food' ? 'bg-orange-100 text-orange-600 dark:bg-orange-900/30 dark:text-orange-400' : 
-              item.category === 'Transport' ? 'bg-blue-100 text-blue-600 dark:bg-blue-900/30 dark:text-blue-400' :
-              'bg-gray-100 text-gray-600 dark:bg-slate-700 dark:text-slate-400'}
-          `}>
-            {isExpense ? item.category[0] : (item.category === 'Salary' ? '💰' : '📥')}
-          </div>
+          <CategoryBadge category={item.category} subcategory={item.subcategory} />
           <div>
             <div className="font-semibold text-gray-800 dark:text-white line-clamp-1">
                 {isExpense ? (item as Expense).description : (item as Income).source}
             </div>
             <div className="text-xs text-gray-500 dark:text-slate-400">
-                {t(item.category)} • {isExpense ? (item as Expense).paymentMethod : (item as Income).recurrence}
+                {categoryLabel} • {isExpense ? (item as Expense).paymentMethod : (item as Income).recurrence}
             </div>
           </div>
         </div>
@@ -159,7 +156,7 @@ const SwipeableItem: React.FC<SwipeableItemProps> = ({ item, currency, onDelete,
 };
 
 const ExpenseList: React.FC<ExpenseListProps> = ({ initialCategory = 'All', onNavigateToBudget }) => {
-  const { expenses, incomes, deleteExpense, restoreExpense, deleteIncome, restoreIncome, currency, t } = useData();
+  const { expenses, incomes, categories, deleteExpense, restoreExpense, deleteIncome, restoreIncome, currency, t } = useData();
   const [filterCategories, setFilterCategories] = useState<string[]>(['All']);
   const [searchTerm, setSearchTerm] = useState('');
   
@@ -170,6 +167,7 @@ const ExpenseList: React.FC<ExpenseListProps> = ({ initialCategory = 'All', onNa
   const [endDate, setEndDate] = useState('');
   const [minAmount, setMinAmount] = useState('');
   const [maxAmount, setMaxAmount] = useState('');
+  const [filterTags, setFilterTags] = useState<string[]>([]);
 
   // Date Picker State
   const [datePickerConfig, setDatePickerConfig] = useState<{
@@ -199,25 +197,48 @@ const ExpenseList: React.FC<ExpenseListProps> = ({ initialCategory = 'All', onNa
       return [...exps, ...incs];
   }, [expenses, incomes]);
 
-  // Combined Categories for Pills
-  const expenseCategories: Category[] = ['Food', 'Transport', 'Entertainment', 'Utilities', 'Healthcare', 'Shopping', 'Housing', 'Other'];
-  const incomeCategories: IncomeCategory[] = ['Salary', 'Rent', 'Interest', 'Business', 'Gift'];
-  // Deduplicate 'Other' by using Set
-  const allCategoryPills = Array.from(new Set([...expenseCategories, ...incomeCategories]));
+  // Combined Categories for Pills: the user's top-level expense categories, then income categories
+  const allCategoryPills = [...getTopLevelCategories(categories, 'expense'), ...getTopLevelCategories(categories, 'income')];
+
+  // Spending per tag over the selected date range; an entry with several tags counts towards each
+  const allTags = useMemo(() => getAllTags(allTransactions), [allTransactions]);
+  const tagTotals = useMemo(() => {
+      const inRange = expenses.filter(e => (!startDate || e.date >= startDate) && (!endDate || e.date <= endDate));
+      return Object.fromEntries(getTagTotals(inRange).map(total => [total.tag, total.total]));
+  }, [expenses, startDate, endDate]);
+
+  // Split expenses stay one row, labelled with every category they cover; shared ones are marked as such
+  const baseCategoryLabel = (item: TransactionItem) => item.type === 'expense' && isSplitExpense(item)
+      ? `${t('Split')}: ${Array.from(new Set(item.splits!.map(p => t(getCategoryName(categories, p.category))))).join(', ')}`
+      : item.subcategory
+      ? `${t(getCategoryName(categories, item.category))} › ${t(getCategoryName(categories, item.subcategory))}`
+      : t(getCategoryName(categories, item.category));
+
+  const categoryLabel = (item: TransactionItem) => item.type === 'expense' && item.sharing
+      ? `${baseCategoryLabel(item)} • ${t('Shared')}`
+      : baseCategoryLabel(item);
 
   const filteredTransactions = useMemo(() => {
       let result = allTransactions;
 
       // Category Filter
       if (!filterCategories.includes('All')) {
-          result = result.filter(item => filterCategories.includes(item.category));
+          result = result.filter(item => (item.type === 'expense' ? getExpenseParts(item) : [item]).some(p => filterCategories.includes(p.category)));
+      }
+
+      // Tag Filter: entries carrying any of the selected tags
+      if (filterTags.length > 0) {
+          result = result.filter(item => item.tags?.some(tag => filterTags.includes(tag)));
       }
 
-      // Search Filter
+      // Search Filter (also matches notes and tags)
       if (searchTerm) {
+          const term = searchTerm.toLowerCase();
           result = result.filter(item => {
               const text = item.type === 'expense' ? (item as Expense).description : (item as Income).source;
-              return text.toLowerCase().includes(searchTerm.toLowerCase());
+              return text.toLowerCase().includes(term) ||
+                  !!item.notes?.toLowerCase().includes(term) ||
+                  !!item.tags?.some(tag => formatTag(tag).includes(term));
           });
       }
 
@@ -252,7 +273,7 @@ const ExpenseList: React.FC<ExpenseListProps> = ({ initialCategory = 'All', onNa
                   return 0;
           }
       });
-  }, [allTransactions, filterCategories, searchTerm, startDate, endDate, minAmount, maxAmount, sortOption]);
+  }, [allTransactions, filterCategories, filterTags, searchTerm, startDate, endDate, minAmount, maxAmount, sortOption]);
 
   // Group by date
   const groupedTransactions: Record<string, typeof allTransactions> = {};
@@ -319,6 +340,11 @@ const ExpenseList: React.FC<ExpenseListProps> = ({ initialCategory = 'All', onNa
       setEndDate('');
       setMinAmount('');
       setMaxAmount('');
+      setFilterTags([]);
+  };
+
+  const toggleTag = (tag: string) => {
+      setFilterTags(prev => prev.includes(tag) ? prev.filter(t => t !== tag) : [...prev, tag]);
   };
 
   // --- Category Selection Handlers ---
@@ -386,7 +412,7 @@ const ExpenseList: React.FC<ExpenseListProps> = ({ initialCategory = 'All', onNa
       }
   };
 
-  const hasActiveFilters = startDate || endDate || minAmount || maxAmount;
+  const hasActiveFilters = startDate || endDate || minAmount || maxAmount || filterTags.length > 0;
   const dateError = startDate && endDate && startDate > endDate ? "Start date cannot be after end date" : "";
   const amountError = minAmount && maxAmount && parseFloat(minAmount) > parseFloat(maxAmount) ? "Min amount cannot be greater than max" : "";
 
@@ -494,6 +520,26 @@ const ExpenseList: React.FC<ExpenseListProps> = ({ initialCategory = 'All', onNa
                                 />
                             </div>
                             
+                            {allTags.length > 0 && (
+                                <div className="col-span-2 space-y-1">
+                                    <label className="text-[10px] text-gray-500 dark:text-slate-400 font-bold uppercase">{t('Tags')}</label>
+                                    <div className="flex flex-wrap gap-1.5">
+                                        {allTags.map(tag => (
+                                            <button
+                                                key={tag}
+                                                onClick={() => toggleTag(tag)}
+                                                className={`px-2.5 py-1 rounded-full text-xs font-medium transition-colors ${filterTags.includes(tag) ? 'bg-teal-600 text-white' : 'bg-gray-100 dark:bg-slate-700 text-gray-600 dark:text-slate-300'}`}
+                                            >
+                                                {formatTag(tag)}
+                                                {tagTotals[tag] > 0 && (
+                                                    <span className={filterTags.includes(tag) ? 'text-teal-100' : 'text-gray-400 dark:text-slate-400'}> • {currency}{tagTotals[tag].toLocaleString()}</span>
+                                                )}
+                                            </button>
+                                        ))}
+                                    </div>
+                                </div>
+                            )}
+
                             {(dateError || amountError) && (
                                 <div className="col-span-2 text-xs text-red-500 flex items-center">
                                     <AlertCircle size={10} className="mr-1"/> {dateError || amountError}
@@ -524,17 +570,18 @@ const ExpenseList: React.FC<ExpenseListProps> = ({ initialCategory = 'All', onNa
                         </button>
                         {allCategoryPills.map(c => (
                             <button
-                                key={c}
-                                onMouseDown={() => handleButtonPressStart(c)}
-                                onMouseUp={(e) => handleButtonPressEnd(c, e)}
+                                key={c.id}
+                                onMouseDown={() => handleButtonPressStart(c.id)}
+                                onMouseUp={(e) => handleButtonPressEnd(c.id, e)}
                                 onMouseLeave={handlePressCancel}
-                                onTouchStart={() => handleButtonPressStart(c)}
-                                onTouchEnd={(e) => handleButtonPressEnd(c, e)}
+                                onTouchStart={() => handleButtonPressStart(c.id)}
+                                onTouchEnd={(e) => handleButtonPressEnd(c.id, e)}
                                 onTouchMove={handlePressCancel}
                                 onContextMenu={(e) => e.preventDefault()} // Prevent native context menu on long press
-                                className={`flex-shrink-0 px-3 py-1.5 rounded-full text-xs font-medium whitespace-nowrap transition-colors ${filterCategories.includes(c) ? 'bg-teal-600 text-white' : 'bg-gray-100 dark:bg-slate-700 text-gray-600 dark:text-slate-300'}`}
+                                className={`flex-shrink-0 flex items-center px-3 py-1.5 rounded-full text-xs font-medium whitespace-nowrap transition-colors ${filterCategories.includes(c.id) ? 'bg-teal-600 text-white' : 'bg-gray-100 dark:bg-slate-700 text-gray-600 dark:text-slate-300'}`}
                             >
-                                {t(c)}
+                                <span className="w-2 h-2 rounded-full mr-1.5" style={{ backgroundColor: c.color }}></span>
+                                {t(c.name)}
                             </button>
                         ))}
                     </div>
@@ -568,7 +615,7 @@ const ExpenseList: React.FC<ExpenseListProps> = ({ initialCategory = 'All', onNa
                                 currency={currency}
                                 onDelete={handleDelete}
                                 onItemClick={setSelectedItem}
-                                t={t}
+                                categoryLabel={categoryLabel(item)}
                             />
                         ))}
                      </div>
@@ -0,0 +1,152 @@
+import React, { useMemo, useState } from 'react';
+import { useData } from '../contexts/DataContext';
+import { Income, ReminderLanguage, ReminderStage } from '../types';
+import { getOutstandingBalance } from '../utils/incomeLedger';
+import { getAccruedLateFee, getDaysLate } from '../utils/rentTerms';
+import { buildIncomePaymentLink } from '../utils/upi';
+import { getCategoryName } from '../utils/categories';
+import { REMINDER_STAGES, getReminderTemplate, getNextReminderStage, fillReminderTemplate, toReminderLanguage } from '../utils/reminderTemplates';
+import QRCodeImage from './QRCodeImage';
+import { Phone, MessageCircle, X } from 'lucide-react';
+
+interface FollowUpSheetProps {
+  income: Income;
+  onClose: () => void;
+}
+
+const getLocalToday = () => {
+    const d = new Date();
+    return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
+};
+
+// Reminder for an overdue entry: the next stage's template in the tenant's language, editable before sending
+const FollowUpSheet: React.FC<FollowUpSheetProps> = ({ income, onClose }) => {
+  const { tenants, userProfile, categories, language: appLanguage, logIncomeReminder, currency, t } = useData();
+  const tenant = tenants.find(tn => tn.id === income.tenantId);
+  // The linked tenant's details win; older entries fall back to the contact saved on the income itself
+  const contact = tenant?.mobile || income.tenantContact;
+
+  const [stage, setStage] = useState<ReminderStage>(getNextReminderStage(income));
+  const [language, setLanguage] = useState<ReminderLanguage>(toReminderLanguage(tenant?.preferredLanguage || appLanguage));
+  const [editedMessage, setEditedMessage] = useState<string | null>(null);
+  const upiLink = userProfile?.upiId ? buildIncomePaymentLink(income, userProfile.upiId, userProfile.name, getCategoryName(categories, income.category)) : '';
+
+  const generatedMessage = useMemo(() => {
+      const today = getLocalToday();
+      const dueDate = income.dueDate || income.date;
+      const lateFee = getAccruedLateFee(income, today);
+      return fillReminderTemplate(getReminderTemplate(userProfile?.reminderTemplates, language, stage), {
+          tenant: tenant?.name || income.source,
+          amount: `${currency}${getOutstandingBalance(income).toFixed(0)}`,
+          dueDate: new Date(`${dueDate}T00:00:00`).toLocaleDateString(language === 'ta' ? 'ta-IN' : 'en-IN', { day: 'numeric', month: 'short', year: 'numeric' }),
+          daysOverdue: String(getDaysLate({ ...income, gracePeriodDays: 0 }, today)),
+          lateFee: lateFee > 0 ? `${currency}${lateFee.toFixed(0)}` : '',
+          upiId: userProfile?.upiId || '',
+          upiLink,
+      });
+  }, [income, tenant, userProfile, language, stage, currency, upiLink]);
+
+  const message = editedMessage ?? generatedMessage;
+
+  const handleWhatsAppReminder = () => {
+      if (!contact) {
+          alert(t('No contact number found for this tenant.'));
+          return;
+      }
+      const url = `https://wa.me/${contact.replace(/\D/g, '')}?text=${encodeURIComponent(message)}`;
+      window.open(url, '_blank');
+      logIncomeReminder(income.id, { stage, channel: 'WhatsApp', language });
+      onClose();
+  };
+
+  const handleCallTenant = () => {
+      if (!contact) {
+           alert(t('No contact number found for this tenant.'));
+           return;
+      }
+      window.location.href = `tel:${contact}`;
+      logIncomeReminder(income.id, { stage, channel: 'Call', language });
+      onClose();
+  };
+
+  const chipClass = (selected: boolean) => `flex-1 py-1.5 rounded-lg text-xs font-semibold transition-colors ${
+      selected ? 'bg-white dark:bg-slate-600 text-gray-800 dark:text-white shadow-sm' : 'text-gray-500 dark:text-slate-400'
+  }`;
+
+  return (
+    <div 
+        className="fixed inset-0 z-50 flex items-end sm:items-center justify-center bg-black/50 backdrop-blur-sm animate-fade-in"
+        onClick={onClose}
+    >
+        <div 
+            className="bg-white dark:bg-slate-800 w-full sm:max-w-sm sm:rounded-2xl rounded-t-2xl p-6 pb-[calc(1.5rem+env(safe-area-inset-bottom))] sm:pb-6 shadow-xl max-h-[90vh] overflow-y-auto no-scrollbar animate-slide-up"
+            onClick={e => e.stopPropagation()}
+        >
+            <div className="flex justify-between items-center mb-4">
+                <div>
+                    <h3 className="text-lg font-bold text-gray-800 dark:text-white">{t('Rent Follow Up')}</h3>
+                    {income.reminders && income.reminders.length > 0 && (
+                        <p className="text-xs text-gray-500 dark:text-slate-400">
+                            {t('Reminders sent')}: {income.reminders.length} • {t('Last')} {new Date(income.reminders[income.reminders.length - 1].sentAt).toLocaleDateString()}
+                        </p>
+                    )}
+                </div>
+                <button onClick={onClose} className="p-1 rounded-full hover:bg-gray-100 dark:hover:bg-slate-700">
+                    <X size={20} className="text-gray-500" />
+                </button>
+            </div>
+
+            <div className="flex gap-2 mb-3">
+                <div className="flex flex-[3] bg-gray-100 dark:bg-slate-700 rounded-xl p-1">
+                    {REMINDER_STAGES.map(s => (
+                        <button key={s} onClick={() => { setStage(s); setEditedMessage(null); }} className={chipClass(stage === s)}>
+                            {t(`reminder_${s}`)}
+                        </button>
+                    ))}
+                </div>
+                <div className="flex flex-[2] bg-gray-100 dark:bg-slate-700 rounded-xl p-1">
+                    {(['en', 'ta'] as const).map(l => (
+                        <button key={l} onClick={() => { setLanguage(l); setEditedMessage(null); }} className={chipClass(language === l)}>
+                            {l === 'en' ? 'EN' : 'தமிழ்'}
+                        </button>
+                    ))}
+                </div>
+            </div>
+
+            {upiLink && (
+                <div className="flex items-center space-x-3 mb-3 p-2 rounded-xl bg-gray-50 dark:bg-slate-700/50">
+                    <QRCodeImage value={upiLink} size={72} className="rounded-lg shrink-0" />
+                    <p className="text-xs text-gray-500 dark:text-slate-400">{t('The UPI pay link is included in the message. Show this QR code to collect in person.')}</p>
+                </div>
+            )}
+
+            <textarea
+                value={message}
+                onChange={(e) => setEditedMessage(e.target.value)}
+                rows={6}
+                className="w-full px-3 py-2 mb-4 bg-gray-50 dark:bg-slate-700 border border-gray-200 dark:border-slate-600 rounded-xl text-sm text-gray-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-teal-500 resize-none"
+            />
+            
+            <div className="space-y-3">
+                <button 
+                    onClick={handleWhatsAppReminder}
+                    className="w-full flex items-center justify-center space-x-2 bg-green-500 text-white py-3 rounded-xl font-semibold hover:bg-green-600 transition-colors"
+                >
+                    <MessageCircle size={20} />
+                    <span>{t('WhatsApp Reminder')}</span>
+                </button>
+                
+                <button 
+                    onClick={handleCallTenant}
+                    className="w-full flex items-center justify-center space-x-2 bg-blue-500 text-white py-3 rounded-xl font-semibold hover:bg-blue-600 transition-colors"
+                >
+                    <Phone size={20} />
+                    <span>{t('Call Tenant')}</span>
+                </button>
+            </div>
+        </div>
+    </div>
+  );
+};
+
+export default FollowUpSheet;
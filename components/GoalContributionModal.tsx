@@ -0,0 +1,154 @@
+import React, { useState } from 'react';
+import { useData } from '../contexts/DataContext';
+import { SavingsGoal } from '../types';
+import { getGoalRemaining, getGoalSaved } from '../utils/goals';
+import { X, Calendar as CalendarIcon, Trash2, Repeat } from 'lucide-react';
+import DatePicker from './DatePicker';
+
+interface GoalContributionModalProps {
+  goal: SavingsGoal;
+  today: string;
+  onClose: () => void;
+}
+
+const toDateString = (d: Date) => `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
+
+// Adds money to a goal by hand, with every contribution so far (rule-based ones marked)
+const GoalContributionModal: React.FC<GoalContributionModalProps> = ({ goal, today, onClose }) => {
+  const { addGoalContribution, deleteGoalContribution, currency, t } = useData();
+  const remaining = getGoalRemaining(goal);
+  const [amount, setAmount] = useState('');
+  const [date, setDate] = useState(today);
+  const [note, setNote] = useState('');
+  const [error, setError] = useState('');
+  const [isDatePickerOpen, setIsDatePickerOpen] = useState(false);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const value = parseFloat(amount);
+    if (!value || value <= 0) {
+        setError(t('Valid amount required'));
+        return;
+    }
+    addGoalContribution(goal.id, { amount: value, date, note: note.trim() || undefined });
+    onClose();
+  };
+
+  const handleDelete = (contributionId: string) => {
+    if (confirm(t('delete_contribution_confirm'))) {
+        deleteGoalContribution(goal.id, contributionId);
+    }
+  };
+
+  const formatDate = (value: string) => new Date(`${value}T00:00:00`).toLocaleDateString(undefined, { month: 'short', day: 'numeric', year: 'numeric' });
+
+  return (
+    <div
+      className="fixed inset-0 bg-black/50 z-50 flex items-end sm:items-center justify-center animate-fade-in backdrop-blur-sm"
+      onClick={onClose}
+    >
+      <div
+        className="bg-white dark:bg-slate-800 w-full sm:max-w-md sm:rounded-2xl rounded-t-2xl px-6 pt-6 pb-[calc(2rem+env(safe-area-inset-bottom))] sm:pb-6 shadow-xl max-h-[90vh] h-auto overflow-y-auto no-scrollbar"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex justify-between items-center mb-4">
+          <div>
+            <h2 className="text-xl font-bold text-gray-800 dark:text-white">{t('Add Money')}</h2>
+            <p className="text-xs text-gray-500 dark:text-slate-400">
+                {goal.name} • {currency}{getGoalSaved(goal).toFixed(0)} / {currency}{goal.targetAmount.toFixed(0)}
+            </p>
+          </div>
+          <button onClick={onClose} className="p-2 bg-gray-100 dark:bg-slate-700 rounded-full hover:bg-gray-200 dark:hover:bg-slate-600 transition-colors">
+            <X size={20} className="text-gray-600 dark:text-slate-300" />
+          </button>
+        </div>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+                <label className="block text-sm font-medium text-gray-700 dark:text-slate-300 mb-1">{t('Amount')}</label>
+                <div className="relative">
+                    <span className="absolute left-3 top-3 text-gray-400 dark:text-slate-400 font-bold">{currency}</span>
+                    <input
+                        type="number"
+                        step="0.01"
+                        value={amount}
+                        onChange={(e) => { setAmount(e.target.value); setError(''); }}
+                        className="w-full pl-8 pr-3 py-3 bg-gray-50 dark:bg-slate-700 border border-gray-200 dark:border-slate-600 rounded-xl focus:outline-none focus:ring-2 focus:ring-teal-500 font-semibold text-gray-900 dark:text-white"
+                        placeholder={remaining > 0 ? remaining.toFixed(0) : '0'}
+                    />
+                </div>
+            </div>
+            <div>
+                <label className="block text-sm font-medium text-gray-700 dark:text-slate-300 mb-1">{t('Date')}</label>
+                <button
+                    type="button"
+                    onClick={() => setIsDatePickerOpen(true)}
+                    className="w-full px-3 py-3 bg-gray-50 dark:bg-slate-700 border border-gray-200 dark:border-slate-600 rounded-xl flex items-center justify-between text-left text-sm text-gray-900 dark:text-white"
+                >
+                    <span className="truncate">{formatDate(date)}</span>
+                    <CalendarIcon size={16} className="text-gray-400 shrink-0" />
+                </button>
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-slate-300 mb-1">{t('Note')}</label>
+            <input
+                type="text"
+                value={note}
+                onChange={(e) => setNote(e.target.value)}
+                className="w-full px-4 py-3 bg-gray-50 dark:bg-slate-700 border border-gray-200 dark:border-slate-600 rounded-xl focus:outline-none focus:ring-2 focus:ring-teal-500 text-gray-900 dark:text-white"
+                placeholder="e.g., Diwali bonus"
+            />
+          </div>
+          {error && <p className="text-red-500 text-xs -mt-2">{error}</p>}
+
+          <button
+            type="submit"
+            className="w-full bg-teal-600 text-white py-4 rounded-xl font-bold text-lg hover:bg-teal-700 shadow-lg shadow-teal-600/20 transition-transform active:scale-[0.98]"
+          >
+            {t('Add Money')}
+          </button>
+        </form>
+
+        {goal.contributions.length > 0 && (
+            <div className="mt-6">
+                <h4 className="text-xs font-bold text-gray-500 dark:text-slate-400 uppercase tracking-wide mb-2">{t('Contributions')}</h4>
+                <div className="space-y-2">
+                    {[...goal.contributions].sort((a, b) => b.date.localeCompare(a.date)).map(contribution => (
+                        <div key={contribution.id} className="flex justify-between items-center p-3 rounded-xl border border-gray-100 dark:border-slate-700">
+                            <div className="min-w-0">
+                                <p className="text-sm text-gray-700 dark:text-slate-200">{formatDate(contribution.date)}</p>
+                                {(contribution.incomeId || contribution.note) && (
+                                    <p className="flex items-center text-xs text-gray-500 dark:text-slate-400 truncate">
+                                        {contribution.incomeId && <Repeat size={10} className="mr-1 shrink-0" />}
+                                        {contribution.incomeId ? t('From income') : contribution.note}
+                                    </p>
+                                )}
+                            </div>
+                            <div className="flex items-center space-x-2">
+                                <span className="font-semibold text-sm text-gray-800 dark:text-white">{currency}{contribution.amount.toFixed(0)}</span>
+                                <button onClick={() => handleDelete(contribution.id)} className="p-1.5 text-gray-300 hover:text-red-500">
+                                    <Trash2 size={14} />
+                                </button>
+                            </div>
+                        </div>
+                    ))}
+                </div>
+            </div>
+        )}
+
+        <DatePicker
+            isOpen={isDatePickerOpen}
+            onClose={() => setIsDatePickerOpen(false)}
+            onSelect={(d) => setDate(toDateString(d))}
+            initialDate={new Date(`${date}T00:00:00`)}
+            title={t('Date')}
+        />
+      </div>
+    </div>
+  );
+};
+
+export default GoalContributionModal;
@@ -0,0 +1,199 @@
+import React, { useState } from 'react';
+import { useData } from '../contexts/DataContext';
+import { SavingsGoal } from '../types';
+import { X, Calendar as CalendarIcon, Trash2 } from 'lucide-react';
+import CategoryPicker from './CategoryPicker';
+import DatePicker from './DatePicker';
+import { OTHER_INCOME_CATEGORY } from '../utils/categories';
+
+interface GoalFormProps {
+  onClose: () => void;
+  goal?: SavingsGoal; // When provided, the form edits this goal instead of adding a new one
+}
+
+const toDateString = (d: Date) => `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
+
+const GoalForm: React.FC<GoalFormProps> = ({ onClose, goal }) => {
+  const { categories, addGoal, updateGoal, deleteGoal, currency, t } = useData();
+  const defaultRuleCategory = categories.some(c => c.id === 'Salary' && !c.archived) ? 'Salary' : OTHER_INCOME_CATEGORY;
+  const [name, setName] = useState(goal?.name || '');
+  const [targetAmount, setTargetAmount] = useState(goal ? goal.targetAmount.toString() : '');
+  const [targetDate, setTargetDate] = useState(() => {
+      if (goal) return goal.targetDate;
+      const d = new Date();
+      d.setFullYear(d.getFullYear() + 1);
+      return toDateString(d);
+  });
+  const [useRule, setUseRule] = useState(!!goal?.rule);
+  const [ruleCategory, setRuleCategory] = useState(goal?.rule?.incomeCategory || defaultRuleCategory);
+  const [rulePercent, setRulePercent] = useState(goal?.rule ? goal.rule.percent.toString() : '10');
+  const [error, setError] = useState('');
+  const [showDatePicker, setShowDatePicker] = useState(false);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const target = parseFloat(targetAmount);
+    const percent = parseFloat(rulePercent);
+    if (!name.trim()) {
+        setError(t('Name is required'));
+        return;
+    }
+    if (!target || target <= 0) {
+        setError(t('Valid amount required'));
+        return;
+    }
+    if (useRule && (!percent || percent <= 0 || percent > 100)) {
+        setError(t('Enter a percentage between 1 and 100'));
+        return;
+    }
+
+    const details = {
+      name: name.trim(),
+      targetAmount: target,
+      targetDate,
+      rule: useRule ? { incomeCategory: ruleCategory, percent } : undefined,
+    };
+
+    if (goal) {
+      updateGoal(goal.id, details);
+    } else {
+      addGoal(details);
+    }
+    onClose();
+  };
+
+  const handleDelete = () => {
+    if (!goal) return;
+    if (confirm(t('delete_goal_confirm'))) {
+        deleteGoal(goal.id);
+        onClose();
+    }
+  };
+
+  const inputClass = "w-full px-4 py-3 bg-gray-50 dark:bg-slate-700 border border-gray-200 dark:border-slate-600 rounded-xl focus:outline-none focus:ring-2 focus:ring-teal-500 text-gray-900 dark:text-white";
+  const tabClass = (selected: boolean) => `flex-1 py-2 rounded-lg text-sm font-semibold transition-colors ${
+      selected ? 'bg-white dark:bg-slate-600 text-gray-900 dark:text-white shadow-sm' : 'text-gray-500 dark:text-slate-400'
+  }`;
+
+  return (
+    <div
+      className="fixed inset-0 bg-black/50 z-50 flex items-end sm:items-center justify-center animate-fade-in backdrop-blur-sm"
+      onClick={onClose}
+    >
+      <div
+        className="bg-white dark:bg-slate-800 w-full sm:max-w-md sm:rounded-2xl rounded-t-2xl px-6 pt-6 pb-[calc(2rem+env(safe-area-inset-bottom))] sm:pb-6 shadow-xl max-h-[90vh] h-auto overflow-y-auto no-scrollbar"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex justify-between items-center mb-6">
+          <h2 className="text-xl font-bold text-gray-800 dark:text-white">{goal ? t('Edit Goal') : t('Add Goal')}</h2>
+          <button onClick={onClose} className="p-2 bg-gray-100 dark:bg-slate-700 rounded-full hover:bg-gray-200 dark:hover:bg-slate-600 transition-colors">
+            <X size={20} className="text-gray-600 dark:text-slate-300" />
+          </button>
+        </div>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-slate-300 mb-1">{t('Goal')}</label>
+            <input
+                type="text"
+                value={name}
+                onChange={(e) => { setName(e.target.value); setError(''); }}
+                className={inputClass}
+                placeholder="e.g., School fees"
+            />
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+                <label className="block text-sm font-medium text-gray-700 dark:text-slate-300 mb-1">{t('Target Amount')}</label>
+                <div className="relative">
+                    <span className="absolute left-3 top-3.5 text-gray-400 dark:text-slate-400 font-bold">{currency}</span>
+                    <input
+                        type="number"
+                        step="0.01"
+                        value={targetAmount}
+                        onChange={(e) => { setTargetAmount(e.target.value); setError(''); }}
+                        className="w-full pl-8 pr-4 py-3 bg-gray-50 dark:bg-slate-700 border border-gray-200 dark:border-slate-600 rounded-xl focus:outline-none focus:ring-2 focus:ring-teal-500 font-semibold text-gray-900 dark:text-white"
+                        placeholder="0.00"
+                    />
+                </div>
+            </div>
+            <div>
+                <label className="block text-sm font-medium text-gray-700 dark:text-slate-300 mb-1">{t('Target Date')}</label>
+                <button
+                    type="button"
+                    onClick={() => setShowDatePicker(true)}
+                    className="w-full px-4 py-3 bg-gray-50 dark:bg-slate-700 border border-gray-200 dark:border-slate-600 rounded-xl flex items-center justify-between text-left focus:outline-none focus:ring-2 focus:ring-teal-500"
+                >
+                    <span className="text-sm text-gray-900 dark:text-white truncate">
+                        {new Date(`${targetDate}T00:00:00`).toLocaleDateString(undefined, { month: 'short', day: 'numeric', year: 'numeric' })}
+                    </span>
+                    <CalendarIcon size={18} className="text-gray-400 dark:text-slate-400 shrink-0" />
+                </button>
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-slate-300 mb-2">{t('Contributions')}</label>
+            <div className="flex bg-gray-100 dark:bg-slate-700 p-1 rounded-xl">
+                <button type="button" onClick={() => setUseRule(false)} className={tabClass(!useRule)}>{t('Manual')}</button>
+                <button type="button" onClick={() => setUseRule(true)} className={tabClass(useRule)}>{t('From income')}</button>
+            </div>
+          </div>
+
+          {useRule && (
+            <div className="space-y-2">
+                <div className="grid grid-cols-3 gap-4">
+                    <div>
+                        <label className="block text-sm font-medium text-gray-700 dark:text-slate-300 mb-1">%</label>
+                        <input
+                            type="number"
+                            step="0.1"
+                            value={rulePercent}
+                            onChange={(e) => { setRulePercent(e.target.value); setError(''); }}
+                            className={inputClass}
+                        />
+                    </div>
+                    <div className="col-span-2">
+                        <label className="block text-sm font-medium text-gray-700 dark:text-slate-300 mb-1">{t('Of each')}</label>
+                        <CategoryPicker kind="income" category={ruleCategory} onChange={(c) => setRuleCategory(c)} />
+                    </div>
+                </div>
+                <p className="text-xs text-gray-500 dark:text-slate-400">{t('goal_rule_hint')}</p>
+            </div>
+          )}
+
+          {error && <p className="text-red-500 text-xs">{error}</p>}
+
+          <button
+            type="submit"
+            className="w-full bg-teal-600 text-white py-4 rounded-xl font-bold text-lg hover:bg-teal-700 shadow-lg shadow-teal-600/20 transition-transform active:scale-[0.98] mt-2"
+          >
+            {t('Save Goal')}
+          </button>
+
+          {goal && (
+            <button
+                type="button"
+                onClick={handleDelete}
+                className="w-full flex items-center justify-center space-x-2 py-3 rounded-xl font-semibold text-sm text-red-600 bg-red-50 dark:bg-red-900/20 hover:bg-red-100 dark:hover:bg-red-900/30 transition-colors"
+            >
+                <Trash2 size={16} />
+                <span>{t('Delete Goal')}</span>
+            </button>
+          )}
+        </form>
+
+        <DatePicker
+            isOpen={showDatePicker}
+            onClose={() => setShowDatePicker(false)}
+            onSelect={(d) => setTargetDate(toDateString(d))}
+            initialDate={new Date(`${targetDate}T00:00:00`)}
+            title={t('Target Date')}
+        />
+      </div>
+    </div>
+  );
+};
+
+export default GoalForm;
@@ -0,0 +1,57 @@
+import React from 'react';
+import { useData } from '../contexts/DataContext';
+import { getGoalProgress, getGoalSaved, getProjectedCompletionDate, isGoalOnTrack, isGoalReached } from '../utils/goals';
+import { Target, ChevronRight } from 'lucide-react';
+import ProgressRing from './ProgressRing';
+
+// Dashboard card with a progress ring per open savings goal and when each should be met
+const GoalProgress: React.FC<{ today: string; onManageGoals: () => void }> = ({ today, onManageGoals }) => {
+  const { goals, currency, t } = useData();
+  const open = goals.filter(g => !isGoalReached(g));
+
+  if (open.length === 0) return null;
+
+  return (
+    <button
+        onClick={onManageGoals}
+        className="w-full text-left bg-white dark:bg-slate-800 p-4 rounded-2xl shadow-sm border border-slate-100 dark:border-slate-700 hover:bg-gray-50 dark:hover:bg-slate-700/50 transition-colors"
+    >
+        <div className="flex items-center justify-between mb-3">
+            <div className="flex items-center space-x-2">
+                <div className="bg-teal-50 dark:bg-teal-900/30 p-2 rounded-full text-teal-600 dark:text-teal-400">
+                    <Target size={20} />
+                </div>
+                <h3 className="text-xs font-bold text-gray-500 dark:text-slate-400 uppercase tracking-wide">{t('Savings Goals')}</h3>
+            </div>
+            <ChevronRight size={16} className="text-gray-300 dark:text-slate-600" />
+        </div>
+        <div className="flex gap-4 overflow-x-auto no-scrollbar">
+            {open.map(goal => {
+                const projected = getProjectedCompletionDate(goal, today);
+                const onTrack = isGoalOnTrack(goal, today);
+                return (
+                    <div key={goal.id} className="flex flex-col items-center w-24 shrink-0 text-center">
+                        <ProgressRing
+                            progress={getGoalProgress(goal)}
+                            size={72}
+                            strokeWidth={7}
+                            className={onTrack ? 'text-teal-500' : projected ? 'text-amber-500' : 'text-gray-300 dark:text-slate-600'}
+                        >
+                            <span className="text-xs font-bold text-gray-800 dark:text-white">{Math.floor(getGoalProgress(goal) * 100)}%</span>
+                        </ProgressRing>
+                        <span className="mt-2 text-xs font-semibold text-gray-700 dark:text-slate-200 truncate w-full">{goal.name}</span>
+                        <span className="text-[10px] text-gray-400 dark:text-slate-500">{currency}{getGoalSaved(goal).toFixed(0)} / {currency}{goal.targetAmount.toFixed(0)}</span>
+                        <span className={`text-[10px] ${onTrack ? 'text-teal-600 dark:text-teal-400' : 'text-amber-600 dark:text-amber-400'}`}>
+                            {projected
+                                ? new Date(`${projected}T00:00:00`).toLocaleDateString(undefined, { month: 'short', year: 'numeric' })
+                                : t('No contributions yet')}
+                        </span>
+                    </div>
+                );
+            })}
+        </div>
+    </button>
+  );
+};
+
+export default GoalProgress;
@@ -0,0 +1,148 @@
+import React, { useState } from 'react';
+import { useData } from '../contexts/DataContext';
+import { SavingsGoal } from '../types';
+import { getGoalProgress, getGoalSaved, getProjectedCompletionDate, getRequiredMonthlyContribution, isGoalOnTrack, isGoalReached } from '../utils/goals';
+import { getCategoryName } from '../utils/categories';
+import { ArrowLeft, Plus, Pencil, PiggyBank, Repeat } from 'lucide-react';
+import GoalForm from './GoalForm';
+import GoalContributionModal from './GoalContributionModal';
+import ProgressRing from './ProgressRing';
+
+interface GoalsScreenProps {
+  onBack: () => void;
+}
+
+// Savings goals with their progress and when each is likely to be met at the current pace
+const GoalsScreen: React.FC<GoalsScreenProps> = ({ onBack }) => {
+  const { goals, categories, currency, t } = useData();
+  const [editing, setEditing] = useState<SavingsGoal | null>(null);
+  const [isAdding, setIsAdding] = useState(false);
+  const [contributingId, setContributingId] = useState<string | null>(null);
+
+  const today = (() => {
+      const d = new Date();
+      return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
+  })();
+
+  // Read live so contributions added or deleted show straight away
+  const contributing = goals.find(g => g.id === contributingId);
+  const active = goals.filter(g => !isGoalReached(g));
+  const reached = goals.filter(isGoalReached);
+
+  const formatDate = (date: string) => new Date(`${date}T00:00:00`).toLocaleDateString(undefined, { month: 'short', year: 'numeric' });
+
+  const renderGoal = (goal: SavingsGoal) => {
+      const saved = getGoalSaved(goal);
+      const done = isGoalReached(goal);
+      const projected = getProjectedCompletionDate(goal, today);
+      const onTrack = isGoalOnTrack(goal, today);
+      const ringColor = done || onTrack ? 'text-teal-500' : projected ? 'text-amber-500' : 'text-gray-300 dark:text-slate-600';
+
+      return (
+          <div key={goal.id} className="bg-white dark:bg-slate-800 rounded-2xl shadow-sm border border-gray-100 dark:border-slate-700 p-4 space-y-3">
+              <div className="flex items-center space-x-4">
+                  <ProgressRing progress={getGoalProgress(goal)} size={64} className={ringColor}>
+                      <span className="text-xs font-bold text-gray-800 dark:text-white">{Math.floor(getGoalProgress(goal) * 100)}%</span>
+                  </ProgressRing>
+                  <div className="flex-1 min-w-0">
+                      <div className="flex items-start justify-between">
+                          <p className="font-semibold text-gray-800 dark:text-white truncate">{goal.name}</p>
+                          <button
+                              onClick={() => setEditing(goal)}
+                              className="p-1 -mt-1 text-gray-400 hover:text-teal-600 dark:text-slate-500 transition-colors"
+                          >
+                              <Pencil size={14} />
+                          </button>
+                      </div>
+                      <p className="text-sm text-gray-600 dark:text-slate-300">
+                          <span className="font-bold">{currency}{saved.toFixed(0)}</span> / {currency}{goal.targetAmount.toFixed(0)}
+                      </p>
+                      <p className="text-xs text-gray-500 dark:text-slate-400">{t('Target')} {formatDate(goal.targetDate)}</p>
+                  </div>
+              </div>
+
+              {done ? (
+                  <p className="text-xs font-semibold text-teal-600 dark:text-teal-400">{t('Goal reached')} • {formatDate(projected || today)}</p>
+              ) : (
+                  <div className="text-xs space-y-0.5">
+                      <p className={onTrack ? 'text-teal-600 dark:text-teal-400' : 'text-amber-600 dark:text-amber-400'}>
+                          {projected ? `${t('Projected')} ${formatDate(projected)} • ${onTrack ? t('On track') : t('Behind')}` : t('No contributions yet')}
+                      </p>
+                      {!onTrack && goal.targetDate > today && (
+                          <p className="text-gray-500 dark:text-slate-400">{t('Save')} {currency}{getRequiredMonthlyContribution(goal, today).toFixed(0)} {t('a month to finish on time')}</p>
+                      )}
+                  </div>
+              )}
+
+              {goal.rule && (
+                  <p className="flex items-center text-xs text-gray-500 dark:text-slate-400">
+                      <Repeat size={12} className="mr-1" />
+                      {goal.rule.percent}% {t('of each')} {t(getCategoryName(categories, goal.rule.incomeCategory))}
+                  </p>
+              )}
+
+              <button
+                  onClick={() => setContributingId(goal.id)}
+                  className="w-full flex items-center justify-center space-x-1 py-2 bg-teal-50 dark:bg-teal-900/30 text-teal-700 dark:text-teal-300 rounded-lg text-xs font-semibold hover:bg-teal-100 dark:hover:bg-teal-900/50 transition-colors"
+              >
+                  <PiggyBank size={14} />
+                  <span>{done ? t('Contributions') : t('Add Money')}</span>
+              </button>
+          </div>
+      );
+  };
+
+  return (
+    <div className="h-full flex flex-col animate-fade-in bg-gray-50 dark:bg-slate-900 transition-colors">
+      <div className="shrink-0 p-6 pb-2 z-10 bg-gray-50 dark:bg-slate-900 transition-colors">
+        <header className="flex items-center justify-between py-2">
+            <div className="flex items-center space-x-3">
+                <button
+                onClick={onBack}
+                className="p-2 -ml-2 rounded-full hover:bg-gray-200 dark:hover:bg-slate-800 text-gray-600 dark:text-gray-300 transition-colors"
+                >
+                <ArrowLeft size={24} />
+                </button>
+                <h1 className="text-2xl font-bold text-gray-800 dark:text-white">{t('Savings Goals')}</h1>
+            </div>
+            <button
+                onClick={() => setIsAdding(true)}
+                className="p-2 bg-teal-600 text-white rounded-full shadow-md hover:bg-teal-700 transition-colors"
+            >
+                <Plus size={20} />
+            </button>
+        </header>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-6 pt-2 no-scrollbar">
+        <div className="max-w-2xl mx-auto w-full space-y-6">
+            <section className="space-y-3">
+                {active.length === 0 ? (
+                    <p className="text-sm text-gray-500 dark:text-slate-400 text-center py-6">{t('No goals yet')}</p>
+                ) : active.map(renderGoal)}
+            </section>
+
+            {reached.length > 0 && (
+                <section className="space-y-3">
+                    <h3 className="text-sm font-semibold text-gray-500 dark:text-slate-400 uppercase tracking-wider">{t('Goal reached')}</h3>
+                    <div className="space-y-3 opacity-70">{reached.map(renderGoal)}</div>
+                </section>
+            )}
+        </div>
+      </div>
+
+      {(isAdding || editing) && (
+          <GoalForm
+              goal={editing || undefined}
+              onClose={() => { setIsAdding(false); setEditing(null); }}
+          />
+      )}
+
+      {contributing && (
+          <GoalContributionModal goal={contributing} today={today} onClose={() => setContributingId(null)} />
+      )}
+    </div>
+  );
+};
+
+export default GoalsScreen;
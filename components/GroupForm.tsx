@@ -0,0 +1,184 @@
+import React, { useState } from 'react';
+import { useData } from '../contexts/DataContext';
+import { ExpenseGroup } from '../types';
+import { isGroupInUse } from '../utils/sharing';
+import { X, Users, Archive, Trash2, UserPlus } from 'lucide-react';
+
+interface GroupFormProps {
+  onClose: () => void;
+  group?: ExpenseGroup; // When provided, the form edits this group instead of adding a new one
+}
+
+const GroupForm: React.FC<GroupFormProps> = ({ onClose, group }) => {
+  const { addGroup, updateGroup, deleteGroup, addContact, contacts, expenses, settlements, t } = useData();
+  const [name, setName] = useState(group?.name || '');
+  const [memberIds, setMemberIds] = useState<string[]>(group?.memberIds || []);
+  const [newContactName, setNewContactName] = useState('');
+  const [error, setError] = useState('');
+
+  const inUse = !!group && isGroupInUse(group.id, { expenses, settlements });
+  // Archived contacts stay listed while they are still members
+  const choices = contacts.filter(c => !c.archived || memberIds.includes(c.id));
+
+  const toggleMember = (id: string) => {
+      setMemberIds(prev => prev.includes(id) ? prev.filter(m => m !== id) : [...prev, id]);
+      setError('');
+  };
+
+  const handleAddContact = () => {
+      const contactName = newContactName.trim();
+      if (!contactName) return;
+      const id = addContact({ name: contactName });
+      setMemberIds(prev => [...prev, id]);
+      setNewContactName('');
+      setError('');
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim()) {
+        setError(t('Group name is required'));
+        return;
+    }
+    if (memberIds.length === 0) {
+        setError(t('Add at least one member'));
+        return;
+    }
+
+    const details = {
+      name: name.trim(),
+      memberIds,
+      archived: group?.archived,
+    };
+
+    if (group) {
+      updateGroup(group.id, details);
+    } else {
+      addGroup(details);
+    }
+    onClose();
+  };
+
+  const handleArchiveToggle = () => {
+    if (!group) return;
+    const { id, createdAt, ...details } = group;
+    updateGroup(id, { ...details, archived: !group.archived });
+    onClose();
+  };
+
+  const handleDelete = () => {
+    if (!group) return;
+    if (confirm(t('delete_group_confirm'))) {
+        deleteGroup(group.id);
+        onClose();
+    }
+  };
+
+  return (
+    <div
+      className="fixed inset-0 bg-black/50 z-50 flex items-end sm:items-center justify-center animate-fade-in backdrop-blur-sm"
+      onClick={onClose}
+    >
+      <div
+        className="bg-white dark:bg-slate-800 w-full sm:max-w-md sm:rounded-2xl rounded-t-2xl px-6 pt-6 pb-[calc(2rem+env(safe-area-inset-bottom))] sm:pb-6 shadow-xl max-h-[90vh] h-auto overflow-y-auto no-scrollbar"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex justify-between items-center mb-6">
+          <h2 className="text-xl font-bold text-gray-800 dark:text-white">{group ? t('Edit Group') : t('Add Group')}</h2>
+          <button onClick={onClose} className="p-2 bg-gray-100 dark:bg-slate-700 rounded-full hover:bg-gray-200 dark:hover:bg-slate-600 transition-colors">
+            <X size={20} className="text-gray-600 dark:text-slate-300" />
+          </button>
+        </div>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-slate-300 mb-1">{t('Group Name')}</label>
+            <div className="relative">
+                <Users className="absolute left-3 top-3.5 text-gray-400 dark:text-slate-500" size={18} />
+                <input
+                    type="text"
+                    value={name}
+                    onChange={(e) => { setName(e.target.value); setError(''); }}
+                    className="w-full pl-10 pr-4 py-3 bg-gray-50 dark:bg-slate-700 border border-gray-200 dark:border-slate-600 rounded-xl focus:outline-none focus:ring-2 focus:ring-teal-500 text-gray-900 dark:text-white"
+                    placeholder="e.g., Goa Trip"
+                />
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-slate-300 mb-2">{t('Members')}</label>
+            {choices.length > 0 && (
+                <div className="flex flex-wrap gap-2 mb-3">
+                    {choices.map(c => (
+                        <button
+                            key={c.id}
+                            type="button"
+                            onClick={() => toggleMember(c.id)}
+                            className={`px-3 py-1.5 rounded-full text-sm font-medium transition-colors ${
+                                memberIds.includes(c.id)
+                                ? 'bg-teal-600 text-white shadow-md'
+                                : 'bg-gray-100 dark:bg-slate-700 text-gray-600 dark:text-slate-300 hover:bg-gray-200 dark:hover:bg-slate-600'
+                            }`}
+                        >
+                            {c.name}
+                        </button>
+                    ))}
+                </div>
+            )}
+            <div className="flex">
+                <input
+                    type="text"
+                    value={newContactName}
+                    onChange={(e) => setNewContactName(e.target.value)}
+                    onKeyDown={(e) => { if (e.key === 'Enter') { e.preventDefault(); handleAddContact(); } }}
+                    className="flex-1 min-w-0 px-3 py-2 bg-gray-50 dark:bg-slate-700 border border-gray-200 dark:border-slate-600 rounded-l-lg text-sm text-gray-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-teal-500"
+                    placeholder={t('New contact name')}
+                />
+                <button
+                    type="button"
+                    onClick={handleAddContact}
+                    className="px-3 bg-teal-600 text-white rounded-r-lg hover:bg-teal-700 transition-colors"
+                >
+                    <UserPlus size={16} />
+                </button>
+            </div>
+            <p className="text-xs text-gray-400 dark:text-slate-500 mt-1">{t('group_members_hint')}</p>
+          </div>
+
+          {error && <p className="text-red-500 text-xs">{error}</p>}
+
+          <button
+            type="submit"
+            className="w-full bg-teal-600 text-white py-4 rounded-xl font-bold text-lg hover:bg-teal-700 shadow-lg shadow-teal-600/20 transition-transform active:scale-[0.98] mt-4"
+          >
+            {t('Save Group')}
+          </button>
+
+          {group && (
+            inUse ? (
+                <button
+                    type="button"
+                    onClick={handleArchiveToggle}
+                    className="w-full flex items-center justify-center space-x-2 py-3 rounded-xl font-semibold text-sm text-gray-600 dark:text-slate-300 bg-gray-100 dark:bg-slate-700 hover:bg-gray-200 dark:hover:bg-slate-600 transition-colors"
+                >
+                    <Archive size={16} />
+                    <span>{group.archived ? t('Unarchive Group') : t('Archive Group')}</span>
+                </button>
+            ) : (
+                <button
+                    type="button"
+                    onClick={handleDelete}
+                    className="w-full flex items-center justify-center space-x-2 py-3 rounded-xl font-semibold text-sm text-red-600 bg-red-50 dark:bg-red-900/20 hover:bg-red-100 dark:hover:bg-red-900/30 transition-colors"
+                >
+                    <Trash2 size={16} />
+                    <span>{t('Delete Group')}</span>
+                </button>
+            )
+          )}
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default GroupForm;
@@ -1,22 +1,44 @@
 
 import React, { useState } from 'react';
 import { useData } from '../contexts/DataContext';
-import { IncomeCategory, Recurrence } from '../types';
+import { Income, IncomeCategory, Recurrence, RecurrenceRule, Tenant } from '../types';
+import { normalizeRecurrenceRule } from '../utils/recurrence';
+import { RentTerms, normalizeRentTerms } from '../utils/rentTerms';
 import { X, Calendar as CalendarIcon, AlertCircle, RefreshCw, User, Phone } from 'lucide-react';
 import DatePicker from './DatePicker';
+import RecurrencePicker from './RecurrencePicker';
+import TenantPicker from './TenantPicker';
+import RentTermsFields from './RentTermsFields';
+import AccountPicker from './AccountPicker';
+import CategoryPicker from './CategoryPicker';
+import TagInput from './TagInput';
+import { getDefaultAccountId } from '../utils/accounts';
+import { getAllTags } from '../utils/tags';
 
 interface IncomeFormProps {
   onClose: () => void;
+  income?: Income; // When provided, the form edits this income instead of adding a new one
 }
 
-const IncomeForm: React.FC<IncomeFormProps> = ({ onClose }) => {
-  const { addIncome, currency, t } = useData();
-  const [amount, setAmount] = useState('');
-  const [category, setCategory] = useState<IncomeCategory>('Salary');
-  const [source, setSource] = useState('');
-  const [date, setDate] = useState(new Date().toISOString().split('T')[0]);
-  const [recurrence, setRecurrence] = useState<Recurrence>('None');
-  const [tenantContact, setTenantContact] = useState('');
+const IncomeForm: React.FC<IncomeFormProps> = ({ onClose, income }) => {
+  const { addIncome, updateIncome, expenses, incomes, tenants, accounts, currency, t } = useData();
+  const [amount, setAmount] = useState(income ? income.amount.toString() : '');
+  const [category, setCategory] = useState<IncomeCategory>(income?.category || 'Salary');
+  const [subcategory, setSubcategory] = useState<IncomeCategory | undefined>(income?.subcategory);
+  const [source, setSource] = useState(income?.source || '');
+  const [date, setDate] = useState(income?.date || new Date().toISOString().split('T')[0]);
+  const [recurrence, setRecurrence] = useState<Recurrence>(income?.recurrence || 'None');
+  const [recurrenceRule, setRecurrenceRule] = useState<RecurrenceRule>(income?.recurrenceRule || {});
+  const [tenantContact, setTenantContact] = useState(income?.tenantContact || '');
+  const [tenantId, setTenantId] = useState(income?.tenantId || '');
+  const [accountId, setAccountId] = useState(income?.accountId || getDefaultAccountId(accounts));
+  const [tags, setTags] = useState<string[]>(income?.tags || []);
+  const [notes, setNotes] = useState(income?.notes || '');
+  const [rentTerms, setRentTerms] = useState<RentTerms>({
+      gracePeriodDays: income?.gracePeriodDays,
+      lateFee: income?.lateFee,
+      escalation: income?.escalation
+  });
   
   const [errors, setErrors] = useState<{ amount?: string; source?: string }>({});
   const [showDatePicker, setShowDatePicker] = useState(false);
@@ -35,17 +57,38 @@ const IncomeForm: React.FC<IncomeFormProps> = ({ onClose }) => {
     e.preventDefault();
     if (!validate()) return;
 
-    addIncome({
+    const details = {
       amount: parseFloat(amount),
       category,
+      subcategory,
       source: source.trim(),
       date,
       recurrence,
-      tenantContact: isRent ? tenantContact : undefined
-    });
+      recurrenceRule: normalizeRecurrenceRule(recurrence, recurrenceRule),
+      accountId,
+      tenantId: isRent && tenantId ? tenantId : undefined,
+      tenantContact: isRent && !tenantId ? tenantContact : undefined,
+      tags: tags.length > 0 ? tags : undefined,
+      notes: notes.trim() || undefined,
+      ...(isRent ? normalizeRentTerms(rentTerms, date) : normalizeRentTerms({}, date))
+    };
+
+    if (income) {
+      updateIncome(income.id, details);
+    } else {
+      addIncome(details);
+    }
     onClose();
   };
 
+  // Picking a saved tenant fills in their name and, if still empty, the agreed rent
+  const handleTenantSelect = (tenant: Tenant | null) => {
+      setTenantId(tenant?.id || '');
+      if (!tenant) return;
+      setSource(tenant.name);
+      if (!amount) setAmount(tenant.agreedRent.toString());
+  };
+
   const handleDateSelect = (selectedDate: Date) => {
       const year = selectedDate.getFullYear();
       const month = selectedDate.getMonth();
@@ -64,7 +107,7 @@ const IncomeForm: React.FC<IncomeFormProps> = ({ onClose }) => {
         onClick={(e) => e.stopPropagation()}
       >
         <div className="flex justify-between items-center mb-6">
-          <h2 className="text-xl font-bold text-gray-800 dark:text-white">{t('Add Income')}</h2>
+          <h2 className="text-xl font-bold text-gray-800 dark:text-white">{income ? t('Edit Income') : t('Add Income')}</h2>
           <button onClick={onClose} className="p-2 bg-gray-100 dark:bg-slate-700 rounded-full hover:bg-gray-200 dark:hover:bg-slate-600 transition-colors">
             <X size={20} className="text-gray-600 dark:text-slate-300" />
           </button>
@@ -90,15 +133,13 @@ const IncomeForm: React.FC<IncomeFormProps> = ({ onClose }) => {
           {/* Category */}
           <div>
               <label className="block text-sm font-medium text-gray-700 dark:text-slate-300 mb-1">{t('Category')}</label>
-              <select
-                  value={category}
-                  onChange={(e) => setCategory(e.target.value as IncomeCategory)}
+              <CategoryPicker
+                  kind="income"
+                  category={category}
+                  subcategory={subcategory}
+                  onChange={(c, sub) => { setCategory(c); setSubcategory(sub); }}
                   className="w-full px-4 py-3 bg-gray-50 dark:bg-slate-700 border border-gray-200 dark:border-slate-600 rounded-xl focus:outline-none focus:ring-2 focus:ring-teal-500 text-gray-900 dark:text-white"
-              >
-                  {['Salary', 'Rent', 'Interest', 'Business', 'Gift', 'Other'].map(c => (
-                      <option key={c} value={c}>{t(c)}</option>
-                  ))}
-              </select>
+              />
           </div>
 
           {/* Source / Tenant Name */}
@@ -106,6 +147,16 @@ const IncomeForm: React.FC<IncomeFormProps> = ({ onClose }) => {
             <label className="block text-sm font-medium text-gray-700 dark:text-slate-300 mb-1">
                 {isRent ? t('Tenant Name') : t('Source')}
             </label>
+            {isRent && tenants.length > 0 && (
+                <div className={tenantId ? '' : 'mb-2'}>
+                    <TenantPicker
+                        tenantId={tenantId}
+                        onSelect={handleTenantSelect}
+                        className="w-full pl-10 pr-4 py-3 bg-gray-50 dark:bg-slate-700 border border-gray-200 dark:border-slate-600 rounded-xl focus:outline-none focus:ring-2 focus:ring-teal-500 text-gray-900 dark:text-white"
+                    />
+                </div>
+            )}
+            {!(isRent && tenantId) && (
             <div className="relative">
                 <User className="absolute left-3 top-3.5 text-gray-400 dark:text-slate-500" size={18} />
                 <input
@@ -116,11 +167,12 @@ const IncomeForm: React.FC<IncomeFormProps> = ({ onClose }) => {
                     placeholder={isRent ? "e.g., John Doe" : "e.g., Employer, Bank"}
                 />
             </div>
+            )}
             {errors.source && <p className="text-red-500 text-xs mt-1">{errors.source}</p>}
           </div>
 
-          {/* Tenant Contact (Rent Only) */}
-          {isRent && (
+          {/* Tenant Contact (Rent without a saved tenant) */}
+          {isRent && !tenantId && (
             <div>
                  <label className="block text-sm font-medium text-gray-700 dark:text-slate-300 mb-1">{t('Tenant Mobile (for reminders)')}</label>
                  <div className="relative">
@@ -136,27 +188,29 @@ const IncomeForm: React.FC<IncomeFormProps> = ({ onClose }) => {
             </div>
           )}
 
+          {accounts.length > 0 && (
+          <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-slate-300 mb-1">{t('Received Into')}</label>
+              <AccountPicker value={accountId} onChange={(account) => setAccountId(account.id)} />
+          </div>
+          )}
+
           {/* Recurrence */}
           <div>
               <label className="block text-sm font-medium text-gray-700 dark:text-slate-300 mb-1">{t('Recurrence')}</label>
-              <div className="flex gap-2">
-                  {['None', 'Monthly', 'Yearly'].map((r) => (
-                      <button
-                          key={r}
-                          type="button"
-                          onClick={() => setRecurrence(r as Recurrence)}
-                          className={`flex-1 py-2 px-1 rounded-lg text-sm font-medium transition-colors ${
-                              recurrence === r
-                              ? 'bg-purple-600 text-white shadow-md' 
-                              : 'bg-gray-100 dark:bg-slate-700 text-gray-600 dark:text-slate-300 hover:bg-gray-200 dark:hover:bg-slate-600'
-                          }`}
-                      >
-                          {t(r)}
-                      </button>
-                  ))}
-              </div>
+              <RecurrencePicker
+                  recurrence={recurrence}
+                  rule={recurrenceRule}
+                  onChange={(r, rule) => { setRecurrence(r); setRecurrenceRule(rule); }}
+                  accentClassName="bg-purple-600"
+              />
           </div>
 
+          {/* Late fee & escalation */}
+          {isRent && (
+              <RentTermsFields terms={rentTerms} onChange={setRentTerms} date={date} />
+          )}
+
           {/* Date */}
           <div className="relative">
                 <label className="block text-sm font-medium text-gray-700 dark:text-slate-300 mb-1">
@@ -172,6 +226,27 @@ const IncomeForm: React.FC<IncomeFormProps> = ({ onClose }) => {
                 </button>
           </div>
 
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-slate-300 mb-1">{t('Tags')}</label>
+            <TagInput
+                tags={tags}
+                onChange={setTags}
+                suggestions={getAllTags([...incomes, ...expenses])}
+                placeholder={t('tags_placeholder')}
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-slate-300 mb-1">{t('Notes')}</label>
+            <textarea
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              rows={3}
+              className="w-full px-4 py-3 bg-gray-50 dark:bg-slate-700 border border-gray-200 dark:border-slate-600 rounded-xl focus:outline-none focus:ring-2 focus:ring-teal-500 text-gray-900 dark:text-white placeholder-gray-400 resize-none"
+              placeholder={t('notes_placeholder')}
+            />
+          </div>
+
           <button
             type="submit"
             className="w-full bg-teal-600 text-white py-4 rounded-xl font-bold text-lg hover:bg-teal-700 shadow-lg shadow-teal-600/20 transition-transform active:scale-[0.98] mt-4"
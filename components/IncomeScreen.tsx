@@ -1,19 +1,33 @@
 
-import React, { useState, useMemo } from 'react';
+import React, { useState, useMemo, useEffect } from 'react';
 import { useData } from '../contexts/DataContext';
 import { Income } from '../types';
-import { CheckCircle, Clock, AlertTriangle, Phone, MessageCircle, Trash2, X } from 'lucide-react';
+import { formatRecurrence } from '../utils/recurrence';
+import { getAmountReceived, getOutstandingBalance, isIncomeOverdue, getArrearsAccounts, ArrearsAccount } from '../utils/incomeLedger';
+import { getAccruedLateFee, getDaysLate } from '../utils/rentTerms';
+import { getCategoryName } from '../utils/categories';
+import TenantsView from './TenantsView';
+import RecordPaymentModal from './RecordPaymentModal';
+import ArrearsLedger from './ArrearsLedger';
+import RentReceiptModal from './RentReceiptModal';
+import FollowUpSheet from './FollowUpSheet';
+import CategoryBadge from './CategoryBadge';
+import PaymentRequestSheet from './PaymentRequestSheet';
+import { CheckCircle, Clock, AlertTriangle, Trash2, X, Wallet, ChevronRight, QrCode } from 'lucide-react';
 
 interface IncomeCardProps {
     income: Income;
     currency: string;
     t: (key: string) => string;
+    categoryLabel: string;
     onFollowUp: (income: Income) => void;
     onMarkReceived: (id: string) => void;
+    onRecordPayment: (income: Income) => void;
+    onRequestPayment: (income: Income) => void;
     onDelete: (id: string) => void;
 }
 
-const IncomeCard: React.FC<IncomeCardProps> = ({ income, currency, t, onFollowUp, onMarkReceived, onDelete }) => {
+const IncomeCard: React.FC<IncomeCardProps> = ({ income, currency, t, categoryLabel, onFollowUp, onMarkReceived, onRecordPayment, onRequestPayment, onDelete }) => {
     // Helper for local today
     const getLocalToday = () => {
         const d = new Date();
@@ -25,11 +39,14 @@ const IncomeCard: React.FC<IncomeCardProps> = ({ income, currency, t, onFollowUp
 
     const today = getLocalToday();
     // Safety check: Don't show Overdue if date is in the future, regardless of status data
-    const isOverdue = income.status === 'Overdue' && income.date < today;
+    const isOverdue = isIncomeOverdue(income, today);
+    const amountReceived = getAmountReceived(income);
+    const isPartlyPaid = income.status !== 'Received' && amountReceived > 0;
+    const lateFee = isOverdue ? getAccruedLateFee(income, today) : 0;
 
     // Check if income is in the future (tomorrow or later) to prompt confirmation
     const isFuturePayment = useMemo(() => {
-        return income.status === 'Expected' && income.date > today;
+        return income.status !== 'Received' && income.date > today;
     }, [income.date, income.status, today]);
     
     const handleReceiveClick = (e: React.MouseEvent) => {
@@ -46,20 +63,14 @@ const IncomeCard: React.FC<IncomeCardProps> = ({ income, currency, t, onFollowUp
         <div className={`bg-white dark:bg-slate-800 p-4 rounded-xl shadow-sm border ${isOverdue ? 'border-red-400 dark:border-red-900 ring-1 ring-red-100 dark:ring-red-900/30' : 'border-gray-100 dark:border-slate-700'} relative transition-all`}>
             <div className="flex justify-between items-start mb-2">
                 <div className="flex items-center space-x-3">
-                    <div className={`w-10 h-10 rounded-full flex items-center justify-center text-lg ${
-                        income.category === 'Rent' ? 'bg-purple-100 text-purple-600 dark:bg-purple-900/30 dark:text-purple-400' : 
-                        income.category === 'Salary' ? 'bg-green-100 text-green-600 dark:bg-green-900/30 dark:text-green-400' :
-                        'bg-blue-100 text-blue-600 dark:bg-blue-900/30 dark:text-blue-400'
-                    }`}>
-                        {income.category === 'Rent' ? '🏠' : income.category === 'Salary' ? '💼' : '💰'}
-                    </div>
+                    <CategoryBadge category={income.category} subcategory={income.subcategory} />
                     <div>
                         <h3 className="font-bold text-gray-800 dark:text-white">{income.source}</h3>
                         <div className="flex items-center text-xs text-gray-500 dark:text-slate-400 space-x-2">
-                            <span>{t(income.category)}</span>
+                            <span>{categoryLabel}</span>
                             {income.recurrence !== 'None' && (
                                 <span className="bg-gray-100 dark:bg-slate-700 px-1.5 rounded text-[10px] flex items-center">
-                                    <Clock size={10} className="mr-1"/> {t(income.recurrence)}
+                                    <Clock size={10} className="mr-1"/> {formatRecurrence(income.recurrence, income.recurrenceRule, t)}
                                 </span>
                             )}
                         </div>
@@ -67,7 +78,7 @@ const IncomeCard: React.FC<IncomeCardProps> = ({ income, currency, t, onFollowUp
                 </div>
                 <div className="text-right">
                     <span className={`block font-bold text-lg ${isOverdue ? 'text-red-500' : 'text-teal-600 dark:text-teal-400'}`}>
-                        {currency}{income.amount.toFixed(0)}
+                        {currency}{(isPartlyPaid ? getOutstandingBalance(income) : income.amount).toFixed(0)}
                     </span>
                     <span className={`text-xs ${isOverdue ? 'text-red-500 font-semibold' : 'text-gray-400'}`}>
                         {isOverdue ? t('Overdue') : new Date(income.date).toLocaleDateString(undefined, {month:'short', day:'numeric'})}
@@ -75,6 +86,25 @@ const IncomeCard: React.FC<IncomeCardProps> = ({ income, currency, t, onFollowUp
                 </div>
             </div>
 
+            {isPartlyPaid && (
+                <div className="text-xs text-gray-500 dark:text-slate-400">
+                    <span className="text-amber-600 dark:text-amber-400 font-semibold">{t('Partially Received')}</span>
+                    {' • '}{t('Paid')} {currency}{amountReceived.toFixed(0)} / {currency}{income.amount.toFixed(0)}
+                </div>
+            )}
+
+            {isOverdue && income.reminders && income.reminders.length > 0 && (
+                <div className="text-xs text-gray-500 dark:text-slate-400 mt-1">
+                    {t('Reminders sent')}: {income.reminders.length} • {t('Last')} {new Date(income.reminders[income.reminders.length - 1].sentAt).toLocaleDateString(undefined, { month: 'short', day: 'numeric' })}
+                </div>
+            )}
+
+            {lateFee > 0 && (
+                <div className="text-xs text-red-500 mt-1">
+                    {t('Late Fee')} {currency}{lateFee.toFixed(0)} • {getDaysLate(income, today)} {t('days late')}
+                </div>
+            )}
+
             {/* Actions */}
             <div className="flex items-center justify-end space-x-2 mt-3 pt-3 border-t border-gray-50 dark:border-slate-700/50">
                 {income.status !== 'Received' && (
@@ -88,6 +118,20 @@ const IncomeCard: React.FC<IncomeCardProps> = ({ income, currency, t, onFollowUp
                                 <span>{t('Follow Up')}</span>
                             </button>
                         )}
+                        <button 
+                            onClick={(e) => { e.stopPropagation(); onRequestPayment(income); }}
+                            className="p-1.5 bg-gray-100 dark:bg-slate-700 text-gray-600 dark:text-slate-300 rounded-lg"
+                            title={t('Payment Request')}
+                        >
+                            <QrCode size={14} />
+                        </button>
+                        <button 
+                            onClick={(e) => { e.stopPropagation(); onRecordPayment(income); }}
+                            className="flex items-center space-x-1 px-3 py-1.5 bg-gray-100 dark:bg-slate-700 text-gray-600 dark:text-slate-300 rounded-lg text-xs font-semibold"
+                        >
+                            <Wallet size={12} />
+                            <span>{t('Record Payment')}</span>
+                        </button>
                         <button 
                             onClick={handleReceiveClick}
                             className={`flex items-center space-x-1 px-3 py-1.5 rounded-lg text-xs font-semibold ${
@@ -123,8 +167,15 @@ const IncomeCard: React.FC<IncomeCardProps> = ({ income, currency, t, onFollowUp
 };
 
 const IncomeScreen: React.FC = () => {
-  const { incomes, markIncomeReceived, deleteIncome, currency, t } = useData();
-  const [followUpItem, setFollowUpItem] = useState<Income | null>(null);
+  const { incomes, categories, markIncomeReceived, deleteIncome, subscribeToIncomeStatus, currency, t } = useData();
+  const [newlyOverdue, setNewlyOverdue] = useState(0);
+  const [showOverdueNotice, setShowOverdueNotice] = useState(false);
+  const [followUpId, setFollowUpId] = useState<string | null>(null);
+  const [paymentIncomeId, setPaymentIncomeId] = useState<string | null>(null);
+  const [ledgerAccount, setLedgerAccount] = useState<ArrearsAccount | null>(null);
+  const [receiptIncomeId, setReceiptIncomeId] = useState<string | null>(null);
+  const [requestIncomeId, setRequestIncomeId] = useState<string | null>(null);
+  const [view, setView] = useState<'payments' | 'tenants'>('payments');
 
   // Helper for local today
   const getLocalToday = () => {
@@ -136,9 +187,32 @@ const IncomeScreen: React.FC = () => {
   };
   const today = getLocalToday();
 
+  const categoryLabel = (income: Income) => income.subcategory
+      ? `${t(getCategoryName(categories, income.category))} › ${t(getCategoryName(categories, income.subcategory))}`
+      : t(getCategoryName(categories, income.category));
+
+  // Let the user know when entries fall overdue while this screen is open (e.g. after midnight)
+  useEffect(() => {
+      return subscribeToIncomeStatus(event => {
+          if (event.type !== 'statusChange') return;
+          const count = event.changes.filter(c => c.to === 'Overdue').length;
+          if (count > 0) {
+              setNewlyOverdue(count);
+              setShowOverdueNotice(true);
+          }
+      });
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  useEffect(() => {
+      if (!showOverdueNotice) return;
+      const timer = setTimeout(() => setShowOverdueNotice(false), 4000);
+      return () => clearTimeout(timer);
+  }, [showOverdueNotice, newlyOverdue]);
+
   // Group by strict date logic to ensure UI consistency
-  // Overdue: Only if status isn't Received AND date < today
-  const overdueIncomes = incomes.filter(i => i.status !== 'Received' && i.date < today);
+  // Overdue: a balance is still outstanding AND date < today
+  const overdueIncomes = incomes.filter(i => isIncomeOverdue(i, today));
   
   // Upcoming/Expected: Status isn't Received AND (date >= today OR status is strictly Expected/Overdue but conceptually strictly >= today for 'upcoming' view, but here we group anything >= today)
   // We effectively split pending items into Past (Overdue) and Present/Future (Upcoming)
@@ -146,25 +220,20 @@ const IncomeScreen: React.FC = () => {
       .filter(i => i.status !== 'Received' && i.date >= today)
       .sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
 
-  const handleWhatsAppReminder = (income: Income) => {
-      if (!income.tenantContact) {
-          alert(t('No contact number found for this tenant.'));
-          return;
-      }
-      const message = `Hi, this is a reminder regarding the rent of ${currency}${income.amount} due on ${new Date(income.date).toLocaleDateString()}. Please pay at your earliest convenience.`;
-      const url = `https://wa.me/${income.tenantContact.replace(/\D/g, '')}?text=${encodeURIComponent(message)}`;
-      window.open(url, '_blank');
-      setFollowUpItem(null);
-  };
+  // Who owes what, across all of their past-due entries
+  const arrearsAccounts = useMemo(() => getArrearsAccounts(incomes, today), [incomes, today]);
+  const paymentIncome = incomes.find(i => i.id === paymentIncomeId);
+  const receiptIncome = incomes.find(i => i.id === receiptIncomeId);
+  const followUpIncome = incomes.find(i => i.id === followUpId);
+  const requestIncome = incomes.find(i => i.id === requestIncomeId);
 
-  const handleCallTenant = (income: Income) => {
-      if (!income.tenantContact) {
-           alert(t('No contact number found for this tenant.'));
-           return;
+  // Tenants usually want a receipt (e.g. for HRA), so it is offered right after rent is marked received
+  const handleMarkReceived = (id: string) => {
+      markIncomeReceived(id);
+      if (incomes.find(i => i.id === id)?.category === 'Rent') {
+          setReceiptIncomeId(id);
       }
-      window.location.href = `tel:${income.tenantContact}`;
-      setFollowUpItem(null);
-  }
+  };
 
   return (
     <div className="h-full flex flex-col animate-fade-in bg-gray-50 dark:bg-slate-950 transition-colors">
@@ -173,9 +242,23 @@ const IncomeScreen: React.FC = () => {
                 <h1 className="text-2xl font-bold text-gray-800 dark:text-white">{t('Income & Rent')}</h1>
                 <p className="text-sm text-gray-500 dark:text-slate-400">{t('Track incoming payments')}</p>
             </header>
+            <div className="flex bg-gray-100 dark:bg-slate-800 rounded-xl p-1">
+                {(['payments', 'tenants'] as const).map(v => (
+                    <button
+                        key={v}
+                        onClick={() => setView(v)}
+                        className={`flex-1 py-2 rounded-lg text-sm font-semibold transition-colors ${
+                            view === v ? 'bg-white dark:bg-slate-700 text-gray-800 dark:text-white shadow-sm' : 'text-gray-500 dark:text-slate-400'
+                        }`}
+                    >
+                        {v === 'payments' ? t('Payments') : t('Tenants')}
+                    </button>
+                ))}
+            </div>
         </div>
 
         <div className="flex-1 overflow-y-auto px-6 pb-6 space-y-6 no-scrollbar">
+            {view === 'tenants' ? <TenantsView /> : <>
             {/* Overdue Section */}
             {overdueIncomes.length > 0 && (
                 <div className="space-y-3">
@@ -189,14 +272,41 @@ const IncomeScreen: React.FC = () => {
                             income={income} 
                             currency={currency} 
                             t={t}
-                            onFollowUp={setFollowUpItem}
-                            onMarkReceived={markIncomeReceived}
+                            categoryLabel={categoryLabel(income)}
+                            onFollowUp={(i) => setFollowUpId(i.id)}
+                            onMarkReceived={handleMarkReceived}
+                            onRecordPayment={(i) => setPaymentIncomeId(i.id)}
+                            onRequestPayment={(i) => setRequestIncomeId(i.id)}
                             onDelete={deleteIncome}
                         />
                     ))}
                 </div>
             )}
 
+            {/* Arrears Section */}
+            {arrearsAccounts.length > 0 && (
+                <div className="space-y-3">
+                    <h2 className="text-xs font-bold text-gray-500 dark:text-slate-400 uppercase tracking-wide">
+                        {t('Arrears')}
+                    </h2>
+                    <div className="bg-white dark:bg-slate-800 rounded-xl shadow-sm border border-gray-100 dark:border-slate-700 divide-y divide-gray-50 dark:divide-slate-700/50">
+                        {arrearsAccounts.map(account => (
+                            <button
+                                key={account.key}
+                                onClick={() => setLedgerAccount(account)}
+                                className="w-full flex justify-between items-center p-4 text-left"
+                            >
+                                <span className="font-semibold text-gray-800 dark:text-white">{account.name}</span>
+                                <span className="flex items-center space-x-2">
+                                    <span className="font-bold text-red-500">{currency}{account.outstanding.toFixed(0)}</span>
+                                    <ChevronRight size={16} className="text-gray-300" />
+                                </span>
+                            </button>
+                        ))}
+                    </div>
+                </div>
+            )}
+
             {/* Upcoming Section */}
             <div className="space-y-3">
                 <h2 className="text-xs font-bold text-gray-500 dark:text-slate-400 uppercase tracking-wide">
@@ -213,54 +323,70 @@ const IncomeScreen: React.FC = () => {
                             income={income} 
                             currency={currency} 
                             t={t}
-                            onFollowUp={setFollowUpItem}
-                            onMarkReceived={markIncomeReceived}
+                            categoryLabel={categoryLabel(income)}
+                            onFollowUp={(i) => setFollowUpId(i.id)}
+                            onMarkReceived={handleMarkReceived}
+                            onRecordPayment={(i) => setPaymentIncomeId(i.id)}
+                            onRequestPayment={(i) => setRequestIncomeId(i.id)}
                             onDelete={deleteIncome}
                         />
                     ))
                 )}
             </div>
             
+            </>}
+
             <div className="h-10"></div> {/* Bottom Spacer */}
         </div>
 
-        {/* Follow Up Modal / Sheet */}
-        {followUpItem && (
+        {receiptIncome && (
+            <RentReceiptModal income={receiptIncome} onClose={() => setReceiptIncomeId(null)} />
+        )}
+
+        {paymentIncome && (
+            <RecordPaymentModal income={paymentIncome} onClose={() => setPaymentIncomeId(null)} />
+        )}
+
+        {/* Arrears Ledger Sheet */}
+        {ledgerAccount && (
             <div 
                 className="fixed inset-0 z-50 flex items-end sm:items-center justify-center bg-black/50 backdrop-blur-sm animate-fade-in"
-                onClick={() => setFollowUpItem(null)}
+                onClick={() => setLedgerAccount(null)}
             >
                 <div 
-                    className="bg-white dark:bg-slate-800 w-full sm:max-w-sm sm:rounded-2xl rounded-t-2xl p-6 shadow-xl animate-slide-up"
+                    className="bg-white dark:bg-slate-800 w-full sm:max-w-md sm:rounded-2xl rounded-t-2xl p-6 pb-[calc(2rem+env(safe-area-inset-bottom))] sm:pb-6 shadow-xl max-h-[90vh] overflow-y-auto no-scrollbar animate-slide-up"
                     onClick={e => e.stopPropagation()}
                 >
                     <div className="flex justify-between items-center mb-4">
-                        <h3 className="text-lg font-bold text-gray-800 dark:text-white">{t('Rent Follow Up')}</h3>
-                        <button onClick={() => setFollowUpItem(null)} className="p-1 rounded-full hover:bg-gray-100 dark:hover:bg-slate-700">
+                        <div>
+                            <h3 className="text-lg font-bold text-gray-800 dark:text-white">{t('Arrears Ledger')}</h3>
+                            <p className="text-xs text-gray-500 dark:text-slate-400">{ledgerAccount.name}</p>
+                        </div>
+                        <button onClick={() => setLedgerAccount(null)} className="p-1 rounded-full hover:bg-gray-100 dark:hover:bg-slate-700">
                             <X size={20} className="text-gray-500" />
                         </button>
                     </div>
-                    
-                    <div className="space-y-3">
-                        <button 
-                            onClick={() => handleWhatsAppReminder(followUpItem)}
-                            className="w-full flex items-center justify-center space-x-2 bg-green-500 text-white py-3 rounded-xl font-semibold hover:bg-green-600 transition-colors"
-                        >
-                            <MessageCircle size={20} />
-                            <span>{t('WhatsApp Reminder')}</span>
-                        </button>
-                        
-                        <button 
-                            onClick={() => handleCallTenant(followUpItem)}
-                            className="w-full flex items-center justify-center space-x-2 bg-blue-500 text-white py-3 rounded-xl font-semibold hover:bg-blue-600 transition-colors"
-                        >
-                            <Phone size={20} />
-                            <span>{t('Call Tenant')}</span>
-                        </button>
-                    </div>
+                    <ArrearsLedger incomes={ledgerAccount.incomes} today={today} />
                 </div>
             </div>
         )}
+
+        {requestIncome && (
+            <PaymentRequestSheet income={requestIncome} onClose={() => setRequestIncomeId(null)} />
+        )}
+
+        {/* Follow Up Modal / Sheet */}
+        {followUpIncome && (
+            <FollowUpSheet income={followUpIncome} onClose={() => setFollowUpId(null)} />
+        )}
+
+        {/* Status Snackbar */}
+        <div
+            className={`fixed bottom-24 left-4 right-4 sm:left-auto sm:right-8 sm:w-96 bg-gray-900 dark:bg-slate-700 text-white p-4 rounded-xl shadow-lg flex items-center space-x-2 z-40 transition-all duration-300 transform ${showOverdueNotice ? 'translate-y-0 opacity-100' : 'translate-y-10 opacity-0 pointer-events-none'}`}
+        >
+            <AlertTriangle size={16} className="text-red-400 shrink-0" />
+            <span className="text-sm">{newlyOverdue} {newlyOverdue === 1 ? t('payment is now overdue') : t('payments are now overdue')}</span>
+        </div>
     </div>
   );
 };
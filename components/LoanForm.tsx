@@ -0,0 +1,327 @@
+import React, { useState } from 'react';
+import { useData } from '../contexts/DataContext';
+import { Loan, LoanCompounding, LoanDirection, LoanInterestType, LoanRepaymentFrequency } from '../types';
+import { X, Calendar as CalendarIcon, Trash2, UserPlus } from 'lucide-react';
+import AccountPicker from './AccountPicker';
+import DatePicker from './DatePicker';
+import { getDefaultAccountId } from '../utils/accounts';
+import { getLoanInterest, getLoanSchedule } from '../utils/loans';
+
+interface LoanFormProps {
+  onClose: () => void;
+  loan?: Loan; // When provided, the form edits this loan instead of adding a new one
+  direction?: LoanDirection;
+}
+
+const INTEREST_TYPES: LoanInterestType[] = ['None', 'Simple', 'Compound'];
+const COMPOUNDING_OPTIONS: LoanCompounding[] = ['Monthly', 'Quarterly', 'Yearly'];
+const REPAYMENT_FREQUENCIES: LoanRepaymentFrequency[] = ['Monthly', 'Lump Sum'];
+
+const LoanForm: React.FC<LoanFormProps> = ({ onClose, loan, direction: initialDirection }) => {
+  const { contacts, accounts, addContact, addLoan, updateLoan, deleteLoan, currency, t } = useData();
+  const [direction, setDirection] = useState<LoanDirection>(loan?.direction || initialDirection || 'Given');
+  const [contactId, setContactId] = useState(loan?.contactId || '');
+  const [newContactName, setNewContactName] = useState('');
+  const [principal, setPrincipal] = useState(loan ? loan.principal.toString() : '');
+  const [startDate, setStartDate] = useState(loan?.startDate || new Date().toISOString().split('T')[0]);
+  const [interestType, setInterestType] = useState<LoanInterestType>(loan?.interestType || 'None');
+  const [interestRate, setInterestRate] = useState(loan && loan.interestRate > 0 ? loan.interestRate.toString() : '');
+  const [compounding, setCompounding] = useState<LoanCompounding>(loan?.compounding || 'Yearly');
+  const [tenureMonths, setTenureMonths] = useState(loan ? loan.tenureMonths.toString() : '12');
+  const [repaymentFrequency, setRepaymentFrequency] = useState<LoanRepaymentFrequency>(loan?.repaymentFrequency || 'Lump Sum');
+  const [accountId, setAccountId] = useState(loan?.accountId || getDefaultAccountId(accounts));
+  const [note, setNote] = useState(loan?.note || '');
+  const [error, setError] = useState('');
+  const [showDatePicker, setShowDatePicker] = useState(false);
+
+  const choices = contacts.filter(c => !c.archived || c.id === contactId);
+
+  const terms = {
+      principal: parseFloat(principal) || 0,
+      startDate,
+      interestType,
+      interestRate: interestType === 'None' ? 0 : parseFloat(interestRate) || 0,
+      compounding: interestType === 'Compound' ? compounding : undefined,
+      tenureMonths: Math.max(1, parseInt(tenureMonths, 10) || 0),
+      repaymentFrequency,
+  };
+  const interest = getLoanInterest(terms);
+  const schedule = getLoanSchedule({ ...terms, id: '', direction, contactId, repayments: [], createdAt: 0 });
+
+  const handleAddContact = () => {
+      const name = newContactName.trim();
+      if (!name) return;
+      setContactId(addContact({ name }));
+      setNewContactName('');
+      setError('');
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!contactId) {
+        setError(t('Choose who the loan is with'));
+        return;
+    }
+    if (terms.principal <= 0) {
+        setError(t('Valid amount required'));
+        return;
+    }
+    if (!(parseInt(tenureMonths, 10) > 0)) {
+        setError(t('Enter the tenure in months'));
+        return;
+    }
+    if (interestType !== 'None' && terms.interestRate <= 0) {
+        setError(t('Enter the interest rate'));
+        return;
+    }
+
+    const details = {
+      ...terms,
+      direction,
+      contactId,
+      accountId,
+      note: note.trim() || undefined,
+    };
+
+    if (loan) {
+      updateLoan(loan.id, details);
+    } else {
+      addLoan(details);
+    }
+    onClose();
+  };
+
+  const handleDelete = () => {
+    if (!loan) return;
+    if (confirm(t('delete_loan_confirm'))) {
+        deleteLoan(loan.id);
+        onClose();
+    }
+  };
+
+  const handleDateSelect = (selectedDate: Date) => {
+      const year = selectedDate.getFullYear();
+      const month = selectedDate.getMonth();
+      const day = selectedDate.getDate();
+      setStartDate(`${year}-${String(month + 1).padStart(2, '0')}-${String(day).padStart(2, '0')}`);
+  };
+
+  const tabClass = (selected: boolean) => `flex-1 py-2 rounded-lg text-sm font-semibold transition-colors ${
+      selected ? 'bg-white dark:bg-slate-600 text-gray-900 dark:text-white shadow-sm' : 'text-gray-500 dark:text-slate-400'
+  }`;
+  const chipClass = (selected: boolean) => `flex-1 py-2 px-1 rounded-lg text-xs font-medium transition-colors ${
+      selected ? 'bg-teal-600 text-white shadow-md' : 'bg-gray-100 dark:bg-slate-700 text-gray-600 dark:text-slate-300 hover:bg-gray-200 dark:hover:bg-slate-600'
+  }`;
+  const inputClass = "w-full px-4 py-3 bg-gray-50 dark:bg-slate-700 border border-gray-200 dark:border-slate-600 rounded-xl focus:outline-none focus:ring-2 focus:ring-teal-500 text-gray-900 dark:text-white";
+
+  return (
+    <div
+      className="fixed inset-0 bg-black/50 z-50 flex items-end sm:items-center justify-center animate-fade-in backdrop-blur-sm"
+      onClick={onClose}
+    >
+      <div
+        className="bg-white dark:bg-slate-800 w-full sm:max-w-md sm:rounded-2xl rounded-t-2xl px-6 pt-6 pb-[calc(2rem+env(safe-area-inset-bottom))] sm:pb-6 shadow-xl max-h-[90vh] h-auto overflow-y-auto no-scrollbar"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex justify-between items-center mb-6">
+          <h2 className="text-xl font-bold text-gray-800 dark:text-white">{loan ? t('Edit Loan') : t('Add Loan')}</h2>
+          <button onClick={onClose} className="p-2 bg-gray-100 dark:bg-slate-700 rounded-full hover:bg-gray-200 dark:hover:bg-slate-600 transition-colors">
+            <X size={20} className="text-gray-600 dark:text-slate-300" />
+          </button>
+        </div>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="flex bg-gray-100 dark:bg-slate-700 p-1 rounded-xl">
+              <button type="button" onClick={() => setDirection('Given')} className={tabClass(direction === 'Given')}>{t('I lent')}</button>
+              <button type="button" onClick={() => setDirection('Borrowed')} className={tabClass(direction === 'Borrowed')}>{t('I borrowed')}</button>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-slate-300 mb-1">{direction === 'Given' ? t('Lent to') : t('Borrowed from')}</label>
+            {choices.length > 0 && (
+                <select
+                    value={contactId}
+                    onChange={(e) => { setContactId(e.target.value); setError(''); }}
+                    className={`${inputClass} appearance-none text-sm mb-2`}
+                >
+                    {!contactId && <option value="" disabled>{t('Select Contact')}</option>}
+                    {choices.map(c => <option key={c.id} value={c.id}>{c.name}</option>)}
+                </select>
+            )}
+            <div className="flex">
+                <input
+                    type="text"
+                    value={newContactName}
+                    onChange={(e) => setNewContactName(e.target.value)}
+                    onKeyDown={(e) => { if (e.key === 'Enter') { e.preventDefault(); handleAddContact(); } }}
+                    className="flex-1 min-w-0 px-3 py-2 bg-gray-50 dark:bg-slate-700 border border-gray-200 dark:border-slate-600 rounded-l-lg text-sm text-gray-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-teal-500"
+                    placeholder={t('New contact name')}
+                />
+                <button
+                    type="button"
+                    onClick={handleAddContact}
+                    className="px-3 bg-teal-600 text-white rounded-r-lg hover:bg-teal-700 transition-colors"
+                >
+                    <UserPlus size={16} />
+                </button>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+                <label className="block text-sm font-medium text-gray-700 dark:text-slate-300 mb-1">{t('Principal')}</label>
+                <div className="relative">
+                    <span className="absolute left-3 top-3.5 text-gray-400 dark:text-slate-400 font-bold">{currency}</span>
+                    <input
+                        type="number"
+                        step="0.01"
+                        value={principal}
+                        onChange={(e) => { setPrincipal(e.target.value); setError(''); }}
+                        className="w-full pl-8 pr-4 py-3 bg-gray-50 dark:bg-slate-700 border border-gray-200 dark:border-slate-600 rounded-xl focus:outline-none focus:ring-2 focus:ring-teal-500 font-semibold text-gray-900 dark:text-white"
+                        placeholder="0.00"
+                    />
+                </div>
+            </div>
+            <div>
+                <label className="block text-sm font-medium text-gray-700 dark:text-slate-300 mb-1">{t('Start Date')}</label>
+                <button
+                    type="button"
+                    onClick={() => setShowDatePicker(true)}
+                    className="w-full px-4 py-3 bg-gray-50 dark:bg-slate-700 border border-gray-200 dark:border-slate-600 rounded-xl flex items-center justify-between text-left focus:outline-none focus:ring-2 focus:ring-teal-500"
+                >
+                    <span className="text-sm text-gray-900 dark:text-white truncate">
+                        {new Date(`${startDate}T00:00:00`).toLocaleDateString(undefined, { month: 'short', day: 'numeric', year: 'numeric' })}
+                    </span>
+                    <CalendarIcon size={18} className="text-gray-400 dark:text-slate-400 shrink-0" />
+                </button>
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-slate-300 mb-2">{t('Interest')}</label>
+            <div className="flex gap-2">
+                {INTEREST_TYPES.map(option => (
+                    <button key={option} type="button" onClick={() => setInterestType(option)} className={chipClass(interestType === option)}>
+                        {option === 'None' ? t('Interest-free') : t(option)}
+                    </button>
+                ))}
+            </div>
+          </div>
+
+          {interestType !== 'None' && (
+            <div className="grid grid-cols-2 gap-4">
+                <div>
+                    <label className="block text-sm font-medium text-gray-700 dark:text-slate-300 mb-1">{t('Rate (% per year)')}</label>
+                    <input
+                        type="number"
+                        step="0.01"
+                        value={interestRate}
+                        onChange={(e) => { setInterestRate(e.target.value); setError(''); }}
+                        className={inputClass}
+                        placeholder="e.g., 12"
+                    />
+                </div>
+                {interestType === 'Compound' && (
+                    <div>
+                        <label className="block text-sm font-medium text-gray-700 dark:text-slate-300 mb-1">{t('Compounded')}</label>
+                        <select value={compounding} onChange={(e) => setCompounding(e.target.value as LoanCompounding)} className={`${inputClass} appearance-none text-sm`}>
+                            {COMPOUNDING_OPTIONS.map(option => <option key={option} value={option}>{t(option)}</option>)}
+                        </select>
+                    </div>
+                )}
+            </div>
+          )}
+
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+                <label className="block text-sm font-medium text-gray-700 dark:text-slate-300 mb-1">{t('Tenure (months)')}</label>
+                <input
+                    type="number"
+                    min="1"
+                    step="1"
+                    value={tenureMonths}
+                    onChange={(e) => { setTenureMonths(e.target.value); setError(''); }}
+                    className={inputClass}
+                />
+            </div>
+            <div>
+                <label className="block text-sm font-medium text-gray-700 dark:text-slate-300 mb-1">{t('Repayment')}</label>
+                <select value={repaymentFrequency} onChange={(e) => setRepaymentFrequency(e.target.value as LoanRepaymentFrequency)} className={`${inputClass} appearance-none text-sm`}>
+                    {REPAYMENT_FREQUENCIES.map(option => <option key={option} value={option}>{option === 'Monthly' ? t('Monthly instalments') : t('Lump Sum')}</option>)}
+                </select>
+            </div>
+          </div>
+
+          {terms.principal > 0 && (
+            <div className="grid grid-cols-3 gap-2 text-center">
+                <div className="bg-gray-50 dark:bg-slate-700/50 rounded-xl p-2">
+                    <div className="text-[10px] uppercase font-bold text-gray-400">{t('Interest')}</div>
+                    <div className="font-bold text-sm text-gray-800 dark:text-white">{currency}{interest.toFixed(0)}</div>
+                </div>
+                <div className="bg-gray-50 dark:bg-slate-700/50 rounded-xl p-2">
+                    <div className="text-[10px] uppercase font-bold text-gray-400">{t('Total')}</div>
+                    <div className="font-bold text-sm text-gray-800 dark:text-white">{currency}{(terms.principal + interest).toFixed(0)}</div>
+                </div>
+                <div className="bg-gray-50 dark:bg-slate-700/50 rounded-xl p-2">
+                    <div className="text-[10px] uppercase font-bold text-gray-400">{schedule.length > 1 ? t('Per month') : t('Due on')}</div>
+                    <div className="font-bold text-sm text-teal-600 dark:text-teal-400">
+                        {schedule.length > 1
+                            ? `${currency}${schedule[0].amount.toFixed(0)}`
+                            : new Date(`${schedule[0].dueDate}T00:00:00`).toLocaleDateString(undefined, { month: 'short', day: 'numeric', year: 'numeric' })}
+                    </div>
+                </div>
+            </div>
+          )}
+
+          {accounts.length > 0 && (
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-slate-300 mb-1">{direction === 'Given' ? t('Paid From') : t('Received In')}</label>
+            <AccountPicker value={accountId} onChange={(account) => setAccountId(account.id)} />
+          </div>
+          )}
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-slate-300 mb-1">{t('Note')}</label>
+            <input
+                type="text"
+                value={note}
+                onChange={(e) => setNote(e.target.value)}
+                className={inputClass}
+                placeholder="e.g., For house repairs"
+            />
+          </div>
+
+          {error && <p className="text-red-500 text-xs">{error}</p>}
+
+          <button
+            type="submit"
+            className="w-full bg-teal-600 text-white py-4 rounded-xl font-bold text-lg hover:bg-teal-700 shadow-lg shadow-teal-600/20 transition-transform active:scale-[0.98] mt-2"
+          >
+            {t('Save Loan')}
+          </button>
+
+          {loan && (
+            <button
+                type="button"
+                onClick={handleDelete}
+                className="w-full flex items-center justify-center space-x-2 py-3 rounded-xl font-semibold text-sm text-red-600 bg-red-50 dark:bg-red-900/20 hover:bg-red-100 dark:hover:bg-red-900/30 transition-colors"
+            >
+                <Trash2 size={16} />
+                <span>{t('Delete Loan')}</span>
+            </button>
+          )}
+        </form>
+
+        <DatePicker
+            isOpen={showDatePicker}
+            onClose={() => setShowDatePicker(false)}
+            onSelect={handleDateSelect}
+            initialDate={new Date(`${startDate}T00:00:00`)}
+            title={t('Start Date')}
+        />
+      </div>
+    </div>
+  );
+};
+
+export default LoanForm;
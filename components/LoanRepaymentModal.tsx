@@ -0,0 +1,188 @@
+import React, { useState } from 'react';
+import { useData } from '../contexts/DataContext';
+import { Loan } from '../types';
+import { getLoanContactName, getLoanOutstanding, getLoanRepaid, getLoanSchedule, getLoanTotalPayable, getNextInstalment, getPendingInstalments } from '../utils/loans';
+import { getDefaultAccountId } from '../utils/accounts';
+import { X, Calendar as CalendarIcon, Trash2, CheckCircle2 } from 'lucide-react';
+import AccountPicker from './AccountPicker';
+import DatePicker from './DatePicker';
+
+interface LoanRepaymentModalProps {
+  loan: Loan;
+  today: string;
+  onClose: () => void;
+}
+
+const toDateString = (d: Date) => `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
+
+// Records a repayment against a loan, with the repayment schedule and the repayments made so far
+const LoanRepaymentModal: React.FC<LoanRepaymentModalProps> = ({ loan, today, onClose }) => {
+  const { contacts, accounts, recordLoanRepayment, deleteLoanRepayment, currency, t } = useData();
+  const outstanding = getLoanOutstanding(loan);
+  const next = getNextInstalment(loan);
+  const pending = new Map(getPendingInstalments(loan).map(i => [i.number, i.remaining]));
+  const [amount, setAmount] = useState((next?.remaining || outstanding).toString());
+  const [date, setDate] = useState(toDateString(new Date()));
+  const [accountId, setAccountId] = useState(getDefaultAccountId(accounts));
+  const [error, setError] = useState('');
+  const [isDatePickerOpen, setIsDatePickerOpen] = useState(false);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const value = parseFloat(amount);
+    if (!value || value <= 0) {
+        setError(t('Valid amount required'));
+        return;
+    }
+    if (value > outstanding + 0.005) {
+        setError(t('Payment exceeds the balance due'));
+        return;
+    }
+    recordLoanRepayment(loan.id, { amount: value, date, accountId });
+    onClose();
+  };
+
+  const handleDeleteRepayment = (repaymentId: string) => {
+    if (confirm(t('delete_payment_confirm'))) {
+        deleteLoanRepayment(loan.id, repaymentId);
+    }
+  };
+
+  const formatDate = (value: string) => new Date(`${value}T00:00:00`).toLocaleDateString(undefined, { month: 'short', day: 'numeric', year: 'numeric' });
+
+  return (
+    <div
+      className="fixed inset-0 bg-black/50 z-50 flex items-end sm:items-center justify-center animate-fade-in backdrop-blur-sm"
+      onClick={onClose}
+    >
+      <div
+        className="bg-white dark:bg-slate-800 w-full sm:max-w-md sm:rounded-2xl rounded-t-2xl px-6 pt-6 pb-[calc(2rem+env(safe-area-inset-bottom))] sm:pb-6 shadow-xl max-h-[90vh] h-auto overflow-y-auto no-scrollbar"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex justify-between items-center mb-4">
+          <div>
+            <h2 className="text-xl font-bold text-gray-800 dark:text-white">{t('Record Repayment')}</h2>
+            <p className="text-xs text-gray-500 dark:text-slate-400">
+                {loan.direction === 'Given' ? t('Lent to') : t('Borrowed from')} {getLoanContactName(contacts, loan)}
+            </p>
+          </div>
+          <button onClick={onClose} className="p-2 bg-gray-100 dark:bg-slate-700 rounded-full hover:bg-gray-200 dark:hover:bg-slate-600 transition-colors">
+            <X size={20} className="text-gray-600 dark:text-slate-300" />
+          </button>
+        </div>
+
+        <div className="grid grid-cols-3 gap-2 mb-4 text-center">
+            <div className="bg-gray-50 dark:bg-slate-700/50 rounded-xl p-2">
+                <div className="text-[10px] uppercase font-bold text-gray-400">{t('Total')}</div>
+                <div className="font-bold text-sm text-gray-800 dark:text-white">{currency}{getLoanTotalPayable(loan).toFixed(0)}</div>
+            </div>
+            <div className="bg-gray-50 dark:bg-slate-700/50 rounded-xl p-2">
+                <div className="text-[10px] uppercase font-bold text-gray-400">{t('Repaid')}</div>
+                <div className="font-bold text-sm text-teal-600 dark:text-teal-400">{currency}{getLoanRepaid(loan).toFixed(0)}</div>
+            </div>
+            <div className="bg-gray-50 dark:bg-slate-700/50 rounded-xl p-2">
+                <div className="text-[10px] uppercase font-bold text-gray-400">{t('Outstanding')}</div>
+                <div className="font-bold text-sm text-red-500">{currency}{outstanding.toFixed(0)}</div>
+            </div>
+        </div>
+
+        {outstanding > 0 && (
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+                <label className="block text-sm font-medium text-gray-700 dark:text-slate-300 mb-1">{t('Amount')}</label>
+                <div className="relative">
+                    <span className="absolute left-3 top-3 text-gray-400 dark:text-slate-400 font-bold">{currency}</span>
+                    <input
+                        type="number"
+                        step="0.01"
+                        value={amount}
+                        onChange={(e) => { setAmount(e.target.value); setError(''); }}
+                        className="w-full pl-8 pr-3 py-3 bg-gray-50 dark:bg-slate-700 border border-gray-200 dark:border-slate-600 rounded-xl focus:outline-none focus:ring-2 focus:ring-teal-500 font-semibold text-gray-900 dark:text-white"
+                        placeholder="0"
+                    />
+                </div>
+            </div>
+            <div>
+                <label className="block text-sm font-medium text-gray-700 dark:text-slate-300 mb-1">{t('Date')}</label>
+                <button
+                    type="button"
+                    onClick={() => setIsDatePickerOpen(true)}
+                    className="w-full px-3 py-3 bg-gray-50 dark:bg-slate-700 border border-gray-200 dark:border-slate-600 rounded-xl flex items-center justify-between text-left text-sm text-gray-900 dark:text-white"
+                >
+                    <span className="truncate">{formatDate(date)}</span>
+                    <CalendarIcon size={16} className="text-gray-400 shrink-0" />
+                </button>
+            </div>
+          </div>
+
+          {accounts.length > 0 && (
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-slate-300 mb-1">{loan.direction === 'Given' ? t('Received In') : t('Paid From')}</label>
+            <AccountPicker value={accountId} onChange={(account) => setAccountId(account.id)} />
+          </div>
+          )}
+          {error && <p className="text-red-500 text-xs -mt-2">{error}</p>}
+
+          <button
+            type="submit"
+            className="w-full bg-teal-600 text-white py-4 rounded-xl font-bold text-lg hover:bg-teal-700 shadow-lg shadow-teal-600/20 transition-transform active:scale-[0.98]"
+          >
+            {t('Record Repayment')}
+          </button>
+        </form>
+        )}
+
+        <div className="mt-6">
+            <h4 className="text-xs font-bold text-gray-500 dark:text-slate-400 uppercase tracking-wide mb-2">{t('Repayment Schedule')}</h4>
+            <div className="rounded-xl border border-gray-100 dark:border-slate-700 divide-y divide-gray-100 dark:divide-slate-700">
+                {getLoanSchedule(loan).map(instalment => {
+                    const remaining = pending.get(instalment.number) || 0;
+                    const overdue = remaining > 0 && instalment.dueDate < today;
+                    return (
+                        <div key={instalment.number} className="flex justify-between items-center px-3 py-2 text-sm">
+                            <span className="text-gray-700 dark:text-slate-200">
+                                {instalment.number}. {formatDate(instalment.dueDate)}
+                            </span>
+                            <span className={`flex items-center font-semibold ${remaining === 0 ? 'text-green-600 dark:text-green-400' : overdue ? 'text-red-500' : 'text-gray-800 dark:text-white'}`}>
+                                {remaining === 0 && <CheckCircle2 size={14} className="mr-1" />}
+                                {currency}{(remaining > 0 ? remaining : instalment.amount).toFixed(0)}
+                            </span>
+                        </div>
+                    );
+                })}
+            </div>
+        </div>
+
+        {loan.repayments.length > 0 && (
+            <div className="mt-6">
+                <h4 className="text-xs font-bold text-gray-500 dark:text-slate-400 uppercase tracking-wide mb-2">{t('Repayments')}</h4>
+                <div className="space-y-2">
+                    {loan.repayments.map(repayment => (
+                        <div key={repayment.id} className="flex justify-between items-center p-3 rounded-xl border border-gray-100 dark:border-slate-700">
+                            <span className="text-sm text-gray-700 dark:text-slate-200">{formatDate(repayment.date)}</span>
+                            <div className="flex items-center space-x-2">
+                                <span className="font-semibold text-sm text-gray-800 dark:text-white">{currency}{repayment.amount.toFixed(0)}</span>
+                                <button onClick={() => handleDeleteRepayment(repayment.id)} className="p-1.5 text-gray-300 hover:text-red-500">
+                                    <Trash2 size={14} />
+                                </button>
+                            </div>
+                        </div>
+                    ))}
+                </div>
+            </div>
+        )}
+
+        <DatePicker
+            isOpen={isDatePickerOpen}
+            onClose={() => setIsDatePickerOpen(false)}
+            onSelect={(d) => setDate(toDateString(d))}
+            initialDate={new Date(`${date}T00:00:00`)}
+            title={t('Date')}
+        />
+      </div>
+    </div>
+  );
+};
+
+export default LoanRepaymentModal;
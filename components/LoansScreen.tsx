@@ -0,0 +1,185 @@
+import React, { useState } from 'react';
+import { useData } from '../contexts/DataContext';
+import { Loan, LoanDirection } from '../types';
+import { getLoanContactName, getLoanOutstanding, getLoanOverdue, getLoanRepaid, getLoanTotalPayable, getNextInstalment, isLoanClosed } from '../utils/loans';
+import { ArrowLeft, Plus, BellRing, HandCoins, Pencil } from 'lucide-react';
+import LoanForm from './LoanForm';
+import LoanRepaymentModal from './LoanRepaymentModal';
+import LoanFollowUpSheet from './LoanFollowUpSheet';
+
+interface LoansScreenProps {
+  onBack: () => void;
+}
+
+// Loans given to and taken from friends and relatives, with what is still outstanding on each
+const LoansScreen: React.FC<LoansScreenProps> = ({ onBack }) => {
+  const { loans, contacts, currency, t } = useData();
+  const [direction, setDirection] = useState<LoanDirection>('Given');
+  const [editing, setEditing] = useState<Loan | null>(null);
+  const [isAdding, setIsAdding] = useState(false);
+  const [repayingId, setRepayingId] = useState<string | null>(null);
+  const [followUpId, setFollowUpId] = useState<string | null>(null);
+
+  const today = (() => {
+      const d = new Date();
+      return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
+  })();
+
+  const totalOutstanding = (dir: LoanDirection) =>
+      loans.filter(l => l.direction === dir).reduce((sum, l) => sum + getLoanOutstanding(l), 0);
+
+  const shown = loans.filter(l => l.direction === direction);
+  const open = shown.filter(l => !isLoanClosed(l));
+  const closed = shown.filter(isLoanClosed);
+  // Modals read the live loan so repayments recorded or deleted show straight away
+  const repaying = loans.find(l => l.id === repayingId);
+  const followingUp = loans.find(l => l.id === followUpId);
+
+  const formatDate = (date: string) => new Date(`${date}T00:00:00`).toLocaleDateString(undefined, { month: 'short', day: 'numeric', year: 'numeric' });
+
+  const renderLoan = (loan: Loan) => {
+      const total = getLoanTotalPayable(loan);
+      const repaid = getLoanRepaid(loan);
+      const outstanding = getLoanOutstanding(loan);
+      const overdue = getLoanOverdue(loan, today);
+      const next = getNextInstalment(loan);
+      const progress = total > 0 ? Math.min(100, (repaid / total) * 100) : 0;
+
+      return (
+          <div key={loan.id} className="bg-white dark:bg-slate-800 rounded-2xl shadow-sm border border-gray-100 dark:border-slate-700 p-4 space-y-3">
+              <div className="flex items-start justify-between">
+                  <div className="min-w-0">
+                      <p className="font-semibold text-gray-800 dark:text-white truncate">{getLoanContactName(contacts, loan)}</p>
+                      <p className="text-xs text-gray-500 dark:text-slate-400">
+                          {currency}{loan.principal.toFixed(0)} • {formatDate(loan.startDate)}
+                          {loan.interestType !== 'None' ? ` • ${loan.interestRate}% ${t(loan.interestType)}` : ` • ${t('Interest-free')}`}
+                      </p>
+                  </div>
+                  <button
+                      onClick={() => setEditing(loan)}
+                      className="p-1.5 text-gray-400 hover:text-teal-600 dark:text-slate-500 transition-colors"
+                  >
+                      <Pencil size={16} />
+                  </button>
+              </div>
+
+              <div>
+                  <div className="flex justify-between text-xs mb-1">
+                      <span className="text-gray-500 dark:text-slate-400">{t('Repaid')} {currency}{repaid.toFixed(0)} / {currency}{total.toFixed(0)}</span>
+                      <span className="font-bold text-gray-800 dark:text-white">{t('Outstanding')} {currency}{outstanding.toFixed(0)}</span>
+                  </div>
+                  <div className="h-2 bg-gray-100 dark:bg-slate-700 rounded-full overflow-hidden">
+                      <div className="h-full bg-teal-500 rounded-full" style={{ width: `${progress}%` }} />
+                  </div>
+              </div>
+
+              {overdue > 0 ? (
+                  <p className="text-xs font-semibold text-red-500">{t('Overdue')} {currency}{overdue.toFixed(0)}</p>
+              ) : next && (
+                  <p className="text-xs text-gray-500 dark:text-slate-400">{t('Next due')} {formatDate(next.dueDate)} • {currency}{next.remaining.toFixed(0)}</p>
+              )}
+
+              <div className="flex gap-2">
+                  <button
+                      onClick={() => setRepayingId(loan.id)}
+                      className="flex-1 flex items-center justify-center space-x-1 py-2 bg-teal-50 dark:bg-teal-900/30 text-teal-700 dark:text-teal-300 rounded-lg text-xs font-semibold hover:bg-teal-100 dark:hover:bg-teal-900/50 transition-colors"
+                  >
+                      <HandCoins size={14} />
+                      <span>{outstanding > 0 ? t('Record Repayment') : t('Repayments')}</span>
+                  </button>
+                  {loan.direction === 'Given' && overdue > 0 && (
+                      <button
+                          onClick={() => setFollowUpId(loan.id)}
+                          className="flex-1 flex items-center justify-center space-x-1 py-2 bg-red-50 dark:bg-red-900/20 text-red-600 dark:text-red-400 rounded-lg text-xs font-semibold hover:bg-red-100 dark:hover:bg-red-900/30 transition-colors"
+                      >
+                          <BellRing size={14} />
+                          <span>{t('Follow Up')}</span>
+                      </button>
+                  )}
+              </div>
+          </div>
+      );
+  };
+
+  return (
+    <div className="h-full flex flex-col animate-fade-in bg-gray-50 dark:bg-slate-900 transition-colors">
+      <div className="shrink-0 p-6 pb-2 z-10 bg-gray-50 dark:bg-slate-900 transition-colors">
+        <header className="flex items-center justify-between py-2">
+            <div className="flex items-center space-x-3">
+                <button
+                onClick={onBack}
+                className="p-2 -ml-2 rounded-full hover:bg-gray-200 dark:hover:bg-slate-800 text-gray-600 dark:text-gray-300 transition-colors"
+                >
+                <ArrowLeft size={24} />
+                </button>
+                <h1 className="text-2xl font-bold text-gray-800 dark:text-white">{t('Loans')}</h1>
+            </div>
+            <button
+                onClick={() => setIsAdding(true)}
+                className="p-2 bg-teal-600 text-white rounded-full shadow-md hover:bg-teal-700 transition-colors"
+            >
+                <Plus size={20} />
+            </button>
+        </header>
+
+        <div className="flex bg-gray-200 dark:bg-slate-800 p-1 rounded-xl mt-2 max-w-2xl mx-auto">
+            {(['Given', 'Borrowed'] as LoanDirection[]).map(option => (
+                <button
+                    key={option}
+                    onClick={() => setDirection(option)}
+                    className={`flex-1 py-2 rounded-lg text-sm font-semibold transition-colors ${direction === option ? 'bg-white dark:bg-slate-700 text-gray-900 dark:text-white shadow-sm' : 'text-gray-500 dark:text-slate-400'}`}
+                >
+                    {option === 'Given' ? t('Lent') : t('Borrowed')}
+                </button>
+            ))}
+        </div>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-6 pt-2 no-scrollbar">
+        <div className="max-w-2xl mx-auto w-full space-y-6">
+            <div className="grid grid-cols-2 gap-4">
+                <div className="bg-white dark:bg-slate-800 rounded-2xl p-4 shadow-sm border border-gray-100 dark:border-slate-700">
+                    <p className="text-xs font-bold uppercase tracking-wide text-gray-500 dark:text-slate-400">{t('To receive')}</p>
+                    <p className="text-2xl font-bold text-green-600 dark:text-green-400 mt-1">{currency}{totalOutstanding('Given').toFixed(0)}</p>
+                </div>
+                <div className="bg-white dark:bg-slate-800 rounded-2xl p-4 shadow-sm border border-gray-100 dark:border-slate-700">
+                    <p className="text-xs font-bold uppercase tracking-wide text-gray-500 dark:text-slate-400">{t('To repay')}</p>
+                    <p className="text-2xl font-bold text-red-500 mt-1">{currency}{totalOutstanding('Borrowed').toFixed(0)}</p>
+                </div>
+            </div>
+
+            <section className="space-y-3">
+                {open.length === 0 ? (
+                    <p className="text-sm text-gray-500 dark:text-slate-400 text-center py-6">{t('No open loans')}</p>
+                ) : open.map(renderLoan)}
+            </section>
+
+            {closed.length > 0 && (
+                <section className="space-y-3">
+                    <h3 className="text-sm font-semibold text-gray-500 dark:text-slate-400 uppercase tracking-wider">{t('Repaid')}</h3>
+                    <div className="space-y-3 opacity-70">{closed.map(renderLoan)}</div>
+                </section>
+            )}
+        </div>
+      </div>
+
+      {(isAdding || editing) && (
+          <LoanForm
+              loan={editing || undefined}
+              direction={direction}
+              onClose={() => { setIsAdding(false); setEditing(null); }}
+          />
+      )}
+
+      {repaying && (
+          <LoanRepaymentModal loan={repaying} today={today} onClose={() => setRepayingId(null)} />
+      )}
+
+      {followingUp && (
+          <LoanFollowUpSheet loan={followingUp} today={today} onClose={() => setFollowUpId(null)} />
+      )}
+    </div>
+  );
+};
+
+export default LoansScreen;
@@ -6,6 +6,8 @@ import OTPScreen from './OTPScreen';
 import { sendOTPEmail } from '../services/emailService';
 import { LocalBackup } from '../types';
 import EncryptionModal from './EncryptionModal';
+import PasswordRequirements from './PasswordRequirements';
+import { isStrongPassword } from '../utils/security';
 
 interface LoginScreenProps {
   onLoginSuccess: (identifier: string) => void;
@@ -27,6 +29,7 @@ const LoginScreen: React.FC<LoginScreenProps> = ({ onLoginSuccess, onShowTerms }
   
   const [newPassword, setNewPassword] = useState('');
   const [confirmNewPassword, setConfirmNewPassword] = useState('');
+  const [showPasswordTooltip, setShowPasswordTooltip] = useState(false);
 
   const [canUseBiometric, setCanUseBiometric] = useState(false);
 
@@ -42,7 +45,7 @@ const LoginScreen: React.FC<LoginScreenProps> = ({ onLoginSuccess, onShowTerms }
   useEffect(() => {
       // Load local backups when in "Create Account" mode
       if (isNewUser) {
-          setLocalBackups(getLocalBackups());
+          getLocalBackups().then(setLocalBackups);
       }
   }, [isNewUser, getLocalBackups]);
 
@@ -185,14 +188,18 @@ const LoginScreen: React.FC<LoginScreenProps> = ({ onLoginSuccess, onShowTerms }
       setViewState('reset');
   }
 
-  const handleResetSubmit = (e: React.FormEvent) => {
+  const handleResetSubmit = async (e: React.FormEvent) => {
       e.preventDefault();
+      if (!isStrongPassword(newPassword)) {
+          setError(t('Password too weak'));
+          return;
+      }
       if (newPassword !== confirmNewPassword) {
           setError(t('passwords_mismatch'));
           return;
       }
       
-      const success = resetPassword(resetIdentifier, newPassword);
+      const success = await resetPassword(resetIdentifier, newPassword);
       if (success) {
           setViewState('success');
       } else {
@@ -217,6 +224,8 @@ const LoginScreen: React.FC<LoginScreenProps> = ({ onLoginSuccess, onShowTerms }
             if (err.message === 'DECRYPTION_FAILED') {
                 setPendingRestoreSource(file);
                 setShowEncryptionModal(true);
+            } else if (err.message === 'UNSUPPORTED_VERSION') {
+                alert(t('backup_version_unsupported'));
             } else {
                 alert("Restore failed: " + err.message);
             }
@@ -240,6 +249,8 @@ const LoginScreen: React.FC<LoginScreenProps> = ({ onLoginSuccess, onShowTerms }
           if (err.message === 'DECRYPTION_FAILED') {
                setPendingRestoreSource(backup.content);
                setShowEncryptionModal(true);
+          } else if (err.message === 'UNSUPPORTED_VERSION') {
+               alert(t('backup_version_unsupported'));
           } else {
                alert("Restore failed: " + err.message);
           }
@@ -259,17 +270,21 @@ const LoginScreen: React.FC<LoginScreenProps> = ({ onLoginSuccess, onShowTerms }
               alert(t('Account restored successfully!'));
           }
       } catch (err: any) {
-          alert("Failed to decrypt or restore data. Incorrect password?");
+          if (err.message === 'UNSUPPORTED_VERSION') {
+              alert(t('backup_version_unsupported'));
+          } else {
+              alert("Failed to decrypt or restore data. Incorrect password?");
+          }
       } finally {
           setIsRestoring(false);
           setPendingRestoreSource(null);
       }
   }
 
-  const handleDeleteLocalBackup = (id: string, e: React.MouseEvent) => {
+  const handleDeleteLocalBackup = async (id: string, e: React.MouseEvent) => {
       e.stopPropagation();
       if(confirm(t('delete_backup_confirm'))) {
-          deleteLocalBackup(id);
+          await deleteLocalBackup(id);
           setLocalBackups(prev => prev.filter(b => b.id !== id));
       }
   }
@@ -371,11 +386,14 @@ const LoginScreen: React.FC<LoginScreenProps> = ({ onLoginSuccess, onShowTerms }
                                 type="password"
                                 value={newPassword}
                                 onChange={(e) => setNewPassword(e.target.value)}
+                                onFocus={() => setShowPasswordTooltip(true)}
+                                onBlur={() => setShowPasswordTooltip(false)}
                                 className="w-full pl-10 pr-4 py-3.5 bg-white dark:bg-slate-800 border border-gray-200 dark:border-slate-700 rounded-xl focus:outline-none focus:ring-2 focus:ring-teal-500 text-gray-900 dark:text-white transition-colors"
                                 placeholder="••••••••"
                                 required
                                 minLength={8}
                             />
+                            {showPasswordTooltip && <PasswordRequirements password={newPassword} t={t} />}
                         </div>
                     </div>
                     <div>
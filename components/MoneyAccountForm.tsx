@@ -0,0 +1,223 @@
+import React, { useState } from 'react';
+import { useData } from '../contexts/DataContext';
+import { MoneyAccount, MoneyAccountType } from '../types';
+import { MONEY_ACCOUNT_TYPES, isAccountInUse } from '../utils/accounts';
+import { X, Wallet, Archive, Trash2 } from 'lucide-react';
+
+interface MoneyAccountFormProps {
+  onClose: () => void;
+  account?: MoneyAccount; // When provided, the form edits this account instead of adding a new one
+}
+
+const MoneyAccountForm: React.FC<MoneyAccountFormProps> = ({ onClose, account }) => {
+  const { addAccount, updateAccount, deleteAccount, expenses, incomes, recurringExpenses, transfers, settlements, loans, emiPlans, currency, t } = useData();
+  const [name, setName] = useState(account?.name || '');
+  const [type, setType] = useState<MoneyAccountType>(account?.type || 'Bank');
+  const [openingBalance, setOpeningBalance] = useState(account ? account.openingBalance.toString() : '');
+  const [statementDay, setStatementDay] = useState(account?.statementDay?.toString() || '');
+  const [dueDay, setDueDay] = useState(account?.dueDay?.toString() || '');
+  const [creditLimit, setCreditLimit] = useState(account?.creditLimit?.toString() || '');
+  const [error, setError] = useState('');
+
+  // Accounts with history can only be archived, so past entries keep pointing at them
+  const inUse = !!account && isAccountInUse(account.id, { expenses, incomes, recurringExpenses, transfers, settlements, loans, emiPlans });
+  const isCard = type === 'Credit Card';
+
+  const toDayOfMonth = (value: string) => {
+    const day = parseInt(value, 10);
+    return day >= 1 && day <= 31 ? day : undefined;
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim()) {
+        setError(t('Account name is required'));
+        return;
+    }
+    if (isCard && (!toDayOfMonth(statementDay) || !toDayOfMonth(dueDay))) {
+        setError(t('Enter statement and due days between 1 and 31'));
+        return;
+    }
+
+    const details = {
+      name: name.trim(),
+      type,
+      openingBalance: parseFloat(openingBalance) || 0,
+      statementDay: isCard ? toDayOfMonth(statementDay) : undefined,
+      dueDay: isCard ? toDayOfMonth(dueDay) : undefined,
+      creditLimit: isCard ? parseFloat(creditLimit) || undefined : undefined,
+      archived: account?.archived,
+    };
+
+    if (account) {
+      updateAccount(account.id, details);
+    } else {
+      addAccount(details);
+    }
+    onClose();
+  };
+
+  const handleArchiveToggle = () => {
+    if (!account) return;
+    const { id, createdAt, ...details } = account;
+    updateAccount(id, { ...details, archived: !account.archived });
+    onClose();
+  };
+
+  const handleDelete = () => {
+    if (!account) return;
+    if (confirm(t('delete_account_confirm'))) {
+        deleteAccount(account.id);
+        onClose();
+    }
+  };
+
+  return (
+    <div
+      className="fixed inset-0 bg-black/50 z-50 flex items-end sm:items-center justify-center animate-fade-in backdrop-blur-sm"
+      onClick={onClose}
+    >
+      <div
+        className="bg-white dark:bg-slate-800 w-full sm:max-w-md sm:rounded-2xl rounded-t-2xl px-6 pt-6 pb-[calc(2rem+env(safe-area-inset-bottom))] sm:pb-6 shadow-xl max-h-[90vh] h-auto overflow-y-auto no-scrollbar"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex justify-between items-center mb-6">
+          <h2 className="text-xl font-bold text-gray-800 dark:text-white">{account ? t('Edit Account') : t('Add Account')}</h2>
+          <button onClick={onClose} className="p-2 bg-gray-100 dark:bg-slate-700 rounded-full hover:bg-gray-200 dark:hover:bg-slate-600 transition-colors">
+            <X size={20} className="text-gray-600 dark:text-slate-300" />
+          </button>
+        </div>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-slate-300 mb-1">{t('Account Name')}</label>
+            <div className="relative">
+                <Wallet className="absolute left-3 top-3.5 text-gray-400 dark:text-slate-500" size={18} />
+                <input
+                    type="text"
+                    value={name}
+                    onChange={(e) => { setName(e.target.value); setError(''); }}
+                    className="w-full pl-10 pr-4 py-3 bg-gray-50 dark:bg-slate-700 border border-gray-200 dark:border-slate-600 rounded-xl focus:outline-none focus:ring-2 focus:ring-teal-500 text-gray-900 dark:text-white"
+                    placeholder="e.g., SBI Savings"
+                />
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-slate-300 mb-2">{t('Account Type')}</label>
+            <div className="grid grid-cols-3 gap-2">
+                {MONEY_ACCOUNT_TYPES.map(option => (
+                    <button
+                        key={option}
+                        type="button"
+                        onClick={() => setType(option)}
+                        className={`py-2 px-1 rounded-lg text-xs font-medium transition-colors ${
+                            type === option
+                            ? 'bg-teal-600 text-white shadow-md'
+                            : 'bg-gray-100 dark:bg-slate-700 text-gray-600 dark:text-slate-300 hover:bg-gray-200 dark:hover:bg-slate-600'
+                        }`}
+                    >
+                        {t(option)}
+                    </button>
+                ))}
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-slate-300 mb-1">{t('Opening Balance')}</label>
+            <div className="relative">
+                <span className="absolute left-3 top-3.5 text-gray-400 dark:text-slate-400 font-bold">{currency}</span>
+                <input
+                    type="number"
+                    step="0.01"
+                    value={openingBalance}
+                    onChange={(e) => setOpeningBalance(e.target.value)}
+                    className="w-full pl-8 pr-4 py-3 bg-gray-50 dark:bg-slate-700 border border-gray-200 dark:border-slate-600 rounded-xl focus:outline-none focus:ring-2 focus:ring-teal-500 text-gray-900 dark:text-white"
+                    placeholder="0.00"
+                />
+            </div>
+            <p className="text-xs text-gray-400 dark:text-slate-500 mt-1">{t('opening_balance_hint')}</p>
+          </div>
+
+          {isCard && (
+            <div className="space-y-4">
+                <div className="grid grid-cols-2 gap-4">
+                    <div>
+                        <label className="block text-sm font-medium text-gray-700 dark:text-slate-300 mb-1">{t('Statement Day')}</label>
+                        <input
+                            type="number"
+                            min="1"
+                            max="31"
+                            value={statementDay}
+                            onChange={(e) => { setStatementDay(e.target.value); setError(''); }}
+                            className="w-full px-4 py-3 bg-gray-50 dark:bg-slate-700 border border-gray-200 dark:border-slate-600 rounded-xl focus:outline-none focus:ring-2 focus:ring-teal-500 text-gray-900 dark:text-white"
+                            placeholder="e.g., 15"
+                        />
+                    </div>
+                    <div>
+                        <label className="block text-sm font-medium text-gray-700 dark:text-slate-300 mb-1">{t('Due Day')}</label>
+                        <input
+                            type="number"
+                            min="1"
+                            max="31"
+                            value={dueDay}
+                            onChange={(e) => { setDueDay(e.target.value); setError(''); }}
+                            className="w-full px-4 py-3 bg-gray-50 dark:bg-slate-700 border border-gray-200 dark:border-slate-600 rounded-xl focus:outline-none focus:ring-2 focus:ring-teal-500 text-gray-900 dark:text-white"
+                            placeholder="e.g., 5"
+                        />
+                    </div>
+                </div>
+                <div>
+                    <label className="block text-sm font-medium text-gray-700 dark:text-slate-300 mb-1">{t('Credit Limit')}</label>
+                    <div className="relative">
+                        <span className="absolute left-3 top-3.5 text-gray-400 dark:text-slate-400 font-bold">{currency}</span>
+                        <input
+                            type="number"
+                            step="0.01"
+                            value={creditLimit}
+                            onChange={(e) => setCreditLimit(e.target.value)}
+                            className="w-full pl-8 pr-4 py-3 bg-gray-50 dark:bg-slate-700 border border-gray-200 dark:border-slate-600 rounded-xl focus:outline-none focus:ring-2 focus:ring-teal-500 text-gray-900 dark:text-white"
+                            placeholder="0.00"
+                        />
+                    </div>
+                </div>
+            </div>
+          )}
+
+          {error && <p className="text-red-500 text-xs">{error}</p>}
+
+          <button
+            type="submit"
+            className="w-full bg-teal-600 text-white py-4 rounded-xl font-bold text-lg hover:bg-teal-700 shadow-lg shadow-teal-600/20 transition-transform active:scale-[0.98] mt-4"
+          >
+            {t('Save Account')}
+          </button>
+
+          {account && (
+            inUse ? (
+                <button
+                    type="button"
+                    onClick={handleArchiveToggle}
+                    className="w-full flex items-center justify-center space-x-2 py-3 rounded-xl font-semibold text-sm text-gray-600 dark:text-slate-300 bg-gray-100 dark:bg-slate-700 hover:bg-gray-200 dark:hover:bg-slate-600 transition-colors"
+                >
+                    <Archive size={16} />
+                    <span>{account.archived ? t('Unarchive Account') : t('Archive Account')}</span>
+                </button>
+            ) : (
+                <button
+                    type="button"
+                    onClick={handleDelete}
+                    className="w-full flex items-center justify-center space-x-2 py-3 rounded-xl font-semibold text-sm text-red-600 bg-red-50 dark:bg-red-900/20 hover:bg-red-100 dark:hover:bg-red-900/30 transition-colors"
+                >
+                    <Trash2 size={16} />
+                    <span>{t('Delete Account')}</span>
+                </button>
+            )
+          )}
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default MoneyAccountForm;
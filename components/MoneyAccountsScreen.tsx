@@ -0,0 +1,170 @@
+import React, { useMemo, useState } from 'react';
+import { useData } from '../contexts/DataContext';
+import { MoneyAccount } from '../types';
+import { getAccountBalances } from '../utils/accounts';
+import { ArrowLeft, Plus, ArrowLeftRight, Trash2, ChevronRight } from 'lucide-react';
+import AccountTypeIcon from './AccountTypeIcon';
+import MoneyAccountForm from './MoneyAccountForm';
+import TransferForm from './TransferForm';
+import CreditCardDues from './CreditCardDues';
+
+interface MoneyAccountsScreenProps {
+  onBack: () => void;
+}
+
+const MoneyAccountsScreen: React.FC<MoneyAccountsScreenProps> = ({ onBack }) => {
+  const { accounts, transfers, settlements, loans, emiPlans, expenses, incomes, deleteTransfer, currency, t } = useData();
+  const [editingAccount, setEditingAccount] = useState<MoneyAccount | null>(null);
+  const [isAddingAccount, setIsAddingAccount] = useState(false);
+  const [isTransferring, setIsTransferring] = useState(false);
+
+  const balances = useMemo(
+      () => getAccountBalances(accounts, { expenses, incomes, transfers, settlements, loans, emiPlans }),
+      [accounts, expenses, incomes, transfers, settlements, loans, emiPlans]
+  );
+  const activeBalances = balances.filter(b => !b.account.archived);
+  const archivedBalances = balances.filter(b => b.account.archived);
+  const netBalance = activeBalances.reduce((sum, b) => sum + b.balance, 0);
+
+  const today = (() => {
+      const d = new Date();
+      return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
+  })();
+
+  const accountName = (id: string) => accounts.find(a => a.id === id)?.name || t('Deleted account');
+
+  const handleDeleteTransfer = (id: string) => {
+      if (confirm(t('delete_transfer_confirm'))) {
+          deleteTransfer(id);
+      }
+  };
+
+  const renderAccount = ({ account, balance }: { account: MoneyAccount; balance: number }) => (
+      <button
+          key={account.id}
+          onClick={() => setEditingAccount(account)}
+          className="w-full flex items-center justify-between p-4 bg-white dark:bg-slate-800 rounded-2xl shadow-sm border border-gray-100 dark:border-slate-700 hover:bg-gray-50 dark:hover:bg-slate-700/50 transition-colors text-left"
+      >
+          <div className="flex items-center space-x-3 min-w-0">
+              <div className="p-2 bg-teal-50 dark:bg-teal-900/30 text-teal-600 dark:text-teal-400 rounded-full shrink-0">
+                  <AccountTypeIcon type={account.type} />
+              </div>
+              <div className="min-w-0">
+                  <p className="font-semibold text-gray-800 dark:text-white truncate">{account.name}</p>
+                  <p className="text-xs text-gray-500 dark:text-slate-400">
+                      {t(account.type)}
+                      {account.statementDay && account.dueDay ? ` • ${t('Statement Day')} ${account.statementDay}, ${t('Due Day')} ${account.dueDay}` : ''}
+                  </p>
+              </div>
+          </div>
+          <div className="flex items-center space-x-2 shrink-0">
+              <span className={`font-bold ${balance < 0 ? 'text-red-500' : 'text-gray-900 dark:text-white'}`}>
+                  {balance < 0 ? '-' : ''}{currency}{Math.abs(balance).toFixed(0)}
+              </span>
+              <ChevronRight size={16} className="text-gray-300 dark:text-slate-600" />
+          </div>
+      </button>
+  );
+
+  return (
+    <div className="h-full flex flex-col animate-fade-in bg-gray-50 dark:bg-slate-900 transition-colors">
+      <div className="shrink-0 p-6 pb-2 z-10 bg-gray-50 dark:bg-slate-900 transition-colors">
+        <header className="flex items-center justify-between py-2">
+            <div className="flex items-center space-x-3">
+                <button
+                onClick={onBack}
+                className="p-2 -ml-2 rounded-full hover:bg-gray-200 dark:hover:bg-slate-800 text-gray-600 dark:text-gray-300 transition-colors"
+                >
+                <ArrowLeft size={24} />
+                </button>
+                <h1 className="text-2xl font-bold text-gray-800 dark:text-white">{t('Money Accounts')}</h1>
+            </div>
+            <button
+                onClick={() => setIsAddingAccount(true)}
+                className="p-2 bg-teal-600 text-white rounded-full shadow-md hover:bg-teal-700 transition-colors"
+            >
+                <Plus size={20} />
+            </button>
+        </header>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-6 pt-2 space-y-6 no-scrollbar">
+        <div className="max-w-2xl mx-auto w-full space-y-6">
+            <div className="bg-gradient-to-br from-teal-500 to-teal-700 rounded-2xl p-6 text-white shadow-lg">
+                <p className="text-xs font-bold uppercase tracking-wide opacity-80">{t('Net Balance')}</p>
+                <p className="text-3xl font-bold mt-1">{netBalance < 0 ? '-' : ''}{currency}{Math.abs(netBalance).toFixed(0)}</p>
+                {activeBalances.length > 1 && (
+                    <button
+                        onClick={() => setIsTransferring(true)}
+                        className="mt-4 flex items-center space-x-2 bg-white/20 hover:bg-white/30 px-4 py-2 rounded-xl text-sm font-semibold transition-colors"
+                    >
+                        <ArrowLeftRight size={16} />
+                        <span>{t('Transfer Money')}</span>
+                    </button>
+                )}
+            </div>
+
+            <section className="space-y-3">
+                {activeBalances.length === 0 ? (
+                    <p className="text-sm text-gray-500 dark:text-slate-400 text-center py-6">{t('No accounts yet')}</p>
+                ) : activeBalances.map(renderAccount)}
+            </section>
+
+            <CreditCardDues today={today} />
+
+            {archivedBalances.length > 0 && (
+                <section className="space-y-3">
+                    <h3 className="text-sm font-semibold text-gray-500 dark:text-slate-400 uppercase tracking-wider">{t('Archived')}</h3>
+                    <div className="space-y-3 opacity-70">
+                        {archivedBalances.map(renderAccount)}
+                    </div>
+                </section>
+            )}
+
+            {transfers.length > 0 && (
+                <section className="space-y-3">
+                    <h3 className="text-sm font-semibold text-gray-500 dark:text-slate-400 uppercase tracking-wider">{t('Transfers')}</h3>
+                    <div className="bg-white dark:bg-slate-800 rounded-2xl shadow-sm border border-gray-100 dark:border-slate-700 divide-y divide-gray-100 dark:divide-slate-700">
+                        {[...transfers].sort((a, b) => b.date.localeCompare(a.date)).map(transfer => (
+                            <div key={transfer.id} className="flex items-center justify-between p-4">
+                                <div className="min-w-0">
+                                    <p className="text-sm font-semibold text-gray-800 dark:text-white truncate">
+                                        {accountName(transfer.fromAccountId)} → {accountName(transfer.toAccountId)}
+                                    </p>
+                                    <p className="text-xs text-gray-500 dark:text-slate-400 truncate">
+                                        {new Date(`${transfer.date}T00:00:00`).toLocaleDateString(undefined, { month: 'short', day: 'numeric', year: 'numeric' })}
+                                        {transfer.note ? ` • ${transfer.note}` : ''}
+                                    </p>
+                                </div>
+                                <div className="flex items-center space-x-2 shrink-0">
+                                    <span className="font-bold text-gray-700 dark:text-slate-200">{currency}{transfer.amount.toFixed(0)}</span>
+                                    <button
+                                        onClick={() => handleDeleteTransfer(transfer.id)}
+                                        className="p-2 text-gray-300 hover:text-red-500 dark:text-slate-600 dark:hover:text-red-400 transition-colors rounded-full hover:bg-red-50 dark:hover:bg-red-900/20"
+                                    >
+                                        <Trash2 size={16} />
+                                    </button>
+                                </div>
+                            </div>
+                        ))}
+                    </div>
+                </section>
+            )}
+        </div>
+      </div>
+
+      {(isAddingAccount || editingAccount) && (
+          <MoneyAccountForm
+              account={editingAccount || undefined}
+              onClose={() => { setIsAddingAccount(false); setEditingAccount(null); }}
+          />
+      )}
+
+      {isTransferring && (
+          <TransferForm onClose={() => setIsTransferring(false)} />
+      )}
+    </div>
+  );
+};
+
+export default MoneyAccountsScreen;
@@ -0,0 +1,117 @@
+import React, { useState } from 'react';
+import { useData } from '../contexts/DataContext';
+import { NotificationSettings } from '../types';
+import { getNotificationSettings } from '../utils/notifications';
+import { getNotificationPermission, requestNotificationPermission } from '../services/notificationService';
+import { Bell, ChevronDown } from 'lucide-react';
+
+const LEAD_DAY_OPTIONS = [1, 2, 3, 5, 7];
+
+// Settings section: device reminders for rent due, overdue rent, upcoming bills and card dues
+const NotificationPreferences: React.FC = () => {
+  const { userProfile, setNotificationSettings, t } = useData();
+  const [permission, setPermission] = useState(getNotificationPermission());
+  const settings = getNotificationSettings(userProfile?.notificationSettings);
+
+  const update = (changes: Partial<NotificationSettings>) => {
+      setNotificationSettings({ ...settings, ...changes });
+  };
+
+  const handleToggle = async () => {
+      if (settings.enabled) {
+          update({ enabled: false });
+          return;
+      }
+      const granted = await requestNotificationPermission();
+      setPermission(getNotificationPermission());
+      if (granted) {
+          update({ enabled: true });
+      } else {
+          alert(t('Notifications are blocked. Allow them for this app in your browser or device settings.'));
+      }
+  };
+
+  const selectClass = "w-full pl-3 pr-8 py-2.5 bg-gray-50 dark:bg-slate-700 border border-gray-200 dark:border-slate-600 rounded-xl appearance-none text-sm text-gray-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-teal-500";
+  const labelClass = "block text-xs font-medium text-gray-500 dark:text-slate-400 mb-1";
+
+  const leadDaySelect = (value: number, onChange: (days: number) => void) => (
+      <div className="relative">
+          <select value={value} onChange={(e) => onChange(Number(e.target.value))} className={selectClass}>
+              {LEAD_DAY_OPTIONS.map(days => (
+                  <option key={days} value={days}>
+                      {days === 1 ? t('1 day before') : `${days} ${t('days before')}`}
+                  </option>
+              ))}
+          </select>
+          <ChevronDown className="absolute right-3 top-3 text-gray-400 pointer-events-none" size={16} />
+      </div>
+  );
+
+  return (
+    <section className="bg-white dark:bg-slate-800 rounded-2xl p-4 shadow-sm border border-gray-100 dark:border-slate-700 transition-colors">
+        <div className="flex justify-between items-center">
+            <div className="flex items-center space-x-3">
+                <div className="p-2 bg-rose-100 dark:bg-rose-900/30 text-rose-600 dark:text-rose-400 rounded-full">
+                    <Bell size={20} />
+                </div>
+                <div>
+                    <h2 className="font-semibold text-gray-800 dark:text-white">{t('Notifications')}</h2>
+                    <p className="text-xs text-gray-500 dark:text-slate-400">{t('Rent due, overdue rent, upcoming bills and card dues')}</p>
+                </div>
+            </div>
+
+            <button
+                onClick={handleToggle}
+                disabled={permission === 'unsupported'}
+                className={`w-14 h-8 shrink-0 flex items-center rounded-full p-1 transition-colors duration-300 disabled:opacity-50 ${settings.enabled ? 'bg-teal-600' : 'bg-gray-300 dark:bg-slate-600'}`}
+            >
+                <div className={`bg-white w-6 h-6 rounded-full shadow-md transform duration-300 ${settings.enabled ? 'translate-x-6' : 'translate-x-0'}`}></div>
+            </button>
+        </div>
+
+        {permission === 'unsupported' && (
+            <p className="text-xs text-orange-500 mt-3">{t('Notifications are not supported on this device.')}</p>
+        )}
+        {settings.enabled && permission === 'denied' && (
+            <p className="text-xs text-orange-500 mt-3">{t('Notifications are blocked. Allow them for this app in your browser or device settings.')}</p>
+        )}
+
+        {settings.enabled && (
+            <div className="mt-4 space-y-3">
+                <div className="grid grid-cols-2 gap-3">
+                    <div>
+                        <label className={labelClass}>{t('Rent reminder')}</label>
+                        {leadDaySelect(settings.rentLeadDays, days => update({ rentLeadDays: days }))}
+                    </div>
+                    <div>
+                        <label className={labelClass}>{t('Bill reminder')}</label>
+                        {leadDaySelect(settings.billLeadDays, days => update({ billLeadDays: days }))}
+                    </div>
+                </div>
+
+                <div>
+                    <label className={labelClass}>{t('Quiet Hours')}</label>
+                    <div className="flex items-center gap-2">
+                        <input
+                            type="time"
+                            value={settings.quietHoursStart}
+                            onChange={(e) => e.target.value && update({ quietHoursStart: e.target.value })}
+                            className="flex-1 px-3 py-2.5 bg-gray-50 dark:bg-slate-700 border border-gray-200 dark:border-slate-600 rounded-xl text-sm text-gray-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-teal-500"
+                        />
+                        <span className="text-xs text-gray-400">{t('to')}</span>
+                        <input
+                            type="time"
+                            value={settings.quietHoursEnd}
+                            onChange={(e) => e.target.value && update({ quietHoursEnd: e.target.value })}
+                            className="flex-1 px-3 py-2.5 bg-gray-50 dark:bg-slate-700 border border-gray-200 dark:border-slate-600 rounded-xl text-sm text-gray-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-teal-500"
+                        />
+                    </div>
+                    <p className="text-xs text-gray-400 dark:text-slate-500 mt-1">{t('Reminders due during quiet hours are shown when they end.')}</p>
+                </div>
+            </div>
+        )}
+    </section>
+  );
+};
+
+export default NotificationPreferences;
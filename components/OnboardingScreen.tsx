@@ -3,6 +3,8 @@
 import React, { useState } from 'react';
 import { useData } from '../contexts/DataContext';
 import { User, Mail, Phone, Globe, DollarSign, Check, ChevronRight, Lock } from 'lucide-react';
+import { isStrongPassword } from '../utils/security';
+import PasswordRequirements from './PasswordRequirements';
 
 const OnboardingScreen: React.FC = () => {
   const { loginIdentifier, completeOnboarding, t } = useData();
@@ -21,14 +23,6 @@ const OnboardingScreen: React.FC = () => {
   
   const [errors, setErrors] = useState<{name?: string, mobile?: string, email?: string, password?: string, confirmPassword?: string}>({});
 
-  // Password Requirements Logic
-  const passwordChecks = {
-    length: password.length >= 8,
-    upper: /[A-Z]/.test(password),
-    number: /[0-9]/.test(password),
-    special: /[$!@#_&]/.test(password)
-  };
-
   const validate = () => {
     const newErrors: any = {};
     if (!name.trim()) newErrors.name = 'Name is required';
@@ -42,7 +36,7 @@ const OnboardingScreen: React.FC = () => {
     if (!password) {
         newErrors.password = 'Password is required';
     } else {
-        if (!passwordChecks.length || !passwordChecks.upper || !passwordChecks.number || !passwordChecks.special) {
+        if (!isStrongPassword(password)) {
             newErrors.password = t('Password too weak');
         }
     }
@@ -153,31 +147,7 @@ const OnboardingScreen: React.FC = () => {
                             className={`w-full pl-10 pr-4 py-3 bg-gray-50 dark:bg-slate-800 border ${errors.password ? 'border-red-500' : 'border-gray-200 dark:border-slate-700'} rounded-xl focus:outline-none focus:ring-2 focus:ring-teal-500 text-gray-900 dark:text-white transition-colors`}
                             placeholder="••••••"
                         />
-                        {showTooltip && (
-                          <div className="absolute bottom-full left-0 mb-2 w-full min-w-[240px] bg-gray-900/95 text-white text-xs rounded-lg p-3 shadow-xl z-20 backdrop-blur-sm border border-gray-700 animate-fade-in">
-                              <p className="font-bold mb-2 text-gray-200 border-b border-gray-700 pb-1">{t('Password Requirements')}:</p>
-                              <ul className="space-y-1.5">
-                                  <li className={`flex items-center space-x-2 ${passwordChecks.length ? 'text-green-400' : 'text-gray-400'}`}>
-                                      <div className={`w-1.5 h-1.5 rounded-full ${passwordChecks.length ? 'bg-green-400' : 'bg-gray-500'}`} />
-                                      <span>{t('At least 8 characters')}</span>
-                                  </li>
-                                  <li className={`flex items-center space-x-2 ${passwordChecks.upper ? 'text-green-400' : 'text-gray-400'}`}>
-                                      <div className={`w-1.5 h-1.5 rounded-full ${passwordChecks.upper ? 'bg-green-400' : 'bg-gray-500'}`} />
-                                      <span>{t('One uppercase letter')}</span>
-                                  </li>
-                                  <li className={`flex items-center space-x-2 ${passwordChecks.number ? 'text-green-400' : 'text-gray-400'}`}>
-                                      <div className={`w-1.5 h-1.5 rounded-full ${passwordChecks.number ? 'bg-green-400' : 'bg-gray-500'}`} />
-                                      <span>{t('One number')}</span>
-                                  </li>
-                                  <li className={`flex items-center space-x-2 ${passwordChecks.special ? 'text-green-400' : 'text-gray-400'}`}>
-                                      <div className={`w-1.5 h-1.5 rounded-full ${passwordChecks.special ? 'bg-green-400' : 'bg-gray-500'}`} />
-                                      <span>{t('One special char ($!@#_&)')}</span>
-                                  </li>
-                              </ul>
-                              {/* Arrow */}
-                              <div className="absolute left-6 top-full w-0 h-0 border-l-[6px] border-l-transparent border-r-[6px] border-r-transparent border-t-[6px] border-t-gray-900/95"></div>
-                          </div>
-                      )}
+                        {showTooltip && <PasswordRequirements password={password} t={t} />}
                     </div>
                     {errors.password && <p className="text-red-500 text-xs mt-1 ml-1">{errors.password}</p>}
                 </div>
@@ -0,0 +1,36 @@
+import React from 'react';
+import { getPasswordChecks } from '../utils/security';
+
+interface PasswordRequirementsProps {
+  password: string;
+  t: (key: string) => string;
+}
+
+// Tooltip listing the password policy, ticking off each rule as it is met
+const PasswordRequirements: React.FC<PasswordRequirementsProps> = ({ password, t }) => {
+  const checks = getPasswordChecks(password);
+  const rules: { met: boolean; label: string }[] = [
+    { met: checks.length, label: t('At least 8 characters') },
+    { met: checks.upper, label: t('One uppercase letter') },
+    { met: checks.number, label: t('One number') },
+    { met: checks.special, label: t('One special char ($!@#_&)') },
+  ];
+
+  return (
+    <div className="absolute bottom-full left-0 mb-2 w-full min-w-[240px] bg-gray-900/95 text-white text-xs rounded-lg p-3 shadow-xl z-20 backdrop-blur-sm border border-gray-700 animate-fade-in">
+        <p className="font-bold mb-2 text-gray-200 border-b border-gray-700 pb-1">{t('Password Requirements')}:</p>
+        <ul className="space-y-1.5">
+            {rules.map(rule => (
+                <li key={rule.label} className={`flex items-center space-x-2 ${rule.met ? 'text-green-400' : 'text-gray-400'}`}>
+                    <div className={`w-1.5 h-1.5 rounded-full ${rule.met ? 'bg-green-400' : 'bg-gray-500'}`} />
+                    <span>{rule.label}</span>
+                </li>
+            ))}
+        </ul>
+        {/* Arrow */}
+        <div className="absolute left-6 top-full w-0 h-0 border-l-[6px] border-l-transparent border-r-[6px] border-r-transparent border-t-[6px] border-t-gray-900/95"></div>
+    </div>
+  );
+};
+
+export default PasswordRequirements;
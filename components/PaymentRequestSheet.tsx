@@ -0,0 +1,85 @@
+import React from 'react';
+import { useData } from '../contexts/DataContext';
+import { Income } from '../types';
+import { getOutstandingBalance } from '../utils/incomeLedger';
+import { buildIncomePaymentLink, getIncomePaymentNote } from '../utils/upi';
+import { getCategoryName } from '../utils/categories';
+import { renderQRCodePng } from '../utils/qrCode';
+import { sharePaymentRequest } from '../services/emailService';
+import QRCodeImage from './QRCodeImage';
+import { X, Share2, Copy } from 'lucide-react';
+
+interface PaymentRequestSheetProps {
+  income: Income;
+  onClose: () => void;
+}
+
+// UPI QR code and pay link for the unpaid balance of an income, to show or share with the payer
+const PaymentRequestSheet: React.FC<PaymentRequestSheetProps> = ({ income, onClose }) => {
+  const { userProfile, categories, currency, t } = useData();
+  const categoryName = getCategoryName(categories, income.category);
+  const upiId = userProfile?.upiId;
+  const amount = getOutstandingBalance(income);
+  const link = upiId ? buildIncomePaymentLink(income, upiId, userProfile?.name, categoryName) : '';
+
+  const handleShare = async () => {
+      const message = `${getIncomePaymentNote(income, categoryName)}: ${currency}${amount.toFixed(0)}\nUPI: ${upiId}\n${link}`;
+      sharePaymentRequest(t('Payment Request'), message, await renderQRCodePng(link));
+  };
+
+  const handleCopy = async () => {
+      await navigator.clipboard.writeText(link);
+      alert(t('Link copied'));
+  };
+
+  return (
+    <div 
+        className="fixed inset-0 z-50 flex items-end sm:items-center justify-center bg-black/50 backdrop-blur-sm animate-fade-in"
+        onClick={onClose}
+    >
+        <div 
+            className="bg-white dark:bg-slate-800 w-full sm:max-w-sm sm:rounded-2xl rounded-t-2xl p-6 pb-[calc(1.5rem+env(safe-area-inset-bottom))] sm:pb-6 shadow-xl animate-slide-up"
+            onClick={e => e.stopPropagation()}
+        >
+            <div className="flex justify-between items-center mb-4">
+                <div>
+                    <h3 className="text-lg font-bold text-gray-800 dark:text-white">{t('Payment Request')}</h3>
+                    <p className="text-xs text-gray-500 dark:text-slate-400">{income.source}</p>
+                </div>
+                <button onClick={onClose} className="p-1 rounded-full hover:bg-gray-100 dark:hover:bg-slate-700">
+                    <X size={20} className="text-gray-500" />
+                </button>
+            </div>
+
+            {!upiId ? (
+                <p className="text-sm text-gray-500 dark:text-slate-400 text-center py-6">{t('Add your UPI ID in Edit Profile to request payments.')}</p>
+            ) : (
+                <>
+                    <div className="flex flex-col items-center mb-4">
+                        <QRCodeImage value={link} size={200} className="rounded-xl border border-gray-100" />
+                        <div className="mt-3 text-2xl font-bold text-gray-800 dark:text-white">{currency}{amount.toFixed(0)}</div>
+                        <div className="text-xs text-gray-500 dark:text-slate-400">{upiId}</div>
+                    </div>
+
+                    <div className="grid grid-cols-2 gap-3">
+                        <button
+                            onClick={handleCopy}
+                            className="flex items-center justify-center space-x-2 py-3 rounded-xl font-semibold bg-gray-100 dark:bg-slate-700 text-gray-700 dark:text-slate-200"
+                        >
+                            <Copy size={18} /> <span>{t('Copy Link')}</span>
+                        </button>
+                        <button
+                            onClick={handleShare}
+                            className="flex items-center justify-center space-x-2 py-3 rounded-xl font-semibold bg-teal-600 text-white shadow-md"
+                        >
+                            <Share2 size={18} /> <span>{t('Share')}</span>
+                        </button>
+                    </div>
+                </>
+            )}
+        </div>
+    </div>
+  );
+};
+
+export default PaymentRequestSheet;
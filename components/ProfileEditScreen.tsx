@@ -1,7 +1,8 @@
 
 import React, { useState, useRef, useEffect } from 'react';
 import { useData } from '../contexts/DataContext';
-import { ArrowLeft, Save, User, Mail, Phone, AlertCircle, Camera } from 'lucide-react';
+import { ArrowLeft, Save, User, Mail, Phone, AlertCircle, Camera, QrCode } from 'lucide-react';
+import { isValidUpiId } from '../utils/upi';
 import ImageCropper from './ImageCropper';
 
 interface ProfileEditScreenProps {
@@ -9,11 +10,13 @@ interface ProfileEditScreenProps {
 }
 
 const ProfileEditScreen: React.FC<ProfileEditScreenProps> = ({ onBack }) => {
-  const { userName, setUserName, userProfile, setProfilePicture, t } = useData();
+  const { userName, userProfile, updateProfileState, t } = useData();
   const [name, setName] = useState(userName);
   const [email, setEmail] = useState(userProfile?.email || '');
   const [phone, setPhone] = useState(userProfile?.mobile || '');
+  const [upiId, setUpiId] = useState(userProfile?.upiId || '');
   const [error, setError] = useState('');
+  const [upiError, setUpiError] = useState('');
   
   // Image State
   const [previewImage, setPreviewImage] = useState<string | null>(userProfile?.profilePicture || null);
@@ -26,6 +29,7 @@ const ProfileEditScreen: React.FC<ProfileEditScreenProps> = ({ onBack }) => {
           setName(userProfile.name || '');
           setEmail(userProfile.email || '');
           setPhone(userProfile.mobile || '');
+          setUpiId(userProfile.upiId || '');
           if (userProfile.profilePicture) {
               setPreviewImage(userProfile.profilePicture);
           }
@@ -35,6 +39,7 @@ const ProfileEditScreen: React.FC<ProfileEditScreenProps> = ({ onBack }) => {
   const handleSave = (e: React.FormEvent) => {
     e.preventDefault();
     setError('');
+    setUpiError('');
 
     if (!name.trim()) {
         setError('Name is required');
@@ -46,9 +51,19 @@ const ProfileEditScreen: React.FC<ProfileEditScreenProps> = ({ onBack }) => {
         return;
     }
 
-    setUserName(name.trim());
-    if (previewImage) {
-        setProfilePicture(previewImage);
+    if (upiId.trim() && !isValidUpiId(upiId)) {
+        setUpiError(t('Enter a valid UPI ID, e.g. name@bank'));
+        return;
+    }
+
+    // One update, so the fields don't overwrite each other with a stale profile
+    if (userProfile) {
+        updateProfileState({
+            ...userProfile,
+            name: name.trim(),
+            profilePicture: previewImage || userProfile.profilePicture,
+            upiId: upiId.trim() || undefined,
+        });
     }
     onBack();
   };
@@ -178,6 +193,29 @@ const ProfileEditScreen: React.FC<ProfileEditScreenProps> = ({ onBack }) => {
                             />
                         </div>
                     </div>
+
+                    <div>
+                        <label className="block text-sm font-medium text-gray-700 dark:text-slate-300 mb-1">{t('Your UPI ID')}</label>
+                        <div className="relative">
+                            <QrCode className="absolute left-3 top-3.5 text-gray-400 dark:text-slate-400" size={18} />
+                            <input
+                                type="text"
+                                value={upiId}
+                                onChange={(e) => { setUpiId(e.target.value); setUpiError(''); }}
+                                className="w-full pl-10 pr-4 py-3 bg-white dark:bg-slate-800 border border-gray-200 dark:border-slate-700 rounded-xl focus:outline-none focus:ring-2 focus:ring-teal-500 text-gray-900 dark:text-white"
+                                placeholder="name@bank"
+                                autoCapitalize="none"
+                            />
+                        </div>
+                        {upiError ? (
+                            <div className="flex items-center mt-1 text-red-500 text-xs">
+                                <AlertCircle size={12} className="mr-1" />
+                                {upiError}
+                            </div>
+                        ) : (
+                            <p className="text-xs text-gray-400 dark:text-slate-500 mt-1 pl-1">{t('upi_id_help')}</p>
+                        )}
+                    </div>
                 </div>
 
                 <button
@@ -0,0 +1,47 @@
+import React from 'react';
+
+interface ProgressRingProps {
+  progress: number; // 0 to 1
+  size?: number;
+  strokeWidth?: number;
+  className?: string; // Colour of the filled arc, e.g. "text-teal-500"
+  children?: React.ReactNode; // Shown in the middle of the ring
+}
+
+const ProgressRing: React.FC<ProgressRingProps> = ({ progress, size = 64, strokeWidth = 6, className = 'text-teal-500', children }) => {
+  const radius = (size - strokeWidth) / 2;
+  const circumference = 2 * Math.PI * radius;
+  const offset = circumference * (1 - Math.min(1, Math.max(0, progress)));
+
+  return (
+    <div className="relative shrink-0" style={{ width: size, height: size }}>
+      <svg width={size} height={size} className="-rotate-90">
+        <circle
+          cx={size / 2}
+          cy={size / 2}
+          r={radius}
+          fill="none"
+          strokeWidth={strokeWidth}
+          className="stroke-gray-100 dark:stroke-slate-700"
+        />
+        <circle
+          cx={size / 2}
+          cy={size / 2}
+          r={radius}
+          fill="none"
+          stroke="currentColor"
+          strokeWidth={strokeWidth}
+          strokeLinecap="round"
+          strokeDasharray={circumference}
+          strokeDashoffset={offset}
+          className={`${className} transition-all duration-500`}
+        />
+      </svg>
+      {children && (
+        <div className="absolute inset-0 flex items-center justify-center">{children}</div>
+      )}
+    </div>
+  );
+};
+
+export default ProgressRing;
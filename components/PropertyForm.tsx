@@ -0,0 +1,94 @@
+import React, { useState } from 'react';
+import { useData } from '../contexts/DataContext';
+import { Property } from '../types';
+import { X, Home, MapPin } from 'lucide-react';
+
+interface PropertyFormProps {
+  onClose: () => void;
+  property?: Property; // When provided, the form edits this property instead of adding a new one
+}
+
+const PropertyForm: React.FC<PropertyFormProps> = ({ onClose, property }) => {
+  const { addProperty, updateProperty, t } = useData();
+  const [name, setName] = useState(property?.name || '');
+  const [address, setAddress] = useState(property?.address || '');
+  const [error, setError] = useState('');
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim()) {
+        setError(t('Property name is required'));
+        return;
+    }
+
+    const details = {
+      name: name.trim(),
+      address: address.trim() || undefined,
+    };
+
+    if (property) {
+      updateProperty(property.id, details);
+    } else {
+      addProperty(details);
+    }
+    onClose();
+  };
+
+  return (
+    <div
+      className="fixed inset-0 bg-black/50 z-50 flex items-end sm:items-center justify-center animate-fade-in backdrop-blur-sm"
+      onClick={onClose}
+    >
+      <div
+        className="bg-white dark:bg-slate-800 w-full sm:max-w-md sm:rounded-2xl rounded-t-2xl px-6 pt-6 pb-[calc(2rem+env(safe-area-inset-bottom))] sm:pb-6 shadow-xl max-h-[90vh] h-auto overflow-y-auto no-scrollbar"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex justify-between items-center mb-6">
+          <h2 className="text-xl font-bold text-gray-800 dark:text-white">{property ? t('Edit Property') : t('Add Property')}</h2>
+          <button onClick={onClose} className="p-2 bg-gray-100 dark:bg-slate-700 rounded-full hover:bg-gray-200 dark:hover:bg-slate-600 transition-colors">
+            <X size={20} className="text-gray-600 dark:text-slate-300" />
+          </button>
+        </div>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-slate-300 mb-1">{t('Property Name')}</label>
+            <div className="relative">
+                <Home className="absolute left-3 top-3.5 text-gray-400 dark:text-slate-500" size={18} />
+                <input
+                    type="text"
+                    value={name}
+                    onChange={(e) => { setName(e.target.value); setError(''); }}
+                    className="w-full pl-10 pr-4 py-3 bg-gray-50 dark:bg-slate-700 border border-gray-200 dark:border-slate-600 rounded-xl focus:outline-none focus:ring-2 focus:ring-teal-500 text-gray-900 dark:text-white"
+                    placeholder="e.g., Anna Nagar Flat"
+                />
+            </div>
+            {error && <p className="text-red-500 text-xs mt-1">{error}</p>}
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-slate-300 mb-1">{t('Address')}</label>
+            <div className="relative">
+                <MapPin className="absolute left-3 top-3.5 text-gray-400 dark:text-slate-500" size={18} />
+                <textarea
+                    value={address}
+                    onChange={(e) => setAddress(e.target.value)}
+                    rows={2}
+                    className="w-full pl-10 pr-4 py-3 bg-gray-50 dark:bg-slate-700 border border-gray-200 dark:border-slate-600 rounded-xl focus:outline-none focus:ring-2 focus:ring-teal-500 text-gray-900 dark:text-white resize-none"
+                />
+            </div>
+          </div>
+
+          <button
+            type="submit"
+            className="w-full bg-purple-600 text-white py-4 rounded-xl font-bold text-lg hover:bg-purple-700 shadow-lg shadow-purple-600/20 transition-transform active:scale-[0.98] mt-4"
+          >
+            {t('Save Property')}
+          </button>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default PropertyForm;
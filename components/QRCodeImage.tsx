@@ -0,0 +1,35 @@
+import React, { useMemo } from 'react';
+import { generateQRCode } from '../utils/qrCode';
+
+interface QRCodeImageProps {
+  value: string;
+  size?: number; // Rendered width/height in pixels
+  className?: string;
+}
+
+const QUIET_ZONE = 4; // Light border in modules, required by scanners
+
+// Renders a QR code as crisp SVG
+const QRCodeImage: React.FC<QRCodeImageProps> = ({ value, size = 200, className }) => {
+  const matrix = useMemo(() => generateQRCode(value), [value]);
+  const dimension = matrix.length + QUIET_ZONE * 2;
+
+  const path = useMemo(() => matrix
+      .flatMap((row, y) => row.map((dark, x) => dark ? `M${x + QUIET_ZONE},${y + QUIET_ZONE}h1v1h-1z` : ''))
+      .join(''), [matrix]);
+
+  return (
+    <svg
+        width={size}
+        height={size}
+        viewBox={`0 0 ${dimension} ${dimension}`}
+        shapeRendering="crispEdges"
+        className={className}
+    >
+        <rect width={dimension} height={dimension} fill="#ffffff" />
+        <path d={path} fill="#000000" />
+    </svg>
+  );
+};
+
+export default QRCodeImage;
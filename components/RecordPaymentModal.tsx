@@ -0,0 +1,150 @@
+import React, { useState } from 'react';
+import { useData } from '../contexts/DataContext';
+import { Income } from '../types';
+import { getAmountReceived, getOutstandingBalance } from '../utils/incomeLedger';
+import { X, Calendar as CalendarIcon, Trash2 } from 'lucide-react';
+import DatePicker from './DatePicker';
+
+interface RecordPaymentModalProps {
+  income: Income;
+  onClose: () => void;
+}
+
+const toDateString = (d: Date) => `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
+
+// Records an instalment against a pending income and lists the instalments paid so far
+const RecordPaymentModal: React.FC<RecordPaymentModalProps> = ({ income, onClose }) => {
+  const { recordIncomePayment, deleteIncomePayment, currency, t } = useData();
+  const outstanding = getOutstandingBalance(income);
+  const [amount, setAmount] = useState(outstanding.toString());
+  const [date, setDate] = useState(toDateString(new Date()));
+  const [error, setError] = useState('');
+  const [isDatePickerOpen, setIsDatePickerOpen] = useState(false);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const value = parseFloat(amount);
+    if (!value || value <= 0) {
+        setError("Valid amount required");
+        return;
+    }
+    if (value > outstanding) {
+        setError(t('Payment exceeds the balance due'));
+        return;
+    }
+    recordIncomePayment(income.id, value, date);
+    onClose();
+  };
+
+  const handleDeletePayment = (paymentId: string) => {
+    if (confirm(t('delete_payment_confirm'))) {
+        deleteIncomePayment(income.id, paymentId);
+    }
+  };
+
+  return (
+    <div
+      className="fixed inset-0 bg-black/50 z-50 flex items-end sm:items-center justify-center animate-fade-in backdrop-blur-sm"
+      onClick={onClose}
+    >
+      <div
+        className="bg-white dark:bg-slate-800 w-full sm:max-w-md sm:rounded-2xl rounded-t-2xl px-6 pt-6 pb-[calc(2rem+env(safe-area-inset-bottom))] sm:pb-6 shadow-xl max-h-[90vh] h-auto overflow-y-auto no-scrollbar"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex justify-between items-center mb-4">
+          <div>
+            <h2 className="text-xl font-bold text-gray-800 dark:text-white">{t('Record Payment')}</h2>
+            <p className="text-xs text-gray-500 dark:text-slate-400">{income.source}</p>
+          </div>
+          <button onClick={onClose} className="p-2 bg-gray-100 dark:bg-slate-700 rounded-full hover:bg-gray-200 dark:hover:bg-slate-600 transition-colors">
+            <X size={20} className="text-gray-600 dark:text-slate-300" />
+          </button>
+        </div>
+
+        <div className="grid grid-cols-3 gap-2 mb-4 text-center">
+            <div className="bg-gray-50 dark:bg-slate-700/50 rounded-xl p-2">
+                <div className="text-[10px] uppercase font-bold text-gray-400">{t('Due')}</div>
+                <div className="font-bold text-sm text-gray-800 dark:text-white">{currency}{income.amount.toFixed(0)}</div>
+            </div>
+            <div className="bg-gray-50 dark:bg-slate-700/50 rounded-xl p-2">
+                <div className="text-[10px] uppercase font-bold text-gray-400">{t('Paid')}</div>
+                <div className="font-bold text-sm text-teal-600 dark:text-teal-400">{currency}{getAmountReceived(income).toFixed(0)}</div>
+            </div>
+            <div className="bg-gray-50 dark:bg-slate-700/50 rounded-xl p-2">
+                <div className="text-[10px] uppercase font-bold text-gray-400">{t('Balance')}</div>
+                <div className="font-bold text-sm text-red-500">{currency}{outstanding.toFixed(0)}</div>
+            </div>
+        </div>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+                <label className="block text-sm font-medium text-gray-700 dark:text-slate-300 mb-1">{t('Amount')}</label>
+                <div className="relative">
+                    <span className="absolute left-3 top-3 text-gray-400 dark:text-slate-400 font-bold">{currency}</span>
+                    <input
+                        type="number"
+                        value={amount}
+                        onChange={(e) => { setAmount(e.target.value); setError(''); }}
+                        className="w-full pl-8 pr-3 py-3 bg-gray-50 dark:bg-slate-700 border border-gray-200 dark:border-slate-600 rounded-xl focus:outline-none focus:ring-2 focus:ring-teal-500 font-semibold text-gray-900 dark:text-white"
+                        placeholder="0"
+                    />
+                </div>
+            </div>
+            <div>
+                <label className="block text-sm font-medium text-gray-700 dark:text-slate-300 mb-1">{t('Date')}</label>
+                <button
+                    type="button"
+                    onClick={() => setIsDatePickerOpen(true)}
+                    className="w-full px-3 py-3 bg-gray-50 dark:bg-slate-700 border border-gray-200 dark:border-slate-600 rounded-xl flex items-center justify-between text-left text-sm text-gray-900 dark:text-white"
+                >
+                    <span className="truncate">{new Date(date).toLocaleDateString()}</span>
+                    <CalendarIcon size={16} className="text-gray-400 shrink-0" />
+                </button>
+            </div>
+          </div>
+          {error && <p className="text-red-500 text-xs -mt-2">{error}</p>}
+
+          <button
+            type="submit"
+            className="w-full bg-teal-600 text-white py-4 rounded-xl font-bold text-lg hover:bg-teal-700 shadow-lg shadow-teal-600/20 transition-transform active:scale-[0.98]"
+          >
+            {t('Record Payment')}
+          </button>
+        </form>
+
+        {/* Instalments so far */}
+        {income.payments && income.payments.length > 0 && (
+            <div className="mt-6">
+                <h4 className="text-xs font-bold text-gray-500 dark:text-slate-400 uppercase tracking-wide mb-2">{t('Payments')}</h4>
+                <div className="space-y-2">
+                    {income.payments.map(payment => (
+                        <div key={payment.id} className="flex justify-between items-center p-3 rounded-xl border border-gray-100 dark:border-slate-700">
+                            <span className="text-sm text-gray-700 dark:text-slate-200">
+                                {new Date(payment.date).toLocaleDateString(undefined, { month: 'short', day: 'numeric', year: 'numeric' })}
+                            </span>
+                            <div className="flex items-center space-x-2">
+                                <span className="font-semibold text-sm text-gray-800 dark:text-white">{currency}{payment.amount.toFixed(0)}</span>
+                                <button onClick={() => handleDeletePayment(payment.id)} className="p-1.5 text-gray-300 hover:text-red-500">
+                                    <Trash2 size={14} />
+                                </button>
+                            </div>
+                        </div>
+                    ))}
+                </div>
+            </div>
+        )}
+
+        <DatePicker
+            isOpen={isDatePickerOpen}
+            onClose={() => setIsDatePickerOpen(false)}
+            onSelect={(d) => setDate(toDateString(d))}
+            initialDate={new Date(date)}
+            title={t('Date')}
+        />
+      </div>
+    </div>
+  );
+};
+
+export default RecordPaymentModal;
@@ -0,0 +1,139 @@
+import React, { useState } from 'react';
+import { useData } from '../contexts/DataContext';
+import { Recurrence, RecurrenceRule, RecurrenceUnit } from '../types';
+import { RECURRENCE_OPTIONS, RECURRENCE_UNITS, isMonthBased } from '../utils/recurrence';
+import { Calendar as CalendarIcon } from 'lucide-react';
+import DatePicker from './DatePicker';
+
+interface RecurrencePickerProps {
+  recurrence: Recurrence;
+  rule: RecurrenceRule;
+  onChange: (recurrence: Recurrence, rule: RecurrenceRule) => void;
+  accentClassName: string; // Background class of the selected option, matching the host form
+  compact?: boolean; // Smaller text for the quick-add modal
+}
+
+type EndMode = 'Never' | 'On date' | 'After';
+
+const getEndMode = (rule: RecurrenceRule): EndMode => rule.count ? 'After' : rule.endDate ? 'On date' : 'Never';
+
+const toDateString = (d: Date) => `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
+
+// Frequency chips plus the optional interval, month-end anchoring and end condition of a schedule
+const RecurrencePicker: React.FC<RecurrencePickerProps> = ({ recurrence, rule, onChange, accentClassName, compact }) => {
+  const { t } = useData();
+  const [showEndDatePicker, setShowEndDatePicker] = useState(false);
+  const endMode = getEndMode(rule);
+  const textSize = compact ? 'text-xs' : 'text-sm';
+
+  const chipClass = (selected: boolean) => `py-2 px-3 rounded-lg ${textSize} font-medium transition-colors ${
+      selected
+      ? `${accentClassName} text-white shadow-md`
+      : 'bg-gray-100 dark:bg-slate-700 text-gray-600 dark:text-slate-300 hover:bg-gray-200 dark:hover:bg-slate-600'
+  }`;
+  const inputClass = `px-3 py-2 bg-gray-50 dark:bg-slate-700 border border-gray-200 dark:border-slate-600 rounded-lg ${textSize} text-gray-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-teal-500`;
+
+  const updateRule = (changes: Partial<RecurrenceRule>) => onChange(recurrence, { ...rule, ...changes });
+
+  const setEndMode = (mode: EndMode) => {
+      if (mode === 'Never') updateRule({ endDate: undefined, count: undefined });
+      if (mode === 'On date') updateRule({ count: undefined, endDate: rule.endDate || toDateString(new Date()) });
+      if (mode === 'After') updateRule({ endDate: undefined, count: rule.count || 12 });
+  };
+
+  return (
+    <div className="space-y-3">
+        <div className="flex flex-wrap gap-2">
+            {RECURRENCE_OPTIONS.map(r => (
+                <button
+                    key={r}
+                    type="button"
+                    onClick={() => onChange(r, r === 'Custom' ? { interval: 2, unit: 'Week', ...rule } : rule)}
+                    className={chipClass(recurrence === r)}
+                >
+                    {t(r)}
+                </button>
+            ))}
+        </div>
+
+        {recurrence === 'Custom' && (
+            <div className={`flex items-center gap-2 ${textSize} text-gray-600 dark:text-slate-300`}>
+                <span>{t('Every')}</span>
+                <input
+                    type="number"
+                    min="1"
+                    value={rule.interval || ''}
+                    onChange={(e) => updateRule({ interval: parseInt(e.target.value) || undefined })}
+                    className={`${inputClass} w-20`}
+                />
+                <select
+                    value={rule.unit || 'Month'}
+                    onChange={(e) => updateRule({ unit: e.target.value as RecurrenceUnit })}
+                    className={`${inputClass} flex-1`}
+                >
+                    {RECURRENCE_UNITS.map(u => (
+                        <option key={u} value={u}>{t(`${u}s`)}</option>
+                    ))}
+                </select>
+            </div>
+        )}
+
+        {recurrence !== 'None' && isMonthBased(recurrence, rule) && (
+            <label className={`flex items-center gap-2 ${textSize} text-gray-600 dark:text-slate-300`}>
+                <input
+                    type="checkbox"
+                    checked={!!rule.lastDayOfMonth}
+                    onChange={(e) => updateRule({ lastDayOfMonth: e.target.checked || undefined })}
+                    className="w-4 h-4 rounded"
+                />
+                <span>{t('On the last day of the month')}</span>
+            </label>
+        )}
+
+        {recurrence !== 'None' && (
+            <div className="space-y-2">
+                <div className={`${textSize} text-gray-500 dark:text-slate-400`}>{t('Ends')}</div>
+                <div className="flex flex-wrap gap-2">
+                    {(['Never', 'On date', 'After'] as EndMode[]).map(mode => (
+                        <button key={mode} type="button" onClick={() => setEndMode(mode)} className={chipClass(endMode === mode)}>
+                            {t(mode)}
+                        </button>
+                    ))}
+                </div>
+                {endMode === 'On date' && (
+                    <button
+                        type="button"
+                        onClick={() => setShowEndDatePicker(true)}
+                        className={`${inputClass} w-full flex items-center justify-between`}
+                    >
+                        <span>{new Date(rule.endDate!).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' })}</span>
+                        <CalendarIcon size={16} className="text-gray-400 shrink-0" />
+                    </button>
+                )}
+                {endMode === 'After' && (
+                    <div className={`flex items-center gap-2 ${textSize} text-gray-600 dark:text-slate-300`}>
+                        <input
+                            type="number"
+                            min="1"
+                            value={rule.count || ''}
+                            onChange={(e) => updateRule({ count: parseInt(e.target.value) || undefined })}
+                            className={`${inputClass} w-20`}
+                        />
+                        <span>{t('occurrences')}</span>
+                    </div>
+                )}
+            </div>
+        )}
+
+        <DatePicker
+            isOpen={showEndDatePicker}
+            onClose={() => setShowEndDatePicker(false)}
+            onSelect={(d) => updateRule({ endDate: toDateString(d) })}
+            initialDate={rule.endDate ? new Date(rule.endDate) : new Date()}
+            title={t('Ends')}
+        />
+    </div>
+  );
+};
+
+export default RecurrencePicker;
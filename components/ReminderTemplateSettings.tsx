@@ -0,0 +1,77 @@
+import React, { useState } from 'react';
+import { useData } from '../contexts/DataContext';
+import { ReminderLanguage, ReminderStage, ReminderTemplates } from '../types';
+import { REMINDER_STAGES, REMINDER_PLACEHOLDERS, DEFAULT_REMINDER_TEMPLATES, getReminderTemplate } from '../utils/reminderTemplates';
+import { MessageCircle, RotateCcw } from 'lucide-react';
+
+// Settings section: the editable follow-up templates per language and stage
+const ReminderTemplateSettings: React.FC = () => {
+  const { userProfile, setReminderTemplates, t } = useData();
+  const [language, setLanguage] = useState<ReminderLanguage>('en');
+  const [stage, setStage] = useState<ReminderStage>('first');
+
+  const templates = userProfile?.reminderTemplates || {};
+  const value = getReminderTemplate(templates, language, stage);
+  const isCustomised = !!templates[language]?.[stage];
+
+  const saveTemplate = (text: string) => {
+      const forLanguage = { ...templates[language] };
+      if (text.trim() && text !== DEFAULT_REMINDER_TEMPLATES[language][stage]) forLanguage[stage] = text;
+      else delete forLanguage[stage];
+      const next: ReminderTemplates = { ...templates, [language]: forLanguage };
+      setReminderTemplates(next);
+  };
+
+  const chipClass = (selected: boolean) => `flex-1 py-1.5 rounded-lg text-xs font-semibold transition-colors ${
+      selected ? 'bg-white dark:bg-slate-600 text-gray-800 dark:text-white shadow-sm' : 'text-gray-500 dark:text-slate-400'
+  }`;
+
+  return (
+    <section className="bg-white dark:bg-slate-800 rounded-2xl p-4 shadow-sm border border-gray-100 dark:border-slate-700 transition-colors">
+        <div className="flex items-center space-x-3 mb-4">
+            <div className="p-2 bg-orange-100 dark:bg-orange-900/30 text-orange-600 dark:text-orange-400 rounded-full">
+                <MessageCircle size={20} />
+            </div>
+            <h2 className="font-semibold text-gray-800 dark:text-white">{t('Payment Reminders')}</h2>
+        </div>
+
+        {!userProfile?.upiId && (
+            <p className="text-xs text-orange-500 mb-3">{t('Add your UPI ID in Edit Profile to include payment links.')}</p>
+        )}
+
+        <div className="flex gap-2 mb-3">
+            <div className="flex flex-[3] bg-gray-100 dark:bg-slate-700 rounded-xl p-1">
+                {REMINDER_STAGES.map(s => (
+                    <button key={s} onClick={() => setStage(s)} className={chipClass(stage === s)}>{t(`reminder_${s}`)}</button>
+                ))}
+            </div>
+            <div className="flex flex-[2] bg-gray-100 dark:bg-slate-700 rounded-xl p-1">
+                {(['en', 'ta'] as const).map(l => (
+                    <button key={l} onClick={() => setLanguage(l)} className={chipClass(language === l)}>{l === 'en' ? 'English' : 'தமிழ்'}</button>
+                ))}
+            </div>
+        </div>
+
+        {/* Keyed so switching template resets the uncontrolled editor */}
+        <textarea
+            key={`${language}-${stage}-${isCustomised}`}
+            defaultValue={value}
+            onBlur={(e) => saveTemplate(e.target.value)}
+            rows={6}
+            className="w-full px-3 py-2 bg-gray-50 dark:bg-slate-700 border border-gray-200 dark:border-slate-600 rounded-xl text-sm text-gray-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-teal-500 resize-none"
+        />
+        <div className="flex justify-between items-start mt-2 gap-2">
+            <p className="text-xs text-gray-400 dark:text-slate-500">
+                {t('Placeholders')}: {REMINDER_PLACEHOLDERS.join(' ')}
+            </p>
+            {isCustomised && (
+                <button onClick={() => saveTemplate('')} className="shrink-0 flex items-center space-x-1 text-xs font-semibold text-teal-600 dark:text-teal-400">
+                    <RotateCcw size={12} /> <span>{t('Reset')}</span>
+                </button>
+            )}
+        </div>
+    </section>
+  );
+};
+
+export default ReminderTemplateSettings;
@@ -0,0 +1,88 @@
+import React, { useMemo } from 'react';
+import { useData } from '../contexts/DataContext';
+import { Income } from '../types';
+import { buildRentReceipt, renderRentReceiptHtml, printRentReceipt } from '../utils/rentReceipt';
+import { shareRentReceipt } from '../services/emailService';
+import { X, Printer, Share2 } from 'lucide-react';
+
+interface RentReceiptModalProps {
+  income: Income;
+  onClose: () => void;
+}
+
+const getLocalToday = () => {
+    const d = new Date();
+    return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
+};
+
+// Preview of the rent receipt for a received rent entry, with print (PDF) and share actions
+const RentReceiptModal: React.FC<RentReceiptModalProps> = ({ income, onClose }) => {
+  const { userProfile, tenants, properties, currency, t } = useData();
+
+  const receipt = useMemo(() => {
+      const tenant = tenants.find(tn => tn.id === income.tenantId);
+      const property = properties.find(p => p.id === tenant?.propertyId);
+      return buildRentReceipt(income, { profile: userProfile, tenant, property, currency, today: getLocalToday() });
+  }, [income, tenants, properties, userProfile, currency]);
+
+  const html = useMemo(() => renderRentReceiptHtml(receipt), [receipt]);
+
+  const handlePrint = () => {
+      if (!printRentReceipt(receipt)) {
+          alert(t('Allow pop-ups to print the receipt.'));
+      }
+  };
+
+  const handleShare = () => {
+      shareRentReceipt(receipt.receiptNumber, receipt.tenantName, html);
+  };
+
+  return (
+    <div
+      className="fixed inset-0 bg-black/50 z-50 flex items-end sm:items-center justify-center animate-fade-in backdrop-blur-sm"
+      onClick={onClose}
+    >
+      <div
+        className="bg-white dark:bg-slate-800 w-full sm:max-w-lg sm:rounded-2xl rounded-t-2xl px-6 pt-6 pb-[calc(2rem+env(safe-area-inset-bottom))] sm:pb-6 shadow-xl max-h-[90vh] h-auto overflow-y-auto no-scrollbar"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex justify-between items-center mb-4">
+          <div>
+            <h2 className="text-xl font-bold text-gray-800 dark:text-white">{t('Rent Receipt')}</h2>
+            <p className="text-xs text-gray-500 dark:text-slate-400">{t('Receipt No')}: {receipt.receiptNumber}</p>
+          </div>
+          <button onClick={onClose} className="p-2 bg-gray-100 dark:bg-slate-700 rounded-full hover:bg-gray-200 dark:hover:bg-slate-600 transition-colors">
+            <X size={20} className="text-gray-600 dark:text-slate-300" />
+          </button>
+        </div>
+
+        {!receipt.landlordName && (
+            <p className="text-xs text-orange-500 mb-3">{t('Add your name in your profile to show it as the landlord.')}</p>
+        )}
+
+        <iframe
+            title={t('Rent Receipt')}
+            srcDoc={html}
+            className="w-full h-[26rem] rounded-xl border border-gray-100 dark:border-slate-700 bg-white"
+        />
+
+        <div className="grid grid-cols-2 gap-3 mt-4">
+            <button
+                onClick={handlePrint}
+                className="flex items-center justify-center space-x-2 py-3 rounded-xl font-semibold bg-gray-100 dark:bg-slate-700 text-gray-700 dark:text-slate-200"
+            >
+                <Printer size={18} /> <span>{t('Print / PDF')}</span>
+            </button>
+            <button
+                onClick={handleShare}
+                className="flex items-center justify-center space-x-2 py-3 rounded-xl font-semibold bg-purple-600 text-white shadow-md"
+            >
+                <Share2 size={18} /> <span>{t('Share')}</span>
+            </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default RentReceiptModal;
@@ -0,0 +1,139 @@
+import React, { useState } from 'react';
+import { useData } from '../contexts/DataContext';
+import { LateFeeType } from '../types';
+import { RentTerms, getNextEscalationDate } from '../utils/rentTerms';
+import { ChevronDown, ChevronUp } from 'lucide-react';
+
+interface RentTermsFieldsProps {
+  terms: RentTerms;
+  onChange: (terms: RentTerms) => void;
+  date: string; // Due date of the entry, the default start of the escalation schedule
+  compact?: boolean; // Smaller text for the quick-add modal
+}
+
+const LATE_FEE_TYPES: LateFeeType[] = ['Flat', 'Percent', 'PerDay'];
+
+const parseNumber = (value: string) => value === '' ? undefined : parseFloat(value);
+
+// Grace period, late-fee formula and escalation schedule of a rent entry, collapsed until needed
+const RentTermsFields: React.FC<RentTermsFieldsProps> = ({ terms, onChange, date, compact }) => {
+  const { currency, t } = useData();
+  const hasTerms = !!(terms.gracePeriodDays || terms.lateFee || terms.escalation);
+  const [isOpen, setIsOpen] = useState(hasTerms);
+  const textSize = compact ? 'text-xs' : 'text-sm';
+  const inputClass = `w-full px-3 py-2 bg-gray-50 dark:bg-slate-700 border border-gray-200 dark:border-slate-600 rounded-lg ${textSize} text-gray-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-teal-500`;
+  const labelClass = `block ${compact ? 'text-[10px]' : 'text-xs'} font-medium text-gray-500 dark:text-slate-400 mb-1`;
+
+  const lateFeeType = terms.lateFee?.type || '';
+  const nextEscalation = terms.escalation && terms.escalation.percent > 0
+      ? getNextEscalationDate({ ...terms.escalation, everyMonths: terms.escalation.everyMonths || 12, startDate: terms.escalation.startDate || date }, date)
+      : null;
+
+  const setLateFeeType = (type: LateFeeType | '') => {
+      onChange({ ...terms, lateFee: type ? { value: 0, ...terms.lateFee, type } : undefined });
+  };
+
+  return (
+    <div className="rounded-xl border border-gray-100 dark:border-slate-700">
+        <button
+            type="button"
+            onClick={() => setIsOpen(!isOpen)}
+            className={`w-full flex justify-between items-center px-4 py-3 ${textSize} font-medium text-gray-700 dark:text-slate-300`}
+        >
+            <span>{t('Lease Terms')}</span>
+            {isOpen ? <ChevronUp size={16} className="text-gray-400" /> : <ChevronDown size={16} className="text-gray-400" />}
+        </button>
+
+        {isOpen && (
+            <div className="px-4 pb-4 space-y-3">
+                <div className="grid grid-cols-2 gap-3">
+                    <div>
+                        <label className={labelClass}>{t('Grace Period (days)')}</label>
+                        <input
+                            type="number"
+                            min="0"
+                            value={terms.gracePeriodDays ?? ''}
+                            onChange={(e) => onChange({ ...terms, gracePeriodDays: parseNumber(e.target.value) })}
+                            className={inputClass}
+                            placeholder="0"
+                        />
+                    </div>
+                    <div>
+                        <label className={labelClass}>{t('Late Fee')}</label>
+                        <select value={lateFeeType} onChange={(e) => setLateFeeType(e.target.value as LateFeeType | '')} className={inputClass}>
+                            <option value="">{t('None')}</option>
+                            {LATE_FEE_TYPES.map(type => (
+                                <option key={type} value={type}>{t(`late_fee_${type}`)}</option>
+                            ))}
+                        </select>
+                    </div>
+                </div>
+
+                {terms.lateFee && (
+                    <div className="grid grid-cols-2 gap-3">
+                        <div>
+                            <label className={labelClass}>{terms.lateFee.type === 'Percent' ? t('Percent of balance') : `${t('Amount')} (${currency})`}</label>
+                            <input
+                                type="number"
+                                min="0"
+                                value={terms.lateFee.value || ''}
+                                onChange={(e) => onChange({ ...terms, lateFee: { ...terms.lateFee!, value: parseNumber(e.target.value) || 0 } })}
+                                className={inputClass}
+                                placeholder="0"
+                            />
+                        </div>
+                        <div>
+                            <label className={labelClass}>{t('Maximum')} ({currency})</label>
+                            <input
+                                type="number"
+                                min="0"
+                                value={terms.lateFee.cap ?? ''}
+                                onChange={(e) => onChange({ ...terms, lateFee: { ...terms.lateFee!, cap: parseNumber(e.target.value) } })}
+                                className={inputClass}
+                                placeholder={t('No limit')}
+                            />
+                        </div>
+                    </div>
+                )}
+
+                <div className="grid grid-cols-2 gap-3">
+                    <div>
+                        <label className={labelClass}>{t('Escalation %')}</label>
+                        <input
+                            type="number"
+                            min="0"
+                            value={terms.escalation?.percent || ''}
+                            onChange={(e) => {
+                                const percent = parseNumber(e.target.value) || 0;
+                                onChange({ ...terms, escalation: percent > 0 || terms.escalation
+                                    ? { everyMonths: 12, startDate: '', ...terms.escalation, percent }
+                                    : undefined });
+                            }}
+                            className={inputClass}
+                            placeholder="0"
+                        />
+                    </div>
+                    <div>
+                        <label className={labelClass}>{t('Every (months)')}</label>
+                        <input
+                            type="number"
+                            min="1"
+                            value={terms.escalation?.everyMonths ?? 12}
+                            disabled={!terms.escalation}
+                            onChange={(e) => onChange({ ...terms, escalation: { ...terms.escalation!, everyMonths: parseNumber(e.target.value) || 0 } })}
+                            className={`${inputClass} disabled:opacity-50`}
+                        />
+                    </div>
+                </div>
+                {nextEscalation && (
+                    <p className="text-xs text-gray-500 dark:text-slate-400">
+                        {t('Next increase')}: {new Date(nextEscalation).toLocaleDateString()}
+                    </p>
+                )}
+            </div>
+        )}
+    </div>
+  );
+};
+
+export default RentTermsFields;
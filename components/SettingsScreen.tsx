@@ -1,6 +1,8 @@
 
 import React from 'react';
 import { useData } from '../contexts/DataContext';
+import ReminderTemplateSettings from './ReminderTemplateSettings';
+import NotificationPreferences from './NotificationPreferences';
 import { ArrowLeft, Moon, Sun, ChevronDown, Globe, DollarSign, Check, Database } from 'lucide-react';
 
 interface SettingsScreenProps {
@@ -126,6 +128,12 @@ const SettingsScreen: React.FC<SettingsScreenProps> = ({ onBack }) => {
                 </div>
             </section>
 
+            {/* Notifications Section */}
+            <NotificationPreferences />
+
+            {/* Reminder Templates Section */}
+            <ReminderTemplateSettings />
+
              {/* Demo Data Section */}
              <section className="bg-white dark:bg-slate-800 rounded-2xl p-4 shadow-sm border border-gray-100 dark:border-slate-700 transition-colors">
                 <div className="flex items-center space-x-3 mb-4">
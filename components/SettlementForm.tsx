@@ -0,0 +1,183 @@
+import React, { useState } from 'react';
+import { useData } from '../contexts/DataContext';
+import { X, ArrowDown, Calendar as CalendarIcon } from 'lucide-react';
+import AccountPicker from './AccountPicker';
+import DatePicker from './DatePicker';
+import { getDefaultAccountId } from '../utils/accounts';
+import { getParticipantName, SELF_ID } from '../utils/sharing';
+
+interface SettlementFormProps {
+  onClose: () => void;
+  fromId?: string;
+  toId?: string;
+  initialAmount?: number;
+  groupId?: string;
+}
+
+// Records money paid back between two people; opened from a suggested payment it comes pre-filled
+const SettlementForm: React.FC<SettlementFormProps> = ({ onClose, fromId: initialFromId, toId: initialToId, initialAmount, groupId }) => {
+  const { contacts, groups, accounts, addSettlement, currency, t } = useData();
+  const you = t('You');
+  const group = groups.find(g => g.id === groupId);
+  // Within a group only its members can settle; otherwise anyone the user shares with
+  const people = [SELF_ID, ...(group ? group.memberIds : contacts.filter(c => !c.archived).map(c => c.id))];
+  const [fromId, setFromId] = useState(initialFromId || SELF_ID);
+  const [toId, setToId] = useState(initialToId || people.find(id => id !== (initialFromId || SELF_ID)) || '');
+  const [amount, setAmount] = useState(initialAmount ? initialAmount.toString() : '');
+  const [date, setDate] = useState(new Date().toISOString().split('T')[0]);
+  const [accountId, setAccountId] = useState(getDefaultAccountId(accounts));
+  const [note, setNote] = useState('');
+  const [error, setError] = useState('');
+  const [showDatePicker, setShowDatePicker] = useState(false);
+
+  const involvesUser = fromId === SELF_ID || toId === SELF_ID;
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!amount || parseFloat(amount) <= 0) {
+        setError(t('Valid amount required'));
+        return;
+    }
+    if (!fromId || !toId || fromId === toId) {
+        setError(t('Choose two different people'));
+        return;
+    }
+
+    addSettlement({
+      fromId,
+      toId,
+      amount: parseFloat(amount),
+      groupId,
+      accountId: involvesUser ? accountId : undefined,
+      date,
+      note: note.trim() || undefined,
+    });
+    onClose();
+  };
+
+  const handleDateSelect = (selectedDate: Date) => {
+      const year = selectedDate.getFullYear();
+      const month = selectedDate.getMonth();
+      const day = selectedDate.getDate();
+      setDate(`${year}-${String(month + 1).padStart(2, '0')}-${String(day).padStart(2, '0')}`);
+  };
+
+  const selectClass = "w-full px-4 py-3 bg-gray-50 dark:bg-slate-700 border border-gray-200 dark:border-slate-600 rounded-xl appearance-none text-sm text-gray-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-teal-500";
+
+  return (
+    <div
+      className="fixed inset-0 bg-black/50 z-50 flex items-end sm:items-center justify-center animate-fade-in backdrop-blur-sm"
+      onClick={onClose}
+    >
+      <div
+        className="bg-white dark:bg-slate-800 w-full sm:max-w-md sm:rounded-2xl rounded-t-2xl px-6 pt-6 pb-[calc(2rem+env(safe-area-inset-bottom))] sm:pb-6 shadow-xl max-h-[90vh] h-auto overflow-y-auto no-scrollbar"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex justify-between items-center mb-6">
+          <h2 className="text-xl font-bold text-gray-800 dark:text-white">{t('Settle Up')}</h2>
+          <button onClick={onClose} className="p-2 bg-gray-100 dark:bg-slate-700 rounded-full hover:bg-gray-200 dark:hover:bg-slate-600 transition-colors">
+            <X size={20} className="text-gray-600 dark:text-slate-300" />
+          </button>
+        </div>
+
+        {group && <p className="text-sm text-gray-500 dark:text-slate-400 -mt-4 mb-4">{group.name}</p>}
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-slate-300 mb-1">{t('Paid by')}</label>
+            <select
+                value={fromId}
+                onChange={(e) => {
+                    const id = e.target.value;
+                    setFromId(id);
+                    if (id === toId) setToId(people.find(p => p !== id) || '');
+                    setError('');
+                }}
+                className={selectClass}
+            >
+                {people.map(id => <option key={id} value={id}>{getParticipantName(contacts, id, you)}</option>)}
+            </select>
+          </div>
+
+          <div className="flex justify-center text-gray-400">
+            <ArrowDown size={18} />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-slate-300 mb-1">{t('Paid to')}</label>
+            <select value={toId} onChange={(e) => { setToId(e.target.value); setError(''); }} className={selectClass}>
+                {people.filter(id => id !== fromId).map(id => <option key={id} value={id}>{getParticipantName(contacts, id, you)}</option>)}
+            </select>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+                <label className="block text-sm font-medium text-gray-700 dark:text-slate-300 mb-1">{t('Amount')}</label>
+                <div className="relative">
+                    <span className="absolute left-3 top-3.5 text-gray-400 dark:text-slate-400 font-bold">{currency}</span>
+                    <input
+                        type="number"
+                        step="0.01"
+                        value={amount}
+                        onChange={(e) => { setAmount(e.target.value); setError(''); }}
+                        className="w-full pl-8 pr-4 py-3 bg-gray-50 dark:bg-slate-700 border border-gray-200 dark:border-slate-600 rounded-xl focus:outline-none focus:ring-2 focus:ring-teal-500 font-semibold text-gray-900 dark:text-white"
+                        placeholder="0.00"
+                    />
+                </div>
+            </div>
+            <div>
+                <label className="block text-sm font-medium text-gray-700 dark:text-slate-300 mb-1">{t('Date')}</label>
+                <button
+                    type="button"
+                    onClick={() => setShowDatePicker(true)}
+                    className="w-full px-4 py-3 bg-gray-50 dark:bg-slate-700 border border-gray-200 dark:border-slate-600 rounded-xl flex items-center justify-between text-left focus:outline-none focus:ring-2 focus:ring-teal-500"
+                >
+                    <span className="text-sm text-gray-900 dark:text-white truncate">
+                        {new Date(`${date}T00:00:00`).toLocaleDateString(undefined, { month: 'short', day: 'numeric', year: 'numeric' })}
+                    </span>
+                    <CalendarIcon size={18} className="text-gray-400 dark:text-slate-400 shrink-0" />
+                </button>
+            </div>
+          </div>
+
+          {involvesUser && accounts.length > 0 && (
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-slate-300 mb-1">{fromId === SELF_ID ? t('Paid From') : t('Received In')}</label>
+            <AccountPicker value={accountId} onChange={(account) => setAccountId(account.id)} />
+          </div>
+          )}
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-slate-300 mb-1">{t('Note')}</label>
+            <input
+                type="text"
+                value={note}
+                onChange={(e) => setNote(e.target.value)}
+                className="w-full px-4 py-3 bg-gray-50 dark:bg-slate-700 border border-gray-200 dark:border-slate-600 rounded-xl focus:outline-none focus:ring-2 focus:ring-teal-500 text-gray-900 dark:text-white"
+                placeholder="e.g., Paid by UPI"
+            />
+          </div>
+
+          {error && <p className="text-red-500 text-xs">{error}</p>}
+
+          <button
+            type="submit"
+            className="w-full bg-teal-600 text-white py-4 rounded-xl font-bold text-lg hover:bg-teal-700 shadow-lg shadow-teal-600/20 transition-transform active:scale-[0.98] mt-2"
+          >
+            {t('Record Settlement')}
+          </button>
+        </form>
+
+        <DatePicker
+            isOpen={showDatePicker}
+            onClose={() => setShowDatePicker(false)}
+            onSelect={handleDateSelect}
+            initialDate={new Date(`${date}T00:00:00`)}
+            title={t('Date')}
+        />
+      </div>
+    </div>
+  );
+};
+
+export default SettlementForm;
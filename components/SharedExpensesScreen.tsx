@@ -0,0 +1,339 @@
+import React, { useMemo, useState } from 'react';
+import { useData } from '../contexts/DataContext';
+import { Contact, ExpenseGroup } from '../types';
+import { Debt, getContactBalances, getNetBalances, getParticipantName, simplifyDebts, SELF_ID } from '../utils/sharing';
+import { ArrowLeft, Plus, ChevronRight, Users, Trash2, Pencil } from 'lucide-react';
+import ContactForm from './ContactForm';
+import GroupForm from './GroupForm';
+import SettlementForm from './SettlementForm';
+
+interface SharedExpensesScreenProps {
+  onBack: () => void;
+}
+
+type SharedTab = 'groups' | 'friends';
+
+// Balances with friends and groups. A group's suggested payments are its simplified debts;
+// expenses shared outside any group are shown together as their own list.
+const SharedExpensesScreen: React.FC<SharedExpensesScreenProps> = ({ onBack }) => {
+  const { contacts, groups, expenses, settlements, deleteSettlement, currency, t } = useData();
+  const [tab, setTab] = useState<SharedTab>('groups');
+  const [openGroup, setOpenGroup] = useState<{ id: string | null } | null>(null);
+  const [editingContact, setEditingContact] = useState<Contact | null>(null);
+  const [editingGroup, setEditingGroup] = useState<ExpenseGroup | null>(null);
+  const [isAdding, setIsAdding] = useState(false);
+  const [settling, setSettling] = useState<{ fromId?: string; toId?: string; amount?: number; groupId?: string } | null>(null);
+  const you = t('You');
+  const name = (id: string) => getParticipantName(contacts, id, you);
+
+  const contactBalances = useMemo(() => getContactBalances(expenses, settlements, groups), [expenses, settlements, groups]);
+  const balanceValues = Object.keys(contactBalances).map(id => contactBalances[id]);
+  const owedToYou = balanceValues.filter(v => v > 0).reduce((sum, v) => sum + v, 0);
+  const youOwe = balanceValues.filter(v => v < 0).reduce((sum, v) => sum - v, 0);
+  const hasUngrouped = expenses.some(e => e.sharing && !e.sharing.groupId) || settlements.some(s => !s.groupId);
+
+  const formatDate = (date: string) =>
+      new Date(date.includes('T') ? date : `${date}T00:00:00`).toLocaleDateString(undefined, { month: 'short', day: 'numeric', year: 'numeric' });
+
+  const renderAmount = (value: number) => (
+      <span className={`font-bold ${value > 0.005 ? 'text-green-600 dark:text-green-400' : value < -0.005 ? 'text-red-500' : 'text-gray-400 dark:text-slate-500'}`}>
+          {Math.abs(value) < 0.005 ? t('Settled') : `${currency}${Math.abs(value).toFixed(2)}`}
+      </span>
+  );
+
+  const handleDeleteSettlement = (id: string) => {
+      if (confirm(t('delete_settlement_confirm'))) {
+          deleteSettlement(id);
+      }
+  };
+
+  const renderDebt = (debt: Debt, groupId?: string) => (
+      <div key={`${debt.fromId}-${debt.toId}`} className="flex items-center justify-between p-4">
+          <p className="text-sm text-gray-800 dark:text-white min-w-0 truncate">
+              <span className="font-semibold">{name(debt.fromId)}</span> → <span className="font-semibold">{name(debt.toId)}</span>
+              <span className="ml-2 font-bold">{currency}{debt.amount.toFixed(2)}</span>
+          </p>
+          <button
+              onClick={() => setSettling({ fromId: debt.fromId, toId: debt.toId, amount: debt.amount, groupId })}
+              className="shrink-0 px-3 py-1.5 bg-teal-50 dark:bg-teal-900/30 text-teal-700 dark:text-teal-300 rounded-lg text-xs font-semibold hover:bg-teal-100 dark:hover:bg-teal-900/50 transition-colors"
+          >
+              {t('Settle')}
+          </button>
+      </div>
+  );
+
+  // Group detail: balances, suggested payments and activity
+  const renderGroupDetail = (groupId: string | null) => {
+      const group = groups.find(g => g.id === groupId);
+      const net = getNetBalances(expenses, settlements, groupId);
+      const debts = simplifyDebts(net);
+      const members = group ? [SELF_ID, ...group.memberIds] : Object.keys(net);
+      const activity = [
+          ...expenses.filter(e => e.sharing && (e.sharing.groupId || null) === groupId).map(e => ({ kind: 'expense' as const, date: e.date, expense: e })),
+          ...settlements.filter(s => (s.groupId || null) === groupId).map(s => ({ kind: 'settlement' as const, date: s.date, settlement: s })),
+      ].sort((a, b) => b.date.localeCompare(a.date));
+
+      return (
+        <div className="space-y-6">
+            <section className="space-y-3">
+                <h3 className="text-sm font-semibold text-gray-500 dark:text-slate-400 uppercase tracking-wider">{t('Balances')}</h3>
+                <div className="bg-white dark:bg-slate-800 rounded-2xl shadow-sm border border-gray-100 dark:border-slate-700 divide-y divide-gray-100 dark:divide-slate-700">
+                    {members.map(id => (
+                        <div key={id} className="flex items-center justify-between p-4">
+                            <span className="text-sm font-semibold text-gray-800 dark:text-white truncate">{name(id)}</span>
+                            {renderAmount(net[id] || 0)}
+                        </div>
+                    ))}
+                </div>
+            </section>
+
+            <section className="space-y-3">
+                <h3 className="text-sm font-semibold text-gray-500 dark:text-slate-400 uppercase tracking-wider">{t('Suggested Payments')}</h3>
+                {debts.length === 0 ? (
+                    <p className="text-sm text-gray-500 dark:text-slate-400 text-center py-4">{t('All settled up')}</p>
+                ) : (
+                    <div className="bg-white dark:bg-slate-800 rounded-2xl shadow-sm border border-gray-100 dark:border-slate-700 divide-y divide-gray-100 dark:divide-slate-700">
+                        {debts.map(debt => renderDebt(debt, groupId || undefined))}
+                    </div>
+                )}
+            </section>
+
+            {activity.length > 0 && (
+                <section className="space-y-3">
+                    <h3 className="text-sm font-semibold text-gray-500 dark:text-slate-400 uppercase tracking-wider">{t('Activity')}</h3>
+                    <div className="bg-white dark:bg-slate-800 rounded-2xl shadow-sm border border-gray-100 dark:border-slate-700 divide-y divide-gray-100 dark:divide-slate-700">
+                        {activity.map(item => item.kind === 'expense' ? (
+                            <div key={item.expense.id} className="flex items-center justify-between p-4">
+                                <div className="min-w-0">
+                                    <p className="text-sm font-semibold text-gray-800 dark:text-white truncate">{item.expense.description}</p>
+                                    <p className="text-xs text-gray-500 dark:text-slate-400 truncate">
+                                        {formatDate(item.expense.date)} • {t('Paid by')} {name(item.expense.sharing!.paidBy)}
+                                    </p>
+                                </div>
+                                <div className="text-right shrink-0">
+                                    <p className="font-bold text-gray-700 dark:text-slate-200">{currency}{item.expense.sharing!.total.toFixed(2)}</p>
+                                    <p className="text-xs text-gray-500 dark:text-slate-400">{t('Your share')} {currency}{item.expense.amount.toFixed(2)}</p>
+                                </div>
+                            </div>
+                        ) : (
+                            <div key={item.settlement.id} className="flex items-center justify-between p-4">
+                                <div className="min-w-0">
+                                    <p className="text-sm font-semibold text-gray-800 dark:text-white truncate">
+                                        {name(item.settlement.fromId)} → {name(item.settlement.toId)}
+                                    </p>
+                                    <p className="text-xs text-gray-500 dark:text-slate-400 truncate">
+                                        {formatDate(item.settlement.date)} • {t('Settlement')}
+                                        {item.settlement.note ? ` • ${item.settlement.note}` : ''}
+                                    </p>
+                                </div>
+                                <div className="flex items-center space-x-2 shrink-0">
+                                    <span className="font-bold text-gray-700 dark:text-slate-200">{currency}{item.settlement.amount.toFixed(2)}</span>
+                                    <button
+                                        onClick={() => handleDeleteSettlement(item.settlement.id)}
+                                        className="p-2 text-gray-300 hover:text-red-500 dark:text-slate-600 dark:hover:text-red-400 transition-colors rounded-full hover:bg-red-50 dark:hover:bg-red-900/20"
+                                    >
+                                        <Trash2 size={16} />
+                                    </button>
+                                </div>
+                            </div>
+                        ))}
+                    </div>
+                </section>
+            )}
+        </div>
+      );
+  };
+
+  const renderGroupRow = (group: ExpenseGroup) => {
+      const own = getNetBalances(expenses, settlements, group.id)[SELF_ID] || 0;
+      return (
+          <button
+              key={group.id}
+              onClick={() => setOpenGroup({ id: group.id })}
+              className="w-full flex items-center justify-between p-4 bg-white dark:bg-slate-800 rounded-2xl shadow-sm border border-gray-100 dark:border-slate-700 hover:bg-gray-50 dark:hover:bg-slate-700/50 transition-colors text-left"
+          >
+              <div className="flex items-center space-x-3 min-w-0">
+                  <div className="p-2 bg-teal-50 dark:bg-teal-900/30 text-teal-600 dark:text-teal-400 rounded-full shrink-0">
+                      <Users size={18} />
+                  </div>
+                  <div className="min-w-0">
+                      <p className="font-semibold text-gray-800 dark:text-white truncate">{group.name}</p>
+                      <p className="text-xs text-gray-500 dark:text-slate-400 truncate">{group.memberIds.map(name).join(', ')}</p>
+                  </div>
+              </div>
+              <div className="flex items-center space-x-2 shrink-0">
+                  {renderAmount(own)}
+                  <ChevronRight size={16} className="text-gray-300 dark:text-slate-600" />
+              </div>
+          </button>
+      );
+  };
+
+  const renderContactRow = (contact: Contact) => {
+      const balance = contactBalances[contact.id] || 0;
+      return (
+          <div key={contact.id} className="flex items-center justify-between p-4 bg-white dark:bg-slate-800 rounded-2xl shadow-sm border border-gray-100 dark:border-slate-700">
+              <button onClick={() => setEditingContact(contact)} className="min-w-0 text-left">
+                  <p className="font-semibold text-gray-800 dark:text-white truncate">{contact.name}</p>
+                  <p className="text-xs text-gray-500 dark:text-slate-400">
+                      {balance > 0.005 ? t('owes you') : balance < -0.005 ? t('you owe') : contact.mobile || ''}
+                  </p>
+              </button>
+              <div className="flex items-center space-x-2 shrink-0">
+                  {renderAmount(balance)}
+                  {Math.abs(balance) > 0.005 && (
+                      <button
+                          onClick={() => setSettling(balance > 0
+                              ? { fromId: contact.id, toId: SELF_ID, amount: balance }
+                              : { fromId: SELF_ID, toId: contact.id, amount: -balance })}
+                          className="px-3 py-1.5 bg-teal-50 dark:bg-teal-900/30 text-teal-700 dark:text-teal-300 rounded-lg text-xs font-semibold hover:bg-teal-100 dark:hover:bg-teal-900/50 transition-colors"
+                      >
+                          {t('Settle')}
+                      </button>
+                  )}
+              </div>
+          </div>
+      );
+  };
+
+  const openedGroup = openGroup?.id ? groups.find(g => g.id === openGroup.id) : undefined;
+  // Back to the list once the open group has been deleted
+  const viewing = openGroup && (openGroup.id === null || openedGroup) ? openGroup : null;
+  const title = viewing ? (openedGroup?.name || t('Not in a group')) : t('Shared Expenses');
+  const activeGroups = groups.filter(g => !g.archived);
+  const archivedGroups = groups.filter(g => g.archived);
+  const activeContacts = contacts.filter(c => !c.archived);
+  const archivedContacts = contacts.filter(c => c.archived);
+
+  return (
+    <div className="h-full flex flex-col animate-fade-in bg-gray-50 dark:bg-slate-900 transition-colors">
+      <div className="shrink-0 p-6 pb-2 z-10 bg-gray-50 dark:bg-slate-900 transition-colors">
+        <header className="flex items-center justify-between py-2">
+            <div className="flex items-center space-x-3 min-w-0">
+                <button
+                onClick={() => viewing ? setOpenGroup(null) : onBack()}
+                className="p-2 -ml-2 rounded-full hover:bg-gray-200 dark:hover:bg-slate-800 text-gray-600 dark:text-gray-300 transition-colors"
+                >
+                <ArrowLeft size={24} />
+                </button>
+                <h1 className="text-2xl font-bold text-gray-800 dark:text-white truncate">{title}</h1>
+            </div>
+            {viewing ? (
+                openedGroup && (
+                    <button
+                        onClick={() => setEditingGroup(openedGroup)}
+                        className="p-2 bg-gray-200 dark:bg-slate-800 text-gray-600 dark:text-slate-300 rounded-full hover:bg-gray-300 dark:hover:bg-slate-700 transition-colors"
+                    >
+                        <Pencil size={18} />
+                    </button>
+                )
+            ) : (
+                <button
+                    onClick={() => setIsAdding(true)}
+                    className="p-2 bg-teal-600 text-white rounded-full shadow-md hover:bg-teal-700 transition-colors"
+                >
+                    <Plus size={20} />
+                </button>
+            )}
+        </header>
+
+        {!viewing && (
+        <div className="flex bg-gray-200 dark:bg-slate-800 p-1 rounded-xl mt-2 max-w-2xl mx-auto">
+            {(['groups', 'friends'] as SharedTab[]).map(option => (
+                <button
+                    key={option}
+                    onClick={() => setTab(option)}
+                    className={`flex-1 py-2 rounded-lg text-sm font-semibold transition-colors ${tab === option ? 'bg-white dark:bg-slate-700 text-gray-900 dark:text-white shadow-sm' : 'text-gray-500 dark:text-slate-400'}`}
+                >
+                    {option === 'groups' ? t('Groups') : t('Friends')}
+                </button>
+            ))}
+        </div>
+        )}
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-6 pt-2 space-y-6 no-scrollbar">
+        <div className="max-w-2xl mx-auto w-full space-y-6">
+            {viewing ? renderGroupDetail(viewing.id) : (
+            <>
+            <div className="grid grid-cols-2 gap-4">
+                <div className="bg-white dark:bg-slate-800 rounded-2xl p-4 shadow-sm border border-gray-100 dark:border-slate-700">
+                    <p className="text-xs font-bold uppercase tracking-wide text-gray-500 dark:text-slate-400">{t('You are owed')}</p>
+                    <p className="text-2xl font-bold text-green-600 dark:text-green-400 mt-1">{currency}{owedToYou.toFixed(0)}</p>
+                </div>
+                <div className="bg-white dark:bg-slate-800 rounded-2xl p-4 shadow-sm border border-gray-100 dark:border-slate-700">
+                    <p className="text-xs font-bold uppercase tracking-wide text-gray-500 dark:text-slate-400">{t('You owe')}</p>
+                    <p className="text-2xl font-bold text-red-500 mt-1">{currency}{youOwe.toFixed(0)}</p>
+                </div>
+            </div>
+
+            {tab === 'groups' ? (
+                <section className="space-y-3">
+                    {activeGroups.length === 0 && !hasUngrouped ? (
+                        <p className="text-sm text-gray-500 dark:text-slate-400 text-center py-6">{t('No groups yet')}</p>
+                    ) : activeGroups.map(renderGroupRow)}
+                    {hasUngrouped && (
+                        <button
+                            onClick={() => setOpenGroup({ id: null })}
+                            className="w-full flex items-center justify-between p-4 bg-white dark:bg-slate-800 rounded-2xl shadow-sm border border-gray-100 dark:border-slate-700 hover:bg-gray-50 dark:hover:bg-slate-700/50 transition-colors text-left"
+                        >
+                            <p className="font-semibold text-gray-800 dark:text-white">{t('Not in a group')}</p>
+                            <div className="flex items-center space-x-2 shrink-0">
+                                {renderAmount(getNetBalances(expenses, settlements, null)[SELF_ID] || 0)}
+                                <ChevronRight size={16} className="text-gray-300 dark:text-slate-600" />
+                            </div>
+                        </button>
+                    )}
+                    {archivedGroups.length > 0 && (
+                        <div className="space-y-3 pt-3">
+                            <h3 className="text-sm font-semibold text-gray-500 dark:text-slate-400 uppercase tracking-wider">{t('Archived')}</h3>
+                            <div className="space-y-3 opacity-70">{archivedGroups.map(renderGroupRow)}</div>
+                        </div>
+                    )}
+                </section>
+            ) : (
+                <section className="space-y-3">
+                    {activeContacts.length === 0 ? (
+                        <p className="text-sm text-gray-500 dark:text-slate-400 text-center py-6">{t('No contacts yet')}</p>
+                    ) : activeContacts.map(renderContactRow)}
+                    {archivedContacts.length > 0 && (
+                        <div className="space-y-3 pt-3">
+                            <h3 className="text-sm font-semibold text-gray-500 dark:text-slate-400 uppercase tracking-wider">{t('Archived')}</h3>
+                            <div className="space-y-3 opacity-70">{archivedContacts.map(renderContactRow)}</div>
+                        </div>
+                    )}
+                </section>
+            )}
+            </>
+            )}
+        </div>
+      </div>
+
+      {(editingContact || (isAdding && tab === 'friends')) && (
+          <ContactForm
+              contact={editingContact || undefined}
+              onClose={() => { setIsAdding(false); setEditingContact(null); }}
+          />
+      )}
+
+      {(editingGroup || (isAdding && tab === 'groups')) && (
+          <GroupForm
+              group={editingGroup || undefined}
+              onClose={() => { setIsAdding(false); setEditingGroup(null); }}
+          />
+      )}
+
+      {settling && (
+          <SettlementForm
+              fromId={settling.fromId}
+              toId={settling.toId}
+              initialAmount={settling.amount}
+              groupId={settling.groupId}
+              onClose={() => setSettling(null)}
+          />
+      )}
+    </div>
+  );
+};
+
+export default SharedExpensesScreen;
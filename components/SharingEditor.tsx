@@ -0,0 +1,207 @@
+import React, { useState } from 'react';
+import { useData } from '../contexts/DataContext';
+import { ExpenseSharing, ShareMode } from '../types';
+import { X, UserPlus } from 'lucide-react';
+import { computeShares, getParticipantName, SELF_ID } from '../utils/sharing';
+
+// Sharing as typed in the form; shares and exact amounts stay strings until the expense is saved
+export interface SharingDraft {
+  groupId: string;
+  paidBy: string;
+  mode: ShareMode;
+  participants: { contactId: string; shares: string; amount: string }[];
+}
+
+export const createSharingDraft = (sharing?: ExpenseSharing): SharingDraft => sharing
+  ? {
+      groupId: sharing.groupId || '',
+      paidBy: sharing.paidBy,
+      mode: sharing.mode,
+      participants: sharing.participants.map(p => ({ contactId: p.contactId, shares: (p.shares ?? 1).toString(), amount: p.amount.toString() })),
+    }
+  : { groupId: '', paidBy: SELF_ID, mode: 'equal', participants: [{ contactId: SELF_ID, shares: '1', amount: '' }] };
+
+export const buildSharing = (draft: SharingDraft, total: number): ExpenseSharing => ({
+  groupId: draft.groupId || undefined,
+  total,
+  paidBy: draft.paidBy,
+  mode: draft.mode,
+  participants: computeShares(total, draft.mode, draft.participants.map(p => ({
+    contactId: p.contactId,
+    shares: parseFloat(p.shares) || 0,
+    amount: parseFloat(p.amount) || 0,
+  }))),
+});
+
+interface SharingEditorProps {
+  draft: SharingDraft;
+  onChange: (draft: SharingDraft) => void;
+  total: number; // The whole bill
+}
+
+const MODES: { mode: ShareMode; label: string }[] = [
+  { mode: 'equal', label: 'Equally' },
+  { mode: 'shares', label: 'By Shares' },
+  { mode: 'exact', label: 'Exact Amounts' },
+];
+
+const SharingEditor: React.FC<SharingEditorProps> = ({ draft, onChange, total }) => {
+  const { contacts, groups, addContact, currency, t } = useData();
+  const [newContactName, setNewContactName] = useState('');
+  const you = t('You');
+  const computed = buildSharing(draft, total).participants;
+  const included = new Set(draft.participants.map(p => p.contactId));
+  const available = contacts.filter(c => !c.archived && !included.has(c.id));
+
+  const update = (updates: Partial<SharingDraft>) => onChange({ ...draft, ...updates });
+
+  const updateParticipant = (contactId: string, updates: Partial<SharingDraft['participants'][number]>) => {
+      update({ participants: draft.participants.map(p => p.contactId === contactId ? { ...p, ...updates } : p) });
+  };
+
+  const addParticipant = (contactId: string) => {
+      update({ participants: [...draft.participants, { contactId, shares: '1', amount: '' }] });
+  };
+
+  // Removing whoever paid hands the payment back to the user, who may pay without taking a part of the bill
+  const removeParticipant = (contactId: string) => {
+      const participants = draft.participants.filter(p => p.contactId !== contactId);
+      update({ participants, paidBy: draft.paidBy === contactId ? SELF_ID : draft.paidBy });
+  };
+
+  // Picking a group brings in all of its members
+  const selectGroup = (groupId: string) => {
+      const group = groups.find(g => g.id === groupId);
+      const members = group ? [SELF_ID, ...group.memberIds] : Array.from(included);
+      update({
+          groupId,
+          participants: members.map(id => draft.participants.find(p => p.contactId === id) || { contactId: id, shares: '1', amount: '' }),
+          paidBy: members.includes(draft.paidBy) ? draft.paidBy : SELF_ID,
+      });
+  };
+
+  const handleAddContact = () => {
+      const name = newContactName.trim();
+      if (!name) return;
+      addParticipant(addContact({ name }));
+      setNewContactName('');
+  };
+
+  const payerOptions = draft.participants.some(p => p.contactId === SELF_ID) ? draft.participants.map(p => p.contactId) : [SELF_ID, ...draft.participants.map(p => p.contactId)];
+  const inputClass = "w-full px-4 py-3 bg-gray-50 dark:bg-slate-700 border border-gray-200 dark:border-slate-600 rounded-xl focus:outline-none focus:ring-2 focus:ring-teal-500 appearance-none text-gray-900 dark:text-white";
+
+  return (
+    <div className="space-y-3">
+      <div className="grid grid-cols-2 gap-3">
+          <div>
+              <label className="block text-xs font-medium text-gray-500 dark:text-slate-400 mb-1">{t('Group')}</label>
+              <select value={draft.groupId} onChange={(e) => selectGroup(e.target.value)} className={inputClass}>
+                  <option value="">{t('No group')}</option>
+                  {groups.filter(g => !g.archived || g.id === draft.groupId).map(g => (
+                      <option key={g.id} value={g.id}>{g.name}</option>
+                  ))}
+              </select>
+          </div>
+          <div>
+              <label className="block text-xs font-medium text-gray-500 dark:text-slate-400 mb-1">{t('Paid by')}</label>
+              <select value={draft.paidBy} onChange={(e) => update({ paidBy: e.target.value })} className={inputClass}>
+                  {payerOptions.map(id => (
+                      <option key={id} value={id}>{getParticipantName(contacts, id, you)}</option>
+                  ))}
+              </select>
+          </div>
+      </div>
+
+      <div className="flex bg-gray-100 dark:bg-slate-700 p-1 rounded-xl">
+          {MODES.map(({ mode, label }) => (
+              <button
+                  key={mode}
+                  type="button"
+                  onClick={() => update({ mode })}
+                  className={`flex-1 py-1.5 rounded-lg text-xs font-semibold transition-colors ${draft.mode === mode ? 'bg-white dark:bg-slate-600 text-gray-900 dark:text-white shadow-sm' : 'text-gray-500 dark:text-slate-400'}`}
+              >
+                  {t(label)}
+              </button>
+          ))}
+      </div>
+
+      <div className="bg-gray-50 dark:bg-slate-700/50 border border-gray-200 dark:border-slate-600 rounded-xl divide-y divide-gray-200 dark:divide-slate-600">
+          {draft.participants.map(p => {
+              const share = computed.find(c => c.contactId === p.contactId)?.amount || 0;
+              return (
+                  <div key={p.contactId} className="flex items-center justify-between px-3 py-2 gap-2">
+                      <span className="text-sm font-medium text-gray-800 dark:text-white truncate flex-1">
+                          {getParticipantName(contacts, p.contactId, you)}
+                      </span>
+                      {draft.mode === 'shares' && (
+                          <input
+                              type="number"
+                              min="0"
+                              step="1"
+                              value={p.shares}
+                              onChange={(e) => updateParticipant(p.contactId, { shares: e.target.value })}
+                              className="w-16 px-2 py-1 bg-white dark:bg-slate-700 border border-gray-200 dark:border-slate-600 rounded-lg text-sm text-center text-gray-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-teal-500"
+                          />
+                      )}
+                      {draft.mode === 'exact' ? (
+                          <div className="relative w-28">
+                              <span className="absolute left-2 top-1.5 text-gray-400 dark:text-slate-400 text-sm">{currency}</span>
+                              <input
+                                  type="number"
+                                  step="0.01"
+                                  value={p.amount}
+                                  onChange={(e) => updateParticipant(p.contactId, { amount: e.target.value })}
+                                  className="w-full pl-6 pr-2 py-1 bg-white dark:bg-slate-700 border border-gray-200 dark:border-slate-600 rounded-lg text-sm text-gray-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-teal-500"
+                                  placeholder="0.00"
+                              />
+                          </div>
+                      ) : (
+                          <span className="w-20 text-right text-sm font-semibold text-gray-700 dark:text-slate-200">{currency}{share.toFixed(2)}</span>
+                      )}
+                      <button
+                          type="button"
+                          onClick={() => removeParticipant(p.contactId)}
+                          className="p-1 text-gray-400 hover:text-red-500 dark:text-slate-400 transition-colors"
+                      >
+                          <X size={14} />
+                      </button>
+                  </div>
+              );
+          })}
+      </div>
+
+      <div className="flex gap-2">
+          {(available.length > 0 || !included.has(SELF_ID)) && (
+              <select
+                  value=""
+                  onChange={(e) => e.target.value && addParticipant(e.target.value)}
+                  className="flex-1 min-w-0 px-3 py-2 bg-gray-50 dark:bg-slate-700 border border-gray-200 dark:border-slate-600 rounded-lg text-sm text-gray-700 dark:text-slate-200 appearance-none focus:outline-none focus:ring-2 focus:ring-teal-500"
+              >
+                  <option value="">{t('Add person…')}</option>
+                  {!included.has(SELF_ID) && <option value={SELF_ID}>{you}</option>}
+                  {available.map(c => <option key={c.id} value={c.id}>{c.name}</option>)}
+              </select>
+          )}
+          <div className="flex flex-1 min-w-0">
+              <input
+                  type="text"
+                  value={newContactName}
+                  onChange={(e) => setNewContactName(e.target.value)}
+                  onKeyDown={(e) => { if (e.key === 'Enter') { e.preventDefault(); handleAddContact(); } }}
+                  className="flex-1 min-w-0 px-3 py-2 bg-gray-50 dark:bg-slate-700 border border-gray-200 dark:border-slate-600 rounded-l-lg text-sm text-gray-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-teal-500"
+                  placeholder={t('New contact name')}
+              />
+              <button
+                  type="button"
+                  onClick={handleAddContact}
+                  className="px-3 bg-teal-600 text-white rounded-r-lg hover:bg-teal-700 transition-colors"
+              >
+                  <UserPlus size={16} />
+              </button>
+          </div>
+      </div>
+    </div>
+  );
+};
+
+export default SharingEditor;
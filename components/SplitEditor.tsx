@@ -0,0 +1,102 @@
+import React from 'react';
+import { useData } from '../contexts/DataContext';
+import { Plus, X, CheckCircle2 } from 'lucide-react';
+import CategoryPicker from './CategoryPicker';
+import { OTHER_EXPENSE_CATEGORY } from '../utils/categories';
+import { getSplitRemainder } from '../utils/splits';
+
+// A line as typed in the form; amounts stay strings until the expense is saved
+export interface SplitLine {
+  amount: string;
+  category: string;
+  subcategory?: string;
+  note: string;
+}
+
+interface SplitEditorProps {
+  lines: SplitLine[];
+  onChange: (lines: SplitLine[]) => void;
+  total: number; // The expense amount the lines have to add up to
+}
+
+const SplitEditor: React.FC<SplitEditorProps> = ({ lines, onChange, total }) => {
+  const { currency, t } = useData();
+  const remainder = getSplitRemainder(total, lines.map(l => ({ amount: parseFloat(l.amount) || 0 })));
+
+  const updateLine = (index: number, updates: Partial<SplitLine>) => {
+      onChange(lines.map((line, i) => i === index ? { ...line, ...updates } : line));
+  };
+
+  // A new line starts with whatever is still unassigned
+  const addLine = () => {
+      onChange([...lines, { amount: remainder > 0 ? remainder.toString() : '', category: OTHER_EXPENSE_CATEGORY, note: '' }]);
+  };
+
+  return (
+    <div className="space-y-3">
+      {lines.map((line, index) => (
+          <div key={index} className="bg-gray-50 dark:bg-slate-700/50 border border-gray-200 dark:border-slate-600 rounded-xl p-3 space-y-2">
+              <div className="flex items-center gap-2">
+                  <div className="relative w-28 shrink-0">
+                      <span className="absolute left-2.5 top-2 text-gray-400 dark:text-slate-400 text-sm font-bold">{currency}</span>
+                      <input
+                          type="number"
+                          step="0.01"
+                          value={line.amount}
+                          onChange={(e) => updateLine(index, { amount: e.target.value })}
+                          className="w-full pl-7 pr-2 py-2 bg-white dark:bg-slate-700 border border-gray-200 dark:border-slate-600 rounded-lg text-sm font-semibold focus:outline-none focus:ring-2 focus:ring-teal-500 text-gray-900 dark:text-white"
+                          placeholder="0.00"
+                      />
+                  </div>
+                  <CategoryPicker
+                      kind="expense"
+                      category={line.category}
+                      subcategory={line.subcategory}
+                      onChange={(category, subcategory) => updateLine(index, { category, subcategory })}
+                      className="flex-1 min-w-0 px-3 py-2 bg-white dark:bg-slate-700 border border-gray-200 dark:border-slate-600 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-teal-500 appearance-none text-gray-900 dark:text-white"
+                  />
+                  {lines.length > 2 && (
+                      <button
+                          type="button"
+                          onClick={() => onChange(lines.filter((_, i) => i !== index))}
+                          className="p-1.5 text-gray-400 hover:text-red-500 dark:text-slate-400 transition-colors"
+                      >
+                          <X size={16} />
+                      </button>
+                  )}
+              </div>
+              <input
+                  type="text"
+                  value={line.note}
+                  onChange={(e) => updateLine(index, { note: e.target.value })}
+                  className="w-full px-3 py-1.5 bg-white dark:bg-slate-700 border border-gray-200 dark:border-slate-600 rounded-lg text-xs focus:outline-none focus:ring-2 focus:ring-teal-500 text-gray-900 dark:text-white placeholder-gray-400"
+                  placeholder={t('Note (optional)')}
+              />
+          </div>
+      ))}
+
+      <div className="flex items-center justify-between">
+          <button
+              type="button"
+              onClick={addLine}
+              className="flex items-center text-sm font-semibold text-teal-600 dark:text-teal-400 hover:text-teal-700"
+          >
+              <Plus size={16} className="mr-1" />
+              {t('Add Line')}
+          </button>
+          {remainder === 0 ? (
+              <span className="flex items-center text-xs font-medium text-green-600 dark:text-green-400">
+                  <CheckCircle2 size={14} className="mr-1" />
+                  {t('Fully assigned')}
+              </span>
+          ) : (
+              <span className={`text-xs font-medium ${remainder > 0 ? 'text-amber-600 dark:text-amber-400' : 'text-red-500'}`}>
+                  {remainder > 0 ? t('Remaining') : t('Over by')} {currency}{Math.abs(remainder).toFixed(2)}
+              </span>
+          )}
+      </div>
+    </div>
+  );
+};
+
+export default SplitEditor;
@@ -0,0 +1,90 @@
+import React, { useState } from 'react';
+import { X, Hash } from 'lucide-react';
+import { formatTag, parseTags, suggestTags } from '../utils/tags';
+
+interface TagInputProps {
+  tags: string[];
+  onChange: (tags: string[]) => void;
+  suggestions: string[]; // Tags already in use, most used first
+  placeholder?: string;
+}
+
+// Tags shown as chips; typing a space, comma or Enter adds what was typed, and tags already in use are suggested
+const TagInput: React.FC<TagInputProps> = ({ tags, onChange, suggestions, placeholder }) => {
+  const [input, setInput] = useState('');
+  const [focused, setFocused] = useState(false);
+
+  const addTags = (text: string) => {
+      const added = parseTags(text).filter(tag => !tags.includes(tag));
+      if (added.length > 0) onChange([...tags, ...added]);
+      setInput('');
+  };
+
+  const removeTag = (tag: string) => onChange(tags.filter(t => t !== tag));
+
+  const handleChange = (value: string) => {
+      if (/[\s,]$/.test(value)) {
+          addTags(value);
+      } else {
+          setInput(value);
+      }
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+      if (e.key === 'Enter') {
+          // Keep Enter from submitting the surrounding form
+          e.preventDefault();
+          addTags(input);
+      } else if (e.key === 'Backspace' && !input && tags.length > 0) {
+          removeTag(tags[tags.length - 1]);
+      }
+  };
+
+  const matches = focused ? suggestTags(suggestions, input, tags) : [];
+
+  return (
+    <div>
+      <div className="w-full flex flex-wrap items-center gap-1.5 px-3 py-2 bg-gray-50 dark:bg-slate-700 border border-gray-200 dark:border-slate-600 rounded-xl focus-within:ring-2 focus-within:ring-teal-500 transition-colors">
+        {tags.map(tag => (
+            <span key={tag} className="flex items-center bg-teal-100 dark:bg-teal-900/40 text-teal-700 dark:text-teal-300 text-xs font-medium pl-2 pr-1 py-1 rounded-full">
+                {formatTag(tag)}
+                <button type="button" onClick={() => removeTag(tag)} className="ml-1 p-0.5 rounded-full hover:bg-teal-200 dark:hover:bg-teal-800">
+                    <X size={12} />
+                </button>
+            </span>
+        ))}
+        <div className="flex items-center flex-1 min-w-[6rem]">
+            {tags.length === 0 && <Hash size={14} className="text-gray-400 dark:text-slate-400 mr-1 shrink-0" />}
+            <input
+                type="text"
+                value={input}
+                onChange={(e) => handleChange(e.target.value)}
+                onKeyDown={handleKeyDown}
+                onFocus={() => setFocused(true)}
+                // Delay so a tap on a suggestion lands before the list is hidden
+                onBlur={() => setTimeout(() => { setFocused(false); if (input) addTags(input); }, 150)}
+                placeholder={tags.length === 0 ? placeholder : ''}
+                className="flex-1 bg-transparent py-1 text-sm focus:outline-none text-gray-900 dark:text-white placeholder-gray-400"
+            />
+        </div>
+      </div>
+      {matches.length > 0 && (
+          <div className="flex flex-wrap gap-1.5 mt-2">
+              {matches.map(tag => (
+                  <button
+                      key={tag}
+                      type="button"
+                      onMouseDown={(e) => e.preventDefault()}
+                      onClick={() => addTags(tag)}
+                      className="px-2 py-1 rounded-full text-xs font-medium bg-gray-100 dark:bg-slate-700 text-gray-600 dark:text-slate-300 hover:bg-gray-200 dark:hover:bg-slate-600 transition-colors"
+                  >
+                      {formatTag(tag)}
+                  </button>
+              ))}
+          </div>
+      )}
+    </div>
+  );
+};
+
+export default TagInput;
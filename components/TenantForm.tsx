@@ -0,0 +1,254 @@
+import React, { useState } from 'react';
+import { useData } from '../contexts/DataContext';
+import { Tenant, ReminderLanguage } from '../types';
+import { X, User, Phone, Mail, Home, Globe, Calendar as CalendarIcon } from 'lucide-react';
+import DatePicker from './DatePicker';
+
+interface TenantFormProps {
+  onClose: () => void;
+  tenant?: Tenant; // When provided, the form edits this tenant instead of adding a new one
+  defaultPropertyId?: string;
+}
+
+type LeaseField = 'leaseStart' | 'leaseEnd';
+
+const toDateString = (d: Date) => `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
+
+const TenantForm: React.FC<TenantFormProps> = ({ onClose, tenant, defaultPropertyId }) => {
+  const { addTenant, updateTenant, properties, currency, t } = useData();
+  const [name, setName] = useState(tenant?.name || '');
+  const [propertyId, setPropertyId] = useState(tenant?.propertyId || defaultPropertyId || '');
+  const [mobile, setMobile] = useState(tenant?.mobile || '');
+  const [email, setEmail] = useState(tenant?.email || '');
+  const [leaseStart, setLeaseStart] = useState(tenant?.leaseStart || toDateString(new Date()));
+  const [leaseEnd, setLeaseEnd] = useState(tenant?.leaseEnd || '');
+  const [agreedRent, setAgreedRent] = useState(tenant ? tenant.agreedRent.toString() : '');
+  const [securityDeposit, setSecurityDeposit] = useState(tenant ? tenant.securityDeposit.toString() : '');
+  const [preferredLanguage, setPreferredLanguage] = useState<ReminderLanguage | ''>(tenant?.preferredLanguage || '');
+
+  const [errors, setErrors] = useState<{ name?: string; agreedRent?: string; leaseEnd?: string }>({});
+  const [datePickerField, setDatePickerField] = useState<LeaseField | null>(null);
+
+  const validate = () => {
+    const newErrors: typeof errors = {};
+    if (!name.trim()) newErrors.name = t('Tenant name is required');
+    if (!agreedRent || parseFloat(agreedRent) <= 0) newErrors.agreedRent = "Valid amount required";
+    if (leaseEnd && leaseEnd < leaseStart) newErrors.leaseEnd = t('Lease end must be after lease start');
+    setErrors(newErrors);
+    return Object.keys(newErrors).length === 0;
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!validate()) return;
+
+    const details = {
+      name: name.trim(),
+      propertyId: propertyId || undefined,
+      mobile: mobile.trim() || undefined,
+      email: email.trim() || undefined,
+      leaseStart,
+      leaseEnd: leaseEnd || undefined,
+      agreedRent: parseFloat(agreedRent),
+      securityDeposit: parseFloat(securityDeposit) || 0,
+      preferredLanguage: preferredLanguage || undefined,
+    };
+
+    if (tenant) {
+      updateTenant(tenant.id, details);
+    } else {
+      addTenant(details);
+    }
+    onClose();
+  };
+
+  const handleDateSelect = (selectedDate: Date) => {
+      const dateStr = toDateString(selectedDate);
+      if (datePickerField === 'leaseStart') setLeaseStart(dateStr);
+      else setLeaseEnd(dateStr);
+      if (errors.leaseEnd) setErrors(prev => ({ ...prev, leaseEnd: undefined }));
+  };
+
+  const inputClass = "w-full pl-10 pr-4 py-3 bg-gray-50 dark:bg-slate-700 border border-gray-200 dark:border-slate-600 rounded-xl focus:outline-none focus:ring-2 focus:ring-teal-500 text-gray-900 dark:text-white";
+
+  return (
+    <div
+      className="fixed inset-0 bg-black/50 z-50 flex items-end sm:items-center justify-center animate-fade-in backdrop-blur-sm"
+      onClick={onClose}
+    >
+      <div
+        className="bg-white dark:bg-slate-800 w-full sm:max-w-md sm:rounded-2xl rounded-t-2xl px-6 pt-6 pb-[calc(2rem+env(safe-area-inset-bottom))] sm:pb-6 shadow-xl max-h-[90vh] h-auto overflow-y-auto no-scrollbar"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex justify-between items-center mb-6">
+          <h2 className="text-xl font-bold text-gray-800 dark:text-white">{tenant ? t('Edit Tenant') : t('Add Tenant')}</h2>
+          <button onClick={onClose} className="p-2 bg-gray-100 dark:bg-slate-700 rounded-full hover:bg-gray-200 dark:hover:bg-slate-600 transition-colors">
+            <X size={20} className="text-gray-600 dark:text-slate-300" />
+          </button>
+        </div>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          {/* Name */}
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-slate-300 mb-1">{t('Tenant Name')}</label>
+            <div className="relative">
+                <User className="absolute left-3 top-3.5 text-gray-400 dark:text-slate-500" size={18} />
+                <input
+                    type="text"
+                    value={name}
+                    onChange={(e) => setName(e.target.value)}
+                    className={inputClass}
+                    placeholder="e.g., John Doe"
+                />
+            </div>
+            {errors.name && <p className="text-red-500 text-xs mt-1">{errors.name}</p>}
+          </div>
+
+          {/* Property */}
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-slate-300 mb-1">{t('Property')}</label>
+            <div className="relative">
+                <Home className="absolute left-3 top-3.5 text-gray-400 dark:text-slate-500 pointer-events-none" size={18} />
+                <select
+                    value={propertyId}
+                    onChange={(e) => setPropertyId(e.target.value)}
+                    className={inputClass}
+                >
+                    <option value="">{t('No property')}</option>
+                    {properties.map(p => (
+                        <option key={p.id} value={p.id}>{p.name}</option>
+                    ))}
+                </select>
+            </div>
+          </div>
+
+          {/* Rent & Deposit */}
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+                <label className="block text-sm font-medium text-gray-700 dark:text-slate-300 mb-1">{t('Agreed Rent')}</label>
+                <div className="relative">
+                    <span className="absolute left-3 top-3 text-gray-400 dark:text-slate-400 font-bold">{currency}</span>
+                    <input
+                        type="number"
+                        value={agreedRent}
+                        onChange={(e) => setAgreedRent(e.target.value)}
+                        className="w-full pl-8 pr-3 py-3 bg-gray-50 dark:bg-slate-700 border border-gray-200 dark:border-slate-600 rounded-xl focus:outline-none focus:ring-2 focus:ring-teal-500 font-semibold text-gray-900 dark:text-white"
+                        placeholder="0"
+                    />
+                </div>
+                {errors.agreedRent && <p className="text-red-500 text-xs mt-1">{errors.agreedRent}</p>}
+            </div>
+            <div>
+                <label className="block text-sm font-medium text-gray-700 dark:text-slate-300 mb-1">{t('Security Deposit')}</label>
+                <div className="relative">
+                    <span className="absolute left-3 top-3 text-gray-400 dark:text-slate-400 font-bold">{currency}</span>
+                    <input
+                        type="number"
+                        value={securityDeposit}
+                        onChange={(e) => setSecurityDeposit(e.target.value)}
+                        className="w-full pl-8 pr-3 py-3 bg-gray-50 dark:bg-slate-700 border border-gray-200 dark:border-slate-600 rounded-xl focus:outline-none focus:ring-2 focus:ring-teal-500 font-semibold text-gray-900 dark:text-white"
+                        placeholder="0"
+                    />
+                </div>
+            </div>
+          </div>
+
+          {/* Lease */}
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+                <label className="block text-sm font-medium text-gray-700 dark:text-slate-300 mb-1">{t('Lease Start')}</label>
+                <button
+                    type="button"
+                    onClick={() => setDatePickerField('leaseStart')}
+                    className="w-full px-3 py-3 bg-gray-50 dark:bg-slate-700 border border-gray-200 dark:border-slate-600 rounded-xl flex items-center justify-between text-left text-sm text-gray-900 dark:text-white"
+                >
+                    <span className="truncate">{new Date(leaseStart).toLocaleDateString()}</span>
+                    <CalendarIcon size={16} className="text-gray-400 shrink-0" />
+                </button>
+            </div>
+            <div>
+                <label className="block text-sm font-medium text-gray-700 dark:text-slate-300 mb-1">{t('Lease End')}</label>
+                <div className="flex items-center gap-1">
+                    <button
+                        type="button"
+                        onClick={() => setDatePickerField('leaseEnd')}
+                        className={`flex-1 min-w-0 px-3 py-3 bg-gray-50 dark:bg-slate-700 border ${errors.leaseEnd ? 'border-red-500' : 'border-gray-200 dark:border-slate-600'} rounded-xl flex items-center justify-between text-left text-sm text-gray-900 dark:text-white`}
+                    >
+                        <span className={`truncate ${leaseEnd ? '' : 'text-gray-400'}`}>{leaseEnd ? new Date(leaseEnd).toLocaleDateString() : t('Open-ended')}</span>
+                        <CalendarIcon size={16} className="text-gray-400 shrink-0" />
+                    </button>
+                    {leaseEnd && (
+                        <button type="button" onClick={() => setLeaseEnd('')} className="p-2 text-gray-400 hover:text-red-500">
+                            <X size={16} />
+                        </button>
+                    )}
+                </div>
+                {errors.leaseEnd && <p className="text-red-500 text-xs mt-1">{errors.leaseEnd}</p>}
+            </div>
+          </div>
+
+          {/* Contact */}
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-slate-300 mb-1">{t('Tenant Mobile (for reminders)')}</label>
+            <div className="relative">
+                <Phone className="absolute left-3 top-3.5 text-gray-400 dark:text-slate-500" size={18} />
+                <input
+                    type="tel"
+                    value={mobile}
+                    onChange={(e) => setMobile(e.target.value)}
+                    className={inputClass}
+                    placeholder="+91..."
+                />
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-slate-300 mb-1">{t('Email')}</label>
+            <div className="relative">
+                <Mail className="absolute left-3 top-3.5 text-gray-400 dark:text-slate-500" size={18} />
+                <input
+                    type="email"
+                    value={email}
+                    onChange={(e) => setEmail(e.target.value)}
+                    className={inputClass}
+                />
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-slate-300 mb-1">{t('Reminder Language')}</label>
+            <div className="relative">
+                <Globe className="absolute left-3 top-3.5 text-gray-400 dark:text-slate-500 pointer-events-none" size={18} />
+                <select
+                    value={preferredLanguage}
+                    onChange={(e) => setPreferredLanguage(e.target.value as ReminderLanguage | '')}
+                    className={inputClass}
+                >
+                    <option value="">{t('Same as app')}</option>
+                    <option value="en">English</option>
+                    <option value="ta">தமிழ்</option>
+                </select>
+            </div>
+          </div>
+
+          <button
+            type="submit"
+            className="w-full bg-purple-600 text-white py-4 rounded-xl font-bold text-lg hover:bg-purple-700 shadow-lg shadow-purple-600/20 transition-transform active:scale-[0.98] mt-4"
+          >
+            {t('Save Tenant')}
+          </button>
+        </form>
+
+        <DatePicker
+            isOpen={datePickerField !== null}
+            onClose={() => setDatePickerField(null)}
+            onSelect={handleDateSelect}
+            initialDate={new Date((datePickerField === 'leaseEnd' && leaseEnd) || leaseStart)}
+            title={datePickerField === 'leaseEnd' ? t('Lease End') : t('Lease Start')}
+        />
+      </div>
+    </div>
+  );
+};
+
+export default TenantForm;
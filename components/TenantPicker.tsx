@@ -0,0 +1,38 @@
+import React from 'react';
+import { useData } from '../contexts/DataContext';
+import { Tenant } from '../types';
+import { Home } from 'lucide-react';
+
+interface TenantPickerProps {
+  tenantId: string;
+  onSelect: (tenant: Tenant | null) => void;
+  className: string; // Select styling of the host form
+}
+
+// Links a rent entry to a saved tenant; "not in list" keeps the free-text source and contact
+const TenantPicker: React.FC<TenantPickerProps> = ({ tenantId, onSelect, className }) => {
+  const { tenants, properties, t } = useData();
+
+  const getLabel = (tenant: Tenant) => {
+      const property = properties.find(p => p.id === tenant.propertyId);
+      return property ? `${tenant.name} • ${property.name}` : tenant.name;
+  };
+
+  return (
+    <div className="relative">
+        <Home className="absolute left-3 top-3.5 text-gray-400 dark:text-slate-500 pointer-events-none" size={18} />
+        <select
+            value={tenantId}
+            onChange={(e) => onSelect(tenants.find(tenant => tenant.id === e.target.value) || null)}
+            className={className}
+        >
+            <option value="">{t('Not in list')}</option>
+            {tenants.map(tenant => (
+                <option key={tenant.id} value={tenant.id}>{getLabel(tenant)}</option>
+            ))}
+        </select>
+    </div>
+  );
+};
+
+export default TenantPicker;
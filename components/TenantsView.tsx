@@ -0,0 +1,282 @@
+import React, { useMemo, useState } from 'react';
+import { useData } from '../contexts/DataContext';
+import { Property, Tenant } from '../types';
+import { Home, Plus, User, Phone, Mail, Pencil, Trash2, X, CheckCircle, Clock, ChevronRight, FileText } from 'lucide-react';
+import PropertyForm from './PropertyForm';
+import TenantForm from './TenantForm';
+import ArrearsLedger from './ArrearsLedger';
+import RentReceiptModal from './RentReceiptModal';
+import { getAmountReceived, getOutstandingBalance } from '../utils/incomeLedger';
+
+// Tenant detail sheet: lease terms, contact and the rent entries linked to this tenant
+const TenantDetails: React.FC<{ tenant: Tenant; today: string; onClose: () => void; onEdit: () => void }> = ({ tenant, today, onClose, onEdit }) => {
+    const { incomes, properties, deleteTenant, currency, t } = useData();
+    const property = properties.find(p => p.id === tenant.propertyId);
+    const [receiptIncomeId, setReceiptIncomeId] = useState<string | null>(null);
+    const receiptIncome = incomes.find(i => i.id === receiptIncomeId);
+
+    const rentHistory = useMemo(() => {
+        return incomes
+            .filter(i => i.tenantId === tenant.id)
+            .sort((a, b) => b.date.localeCompare(a.date));
+    }, [incomes, tenant.id]);
+
+    const totalReceived = rentHistory.reduce((sum, i) => sum + getAmountReceived(i), 0);
+    const totalPending = rentHistory.reduce((sum, i) => sum + getOutstandingBalance(i), 0);
+
+    const handleDelete = () => {
+        if (confirm(t('delete_tenant_confirm'))) {
+            deleteTenant(tenant.id);
+            onClose();
+        }
+    };
+
+    return (
+        <div
+            className="fixed inset-0 z-50 flex items-end sm:items-center justify-center bg-black/50 backdrop-blur-sm animate-fade-in"
+            onClick={onClose}
+        >
+            <div
+                className="bg-white dark:bg-slate-800 w-full sm:max-w-md sm:rounded-2xl rounded-t-2xl p-6 pb-[calc(2rem+env(safe-area-inset-bottom))] sm:pb-6 shadow-xl max-h-[90vh] overflow-y-auto no-scrollbar animate-slide-up"
+                onClick={e => e.stopPropagation()}
+            >
+                <div className="flex justify-between items-start mb-4">
+                    <div>
+                        <h3 className="text-lg font-bold text-gray-800 dark:text-white">{tenant.name}</h3>
+                        <p className="text-xs text-gray-500 dark:text-slate-400">{property ? property.name : t('No property')}</p>
+                    </div>
+                    <div className="flex items-center space-x-1">
+                        <button onClick={onEdit} className="p-2 rounded-full hover:bg-gray-100 dark:hover:bg-slate-700 text-gray-500">
+                            <Pencil size={16} />
+                        </button>
+                        <button onClick={handleDelete} className="p-2 rounded-full hover:bg-red-50 dark:hover:bg-red-900/20 text-gray-400 hover:text-red-500">
+                            <Trash2 size={16} />
+                        </button>
+                        <button onClick={onClose} className="p-2 rounded-full hover:bg-gray-100 dark:hover:bg-slate-700">
+                            <X size={20} className="text-gray-500" />
+                        </button>
+                    </div>
+                </div>
+
+                {/* Lease Terms */}
+                <div className="grid grid-cols-2 gap-3 mb-4">
+                    <div className="bg-gray-50 dark:bg-slate-700/50 rounded-xl p-3">
+                        <div className="text-[10px] uppercase font-bold text-gray-400">{t('Agreed Rent')}</div>
+                        <div className="font-bold text-gray-800 dark:text-white">{currency}{tenant.agreedRent.toFixed(0)}</div>
+                    </div>
+                    <div className="bg-gray-50 dark:bg-slate-700/50 rounded-xl p-3">
+                        <div className="text-[10px] uppercase font-bold text-gray-400">{t('Security Deposit')}</div>
+                        <div className="font-bold text-gray-800 dark:text-white">{currency}{tenant.securityDeposit.toFixed(0)}</div>
+                    </div>
+                    <div className="bg-gray-50 dark:bg-slate-700/50 rounded-xl p-3 col-span-2">
+                        <div className="text-[10px] uppercase font-bold text-gray-400">{t('Lease')}</div>
+                        <div className="text-sm font-medium text-gray-800 dark:text-white">
+                            {new Date(tenant.leaseStart).toLocaleDateString()} – {tenant.leaseEnd ? new Date(tenant.leaseEnd).toLocaleDateString() : t('Open-ended')}
+                        </div>
+                    </div>
+                </div>
+
+                {/* Contact */}
+                {(tenant.mobile || tenant.email) && (
+                    <div className="space-y-2 mb-4 text-sm text-gray-600 dark:text-slate-300">
+                        {tenant.mobile && (
+                            <a href={`tel:${tenant.mobile}`} className="flex items-center space-x-2">
+                                <Phone size={14} className="text-gray-400" /> <span>{tenant.mobile}</span>
+                            </a>
+                        )}
+                        {tenant.email && (
+                            <a href={`mailto:${tenant.email}`} className="flex items-center space-x-2">
+                                <Mail size={14} className="text-gray-400" /> <span>{tenant.email}</span>
+                            </a>
+                        )}
+                    </div>
+                )}
+
+                {/* Rent History */}
+                <div className="flex justify-between items-center mb-2">
+                    <h4 className="text-xs font-bold text-gray-500 dark:text-slate-400 uppercase tracking-wide">{t('Rent History')}</h4>
+                    <span className="text-xs text-gray-500 dark:text-slate-400">
+                        {t('Received')}: <span className="font-semibold text-teal-600 dark:text-teal-400">{currency}{totalReceived.toFixed(0)}</span>
+                        {totalPending > 0 && <> • {t('Pending')}: <span className="font-semibold text-red-500">{currency}{totalPending.toFixed(0)}</span></>}
+                    </span>
+                </div>
+                {rentHistory.length === 0 ? (
+                    <p className="text-sm text-gray-400 dark:text-slate-500 text-center py-4">{t('No rent recorded yet.')}</p>
+                ) : (
+                    <div className="space-y-2">
+                        {rentHistory.map(income => (
+                            <div key={income.id} className="flex justify-between items-center p-3 rounded-xl border border-gray-100 dark:border-slate-700">
+                                <div className="flex items-center space-x-2 text-sm text-gray-700 dark:text-slate-200">
+                                    {income.status === 'Received'
+                                        ? <CheckCircle size={14} className="text-green-500" />
+                                        : <Clock size={14} className={income.status === 'Overdue' ? 'text-red-500' : income.status === 'Partially Received' ? 'text-amber-500' : 'text-gray-400'} />}
+                                    <span>{new Date(income.date).toLocaleDateString(undefined, { month: 'short', day: 'numeric', year: 'numeric' })}</span>
+                                </div>
+                                <div className="flex items-center space-x-2">
+                                <span className="font-semibold text-sm text-gray-800 dark:text-white">
+                                    {income.status === 'Partially Received' || (income.status === 'Overdue' && getAmountReceived(income) > 0)
+                                        ? `${currency}${getAmountReceived(income).toFixed(0)} / ${currency}${income.amount.toFixed(0)}`
+                                        : `${currency}${income.amount.toFixed(0)}`}
+                                </span>
+                                {getAmountReceived(income) > 0 && (
+                                    <button onClick={() => setReceiptIncomeId(income.id)} className="p-1.5 text-gray-400 hover:text-purple-600" title={t('Rent Receipt')}>
+                                        <FileText size={14} />
+                                    </button>
+                                )}
+                                </div>
+                            </div>
+                        ))}
+                    </div>
+                )}
+
+                {/* Arrears Ledger */}
+                {rentHistory.length > 0 && (
+                    <>
+                        <h4 className="text-xs font-bold text-gray-500 dark:text-slate-400 uppercase tracking-wide mt-6 mb-2">{t('Arrears Ledger')}</h4>
+                        <ArrearsLedger incomes={rentHistory} today={today} />
+                    </>
+                )}
+
+                {receiptIncome && (
+                    <RentReceiptModal income={receiptIncome} onClose={() => setReceiptIncomeId(null)} />
+                )}
+            </div>
+        </div>
+    );
+};
+
+// Properties with their tenants, shown as the "Tenants" tab of the income screen
+const TenantsView: React.FC = () => {
+  const { properties, tenants, deleteProperty, currency, t } = useData();
+  const [selectedTenantId, setSelectedTenantId] = useState<string | null>(null);
+  const [tenantForm, setTenantForm] = useState<{ tenant?: Tenant; propertyId?: string } | null>(null);
+  const [propertyForm, setPropertyForm] = useState<{ property?: Property } | null>(null);
+
+  const selectedTenant = tenants.find(tenant => tenant.id === selectedTenantId);
+  const today = new Date().toISOString().split('T')[0];
+
+  // Tenants without a (still existing) property are listed last
+  const groups = useMemo(() => {
+      const propertyIds = new Set(properties.map(p => p.id));
+      const result: { property?: Property; tenants: Tenant[] }[] = properties.map(property => ({
+          property,
+          tenants: tenants.filter(tenant => tenant.propertyId === property.id),
+      }));
+      const unassigned = tenants.filter(tenant => !tenant.propertyId || !propertyIds.has(tenant.propertyId));
+      if (unassigned.length > 0) result.push({ tenants: unassigned });
+      return result;
+  }, [properties, tenants]);
+
+  const handleDeleteProperty = (property: Property) => {
+      if (confirm(t('delete_property_confirm'))) {
+          deleteProperty(property.id);
+      }
+  };
+
+  return (
+    <div className="space-y-6">
+        <div className="flex gap-2">
+            <button
+                onClick={() => setPropertyForm({})}
+                className="flex-1 flex items-center justify-center space-x-1 py-2.5 rounded-xl text-sm font-semibold bg-white dark:bg-slate-800 border border-gray-100 dark:border-slate-700 text-gray-700 dark:text-slate-200"
+            >
+                <Plus size={16} /> <span>{t('Add Property')}</span>
+            </button>
+            <button
+                onClick={() => setTenantForm({})}
+                className="flex-1 flex items-center justify-center space-x-1 py-2.5 rounded-xl text-sm font-semibold bg-purple-600 text-white shadow-md"
+            >
+                <Plus size={16} /> <span>{t('Add Tenant')}</span>
+            </button>
+        </div>
+
+        {groups.length === 0 && (
+            <div className="p-8 text-center bg-white dark:bg-slate-800 rounded-xl border border-dashed border-gray-200 dark:border-slate-700">
+                <p className="text-sm text-gray-400 dark:text-slate-500">{t('No properties or tenants yet.')}</p>
+            </div>
+        )}
+
+        {groups.map(group => (
+            <div key={group.property?.id || 'unassigned'} className="space-y-3">
+                <div className="flex justify-between items-center">
+                    <h2 className="text-xs font-bold text-gray-500 dark:text-slate-400 uppercase tracking-wide flex items-center">
+                        <Home size={12} className="mr-1" />
+                        {group.property ? group.property.name : t('No property')}
+                    </h2>
+                    {group.property && (
+                        <div className="flex items-center space-x-1">
+                            <button onClick={() => setTenantForm({ propertyId: group.property!.id })} className="p-1.5 text-gray-400 hover:text-purple-600">
+                                <Plus size={14} />
+                            </button>
+                            <button onClick={() => setPropertyForm({ property: group.property })} className="p-1.5 text-gray-400 hover:text-gray-600">
+                                <Pencil size={14} />
+                            </button>
+                            <button onClick={() => handleDeleteProperty(group.property!)} className="p-1.5 text-gray-400 hover:text-red-500">
+                                <Trash2 size={14} />
+                            </button>
+                        </div>
+                    )}
+                </div>
+                {group.property?.address && (
+                    <p className="text-xs text-gray-400 dark:text-slate-500 -mt-2">{group.property.address}</p>
+                )}
+                {group.tenants.length === 0 ? (
+                    <p className="text-sm text-gray-400 dark:text-slate-500">{t('No tenants yet.')}</p>
+                ) : (
+                    group.tenants.map(tenant => {
+                        const leaseEnded = !!tenant.leaseEnd && tenant.leaseEnd < today;
+                        return (
+                            <button
+                                key={tenant.id}
+                                onClick={() => setSelectedTenantId(tenant.id)}
+                                className="w-full text-left bg-white dark:bg-slate-800 p-4 rounded-xl shadow-sm border border-gray-100 dark:border-slate-700 flex justify-between items-center"
+                            >
+                                <div className="flex items-center space-x-3">
+                                    <div className="w-10 h-10 rounded-full flex items-center justify-center bg-purple-100 text-purple-600 dark:bg-purple-900/30 dark:text-purple-400">
+                                        <User size={18} />
+                                    </div>
+                                    <div>
+                                        <div className="font-bold text-gray-800 dark:text-white">{tenant.name}</div>
+                                        <div className="text-xs text-gray-500 dark:text-slate-400">
+                                            {leaseEnded
+                                                ? <span className="text-orange-500">{t('Lease ended')}</span>
+                                                : `${t('Since')} ${new Date(tenant.leaseStart).toLocaleDateString(undefined, { month: 'short', year: 'numeric' })}`}
+                                        </div>
+                                    </div>
+                                </div>
+                                <div className="flex items-center space-x-2">
+                                    <span className="font-bold text-purple-600 dark:text-purple-400">{currency}{tenant.agreedRent.toFixed(0)}</span>
+                                    <ChevronRight size={16} className="text-gray-300" />
+                                </div>
+                            </button>
+                        );
+                    })
+                )}
+            </div>
+        ))}
+
+        {selectedTenant && (
+            <TenantDetails
+                tenant={selectedTenant}
+                today={today}
+                onClose={() => setSelectedTenantId(null)}
+                onEdit={() => setTenantForm({ tenant: selectedTenant })}
+            />
+        )}
+
+        {tenantForm && (
+            <TenantForm
+                tenant={tenantForm.tenant}
+                defaultPropertyId={tenantForm.propertyId}
+                onClose={() => setTenantForm(null)}
+            />
+        )}
+
+        {propertyForm && (
+            <PropertyForm property={propertyForm.property} onClose={() => setPropertyForm(null)} />
+        )}
+    </div>
+  );
+};
+
+export default TenantsView;
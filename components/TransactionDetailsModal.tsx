@@ -1,7 +1,17 @@
-import React from 'react';
+import React, { useState } from 'react';
 import { Expense, Income } from '../types';
-import { X, Calendar, User, Tag, CreditCard, Clock, MapPin } from 'lucide-react';
+import { X, Calendar, User, Tag, CreditCard, Clock, MapPin, Pencil, FileText, Wallet, Hash, StickyNote, Users } from 'lucide-react';
 import { useData } from '../contexts/DataContext';
+import { formatRecurrence } from '../utils/recurrence';
+import { getAmountReceived, getOutstandingBalance } from '../utils/incomeLedger';
+import { getCategoryName } from '../utils/categories';
+import { formatTag } from '../utils/tags';
+import { isSplitExpense } from '../utils/splits';
+import { getParticipantName } from '../utils/sharing';
+import ExpenseForm from './ExpenseForm';
+import IncomeForm from './IncomeForm';
+import RentReceiptModal from './RentReceiptModal';
+import CategoryBadge from './CategoryBadge';
 
 interface TransactionDetailsModalProps {
   item: (Expense & { type: 'expense' }) | (Income & { type: 'income' });
@@ -9,9 +19,25 @@ interface TransactionDetailsModalProps {
   onDelete: () => void;
 }
 
-const TransactionDetailsModal: React.FC<TransactionDetailsModalProps> = ({ item, onClose, onDelete }) => {
-  const { currency, t } = useData();
+const TransactionDetailsModal: React.FC<TransactionDetailsModalProps> = ({ item: initialItem, onClose, onDelete }) => {
+  const { expenses, incomes, accounts, categories, contacts, currency, t } = useData();
+  const [isEditing, setIsEditing] = useState(false);
+  const [showReceipt, setShowReceipt] = useState(false);
+
+  // Read the live record so the details reflect edits made from this modal
+  const liveExpense = initialItem.type === 'expense' ? expenses.find(e => e.id === initialItem.id) : undefined;
+  const liveIncome = initialItem.type === 'income' ? incomes.find(i => i.id === initialItem.id) : undefined;
+  const item: TransactionDetailsModalProps['item'] = liveExpense 
+      ? { ...liveExpense, type: 'expense' } 
+      : liveIncome ? { ...liveIncome, type: 'income' } : initialItem;
   const isExpense = item.type === 'expense';
+  const account = accounts.find(a => a.id === item.accountId);
+
+  if (isEditing) {
+      return item.type === 'expense'
+          ? <ExpenseForm expense={item} onClose={() => setIsEditing(false)} />
+          : <IncomeForm income={item} onClose={() => setIsEditing(false)} />;
+  }
 
   return (
     <div 
@@ -31,15 +57,7 @@ const TransactionDetailsModal: React.FC<TransactionDetailsModalProps> = ({ item,
             </button>
             
             <div className="flex flex-col items-center mt-2">
-                <div className={`w-16 h-16 rounded-full flex items-center justify-center text-3xl mb-4 ${
-                     !isExpense 
-                     ? 'bg-teal-100 text-teal-600 dark:bg-teal-900/30 dark:text-teal-400' 
-                     : item.category === 'Food' ? 'bg-orange-100 text-orange-600 dark:bg-orange-900/30 dark:text-orange-400'
-                     : item.category === 'Transport' ? 'bg-blue-100 text-blue-600 dark:bg-blue-900/30 dark:text-blue-400'
-                     : 'bg-gray-100 text-gray-600 dark:bg-slate-700 dark:text-slate-400'
-                }`}>
-                    {isExpense ? item.category[0] : (item.category === 'Salary' ? '💰' : '📥')}
-                </div>
+                <CategoryBadge category={item.category} subcategory={item.subcategory} size={28} className="w-16 h-16 mb-4" />
                 
                 <h2 className="text-2xl font-bold text-gray-800 dark:text-white mb-1">
                     {isExpense ? '-' : '+'}{currency}{item.amount.toFixed(2)}
@@ -57,8 +75,57 @@ const TransactionDetailsModal: React.FC<TransactionDetailsModalProps> = ({ item,
                         <Tag size={16} className="mr-2" />
                         <span>{t('Category')}</span>
                     </div>
-                    <span className="font-semibold text-gray-800 dark:text-white">{t(item.category)}</span>
+                    <span className="font-semibold text-gray-800 dark:text-white">
+                        {item.type === 'expense' && isSplitExpense(item) ? t('Split') : (
+                            <>
+                                {t(getCategoryName(categories, item.category))}
+                                {item.subcategory ? ` › ${t(getCategoryName(categories, item.subcategory))}` : ''}
+                            </>
+                        )}
+                    </span>
                 </div>
+
+                {item.type === 'expense' && isSplitExpense(item) && (
+                    <div className="space-y-2 pl-6">
+                        {item.splits!.map((part, index) => (
+                            <div key={index} className="flex items-center justify-between text-sm">
+                                <div className="flex items-center min-w-0">
+                                    <CategoryBadge category={part.category} subcategory={part.subcategory} size={12} className="w-6 h-6 mr-2" />
+                                    <div className="min-w-0">
+                                        <div className="text-gray-700 dark:text-slate-200 truncate">
+                                            {t(getCategoryName(categories, part.category))}
+                                            {part.subcategory ? ` › ${t(getCategoryName(categories, part.subcategory))}` : ''}
+                                        </div>
+                                        {part.note && <div className="text-xs text-gray-500 dark:text-slate-400 truncate">{part.note}</div>}
+                                    </div>
+                                </div>
+                                <span className="font-semibold text-gray-800 dark:text-white ml-3">{currency}{part.amount.toFixed(2)}</span>
+                            </div>
+                        ))}
+                    </div>
+                )}
+
+                {item.type === 'expense' && item.sharing && (
+                    <>
+                        <div className="flex items-center justify-between text-sm">
+                            <div className="flex items-center text-gray-500 dark:text-slate-400">
+                                <Users size={16} className="mr-2" />
+                                <span>{t('Total Bill')}</span>
+                            </div>
+                            <span className="font-semibold text-gray-800 dark:text-white">
+                                {currency}{item.sharing.total.toFixed(2)} • {t('Paid by')} {getParticipantName(contacts, item.sharing.paidBy, t('You'))}
+                            </span>
+                        </div>
+                        <div className="space-y-2 pl-6">
+                            {item.sharing.participants.map(p => (
+                                <div key={p.contactId} className="flex items-center justify-between text-sm">
+                                    <span className="text-gray-700 dark:text-slate-200 truncate">{getParticipantName(contacts, p.contactId, t('You'))}</span>
+                                    <span className="font-semibold text-gray-800 dark:text-white ml-3">{currency}{p.amount.toFixed(2)}</span>
+                                </div>
+                            ))}
+                        </div>
+                    </>
+                )}
                 
                 <div className="flex items-center justify-between text-sm">
                     <div className="flex items-center text-gray-500 dark:text-slate-400">
@@ -70,6 +137,16 @@ const TransactionDetailsModal: React.FC<TransactionDetailsModalProps> = ({ item,
                     </span>
                 </div>
 
+                {account && (
+                    <div className="flex items-center justify-between text-sm">
+                        <div className="flex items-center text-gray-500 dark:text-slate-400">
+                            <Wallet size={16} className="mr-2" />
+                            <span>{isExpense ? t('Paid From') : t('Received Into')}</span>
+                        </div>
+                        <span className="font-semibold text-gray-800 dark:text-white">{account.name}</span>
+                    </div>
+                )}
+
                 {isExpense ? (
                     <div className="flex items-center justify-between text-sm">
                         <div className="flex items-center text-gray-500 dark:text-slate-400">
@@ -85,21 +162,77 @@ const TransactionDetailsModal: React.FC<TransactionDetailsModalProps> = ({ item,
                                 <Clock size={16} className="mr-2" />
                                 <span>{t('Recurrence')}</span>
                             </div>
-                            <span className="font-semibold text-gray-800 dark:text-white">{t((item as Income).recurrence)}</span>
+                            <span className="font-semibold text-gray-800 dark:text-white">{formatRecurrence((item as Income).recurrence, (item as Income).recurrenceRule, t)}</span>
                         </div>
                         <div className="flex items-center justify-between text-sm">
                             <div className="flex items-center text-gray-500 dark:text-slate-400">
                                 <User size={16} className="mr-2" />
                                 <span>{t('Status')}</span>
                             </div>
-                            <span className={`font-semibold ${(item as Income).status === 'Received' ? 'text-green-500' : (item as Income).status === 'Overdue' ? 'text-red-500' : 'text-gray-800 dark:text-white'}`}>
+                            <span className={`font-semibold ${(item as Income).status === 'Received' ? 'text-green-500' : (item as Income).status === 'Overdue' ? 'text-red-500' : (item as Income).status === 'Partially Received' ? 'text-amber-500' : 'text-gray-800 dark:text-white'}`}>
                                 {t((item as Income).status)}
                             </span>
                         </div>
+                        {(item as Income).payments && (item as Income).payments!.length > 0 && (
+                            <div className="flex items-center justify-between text-sm">
+                                <div className="flex items-center text-gray-500 dark:text-slate-400">
+                                    <CreditCard size={16} className="mr-2" />
+                                    <span>{t('Paid')}</span>
+                                </div>
+                                <span className="font-semibold text-gray-800 dark:text-white">
+                                    {currency}{getAmountReceived(item as Income).toFixed(0)}
+                                    {getOutstandingBalance(item as Income) > 0 && <span className="text-red-500"> • {t('Balance')} {currency}{getOutstandingBalance(item as Income).toFixed(0)}</span>}
+                                </span>
+                            </div>
+                        )}
                     </>
                 )}
+
+                {item.tags && item.tags.length > 0 && (
+                    <div className="flex items-start justify-between text-sm">
+                        <div className="flex items-center text-gray-500 dark:text-slate-400 shrink-0">
+                            <Hash size={16} className="mr-2" />
+                            <span>{t('Tags')}</span>
+                        </div>
+                        <div className="flex flex-wrap justify-end gap-1 ml-4">
+                            {item.tags.map(tag => (
+                                <span key={tag} className="px-2 py-0.5 rounded-full text-xs font-medium bg-teal-100 dark:bg-teal-900/40 text-teal-700 dark:text-teal-300">
+                                    {formatTag(tag)}
+                                </span>
+                            ))}
+                        </div>
+                    </div>
+                )}
             </div>
 
+            {item.notes && (
+                <div className="bg-gray-50 dark:bg-slate-700/50 rounded-xl p-4 text-sm">
+                    <div className="flex items-center text-gray-500 dark:text-slate-400 mb-1">
+                        <StickyNote size={16} className="mr-2" />
+                        <span>{t('Notes')}</span>
+                    </div>
+                    <p className="text-gray-800 dark:text-white whitespace-pre-wrap break-words">{item.notes}</p>
+                </div>
+            )}
+
+            {item.type === 'income' && item.category === 'Rent' && getAmountReceived(item) > 0 && (
+                <button 
+                    onClick={() => setShowReceipt(true)}
+                    className="w-full py-3 flex items-center justify-center space-x-2 bg-purple-50 dark:bg-purple-900/20 text-purple-600 dark:text-purple-400 font-semibold text-sm hover:bg-purple-100 dark:hover:bg-purple-900/30 rounded-xl transition-colors"
+                >
+                    <FileText size={16} />
+                    <span>{t('Rent Receipt')}</span>
+                </button>
+            )}
+
+            <button 
+                onClick={() => setIsEditing(true)}
+                className="w-full py-3 flex items-center justify-center space-x-2 bg-teal-50 dark:bg-teal-900/20 text-teal-600 dark:text-teal-400 font-semibold text-sm hover:bg-teal-100 dark:hover:bg-teal-900/30 rounded-xl transition-colors"
+            >
+                <Pencil size={16} />
+                <span>{t('Edit Transaction')}</span>
+            </button>
+
             <button 
                 onClick={() => {
                     // Rely on parent's onDelete logic for undo/confirm behavior
@@ -112,6 +245,9 @@ const TransactionDetailsModal: React.FC<TransactionDetailsModalProps> = ({ item,
             </button>
         </div>
       </div>
+      {showReceipt && item.type === 'income' && (
+          <RentReceiptModal income={item} onClose={() => setShowReceipt(false)} />
+      )}
     </div>
   );
 };
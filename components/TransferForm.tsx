@@ -0,0 +1,151 @@
+import React, { useState } from 'react';
+import { useData } from '../contexts/DataContext';
+import { X, ArrowDown, Calendar as CalendarIcon } from 'lucide-react';
+import AccountPicker from './AccountPicker';
+import DatePicker from './DatePicker';
+
+interface TransferFormProps {
+  onClose: () => void;
+  fromAccountId?: string;
+  toAccountId?: string;
+  initialAmount?: number;
+  initialNote?: string;
+  title?: string;
+}
+
+// Moves money between two of the user's accounts, e.g. an ATM withdrawal, a UPI Lite top-up or a credit card bill payment
+const TransferForm: React.FC<TransferFormProps> = ({ onClose, fromAccountId, toAccountId, initialAmount, initialNote, title }) => {
+  const { accounts, addTransfer, currency, t } = useData();
+  const active = accounts.filter(a => !a.archived);
+  const initialFrom = fromAccountId || active.find(a => a.id !== toAccountId && a.type !== 'Credit Card')?.id || active[0]?.id || '';
+  const [fromId, setFromId] = useState(initialFrom);
+  const [toId, setToId] = useState(toAccountId || active.find(a => a.id !== initialFrom)?.id || '');
+  const [amount, setAmount] = useState(initialAmount ? initialAmount.toString() : '');
+  const [date, setDate] = useState(new Date().toISOString().split('T')[0]);
+  const [note, setNote] = useState(initialNote || '');
+  const [error, setError] = useState('');
+  const [showDatePicker, setShowDatePicker] = useState(false);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!amount || parseFloat(amount) <= 0) {
+        setError(t('Valid amount required'));
+        return;
+    }
+    if (!fromId || !toId || fromId === toId) {
+        setError(t('Choose two different accounts'));
+        return;
+    }
+
+    addTransfer({
+      fromAccountId: fromId,
+      toAccountId: toId,
+      amount: parseFloat(amount),
+      date,
+      note: note.trim() || undefined,
+    });
+    onClose();
+  };
+
+  const handleDateSelect = (selectedDate: Date) => {
+      const year = selectedDate.getFullYear();
+      const month = selectedDate.getMonth();
+      const day = selectedDate.getDate();
+      setDate(`${year}-${String(month + 1).padStart(2, '0')}-${String(day).padStart(2, '0')}`);
+  };
+
+  return (
+    <div
+      className="fixed inset-0 bg-black/50 z-50 flex items-end sm:items-center justify-center animate-fade-in backdrop-blur-sm"
+      onClick={onClose}
+    >
+      <div
+        className="bg-white dark:bg-slate-800 w-full sm:max-w-md sm:rounded-2xl rounded-t-2xl px-6 pt-6 pb-[calc(2rem+env(safe-area-inset-bottom))] sm:pb-6 shadow-xl max-h-[90vh] h-auto overflow-y-auto no-scrollbar"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex justify-between items-center mb-6">
+          <h2 className="text-xl font-bold text-gray-800 dark:text-white">{title || t('Transfer Money')}</h2>
+          <button onClick={onClose} className="p-2 bg-gray-100 dark:bg-slate-700 rounded-full hover:bg-gray-200 dark:hover:bg-slate-600 transition-colors">
+            <X size={20} className="text-gray-600 dark:text-slate-300" />
+          </button>
+        </div>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-slate-300 mb-1">{t('From')}</label>
+            <AccountPicker value={fromId} excludeId={toId} onChange={(account) => { setFromId(account.id); setError(''); }} />
+          </div>
+
+          <div className="flex justify-center text-gray-400">
+            <ArrowDown size={18} />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-slate-300 mb-1">{t('To')}</label>
+            <AccountPicker value={toId} excludeId={fromId} onChange={(account) => { setToId(account.id); setError(''); }} />
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+                <label className="block text-sm font-medium text-gray-700 dark:text-slate-300 mb-1">{t('Amount')}</label>
+                <div className="relative">
+                    <span className="absolute left-3 top-3.5 text-gray-400 dark:text-slate-400 font-bold">{currency}</span>
+                    <input
+                        type="number"
+                        step="0.01"
+                        value={amount}
+                        onChange={(e) => { setAmount(e.target.value); setError(''); }}
+                        className="w-full pl-8 pr-4 py-3 bg-gray-50 dark:bg-slate-700 border border-gray-200 dark:border-slate-600 rounded-xl focus:outline-none focus:ring-2 focus:ring-teal-500 font-semibold text-gray-900 dark:text-white"
+                        placeholder="0.00"
+                    />
+                </div>
+            </div>
+            <div>
+                <label className="block text-sm font-medium text-gray-700 dark:text-slate-300 mb-1">{t('Date')}</label>
+                <button
+                    type="button"
+                    onClick={() => setShowDatePicker(true)}
+                    className="w-full px-4 py-3 bg-gray-50 dark:bg-slate-700 border border-gray-200 dark:border-slate-600 rounded-xl flex items-center justify-between text-left focus:outline-none focus:ring-2 focus:ring-teal-500"
+                >
+                    <span className="text-sm text-gray-900 dark:text-white truncate">
+                        {new Date(`${date}T00:00:00`).toLocaleDateString(undefined, { month: 'short', day: 'numeric', year: 'numeric' })}
+                    </span>
+                    <CalendarIcon size={18} className="text-gray-400 dark:text-slate-400 shrink-0" />
+                </button>
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-slate-300 mb-1">{t('Note')}</label>
+            <input
+                type="text"
+                value={note}
+                onChange={(e) => setNote(e.target.value)}
+                className="w-full px-4 py-3 bg-gray-50 dark:bg-slate-700 border border-gray-200 dark:border-slate-600 rounded-xl focus:outline-none focus:ring-2 focus:ring-teal-500 text-gray-900 dark:text-white"
+                placeholder="e.g., ATM withdrawal"
+            />
+          </div>
+
+          {error && <p className="text-red-500 text-xs">{error}</p>}
+
+          <button
+            type="submit"
+            className="w-full bg-teal-600 text-white py-4 rounded-xl font-bold text-lg hover:bg-teal-700 shadow-lg shadow-teal-600/20 transition-transform active:scale-[0.98] mt-2"
+          >
+            {t('Save Transfer')}
+          </button>
+        </form>
+
+        <DatePicker
+            isOpen={showDatePicker}
+            onClose={() => setShowDatePicker(false)}
+            onSelect={handleDateSelect}
+            initialDate={new Date(`${date}T00:00:00`)}
+            title={t('Date')}
+        />
+      </div>
+    </div>
+  );
+};
+
+export default TransferForm;
@@ -0,0 +1,86 @@
+import React, { useMemo } from 'react';
+import { useData } from '../contexts/DataContext';
+import { formatRecurrence } from '../utils/recurrence';
+import { Repeat, SkipForward, Pause, Play, XCircle } from 'lucide-react';
+
+const MAX_UPCOMING = 5;
+
+// Dashboard card listing the next occurrence of each recurring expense, with series controls
+const UpcomingBills: React.FC = () => {
+  const { recurringExpenses, skipRecurringExpense, pauseRecurringExpense, resumeRecurringExpense, endRecurringExpense, currency, t } = useData();
+
+  const upcoming = useMemo(() => {
+    return recurringExpenses
+      .filter(s => s.status !== 'Ended')
+      .sort((a, b) => a.nextDate.localeCompare(b.nextDate))
+      .slice(0, MAX_UPCOMING);
+  }, [recurringExpenses]);
+
+  const handleEnd = (id: string) => {
+    if (window.confirm(t('end_series_confirm'))) {
+      endRecurringExpense(id);
+    }
+  };
+
+  if (upcoming.length === 0) return null;
+
+  return (
+    <div>
+        <div className="flex justify-between items-center mb-2 px-1">
+            <h3 className="font-bold text-gray-800 dark:text-white">{t('Upcoming Bills')}</h3>
+        </div>
+        <div className="space-y-3">
+            {upcoming.map(series => {
+                const isPaused = series.status === 'Paused';
+                return (
+                    <div key={series.id} className={`bg-white dark:bg-slate-800 p-3 rounded-xl shadow-sm border border-slate-50 dark:border-slate-700 ${isPaused ? 'opacity-60' : ''}`}>
+                        <div className="flex justify-between items-center">
+                            <div className="flex items-center space-x-3 min-w-0">
+                                <div className="w-8 h-8 rounded-full flex items-center justify-center bg-red-50 text-red-500 dark:bg-red-900/20 dark:text-red-400 shrink-0">
+                                    <Repeat size={14} />
+                                </div>
+                                <div className="min-w-0">
+                                    <div className="font-medium text-sm text-gray-800 dark:text-white truncate max-w-[150px]">{series.description}</div>
+                                    <div className="text-xs text-gray-400 dark:text-slate-500">
+                                        {isPaused
+                                            ? t('Paused')
+                                            : `${new Date(series.nextDate).toLocaleDateString(undefined, { month: 'short', day: 'numeric' })} • ${formatRecurrence(series.recurrence, series.recurrenceRule, t)}`}
+                                    </div>
+                                </div>
+                            </div>
+                            <span className="font-bold text-gray-800 dark:text-white text-sm">{currency}{series.amount.toFixed(2)}</span>
+                        </div>
+                        <div className="flex justify-end gap-2 mt-2">
+                            {!isPaused && (
+                                <button
+                                    onClick={() => skipRecurringExpense(series.id)}
+                                    className="flex items-center space-x-1 px-2 py-1 rounded-lg text-xs font-medium bg-gray-100 dark:bg-slate-700 text-gray-600 dark:text-slate-300 hover:bg-gray-200 dark:hover:bg-slate-600 transition-colors"
+                                >
+                                    <SkipForward size={12} />
+                                    <span>{t('Skip')}</span>
+                                </button>
+                            )}
+                            <button
+                                onClick={() => isPaused ? resumeRecurringExpense(series.id) : pauseRecurringExpense(series.id)}
+                                className="flex items-center space-x-1 px-2 py-1 rounded-lg text-xs font-medium bg-gray-100 dark:bg-slate-700 text-gray-600 dark:text-slate-300 hover:bg-gray-200 dark:hover:bg-slate-600 transition-colors"
+                            >
+                                {isPaused ? <Play size={12} /> : <Pause size={12} />}
+                                <span>{isPaused ? t('Resume') : t('Pause')}</span>
+                            </button>
+                            <button
+                                onClick={() => handleEnd(series.id)}
+                                className="flex items-center space-x-1 px-2 py-1 rounded-lg text-xs font-medium bg-red-50 dark:bg-red-900/20 text-red-500 dark:text-red-400 hover:bg-red-100 dark:hover:bg-red-900/30 transition-colors"
+                            >
+                                <XCircle size={12} />
+                                <span>{t('End')}</span>
+                            </button>
+                        </div>
+                    </div>
+                );
+            })}
+        </div>
+    </div>
+  );
+};
+
+export default UpcomingBills;
@@ -1,9 +1,23 @@
 
-import React, { createContext, useContext, useState, useEffect, ReactNode } from 'react';
-import { Expense, Budget, Category, UserContext, UserProfile, ChatMessage, Income, IncomeCategory, IncomeStatus, LocalBackup } from '../types';
+import React, { createContext, useContext, useState, useEffect, useRef, ReactNode } from 'react';
+import { Expense, Budget, Category, UserContext, UserProfile, ChatMessage, Income, IncomeCategory, IncomeStatus, LocalBackup, RecurringExpense, Property, Tenant, MoneyAccount, Transfer, CategoryDefinition, Contact, ExpenseGroup, Settlement, Loan, LoanRepayment, EmiPlan, EmiPrepayment, SavingsGoal, GoalContribution, IncomePayment, ReminderLog, ReminderTemplates, NotificationSettings } from '../types';
 import { t } from '../utils/translations';
-import { encryptData, decryptData } from '../utils/security';
+import { obfuscateData, deobfuscateData, encryptBackup, decryptBackup, hashPassword, verifyPassword } from '../utils/security';
 import { sendBackupEmail, sendExportEmail } from '../services/emailService';
+import { ledgerRepository, StoreName } from '../services/storageService';
+import { getOutstandingBalance, deriveIncomeStatus } from '../utils/incomeLedger';
+import { incomeStatusEngine, refreshIncomeStatuses, IncomeStatusListener } from '../services/incomeStatusEngine';
+import { getEscalatedAmount } from '../utils/rentTerms';
+import { getDefaultAccountId } from '../utils/accounts';
+import { getCategoryName } from '../utils/categories';
+import { formatTag } from '../utils/tags';
+import { SELF_ID } from '../utils/sharing';
+import { createEmiSeries, syncEmiSeries } from '../utils/emi';
+import { applyGoalRules } from '../utils/goals';
+import { getNextDate, getNextOccurrence, generateDueExpenses, skipOccurrence, resumeSeries } from '../utils/recurrence';
+import { getDueAlerts, getNotificationSettings, isWithinQuietHours } from '../utils/notifications';
+import { deliverAlerts, startNotificationScheduler } from '../services/notificationService';
+import { migrateLedgerData, migrateBackup, formatBackupVersion, BASE_DATA_VERSION, CURRENT_DATA_VERSION } from '../utils/migrations';
 
 export type Theme = 'light' | 'dark';
 
@@ -11,17 +25,79 @@ interface DataContextType {
   expenses: Expense[];
   incomes: Income[];
   budgets: Budget[];
+  recurringExpenses: RecurringExpense[];
+  properties: Property[];
+  tenants: Tenant[];
+  accounts: MoneyAccount[];
+  transfers: Transfer[];
+  categories: CategoryDefinition[];
+  contacts: Contact[];
+  groups: ExpenseGroup[];
+  settlements: Settlement[];
+  loans: Loan[];
+  emiPlans: EmiPlan[];
+  goals: SavingsGoal[];
   addExpense: (expense: Omit<Expense, 'id' | 'createdAt'>) => void;
+  updateExpense: (id: string, updates: Omit<Expense, 'id' | 'createdAt'>) => void;
   deleteExpense: (id: string) => void;
   restoreExpense: (expense: Expense) => void;
+  skipRecurringExpense: (id: string) => void;
+  pauseRecurringExpense: (id: string) => void;
+  resumeRecurringExpense: (id: string) => void;
+  endRecurringExpense: (id: string) => void;
   addIncome: (income: Omit<Income, 'id' | 'createdAt' | 'status'>) => void;
+  updateIncome: (id: string, updates: Omit<Income, 'id' | 'createdAt' | 'status'>) => void;
   deleteIncome: (id: string) => void;
   restoreIncome: (income: Income) => void;
   markIncomeReceived: (id: string) => void;
+  recordIncomePayment: (id: string, amount?: number, date?: string) => void;
+  deleteIncomePayment: (incomeId: string, paymentId: string) => void;
+  logIncomeReminder: (incomeId: string, reminder: Omit<ReminderLog, 'id' | 'sentAt'>) => void;
+  subscribeToIncomeStatus: (listener: IncomeStatusListener) => () => void;
+  addProperty: (property: Omit<Property, 'id' | 'createdAt'>) => void;
+  updateProperty: (id: string, updates: Omit<Property, 'id' | 'createdAt'>) => void;
+  deleteProperty: (id: string) => void;
+  addTenant: (tenant: Omit<Tenant, 'id' | 'createdAt'>) => void;
+  updateTenant: (id: string, updates: Omit<Tenant, 'id' | 'createdAt'>) => void;
+  deleteTenant: (id: string) => void;
+  addAccount: (account: Omit<MoneyAccount, 'id' | 'createdAt'>) => void;
+  updateAccount: (id: string, updates: Omit<MoneyAccount, 'id' | 'createdAt'>) => void;
+  deleteAccount: (id: string) => void;
+  addTransfer: (transfer: Omit<Transfer, 'id' | 'createdAt'>) => void;
+  deleteTransfer: (id: string) => void;
+  addCategory: (category: Omit<CategoryDefinition, 'id' | 'createdAt'>) => void;
+  updateCategory: (id: string, updates: Omit<CategoryDefinition, 'id' | 'createdAt'>) => void;
+  deleteCategory: (id: string) => void;
+  addContact: (contact: Omit<Contact, 'id' | 'createdAt'>) => string;
+  updateContact: (id: string, updates: Omit<Contact, 'id' | 'createdAt'>) => void;
+  deleteContact: (id: string) => void;
+  addGroup: (group: Omit<ExpenseGroup, 'id' | 'createdAt'>) => void;
+  updateGroup: (id: string, updates: Omit<ExpenseGroup, 'id' | 'createdAt'>) => void;
+  deleteGroup: (id: string) => void;
+  addSettlement: (settlement: Omit<Settlement, 'id' | 'createdAt'>) => void;
+  deleteSettlement: (id: string) => void;
+  addLoan: (loan: Omit<Loan, 'id' | 'createdAt' | 'repayments' | 'reminders'>) => void;
+  updateLoan: (id: string, updates: Omit<Loan, 'id' | 'createdAt' | 'repayments' | 'reminders'>) => void;
+  deleteLoan: (id: string) => void;
+  recordLoanRepayment: (loanId: string, repayment: Omit<LoanRepayment, 'id' | 'createdAt'>) => void;
+  deleteLoanRepayment: (loanId: string, repaymentId: string) => void;
+  logLoanReminder: (loanId: string, reminder: Omit<ReminderLog, 'id' | 'sentAt'>) => void;
+  addEmiPlan: (plan: Omit<EmiPlan, 'id' | 'createdAt' | 'seriesId' | 'prepayments'>) => void;
+  updateEmiPlan: (id: string, updates: Omit<EmiPlan, 'id' | 'createdAt' | 'seriesId' | 'prepayments'>) => void;
+  deleteEmiPlan: (id: string) => void;
+  addEmiPrepayment: (planId: string, prepayment: Omit<EmiPrepayment, 'id' | 'createdAt'>) => void;
+  deleteEmiPrepayment: (planId: string, prepaymentId: string) => void;
+  addGoal: (goal: Omit<SavingsGoal, 'id' | 'createdAt' | 'contributions'>) => void;
+  updateGoal: (id: string, updates: Omit<SavingsGoal, 'id' | 'createdAt' | 'contributions'>) => void;
+  deleteGoal: (id: string) => void;
+  addGoalContribution: (goalId: string, contribution: Omit<GoalContribution, 'id' | 'createdAt' | 'incomeId'>) => void;
+  deleteGoalContribution: (goalId: string, contributionId: string) => void;
   setBudget: (category: Category, limit: number) => void;
   getBudget: (category: Category) => number;
   currency: string;
   setCurrency: (symbol: string) => void;
+  setReminderTemplates: (templates: ReminderTemplates) => void;
+  setNotificationSettings: (settings: NotificationSettings) => void;
   userName: string;
   setUserName: (name: string) => void;
   setProfilePicture: (image: string) => void;
@@ -33,10 +109,10 @@ interface DataContextType {
   loginIdentifier: string;
   login: (identifier: string, password?: string) => Promise<boolean>;
   startSignup: (identifier: string) => boolean;
-  completeOnboarding: (details: Partial<UserProfile>) => void;
+  completeOnboarding: (details: Partial<UserProfile>) => Promise<void>;
   logout: () => void;
   checkUserExists: (identifier: string) => boolean;
-  resetPassword: (identifier: string, newPassword: string) => boolean;
+  resetPassword: (identifier: string, newPassword: string) => Promise<boolean>;
   language: string;
   setLanguage: (lang: string) => void;
   t: (key: string) => string;
@@ -44,6 +120,7 @@ interface DataContextType {
   chatHistory: ChatMessage[];
   addChatMessage: (message: ChatMessage) => void;
   backupData: (customKey?: string) => Promise<void>;
+  canUseLoginPasswordForBackup: boolean; // False when there is no login password to fall back on, so a backup key is required
   exportData: () => Promise<void>;
   importData: (file: File, customKey?: string) => Promise<boolean>;
   restoreUserFromBackup: (file: File | string, customKey?: string) => Promise<boolean>;
@@ -55,8 +132,8 @@ interface DataContextType {
   checkBiometricAvailability: (identifier: string) => boolean;
   isBiometricSupported: boolean;
   updateProfileState: (profile: UserProfile) => void;
-  getLocalBackups: () => LocalBackup[];
-  deleteLocalBackup: (id: string) => void;
+  getLocalBackups: () => Promise<LocalBackup[]>;
+  deleteLocalBackup: (id: string) => Promise<void>;
   loadDemoData: () => void;
 }
 
@@ -72,6 +149,22 @@ const STORAGE_KEY_IDENTITY_MAP = 'kanakku_identity_map'; // Maps identifier -> u
 const STORAGE_KEY_PROFILES_ENCRYPTED = 'kanakku_profiles_encrypted'; // Maps userId -> Encrypted UserProfile
 const STORAGE_KEY_CURRENT_USER_ID = 'kanakku_current_user_id';
 const STORAGE_KEY_LOCAL_BACKUPS = 'kanakku_local_backups';
+const STORAGE_KEY_CHAT_HISTORY = 'kanakku_chat_history';
+
+// Keys whose data belongs to a single user. Older builds kept them in localStorage as `<key>_<userId>`
+// (and before that globally, migrated to the first profile). They now live in IndexedDB stores.
+const USER_SCOPED_KEYS = [STORAGE_KEY_EXPENSES, STORAGE_KEY_INCOMES, STORAGE_KEY_BUDGETS, STORAGE_KEY_CHAT_HISTORY, STORAGE_KEY_LOCAL_BACKUPS];
+const LEGACY_KEY_STORES: [string, StoreName][] = [
+    [STORAGE_KEY_EXPENSES, 'expenses'],
+    [STORAGE_KEY_INCOMES, 'incomes'],
+    [STORAGE_KEY_BUDGETS, 'budgets'],
+    [STORAGE_KEY_CHAT_HISTORY, 'chat'],
+    [STORAGE_KEY_LOCAL_BACKUPS, 'backups'],
+];
+
+const MAX_LOCAL_BACKUPS = 5;
+
+const getUserKey = (key: string, userId: string) => `${key}_${userId}`;
 
 // Default budgets removed for new users as requested
 const DEFAULT_BUDGETS: Budget[] = [];
@@ -85,36 +178,111 @@ const getLocalToday = () => {
     return `${year}-${month}-${day}`;
 };
 
-// Helper to calculate next recurring date safely
-const getNextDate = (dateStr: string, recurrence: string): string => {
-    // Create date from string parts to avoid UTC shifting
-    const parts = dateStr.split('-');
-    const year = parseInt(parts[0]);
-    const monthIndex = parseInt(parts[1]) - 1;
-    const day = parseInt(parts[2]);
-    
-    const d = new Date(year, monthIndex, day);
-    
-    if (recurrence === 'Monthly') {
-        d.setMonth(d.getMonth() + 1);
-        // Handle month end overflow (e.g. Jan 31 -> Feb 28/29)
-        if (d.getDate() !== day) {
-             d.setDate(0); // Set to last day of previous month
+// Helper to read the decrypted profiles map (userId -> UserProfile)
+const readProfiles = (): Record<string, UserProfile> => {
+    const encryptedProfiles = localStorage.getItem(STORAGE_KEY_PROFILES_ENCRYPTED);
+    return (encryptedProfiles && deobfuscateData(encryptedProfiles)) || {};
+};
+
+// Helper to list every user id known on this device
+const getKnownUserIds = (): string[] => {
+    const identityMap: Record<string, string> = JSON.parse(localStorage.getItem(STORAGE_KEY_IDENTITY_MAP) || '{}');
+    return Array.from(new Set([...Object.values(identityMap), ...Object.keys(readProfiles())]));
+};
+
+// One-time move of pre-partitioning global data into the first profile's namespace.
+// Does nothing until at least one profile exists, so it is also re-run after onboarding.
+const migrateLegacyStorage = () => {
+    const legacyKeys = USER_SCOPED_KEYS.filter(key => localStorage.getItem(key) !== null);
+    if (legacyKeys.length === 0) return;
+
+    const firstUserId = Object.keys(readProfiles())[0];
+    if (!firstUserId) return;
+
+    legacyKeys.forEach(key => {
+        const scopedKey = getUserKey(key, firstUserId);
+        // Never overwrite data the user already has in their own namespace
+        if (localStorage.getItem(scopedKey) === null) {
+            localStorage.setItem(scopedKey, localStorage.getItem(key) as string);
         }
-    } else if (recurrence === 'Yearly') {
-        d.setFullYear(d.getFullYear() + 1);
+        localStorage.removeItem(key);
+    });
+};
+
+// One-time move of a user's localStorage data into IndexedDB. Keys are removed once copied.
+const importLegacyUserData = async (userId: string) => {
+    for (const [key, store] of LEGACY_KEY_STORES) {
+        const scopedKey = getUserKey(key, userId);
+        const stored = localStorage.getItem(scopedKey);
+        if (stored === null) continue;
+        await ledgerRepository.putMany(store, userId, JSON.parse(stored));
+        localStorage.removeItem(scopedKey);
     }
-    
-    const y = d.getFullYear();
-    const m = String(d.getMonth() + 1).padStart(2, '0');
-    const dt = String(d.getDate()).padStart(2, '0');
-    return `${y}-${m}-${dt}`;
+};
+
+const SCHEMA_VERSION_KEY = 'schemaVersion';
+
+// Upgrades a user's stored records to the current shape before they are loaded into state
+const migrateUserData = async (userId: string) => {
+    const meta = await ledgerRepository.getAll('meta', userId);
+    const storedVersion = Number(meta.find(m => m.key === SCHEMA_VERSION_KEY)?.value ?? BASE_DATA_VERSION);
+    if (storedVersion === CURRENT_DATA_VERSION) return;
+
+    const [expenses, incomes, budgets, recurringExpenses, properties, tenants, accounts, transfers, categories, contacts, groups, settlements, loans, emiPlans, goals] = await Promise.all([
+        ledgerRepository.getAll('expenses', userId),
+        ledgerRepository.getAll('incomes', userId),
+        ledgerRepository.getAll('budgets', userId),
+        ledgerRepository.getAll('recurringExpenses', userId),
+        ledgerRepository.getAll('properties', userId),
+        ledgerRepository.getAll('tenants', userId),
+        ledgerRepository.getAll('accounts', userId),
+        ledgerRepository.getAll('transfers', userId),
+        ledgerRepository.getAll('categories', userId),
+        ledgerRepository.getAll('contacts', userId),
+        ledgerRepository.getAll('groups', userId),
+        ledgerRepository.getAll('settlements', userId),
+        ledgerRepository.getAll('loans', userId),
+        ledgerRepository.getAll('emiPlans', userId),
+        ledgerRepository.getAll('goals', userId),
+    ]);
+    // Throws UNSUPPORTED_VERSION for data from a newer build, leaving it untouched
+    const migrated = migrateLedgerData({ expenses, incomes, budgets, recurringExpenses, properties, tenants, accounts, transfers, categories, contacts, groups, settlements, loans, emiPlans, goals }, storedVersion);
+
+    // Synced against what was read so records a migration drops or rekeys are deleted, not left behind
+    await ledgerRepository.sync('expenses', userId, expenses, migrated.expenses);
+    await ledgerRepository.sync('incomes', userId, incomes, migrated.incomes);
+    await ledgerRepository.sync('budgets', userId, budgets, migrated.budgets);
+    await ledgerRepository.sync('recurringExpenses', userId, recurringExpenses, migrated.recurringExpenses);
+    await ledgerRepository.sync('properties', userId, properties, migrated.properties);
+    await ledgerRepository.sync('tenants', userId, tenants, migrated.tenants);
+    await ledgerRepository.sync('accounts', userId, accounts, migrated.accounts);
+    await ledgerRepository.sync('transfers', userId, transfers, migrated.transfers);
+    await ledgerRepository.sync('categories', userId, categories, migrated.categories);
+    await ledgerRepository.sync('contacts', userId, contacts, migrated.contacts);
+    await ledgerRepository.sync('groups', userId, groups, migrated.groups);
+    await ledgerRepository.sync('settlements', userId, settlements, migrated.settlements);
+    await ledgerRepository.sync('loans', userId, loans, migrated.loans);
+    await ledgerRepository.sync('emiPlans', userId, emiPlans, migrated.emiPlans);
+    await ledgerRepository.sync('goals', userId, goals, migrated.goals);
+    await ledgerRepository.put('meta', userId, { key: SCHEMA_VERSION_KEY, value: CURRENT_DATA_VERSION });
 };
 
 export const DataProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
   const [expenses, setExpenses] = useState<Expense[]>([]);
   const [incomes, setIncomes] = useState<Income[]>([]);
   const [budgets, setBudgets] = useState<Budget[]>([]);
+  const [recurringExpenses, setRecurringExpenses] = useState<RecurringExpense[]>([]);
+  const [properties, setProperties] = useState<Property[]>([]);
+  const [tenants, setTenants] = useState<Tenant[]>([]);
+  const [accounts, setAccounts] = useState<MoneyAccount[]>([]);
+  const [transfers, setTransfers] = useState<Transfer[]>([]);
+  const [categories, setCategories] = useState<CategoryDefinition[]>([]);
+  const [contacts, setContacts] = useState<Contact[]>([]);
+  const [groups, setGroups] = useState<ExpenseGroup[]>([]);
+  const [settlements, setSettlements] = useState<Settlement[]>([]);
+  const [loans, setLoans] = useState<Loan[]>([]);
+  const [emiPlans, setEmiPlans] = useState<EmiPlan[]>([]);
+  const [goals, setGoals] = useState<SavingsGoal[]>([]);
   const [theme, setThemeState] = useState<Theme>('light');
   
   // Auth & Profile State
@@ -127,6 +295,9 @@ export const DataProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
   // Chat History State
   const [chatHistory, setChatHistory] = useState<ChatMessage[]>([]);
 
+  // Calendar day the income statuses were last derived for (advanced by the status engine)
+  const [statusDate, setStatusDate] = useState(() => incomeStatusEngine.tick());
+
   // Sync Auth State
   const [isSyncAuthRequired, setIsSyncAuthRequired] = useState<boolean>(false);
 
@@ -137,56 +308,163 @@ export const DataProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
   const currency = userProfile?.currency || '₹';
   const userName = userProfile?.name || '';
   const language = userProfile?.language || 'en';
+  // All ledger data is read from and written to this user's namespace
+  const activeUserId = userProfile?.id;
+
+  // What the repository currently holds for the active user; state changes are diffed against it
+  const persisted = useRef({
+    expenses: [] as Expense[],
+    incomes: [] as Income[],
+    budgets: DEFAULT_BUDGETS,
+    recurringExpenses: [] as RecurringExpense[],
+    properties: [] as Property[],
+    tenants: [] as Tenant[],
+    accounts: [] as MoneyAccount[],
+    transfers: [] as Transfer[],
+    categories: [] as CategoryDefinition[],
+    contacts: [] as Contact[],
+    groups: [] as ExpenseGroup[],
+    settlements: [] as Settlement[],
+    loans: [] as Loan[],
+    emiPlans: [] as EmiPlan[],
+    goals: [] as SavingsGoal[],
+    chat: [] as ChatMessage[],
+  });
+  // Incremented on every dataset swap so a slow load can't overwrite a newer login/logout
+  const loadRequest = useRef(0);
+  // User whose dataset is in state; set once loading has finished
+  const [loadedUserId, setLoadedUserId] = useState<string | null>(null);
+  // The verified password of this session, kept in memory only (profiles store just its hash).
+  // Used as the default backup passphrase; empty after a reload or biometric login.
+  // Always changed together with the profile, so reading it while rendering stays current.
+  const sessionPassword = useRef('');
+
+  // Swap in the dataset that belongs to the given user
+  const loadUserData = async (userId: string) => {
+    const requestId = ++loadRequest.current;
+    try {
+      await importLegacyUserData(userId);
+      await migrateUserData(userId);
+    } catch (e: any) {
+      console.error("Stored data import or migration failed", e);
+      if (requestId === loadRequest.current) {
+        alert(t(language, e.message === 'UNSUPPORTED_VERSION' ? 'data_version_unsupported' : 'data_migration_failed'));
+      }
+      return;
+    }
+
+    const [storedExpenses, storedIncomes, storedBudgets, storedSeries, storedProperties, storedTenants, storedAccounts, storedTransfers, storedCategories, storedContacts, storedGroups, storedSettlements, storedLoans, storedEmiPlans, storedGoals, storedChat] = await Promise.all([
+      ledgerRepository.getAll('expenses', userId),
+      ledgerRepository.getAll('incomes', userId),
+      ledgerRepository.getAll('budgets', userId),
+      ledgerRepository.getAll('recurringExpenses', userId),
+      ledgerRepository.getAll('properties', userId),
+      ledgerRepository.getAll('tenants', userId),
+      ledgerRepository.getAll('accounts', userId),
+      ledgerRepository.getAll('transfers', userId),
+      ledgerRepository.getAll('categories', userId),
+      ledgerRepository.getAll('contacts', userId),
+      ledgerRepository.getAll('groups', userId),
+      ledgerRepository.getAll('settlements', userId),
+      ledgerRepository.getAll('loans', userId),
+      ledgerRepository.getAll('emiPlans', userId),
+      ledgerRepository.getAll('goals', userId),
+      ledgerRepository.getAll('chat', userId),
+    ]);
+    if (requestId !== loadRequest.current) return;
+
+    // Records come back in key order; restore newest-first lists and chronological chat
+    storedExpenses.sort((a, b) => b.createdAt - a.createdAt);
+    storedIncomes.sort((a, b) => b.createdAt - a.createdAt);
+    storedSeries.sort((a, b) => a.nextDate.localeCompare(b.nextDate));
+    storedProperties.sort((a, b) => a.createdAt - b.createdAt);
+    storedTenants.sort((a, b) => a.createdAt - b.createdAt);
+    storedAccounts.sort((a, b) => a.createdAt - b.createdAt);
+    storedTransfers.sort((a, b) => b.createdAt - a.createdAt);
+    storedCategories.sort((a, b) => a.createdAt - b.createdAt);
+    storedContacts.sort((a, b) => a.createdAt - b.createdAt);
+    storedGroups.sort((a, b) => a.createdAt - b.createdAt);
+    storedSettlements.sort((a, b) => b.createdAt - a.createdAt);
+    storedLoans.sort((a, b) => b.createdAt - a.createdAt);
+    storedEmiPlans.sort((a, b) => a.createdAt - b.createdAt);
+    storedGoals.sort((a, b) => a.createdAt - b.createdAt);
+    storedChat.sort((a, b) => a.timestamp - b.timestamp);
+
+    // Status fixes are new objects, so the save effect writes exactly those records back
+    const today = incomeStatusEngine.tick();
+    const { incomes: parsedIncomes } = refreshIncomeStatuses(storedIncomes, today);
+    // Post recurring expenses that fell due while the app was closed
+    const due = generateDueExpenses(storedSeries, today);
+    persisted.current = {
+      expenses: storedExpenses,
+      incomes: storedIncomes,
+      budgets: storedBudgets,
+      recurringExpenses: storedSeries,
+      properties: storedProperties,
+      tenants: storedTenants,
+      accounts: storedAccounts,
+      transfers: storedTransfers,
+      categories: storedCategories,
+      contacts: storedContacts,
+      groups: storedGroups,
+      settlements: storedSettlements,
+      loans: storedLoans,
+      emiPlans: storedEmiPlans,
+      goals: storedGoals,
+      chat: storedChat,
+    };
+
+    setExpenses([...due.expenses, ...storedExpenses]);
+    setIncomes(parsedIncomes);
+    setBudgets(storedBudgets.length > 0 ? storedBudgets : DEFAULT_BUDGETS);
+    setRecurringExpenses(due.series);
+    setProperties(storedProperties);
+    setTenants(storedTenants);
+    setAccounts(storedAccounts);
+    setTransfers(storedTransfers);
+    setCategories(storedCategories);
+    setContacts(storedContacts);
+    setGroups(storedGroups);
+    setSettlements(storedSettlements);
+    setLoans(storedLoans);
+    setEmiPlans(storedEmiPlans);
+    setGoals(storedGoals);
+    setChatHistory(storedChat);
+    setLoadedUserId(userId);
+  };
+
+  // Drop the in-memory dataset (e.g. on logout) so the next user starts clean
+  const clearUserData = () => {
+    loadRequest.current++;
+    persisted.current = { expenses: [], incomes: [], budgets: DEFAULT_BUDGETS, recurringExpenses: [], properties: [], tenants: [], accounts: [], transfers: [], categories: [], contacts: [], groups: [], settlements: [], loans: [], emiPlans: [], goals: [], chat: [] };
+    setExpenses([]);
+    setIncomes([]);
+    setBudgets(DEFAULT_BUDGETS);
+    setRecurringExpenses([]);
+    setProperties([]);
+    setTenants([]);
+    setAccounts([]);
+    setTransfers([]);
+    setCategories([]);
+    setContacts([]);
+    setGroups([]);
+    setSettlements([]);
+    setLoans([]);
+    setEmiPlans([]);
+    setGoals([]);
+    setChatHistory([]);
+    setLoadedUserId(null);
+  };
 
   // Load data on mount
   useEffect(() => {
-    const storedExpenses = localStorage.getItem(STORAGE_KEY_EXPENSES);
-    const storedIncomes = localStorage.getItem(STORAGE_KEY_INCOMES);
-    const storedBudgets = localStorage.getItem(STORAGE_KEY_BUDGETS);
+    migrateLegacyStorage();
+
     const storedTheme = localStorage.getItem(STORAGE_KEY_THEME);
     // Use sessionStorage for Auth so it clears when app/tab is closed
     const storedAuth = sessionStorage.getItem(STORAGE_KEY_AUTH);
     const storedCurrentUserId = localStorage.getItem(STORAGE_KEY_CURRENT_USER_ID);
 
-    if (storedExpenses) {
-      setExpenses(JSON.parse(storedExpenses));
-    } else {
-      setExpenses([]);
-    }
-
-    if (storedIncomes) {
-      let parsedIncomes: Income[] = JSON.parse(storedIncomes);
-      const today = getLocalToday();
-      let hasChanges = false;
-      
-      parsedIncomes = parsedIncomes.map(inc => {
-        // Fix 1: Mark overdue if expected and date is past
-        if (inc.status === 'Expected' && inc.date < today) {
-           hasChanges = true;
-           return { ...inc, status: 'Overdue' };
-        }
-        // Fix 2: Self-heal incorrect 'Overdue' status for future dates
-        if (inc.status === 'Overdue' && inc.date >= today) {
-           hasChanges = true;
-           return { ...inc, status: 'Expected' };
-        }
-        return inc;
-      });
-
-      setIncomes(parsedIncomes);
-      if(hasChanges) {
-          localStorage.setItem(STORAGE_KEY_INCOMES, JSON.stringify(parsedIncomes));
-      }
-    } else {
-      setIncomes([]);
-    }
-
-    if (storedBudgets) {
-      setBudgets(JSON.parse(storedBudgets));
-    } else {
-      setBudgets(DEFAULT_BUDGETS);
-    }
-
     if (storedTheme) {
       setThemeState(storedTheme as Theme);
     }
@@ -198,10 +476,11 @@ export const DataProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
       if (storedCurrentUserId) {
         const encryptedProfiles = localStorage.getItem(STORAGE_KEY_PROFILES_ENCRYPTED);
         if (encryptedProfiles) {
-            const profiles = decryptData(encryptedProfiles) || {};
+            const profiles = deobfuscateData(encryptedProfiles) || {};
             const profile = profiles[storedCurrentUserId];
             if (profile) {
                 setUserProfile(profile);
+                loadUserData(profile.id);
                 setIsOnboardingComplete(true);
             } else {
                 // Auth is true, but profile missing/incomplete -> Onboarding
@@ -225,18 +504,156 @@ export const DataProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
     }
   }, []);
 
-  // Save data on change
+  // Save data on change (only while a user is signed in). Only added, edited or removed records are written.
+  useEffect(() => {
+    if (!activeUserId) return;
+    const previous = persisted.current.expenses;
+    persisted.current.expenses = expenses;
+    ledgerRepository.sync('expenses', activeUserId, previous, expenses).catch(e => console.error("Saving expenses failed", e));
+  }, [expenses, activeUserId]);
+
+  useEffect(() => {
+    if (!activeUserId) return;
+    const previous = persisted.current.incomes;
+    persisted.current.incomes = incomes;
+    ledgerRepository.sync('incomes', activeUserId, previous, incomes).catch(e => console.error("Saving incomes failed", e));
+  }, [incomes, activeUserId]);
+
+  useEffect(() => {
+    if (!activeUserId) return;
+    const previous = persisted.current.budgets;
+    persisted.current.budgets = budgets;
+    ledgerRepository.sync('budgets', activeUserId, previous, budgets).catch(e => console.error("Saving budgets failed", e));
+  }, [budgets, activeUserId]);
+
+  useEffect(() => {
+    if (!activeUserId) return;
+    const previous = persisted.current.recurringExpenses;
+    persisted.current.recurringExpenses = recurringExpenses;
+    ledgerRepository.sync('recurringExpenses', activeUserId, previous, recurringExpenses).catch(e => console.error("Saving recurring expenses failed", e));
+  }, [recurringExpenses, activeUserId]);
+
+  useEffect(() => {
+    if (!activeUserId) return;
+    const previous = persisted.current.properties;
+    persisted.current.properties = properties;
+    ledgerRepository.sync('properties', activeUserId, previous, properties).catch(e => console.error("Saving properties failed", e));
+  }, [properties, activeUserId]);
+
+  useEffect(() => {
+    if (!activeUserId) return;
+    const previous = persisted.current.tenants;
+    persisted.current.tenants = tenants;
+    ledgerRepository.sync('tenants', activeUserId, previous, tenants).catch(e => console.error("Saving tenants failed", e));
+  }, [tenants, activeUserId]);
+
+  useEffect(() => {
+    if (!activeUserId) return;
+    const previous = persisted.current.accounts;
+    persisted.current.accounts = accounts;
+    ledgerRepository.sync('accounts', activeUserId, previous, accounts).catch(e => console.error("Saving accounts failed", e));
+  }, [accounts, activeUserId]);
+
+  useEffect(() => {
+    if (!activeUserId) return;
+    const previous = persisted.current.transfers;
+    persisted.current.transfers = transfers;
+    ledgerRepository.sync('transfers', activeUserId, previous, transfers).catch(e => console.error("Saving transfers failed", e));
+  }, [transfers, activeUserId]);
+
+  useEffect(() => {
+    if (!activeUserId) return;
+    const previous = persisted.current.categories;
+    persisted.current.categories = categories;
+    ledgerRepository.sync('categories', activeUserId, previous, categories).catch(e => console.error("Saving categories failed", e));
+  }, [categories, activeUserId]);
+
   useEffect(() => {
-    localStorage.setItem(STORAGE_KEY_EXPENSES, JSON.stringify(expenses));
-  }, [expenses]);
+    if (!activeUserId) return;
+    const previous = persisted.current.contacts;
+    persisted.current.contacts = contacts;
+    ledgerRepository.sync('contacts', activeUserId, previous, contacts).catch(e => console.error("Saving contacts failed", e));
+  }, [contacts, activeUserId]);
 
   useEffect(() => {
-    localStorage.setItem(STORAGE_KEY_INCOMES, JSON.stringify(incomes));
-  }, [incomes]);
+    if (!activeUserId) return;
+    const previous = persisted.current.groups;
+    persisted.current.groups = groups;
+    ledgerRepository.sync('groups', activeUserId, previous, groups).catch(e => console.error("Saving groups failed", e));
+  }, [groups, activeUserId]);
 
   useEffect(() => {
-    localStorage.setItem(STORAGE_KEY_BUDGETS, JSON.stringify(budgets));
-  }, [budgets]);
+    if (!activeUserId) return;
+    const previous = persisted.current.settlements;
+    persisted.current.settlements = settlements;
+    ledgerRepository.sync('settlements', activeUserId, previous, settlements).catch(e => console.error("Saving settlements failed", e));
+  }, [settlements, activeUserId]);
+
+  useEffect(() => {
+    if (!activeUserId) return;
+    const previous = persisted.current.loans;
+    persisted.current.loans = loans;
+    ledgerRepository.sync('loans', activeUserId, previous, loans).catch(e => console.error("Saving loans failed", e));
+  }, [loans, activeUserId]);
+
+  useEffect(() => {
+    if (!activeUserId) return;
+    const previous = persisted.current.emiPlans;
+    persisted.current.emiPlans = emiPlans;
+    ledgerRepository.sync('emiPlans', activeUserId, previous, emiPlans).catch(e => console.error("Saving EMI plans failed", e));
+  }, [emiPlans, activeUserId]);
+
+  useEffect(() => {
+    if (!activeUserId) return;
+    const previous = persisted.current.goals;
+    persisted.current.goals = goals;
+    ledgerRepository.sync('goals', activeUserId, previous, goals).catch(e => console.error("Saving goals failed", e));
+  }, [goals, activeUserId]);
+
+  useEffect(() => {
+    if (!activeUserId) return;
+    const previous = persisted.current.chat;
+    persisted.current.chat = chatHistory;
+    ledgerRepository.sync('chat', activeUserId, previous, chatHistory).catch(e => console.error("Saving chat history failed", e));
+  }, [chatHistory, activeUserId]);
+
+  // Keep statuses current while the app stays open: the engine reports a new day on its timer or when
+  // the app comes back to the foreground, and every change to the income list is re-evaluated too.
+  useEffect(() => {
+    if (!activeUserId) return;
+    const unsubscribe = incomeStatusEngine.subscribe(event => {
+      if (event.type === 'dayChange') setStatusDate(event.today);
+    });
+    const stop = incomeStatusEngine.start();
+    return () => {
+      stop();
+      unsubscribe();
+    };
+  }, [activeUserId]);
+
+  useEffect(() => {
+    const { incomes: refreshed, changes } = incomeStatusEngine.evaluate(incomes, statusDate);
+    if (changes.length > 0) setIncomes(prev => prev === incomes ? refreshed : prev);
+  }, [incomes, statusDate]);
+
+  const subscribeToIncomeStatus = (listener: IncomeStatusListener) => incomeStatusEngine.subscribe(listener);
+
+  // Rent, bill and credit card reminders; already shown alerts are skipped. Each check reads the latest
+  // data from the ref, so editing entries doesn't restart the timer.
+  const notificationSettings = getNotificationSettings(userProfile?.notificationSettings);
+  const reminderData = useRef({ incomes, recurringExpenses, accounts, expenses, transfers, settlements, loans, emiPlans, contacts, categories, statusDate, currency, language });
+  reminderData.current = { incomes, recurringExpenses, accounts, expenses, transfers, settlements, loans, emiPlans, contacts, categories, statusDate, currency, language };
+  useEffect(() => {
+    // Waits for the user's data, so the first check doesn't run against an empty ledger
+    if (!activeUserId || loadedUserId !== activeUserId || !notificationSettings.enabled) return;
+    return startNotificationScheduler(() => {
+      if (isWithinQuietHours(new Date(), notificationSettings)) return;
+      const { incomes, recurringExpenses, accounts, expenses, transfers, settlements, loans, emiPlans, contacts, categories, statusDate, currency, language } = reminderData.current;
+      const alerts = getDueAlerts({ incomes, recurringExpenses, accounts, expenses, transfers, settlements, loans, emiPlans, contacts, categories }, notificationSettings, { today: statusDate, currency, language });
+      deliverAlerts(activeUserId, alerts).catch(e => console.error("Showing reminders failed", e));
+    });
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [activeUserId, loadedUserId, userProfile?.notificationSettings]);
 
   // Apply theme to DOM
   useEffect(() => {
@@ -249,7 +666,15 @@ export const DataProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
     localStorage.setItem(STORAGE_KEY_THEME, theme);
   }, [theme]);
 
-  const addExpense = (expense: Omit<Expense, 'id' | 'createdAt'>) => {
+  const addExpense = (input: Omit<Expense, 'id' | 'createdAt'>) => {
+    // Entries saved without an account (e.g. from the AI assistant) post to the default one for their payment method.
+    // A shared bill a friend paid never touched the user's accounts.
+    const paidByFriend = !!input.sharing && input.sharing.paidBy !== SELF_ID;
+    const expense = { ...input, accountId: paidByFriend ? undefined : input.accountId || getDefaultAccountId(accounts, input.paymentMethod) };
+    if (expense.recurrence && expense.recurrence !== 'None') {
+      addRecurringExpense(expense);
+      return;
+    }
     const newExpense: Expense = {
       ...expense,
       id: crypto.randomUUID(),
@@ -258,6 +683,66 @@ export const DataProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
     setExpenses(prev => [newExpense, ...prev]);
   };
 
+  // A repeating expense becomes a series starting on its date; every occurrence up to today is posted right away
+  // and future ones by the scheduler when the app is opened on or after their date.
+  const addRecurringExpense = (expense: Omit<Expense, 'id' | 'createdAt'>) => {
+    const series: RecurringExpense = {
+      id: crypto.randomUUID(),
+      amount: expense.amount,
+      category: expense.category,
+      subcategory: expense.subcategory,
+      description: expense.description,
+      paymentMethod: expense.paymentMethod,
+      accountId: expense.accountId,
+      tags: expense.tags,
+      notes: expense.notes,
+      splits: expense.splits,
+      sharing: expense.sharing,
+      recurrence: expense.recurrence!,
+      recurrenceRule: expense.recurrenceRule,
+      startDate: expense.date,
+      nextDate: expense.date,
+      occurrenceCount: 0,
+      status: 'Active',
+      createdAt: Date.now(),
+    };
+    const due = generateDueExpenses([series], getLocalToday());
+    setRecurringExpenses(prev => [...prev, ...due.series].sort((a, b) => a.nextDate.localeCompare(b.nextDate)));
+    if (due.expenses.length > 0) {
+      setExpenses(prev => [...due.expenses, ...prev]);
+    }
+  };
+
+  const updateRecurringExpense = (id: string, update: (series: RecurringExpense) => RecurringExpense) => {
+    setRecurringExpenses(prev => prev
+      .map(s => s.id === id ? update(s) : s)
+      .sort((a, b) => a.nextDate.localeCompare(b.nextDate)));
+  };
+
+  // Skipping moves past the next occurrence without posting it
+  const skipRecurringExpense = (id: string) => {
+    updateRecurringExpense(id, skipOccurrence);
+  };
+
+  const pauseRecurringExpense = (id: string) => {
+    updateRecurringExpense(id, s => ({ ...s, status: 'Paused' }));
+  };
+
+  // Occurrences missed while paused are not back-filled
+  const resumeRecurringExpense = (id: string) => {
+    updateRecurringExpense(id, s => resumeSeries(s, getLocalToday()));
+  };
+
+  // Ended series are kept so their past occurrences still point at a known series
+  const endRecurringExpense = (id: string) => {
+    updateRecurringExpense(id, s => ({ ...s, status: 'Ended' }));
+  };
+
+  // Edits keep id and createdAt so the record stays in its original position
+  const updateExpense = (id: string, updates: Omit<Expense, 'id' | 'createdAt'>) => {
+    setExpenses(prev => prev.map(e => e.id === id ? { ...e, ...updates } : e));
+  };
+
   const deleteExpense = (id: string) => {
     setExpenses(prev => prev.filter(e => e.id !== id));
   };
@@ -267,7 +752,8 @@ export const DataProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
   };
 
   // Income Methods
-  const addIncome = (income: Omit<Income, 'id' | 'createdAt' | 'status'>) => {
+  const addIncome = (input: Omit<Income, 'id' | 'createdAt' | 'status'>) => {
+      const income = { ...input, accountId: input.accountId || getDefaultAccountId(accounts) };
       const today = getLocalToday();
       
       // Determine if the user is entering a past income (Received) or future (Expected)
@@ -275,11 +761,14 @@ export const DataProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
 
       // 1. Create the primary entry based on user input
       const mainStatus: IncomeStatus = isPast ? 'Received' : 'Expected';
+      const isRecurring = income.recurrence !== 'None';
       const mainEntry: Income = {
           ...income,
           id: crypto.randomUUID(),
           createdAt: Date.now(),
-          status: mainStatus
+          status: mainStatus,
+          occurrence: isRecurring ? 1 : undefined,
+          anchorDate: isRecurring ? income.date : undefined
       };
 
       const newEntries = [mainEntry];
@@ -287,9 +776,8 @@ export const DataProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
       // 2. Intelligence: If user enters a PAST income that is RECURRING,
       //    we should immediately generate the NEXT upcoming income entry.
       //    This solves the issue where entering "Last Month's Salary" doesn't show "This Month's Salary" as upcoming.
-      if (isPast && income.recurrence !== 'None') {
-          const nextDateStr = getNextDate(income.date, income.recurrence);
-          
+      const nextDateStr = isPast ? getNextOccurrence(income.date, income.recurrence, income.recurrenceRule) : null;
+      if (nextDateStr) {
           // Determine status of next entry (Overdue if date is strictly before today)
           const nextStatus: IncomeStatus = nextDateStr < today ? 'Overdue' : 'Expected';
 
@@ -297,13 +785,87 @@ export const DataProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
               ...income,
               id: crypto.randomUUID(),
               createdAt: Date.now() + 1, // Ensure it appears "after" the main entry in default sorts
+              amount: getEscalatedAmount(mainEntry, nextDateStr),
               date: nextDateStr,
-              status: nextStatus
+              status: nextStatus,
+              occurrence: 2,
+              anchorDate: income.date
           };
           newEntries.push(nextEntry);
       }
 
       setIncomes(prev => [...newEntries, ...prev]);
+      if (mainStatus === 'Received') {
+          setGoals(prev => applyGoalRules(prev, mainEntry, mainEntry.date));
+      }
+  };
+
+  const updateIncome = (id: string, updates: Omit<Income, 'id' | 'createdAt' | 'status'>) => {
+      setIncomes(prev => {
+          const existing = prev.find(i => i.id === id);
+          if (!existing) return prev;
+
+          const today = getLocalToday();
+
+          // 1. Status is re-evaluated against the (possibly new) date and amount; entries received in full stay Received
+          const edited: Income = { ...existing, ...updates };
+          // A new due date reschedules the series, so later occurrences keep the new day of the month
+          const scheduleDate = edited.dueDate || edited.date;
+          const anchorDate = edited.recurrence === 'None'
+              ? undefined
+              : (scheduleDate !== (existing.dueDate || existing.date) || !existing.anchorDate ? scheduleDate : existing.anchorDate);
+          const updatedIncome: Income = { ...edited, anchorDate, status: deriveIncomeStatus(edited, today) };
+
+          let result = prev.map(i => i.id === id ? updatedIncome : i);
+
+          // 2. Upcoming occurrences are only generated from received entries (see addIncome / markIncomeReceived),
+          //    so only those need their follow-up entry re-aligned when the date or recurrence changes.
+          const scheduleChanged = existing.date !== updatedIncome.date ||
+              existing.recurrence !== updatedIncome.recurrence ||
+              JSON.stringify(existing.recurrenceRule || {}) !== JSON.stringify(updatedIncome.recurrenceRule || {});
+          if (existing.status !== 'Received' || !scheduleChanged) return result;
+
+          // The pending entry previously generated from this one
+          const followUp = existing.recurrence !== 'None'
+              ? result.find(i => 
+                  i.id !== id &&
+                  i.status !== 'Received' &&
+                  i.source === existing.source &&
+                  i.category === existing.category &&
+                  i.date === getNextDate(existing.dueDate || existing.date, existing.recurrence, existing.recurrenceRule, existing.anchorDate))
+              : undefined;
+
+          // Entries settled through payments keep their due date; the schedule continues from it
+          const occurrence = updatedIncome.occurrence || 1;
+          const nextDateStr = getNextOccurrence(updatedIncome.dueDate || updatedIncome.date, updatedIncome.recurrence, updatedIncome.recurrenceRule, occurrence, anchorDate);
+          if (!nextDateStr) {
+              // Series ended (no longer recurring, or past its end date / count): drop the pending follow-up
+              if (followUp) result = result.filter(i => i.id !== followUp.id);
+              return result;
+          }
+
+          const nextStatus: IncomeStatus = nextDateStr < today ? 'Overdue' : 'Expected';
+
+          if (followUp) {
+              result = result.map(i => i.id === followUp.id 
+                  ? { ...i, date: nextDateStr, recurrence: updatedIncome.recurrence, recurrenceRule: updatedIncome.recurrenceRule, status: nextStatus, occurrence: occurrence + 1, anchorDate } 
+                  : i);
+          } else if (!getNextOccurrence(existing.dueDate || existing.date, existing.recurrence, existing.recurrenceRule, occurrence, existing.anchorDate)) {
+              // Became recurring (or its series was extended): generate the next occurrence just like addIncome does
+              const { payments, dueDate, reminders, ...template } = updatedIncome;
+              result = [{
+                  ...template,
+                  id: crypto.randomUUID(),
+                  createdAt: Date.now() + 1,
+                  amount: getEscalatedAmount(updatedIncome, nextDateStr),
+                  date: nextDateStr,
+                  status: nextStatus,
+                  occurrence: occurrence + 1
+              }, ...result];
+          }
+
+          return result;
+      });
   };
 
   const deleteIncome = (id: string) => {
@@ -314,21 +876,48 @@ export const DataProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
       setIncomes(prev => [...prev, income]);
   };
 
-  const markIncomeReceived = (id: string) => {
+  // Records an instalment against an income (the full outstanding balance when no amount is given).
+  // Once the balance is cleared the entry becomes Received and the next occurrence of a recurring income is generated.
+  const recordIncomePayment = (id: string, amount?: number, date?: string) => {
+      // Goal rules take their share when this payment clears the balance
+      const pending = incomes.find(i => i.id === id);
+      if (pending && pending.status !== 'Received') {
+          const today = getLocalToday();
+          const paid = amount ?? getOutstandingBalance(pending);
+          const settled: Income = { ...pending, payments: [...(pending.payments || []), { id: '', amount: paid, date: date || today, createdAt: 0 }] };
+          if (paid > 0 && deriveIncomeStatus(settled, today) === 'Received') {
+              setGoals(prev => applyGoalRules(prev, pending, date || today));
+          }
+      }
+
       setIncomes(prev => {
           const income = prev.find(i => i.id === id);
           if (!income) return prev;
 
           const today = getLocalToday();
+          const paymentAmount = amount ?? getOutstandingBalance(income);
+          // A zero-amount entry (e.g. a rent-free month) has nothing to pay; marking it received just settles it
+          const settlesZeroEntry = income.amount <= 0 && amount === undefined;
+          if (paymentAmount <= 0 && !settlesZeroEntry) return prev;
+
+          const payment: IncomePayment = { id: crypto.randomUUID(), amount: paymentAmount, date: date || today, createdAt: Date.now() };
+          const withPayment: Income = settlesZeroEntry ? income : { ...income, payments: [...(income.payments || []), payment] };
+          const status = settlesZeroEntry ? 'Received' : deriveIncomeStatus(withPayment, today);
+
+          // Part payment: the entry stays pending with a smaller balance
+          if (status !== 'Received') {
+              return prev.map(i => i.id === id ? { ...withPayment, status } : i);
+          }
 
           // 1. Mark current as Received
-          // Note: We update the date to "Today" to reflect actual cash flow, 
+          // Note: We update the date to the settling payment's date to reflect actual cash flow,
           // but we use the ORIGINAL date for calculating the next recurrence interval to avoid drift.
-          const originalDateStr = income.date;
-          const updatedIncome = { 
-              ...income, 
-              status: 'Received' as IncomeStatus, 
-              date: today
+          const originalDateStr = income.dueDate || income.date;
+          const updatedIncome: Income = { 
+              ...withPayment, 
+              status: 'Received', 
+              date: payment.date,
+              dueDate: originalDateStr
           }; 
           
           const others = prev.filter(i => i.id !== id);
@@ -336,15 +925,19 @@ export const DataProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
           let nextIncome: Income | null = null;
 
           // 2. Generate Next Recurrence if needed
-          if (income.recurrence !== 'None') {
-              const nextDateStr = getNextDate(originalDateStr, income.recurrence);
-
+          const occurrence = income.occurrence || 1;
+          const nextDateStr = getNextOccurrence(originalDateStr, income.recurrence, income.recurrenceRule, occurrence, income.anchorDate);
+          if (nextDateStr) {
+              const { payments, dueDate, reminders, ...template } = income;
               nextIncome = {
-                  ...income,
+                  ...template,
                   id: crypto.randomUUID(),
+                  // Rent escalation kicks in on the first occurrence past each step
+                  amount: getEscalatedAmount(income, nextDateStr),
                   date: nextDateStr,
                   // Correctly set status based on strict comparison with today
                   status: nextDateStr < today ? 'Overdue' : 'Expected',
+                  occurrence: occurrence + 1,
                   createdAt: Date.now() + 1 // Ensure it's treated as newer
               };
           }
@@ -356,6 +949,268 @@ export const DataProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
       });
   };
 
+  const markIncomeReceived = (id: string) => {
+      recordIncomePayment(id);
+  };
+
+  // Undoes a mistaken instalment. A settled entry reopens on its original due date;
+  // an occurrence that was already generated from it is left in place.
+  const deleteIncomePayment = (incomeId: string, paymentId: string) => {
+      setIncomes(prev => prev.map(i => {
+          if (i.id !== incomeId || !i.payments) return i;
+          const reopened: Income = {
+              ...i,
+              payments: i.payments.filter(p => p.id !== paymentId),
+              date: i.dueDate || i.date,
+              dueDate: undefined,
+              status: 'Expected'
+          };
+          return { ...reopened, status: deriveIncomeStatus(reopened, getLocalToday()) };
+      }));
+  };
+
+  const logIncomeReminder = (incomeId: string, reminder: Omit<ReminderLog, 'id' | 'sentAt'>) => {
+      const entry: ReminderLog = { ...reminder, id: crypto.randomUUID(), sentAt: Date.now() };
+      setIncomes(prev => prev.map(i => i.id === incomeId ? { ...i, reminders: [...(i.reminders || []), entry] } : i));
+  };
+
+  // Property & Tenant Methods
+  const addProperty = (property: Omit<Property, 'id' | 'createdAt'>) => {
+      setProperties(prev => [...prev, { ...property, id: crypto.randomUUID(), createdAt: Date.now() }]);
+  };
+
+  const updateProperty = (id: string, updates: Omit<Property, 'id' | 'createdAt'>) => {
+      setProperties(prev => prev.map(p => p.id === id ? { ...p, ...updates } : p));
+  };
+
+  // Tenants of a removed property stay, just without a property
+  const deleteProperty = (id: string) => {
+      setProperties(prev => prev.filter(p => p.id !== id));
+      setTenants(prev => prev.map(t => t.propertyId === id ? { ...t, propertyId: undefined } : t));
+  };
+
+  const addTenant = (tenant: Omit<Tenant, 'id' | 'createdAt'>) => {
+      setTenants(prev => [...prev, { ...tenant, id: crypto.randomUUID(), createdAt: Date.now() }]);
+  };
+
+  // Renaming a tenant renames the rent entries linked to them, so lists and reminders stay in step
+  const updateTenant = (id: string, updates: Omit<Tenant, 'id' | 'createdAt'>) => {
+      setTenants(prev => prev.map(t => t.id === id ? { ...t, ...updates } : t));
+      setIncomes(prev => prev.map(i => i.tenantId === id && i.source !== updates.name ? { ...i, source: updates.name } : i));
+  };
+
+  // Rent history is kept; the entries just lose their tenant link
+  const deleteTenant = (id: string) => {
+      setTenants(prev => prev.filter(t => t.id !== id));
+      setIncomes(prev => prev.map(i => i.tenantId === id ? { ...i, tenantId: undefined } : i));
+  };
+
+  // Money Account Methods
+  const addAccount = (account: Omit<MoneyAccount, 'id' | 'createdAt'>) => {
+      setAccounts(prev => [...prev, { ...account, id: crypto.randomUUID(), createdAt: Date.now() }]);
+  };
+
+  const updateAccount = (id: string, updates: Omit<MoneyAccount, 'id' | 'createdAt'>) => {
+      setAccounts(prev => prev.map(a => a.id === id ? { ...a, ...updates } : a));
+  };
+
+  // Only unused accounts are deleted (see isAccountInUse); accounts with history are archived instead
+  const deleteAccount = (id: string) => {
+      setAccounts(prev => prev.filter(a => a.id !== id));
+  };
+
+  const addTransfer = (transfer: Omit<Transfer, 'id' | 'createdAt'>) => {
+      setTransfers(prev => [{ ...transfer, id: crypto.randomUUID(), createdAt: Date.now() }, ...prev]);
+  };
+
+  const deleteTransfer = (id: string) => {
+      setTransfers(prev => prev.filter(t => t.id !== id));
+  };
+
+  // Category Methods
+  const addCategory = (category: Omit<CategoryDefinition, 'id' | 'createdAt'>) => {
+      setCategories(prev => [...prev, { ...category, id: crypto.randomUUID(), createdAt: Date.now() }]);
+  };
+
+  // Archiving a top-level category archives its subcategories with it
+  const updateCategory = (id: string, updates: Omit<CategoryDefinition, 'id' | 'createdAt'>) => {
+      setCategories(prev => prev.map(c => {
+          if (c.id === id) return { ...c, ...updates };
+          if (c.parentId === id && !!c.archived !== !!updates.archived) return { ...c, archived: updates.archived };
+          return c;
+      }));
+  };
+
+  // Only unused categories are deleted (see isCategoryInUse), together with their subcategories and budget
+  const deleteCategory = (id: string) => {
+      setCategories(prev => prev.filter(c => c.id !== id && c.parentId !== id));
+      setBudgets(prev => prev.some(b => b.category === id) ? prev.filter(b => b.category !== id) : prev);
+  };
+
+  // Contact, Group & Settlement Methods
+  // Returns the new id so a contact added while sharing an expense can be picked right away
+  const addContact = (contact: Omit<Contact, 'id' | 'createdAt'>) => {
+      const id = crypto.randomUUID();
+      setContacts(prev => [...prev, { ...contact, id, createdAt: Date.now() }]);
+      return id;
+  };
+
+  const updateContact = (id: string, updates: Omit<Contact, 'id' | 'createdAt'>) => {
+      setContacts(prev => prev.map(c => c.id === id ? { ...c, ...updates } : c));
+  };
+
+  // Only contacts without shared history are deleted (see isContactInUse); others are archived instead
+  const deleteContact = (id: string) => {
+      setContacts(prev => prev.filter(c => c.id !== id));
+      setGroups(prev => prev.some(g => g.memberIds.includes(id))
+          ? prev.map(g => g.memberIds.includes(id) ? { ...g, memberIds: g.memberIds.filter(m => m !== id) } : g)
+          : prev);
+  };
+
+  const addGroup = (group: Omit<ExpenseGroup, 'id' | 'createdAt'>) => {
+      setGroups(prev => [...prev, { ...group, id: crypto.randomUUID(), createdAt: Date.now() }]);
+  };
+
+  const updateGroup = (id: string, updates: Omit<ExpenseGroup, 'id' | 'createdAt'>) => {
+      setGroups(prev => prev.map(g => g.id === id ? { ...g, ...updates } : g));
+  };
+
+  // Only groups without expenses or settlements are deleted (see isGroupInUse)
+  const deleteGroup = (id: string) => {
+      setGroups(prev => prev.filter(g => g.id !== id));
+  };
+
+  // Settlements only touch an account when the user is the one paying or being paid
+  const addSettlement = (settlement: Omit<Settlement, 'id' | 'createdAt'>) => {
+      const involvesUser = settlement.fromId === SELF_ID || settlement.toId === SELF_ID;
+      setSettlements(prev => [{
+          ...settlement,
+          accountId: involvesUser ? settlement.accountId || getDefaultAccountId(accounts) : undefined,
+          id: crypto.randomUUID(),
+          createdAt: Date.now(),
+      }, ...prev]);
+  };
+
+  const deleteSettlement = (id: string) => {
+      setSettlements(prev => prev.filter(s => s.id !== id));
+  };
+
+  // Loan Methods
+  const addLoan = (loan: Omit<Loan, 'id' | 'createdAt' | 'repayments' | 'reminders'>) => {
+      setLoans(prev => [{
+          ...loan,
+          accountId: loan.accountId || getDefaultAccountId(accounts),
+          repayments: [],
+          id: crypto.randomUUID(),
+          createdAt: Date.now(),
+      }, ...prev]);
+  };
+
+  const updateLoan = (id: string, updates: Omit<Loan, 'id' | 'createdAt' | 'repayments' | 'reminders'>) => {
+      setLoans(prev => prev.map(l => l.id === id ? { ...l, ...updates } : l));
+  };
+
+  const deleteLoan = (id: string) => {
+      setLoans(prev => prev.filter(l => l.id !== id));
+  };
+
+  const recordLoanRepayment = (loanId: string, repayment: Omit<LoanRepayment, 'id' | 'createdAt'>) => {
+      const entry: LoanRepayment = {
+          ...repayment,
+          accountId: repayment.accountId || getDefaultAccountId(accounts),
+          id: crypto.randomUUID(),
+          createdAt: Date.now(),
+      };
+      setLoans(prev => prev.map(l => l.id === loanId ? { ...l, repayments: [...l.repayments, entry] } : l));
+  };
+
+  const deleteLoanRepayment = (loanId: string, repaymentId: string) => {
+      setLoans(prev => prev.map(l => l.id === loanId ? { ...l, repayments: l.repayments.filter(r => r.id !== repaymentId) } : l));
+  };
+
+  const logLoanReminder = (loanId: string, reminder: Omit<ReminderLog, 'id' | 'sentAt'>) => {
+      const entry: ReminderLog = { ...reminder, id: crypto.randomUUID(), sentAt: Date.now() };
+      setLoans(prev => prev.map(l => l.id === loanId ? { ...l, reminders: [...(l.reminders || []), entry] } : l));
+  };
+
+  // EMI Plan Methods
+  // A new plan gets a monthly series for its EMIs; those already due are posted right away, like addRecurringExpense
+  const addEmiPlan = (input: Omit<EmiPlan, 'id' | 'createdAt' | 'seriesId' | 'prepayments'>) => {
+      const plan: EmiPlan = {
+          ...input,
+          accountId: input.accountId || getDefaultAccountId(accounts),
+          prepayments: [],
+          id: crypto.randomUUID(),
+          createdAt: Date.now(),
+      };
+      const due = generateDueExpenses([createEmiSeries(plan)], getLocalToday());
+      setEmiPlans(prev => [...prev, { ...plan, seriesId: due.series[0].id }]);
+      setRecurringExpenses(prev => [...prev, ...due.series].sort((a, b) => a.nextDate.localeCompare(b.nextDate)));
+      if (due.expenses.length > 0) {
+          setExpenses(prev => [...due.expenses, ...prev]);
+      }
+  };
+
+  // Applies a change to a plan and carries the new EMI and tenure over to its series
+  const changeEmiPlan = (id: string, change: (plan: EmiPlan) => EmiPlan) => {
+      const plan = emiPlans.find(p => p.id === id);
+      if (!plan) return;
+      const updated = change(plan);
+      setEmiPlans(prev => prev.map(p => p.id === id ? updated : p));
+      if (updated.seriesId) {
+          updateRecurringExpense(updated.seriesId, s => syncEmiSeries(s, updated));
+      }
+  };
+
+  const updateEmiPlan = (id: string, updates: Omit<EmiPlan, 'id' | 'createdAt' | 'seriesId' | 'prepayments'>) => {
+      changeEmiPlan(id, p => ({ ...p, ...updates }));
+  };
+
+  // EMIs already posted stay in the ledger; the series is ended so nothing more is posted
+  const deleteEmiPlan = (id: string) => {
+      const plan = emiPlans.find(p => p.id === id);
+      setEmiPlans(prev => prev.filter(p => p.id !== id));
+      if (plan?.seriesId) {
+          endRecurringExpense(plan.seriesId);
+      }
+  };
+
+  const addEmiPrepayment = (planId: string, prepayment: Omit<EmiPrepayment, 'id' | 'createdAt'>) => {
+      const entry: EmiPrepayment = {
+          ...prepayment,
+          accountId: prepayment.accountId || getDefaultAccountId(accounts),
+          id: crypto.randomUUID(),
+          createdAt: Date.now(),
+      };
+      changeEmiPlan(planId, p => ({ ...p, prepayments: [...p.prepayments, entry] }));
+  };
+
+  const deleteEmiPrepayment = (planId: string, prepaymentId: string) => {
+      changeEmiPlan(planId, p => ({ ...p, prepayments: p.prepayments.filter(pp => pp.id !== prepaymentId) }));
+  };
+
+  // Savings Goal Methods
+  const addGoal = (goal: Omit<SavingsGoal, 'id' | 'createdAt' | 'contributions'>) => {
+      setGoals(prev => [...prev, { ...goal, contributions: [], id: crypto.randomUUID(), createdAt: Date.now() }]);
+  };
+
+  const updateGoal = (id: string, updates: Omit<SavingsGoal, 'id' | 'createdAt' | 'contributions'>) => {
+      setGoals(prev => prev.map(g => g.id === id ? { ...g, ...updates } : g));
+  };
+
+  const deleteGoal = (id: string) => {
+      setGoals(prev => prev.filter(g => g.id !== id));
+  };
+
+  const addGoalContribution = (goalId: string, contribution: Omit<GoalContribution, 'id' | 'createdAt' | 'incomeId'>) => {
+      const entry: GoalContribution = { ...contribution, id: crypto.randomUUID(), createdAt: Date.now() };
+      setGoals(prev => prev.map(g => g.id === goalId ? { ...g, contributions: [...g.contributions, entry] } : g));
+  };
+
+  const deleteGoalContribution = (goalId: string, contributionId: string) => {
+      setGoals(prev => prev.map(g => g.id === goalId ? { ...g, contributions: g.contributions.filter(c => c.id !== contributionId) } : g));
+  };
+
   const setBudget = (category: Category, limit: number) => {
     setBudgets(prev => {
       const filtered = prev.filter(b => b.category !== category);
@@ -371,9 +1226,9 @@ export const DataProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
     setUserProfile(profile);
     // Update Persistent Storage with Encryption
     const encryptedProfiles = localStorage.getItem(STORAGE_KEY_PROFILES_ENCRYPTED);
-    const profiles = encryptedProfiles ? decryptData(encryptedProfiles) : {};
+    const profiles = encryptedProfiles ? deobfuscateData(encryptedProfiles) : {};
     profiles[profile.id] = profile;
-    localStorage.setItem(STORAGE_KEY_PROFILES_ENCRYPTED, encryptData(profiles));
+    localStorage.setItem(STORAGE_KEY_PROFILES_ENCRYPTED, obfuscateData(profiles));
   };
 
   const setUserName = (name: string) => {
@@ -394,6 +1249,18 @@ export const DataProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
     }
   };
 
+  const setReminderTemplates = (templates: ReminderTemplates) => {
+    if (userProfile) {
+      updateProfileState({ ...userProfile, reminderTemplates: templates });
+    }
+  };
+
+  const setNotificationSettings = (settings: NotificationSettings) => {
+    if (userProfile) {
+      updateProfileState({ ...userProfile, notificationSettings: settings });
+    }
+  };
+
   const setTheme = (t: Theme) => {
     setThemeState(t);
   };
@@ -414,13 +1281,22 @@ export const DataProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
     if (existingUserId) {
       const encryptedProfiles = localStorage.getItem(STORAGE_KEY_PROFILES_ENCRYPTED);
       if (encryptedProfiles) {
-          const profiles = decryptData(encryptedProfiles);
+          const profiles = deobfuscateData(encryptedProfiles);
           const profile = profiles[existingUserId] as UserProfile;
           
           if (profile) {
               // Password Check
-              if (profile.password === password) {
+              const { valid, needsUpgrade } = await verifyPassword(password || '', profile.password || '');
+              if (valid) {
+                  if (needsUpgrade) {
+                      // Legacy plaintext password: replace it with a hash now that we know it is correct
+                      profile.password = await hashPassword(password as string);
+                      profiles[existingUserId] = profile;
+                      localStorage.setItem(STORAGE_KEY_PROFILES_ENCRYPTED, obfuscateData(profiles));
+                  }
+                  sessionPassword.current = password as string;
                   setUserProfile(profile);
+                  loadUserData(profile.id);
                   setIsOnboardingComplete(true);
                   setIsAuthenticated(true);
                   sessionStorage.setItem(STORAGE_KEY_AUTH, 'true');
@@ -449,6 +1325,7 @@ export const DataProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
       
       setLoginIdentifier(identifier);
       setUserProfile(null);
+      clearUserData();
       // Important: Order matters. Set Onboarding false first, then Auth true.
       // Also persist Auth=true to storage so refresh doesn't kick user out.
       setIsOnboardingComplete(false); 
@@ -458,8 +1335,9 @@ export const DataProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
       return true;
   }
 
-  const completeOnboarding = (details: Partial<UserProfile>) => {
+  const completeOnboarding = async (details: Partial<UserProfile>) => {
     const newUserId = crypto.randomUUID();
+    sessionPassword.current = details.password || '';
     
     const newProfile: UserProfile = {
       id: newUserId,
@@ -468,14 +1346,14 @@ export const DataProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
       mobile: details.mobile || '',
       language: details.language || 'en',
       currency: details.currency || '₹',
-      password: details.password || ''
+      password: details.password ? await hashPassword(details.password) : ''
     };
 
     // Save Profile Encrypted
     const encryptedProfiles = localStorage.getItem(STORAGE_KEY_PROFILES_ENCRYPTED);
-    const profiles = encryptedProfiles ? decryptData(encryptedProfiles) : {};
+    const profiles = encryptedProfiles ? deobfuscateData(encryptedProfiles) : {};
     profiles[newUserId] = newProfile;
-    localStorage.setItem(STORAGE_KEY_PROFILES_ENCRYPTED, encryptData(profiles));
+    localStorage.setItem(STORAGE_KEY_PROFILES_ENCRYPTED, obfuscateData(profiles));
 
     // Link Identifiers
     const identityMap = JSON.parse(localStorage.getItem(STORAGE_KEY_IDENTITY_MAP) || '{}');
@@ -490,7 +1368,11 @@ export const DataProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
     localStorage.setItem(STORAGE_KEY_IDENTITY_MAP, JSON.stringify(identityMap));
     localStorage.setItem(STORAGE_KEY_CURRENT_USER_ID, newUserId);
 
+    // The first profile on a device inherits any pre-partitioning data
+    migrateLegacyStorage();
+
     setUserProfile(newProfile);
+    loadUserData(newUserId);
     setIsAuthenticated(true);
     sessionStorage.setItem(STORAGE_KEY_AUTH, 'true');
     setIsOnboardingComplete(true);
@@ -502,7 +1384,8 @@ export const DataProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
     setUserProfile(null);
     sessionStorage.removeItem(STORAGE_KEY_AUTH);
     localStorage.removeItem(STORAGE_KEY_CURRENT_USER_ID);
-    setChatHistory([]); // Clear chat history on logout
+    sessionPassword.current = '';
+    clearUserData(); // Persisted per user, so the next login starts from its own dataset
   };
 
   const checkUserExists = (identifier: string): boolean => {
@@ -510,7 +1393,7 @@ export const DataProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
     return !!identityMap[identifier];
   };
 
-  const resetPassword = (identifier: string, newPassword: string): boolean => {
+  const resetPassword = async (identifier: string, newPassword: string): Promise<boolean> => {
     const identityMap = JSON.parse(localStorage.getItem(STORAGE_KEY_IDENTITY_MAP) || '{}');
     const userId = identityMap[identifier];
     if (!userId) return false;
@@ -518,11 +1401,11 @@ export const DataProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
     const encryptedProfiles = localStorage.getItem(STORAGE_KEY_PROFILES_ENCRYPTED);
     if (!encryptedProfiles) return false;
 
-    const profiles = decryptData(encryptedProfiles);
+    const profiles = deobfuscateData(encryptedProfiles);
     if (!profiles || !profiles[userId]) return false;
 
-    profiles[userId].password = newPassword;
-    localStorage.setItem(STORAGE_KEY_PROFILES_ENCRYPTED, encryptData(profiles));
+    profiles[userId].password = await hashPassword(newPassword);
+    localStorage.setItem(STORAGE_KEY_PROFILES_ENCRYPTED, obfuscateData(profiles));
     return true;
   };
 
@@ -540,7 +1423,7 @@ export const DataProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
       const encryptedProfiles = localStorage.getItem(STORAGE_KEY_PROFILES_ENCRYPTED);
       if (!encryptedProfiles) return false;
 
-      const profiles = decryptData(encryptedProfiles);
+      const profiles = deobfuscateData(encryptedProfiles);
       const profile = profiles[userId] as UserProfile;
       
       return !!(profile && profile.biometricEnabled && profile.biometricCredentialId);
@@ -589,7 +1472,7 @@ export const DataProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
        
        const encryptedProfiles = localStorage.getItem(STORAGE_KEY_PROFILES_ENCRYPTED);
        if (!encryptedProfiles) return false;
-       const profiles = decryptData(encryptedProfiles);
+       const profiles = deobfuscateData(encryptedProfiles);
        const profile = profiles[userId] as UserProfile;
 
        if (!profile || !profile.biometricEnabled || !profile.biometricCredentialId) return false;
@@ -623,6 +1506,7 @@ export const DataProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
                // In a real app, verify signature on server.
                // Here we assume success if browser verification passes.
                setUserProfile(profile);
+               loadUserData(profile.id);
                setIsAuthenticated(true);
                sessionStorage.setItem(STORAGE_KEY_AUTH, 'true');
                localStorage.setItem(STORAGE_KEY_CURRENT_USER_ID, userId);
@@ -637,12 +1521,19 @@ export const DataProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
 
   // --- Backup & Restore ---
 
-  const getLocalBackups = (): LocalBackup[] => {
-      const stored = localStorage.getItem(STORAGE_KEY_LOCAL_BACKUPS);
-      return stored ? JSON.parse(stored) : [];
+  // Signed in: only the current user's backups.
+  // Signed out (restore on the login screen): every profile's backups on this device.
+  const getLocalBackups = async (): Promise<LocalBackup[]> => {
+      if (activeUserId) {
+          await importLegacyUserData(activeUserId);
+      } else {
+          await Promise.all(getKnownUserIds().map(importLegacyUserData));
+      }
+      const backups = await ledgerRepository.getAll('backups', activeUserId);
+      return backups.sort((a, b) => b.date.localeCompare(a.date));
   }
 
-  const saveLocalBackup = (encryptedContent: string) => {
+  const saveLocalBackup = async (encryptedContent: string) => {
       if (!userProfile) return;
       
       const newBackup: LocalBackup = {
@@ -653,16 +1544,16 @@ export const DataProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
           size: encryptedContent.length // approximate size
       };
 
-      const backups = getLocalBackups();
+      const backups = await getLocalBackups();
+      await ledgerRepository.put('backups', userProfile.id, newBackup);
       // Keep only last 5 backups
-      const updatedBackups = [newBackup, ...backups].slice(0, 5);
-      localStorage.setItem(STORAGE_KEY_LOCAL_BACKUPS, JSON.stringify(updatedBackups));
+      await Promise.all(backups.slice(MAX_LOCAL_BACKUPS - 1).map(b => ledgerRepository.remove('backups', userProfile.id, b.id)));
   }
 
-  const deleteLocalBackup = (id: string) => {
-      const backups = getLocalBackups();
-      const updated = backups.filter(b => b.id !== id);
-      localStorage.setItem(STORAGE_KEY_LOCAL_BACKUPS, JSON.stringify(updated));
+  // Backup ids are unique, so deleting under every candidate user only removes the owner's copy
+  const deleteLocalBackup = async (id: string) => {
+      const userIds = activeUserId ? [activeUserId] : getKnownUserIds();
+      await Promise.all(userIds.map(userId => ledgerRepository.remove('backups', userId, id)));
   }
 
   const backupData = async (customKey?: string) => {
@@ -672,21 +1563,34 @@ export const DataProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
           metadata: {
               userId: userProfile.id,
               email: userProfile.email,
-              version: '1.0',
+              version: formatBackupVersion(),
               timestamp: Date.now()
           },
           userProfile: userProfile,
           data: {
               expenses,
               incomes,
-              budgets
+              budgets,
+              recurringExpenses,
+              properties,
+              tenants,
+              accounts,
+              transfers,
+              categories,
+              contacts,
+              groups,
+              settlements,
+              loans,
+              emiPlans,
+              goals
           }
       };
       
-      const encrypted = encryptData(backupObj, customKey);
+      // AES-GCM with a key derived from the custom backup key, or the account password by default
+      const encrypted = await encryptBackup(backupObj, customKey || sessionPassword.current);
       
       // Save locally first
-      saveLocalBackup(encrypted);
+      await saveLocalBackup(encrypted);
       
       // Then offer to share/download
       const email = userProfile.email || 'user@example.com';
@@ -696,28 +1600,44 @@ export const DataProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
   const importData = async (file: File, customKey?: string): Promise<boolean> => {
       return new Promise((resolve, reject) => {
           const reader = new FileReader();
-          reader.onload = (e) => {
+          reader.onload = async (e) => {
               const content = e.target?.result as string;
               if (content) {
-                  const data = decryptData(content.trim(), customKey);
-                  if (data) {
-                      // Validate if it has minimal structure
-                      if (data.userProfile && data.data) {
-                          // Restore data
-                          setExpenses(data.data.expenses || []);
-                          setIncomes(data.data.incomes || []);
-                          setBudgets(data.data.budgets || []);
-                          
-                          // Merge/Update User Profile (except ID to prevent overwriting identity entirely, but typically backup restore implies full restore)
-                          // For safety in this demo, we assume the user intends to replace data.
-                          // If IDs match, it's fine. If different, we might be overwriting current user session data.
-                          if (userProfile && data.userProfile.id === userProfile.id) {
-                              updateProfileState(data.userProfile);
-                          }
-                          resolve(true);
-                      } else {
-                          reject(new Error('INVALID_FORMAT'));
+                  const decrypted = await decryptBackup(content, customKey);
+                  if (decrypted) {
+                      // Validate structure and upgrade older backup versions (rejects unknown future versions)
+                      let data;
+                      try {
+                          data = migrateBackup(decrypted);
+                      } catch (err) {
+                          reject(err);
+                          return;
                       }
+
+                      // Restore data
+                      setExpenses(data.data.expenses);
+                      setIncomes(data.data.incomes);
+                      setBudgets(data.data.budgets);
+                      setRecurringExpenses(data.data.recurringExpenses);
+                      setProperties(data.data.properties);
+                      setTenants(data.data.tenants);
+                      setAccounts(data.data.accounts);
+                      setTransfers(data.data.transfers);
+                      setCategories(data.data.categories);
+                      setContacts(data.data.contacts);
+                      setGroups(data.data.groups);
+                      setSettlements(data.data.settlements);
+                      setLoans(data.data.loans);
+                      setEmiPlans(data.data.emiPlans);
+                      setGoals(data.data.goals);
+                      
+                      // Merge/Update User Profile (except ID to prevent overwriting identity entirely, but typically backup restore implies full restore)
+                      // For safety in this demo, we assume the user intends to replace data.
+                      // If IDs match, it's fine. If different, we might be overwriting current user session data.
+                      if (userProfile && data.userProfile.id === userProfile.id) {
+                          updateProfileState(data.userProfile);
+                      }
+                      resolve(true);
                   } else {
                       // Decryption failed (or returned null)
                       reject(new Error('DECRYPTION_FAILED'));
@@ -730,54 +1650,69 @@ export const DataProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
 
   const restoreUserFromBackup = async (fileOrContent: File | string, customKey?: string): Promise<boolean> => {
       // Helper to process decrypted data
-      const processData = (data: any) => {
-          if (data && data.userProfile && data.data) {
-              // 1. Restore Profile to Storage
-              const profile = data.userProfile;
-              const encryptedProfiles = localStorage.getItem(STORAGE_KEY_PROFILES_ENCRYPTED);
-              const profiles = encryptedProfiles ? decryptData(encryptedProfiles) : {};
-              profiles[profile.id] = profile;
-              localStorage.setItem(STORAGE_KEY_PROFILES_ENCRYPTED, encryptData(profiles));
-
-              // 2. Update Identity Map
-              const identityMap = JSON.parse(localStorage.getItem(STORAGE_KEY_IDENTITY_MAP) || '{}');
-              if (profile.mobile) identityMap[profile.mobile] = profile.id;
-              if (profile.email) identityMap[profile.email] = profile.id;
-              localStorage.setItem(STORAGE_KEY_IDENTITY_MAP, JSON.stringify(identityMap));
-
-              // 3. Login User
-              localStorage.setItem(STORAGE_KEY_CURRENT_USER_ID, profile.id);
-              setUserProfile(profile);
-              setIsAuthenticated(true);
-              setIsOnboardingComplete(true);
-              sessionStorage.setItem(STORAGE_KEY_AUTH, 'true');
-
-              // 4. Restore Data
-              setExpenses(data.data.expenses || []);
-              setIncomes(data.data.incomes || []);
-              setBudgets(data.data.budgets || []);
-              return true;
-          }
-          return false;
+      const processData = async (decrypted: any) => {
+          // Validate structure and upgrade older backup versions (throws on unknown future versions)
+          const data = migrateBackup(decrypted);
+
+          // 1. Restore Profile to Storage
+          const profile = data.userProfile;
+          const encryptedProfiles = localStorage.getItem(STORAGE_KEY_PROFILES_ENCRYPTED);
+          const profiles = encryptedProfiles ? deobfuscateData(encryptedProfiles) : {};
+          profiles[profile.id] = profile;
+          localStorage.setItem(STORAGE_KEY_PROFILES_ENCRYPTED, obfuscateData(profiles));
+
+          // 2. Update Identity Map
+          const identityMap = JSON.parse(localStorage.getItem(STORAGE_KEY_IDENTITY_MAP) || '{}');
+          if (profile.mobile) identityMap[profile.mobile] = profile.id;
+          if (profile.email) identityMap[profile.email] = profile.id;
+          localStorage.setItem(STORAGE_KEY_IDENTITY_MAP, JSON.stringify(identityMap));
+
+          // 3. Login User
+          localStorage.setItem(STORAGE_KEY_CURRENT_USER_ID, profile.id);
+          setUserProfile(profile);
+          setIsAuthenticated(true);
+          setIsOnboardingComplete(true);
+          sessionStorage.setItem(STORAGE_KEY_AUTH, 'true');
+
+          // 4. Restore Data (chat history is not part of backups, keep what this user has)
+          await loadUserData(profile.id);
+          setExpenses(data.data.expenses);
+          setIncomes(data.data.incomes);
+          setBudgets(data.data.budgets);
+          setRecurringExpenses(data.data.recurringExpenses);
+          setProperties(data.data.properties);
+          setTenants(data.data.tenants);
+          setAccounts(data.data.accounts);
+          setTransfers(data.data.transfers);
+          setCategories(data.data.categories);
+          setContacts(data.data.contacts);
+          setGroups(data.data.groups);
+          setSettlements(data.data.settlements);
+          setLoans(data.data.loans);
+          setEmiPlans(data.data.emiPlans);
+          setGoals(data.data.goals);
+          return true;
       };
 
       if (typeof fileOrContent === 'string') {
           // It's content string (e.g. from local backup)
-          const data = decryptData(fileOrContent, customKey);
+          const data = await decryptBackup(fileOrContent, customKey);
           if (!data) throw new Error('DECRYPTION_FAILED');
           return processData(data);
       } else {
           // It's a file
           return new Promise((resolve, reject) => {
               const reader = new FileReader();
-              reader.onload = (e) => {
+              reader.onload = async (e) => {
                   const content = e.target?.result as string;
                   if (content) {
-                      const data = decryptData(content.trim(), customKey);
+                      const data = await decryptBackup(content, customKey);
                       if (data) {
-                          const success = processData(data);
-                          if(success) resolve(true);
-                          else reject(new Error('INVALID_FORMAT'));
+                          try {
+                              resolve(await processData(data));
+                          } catch (err) {
+                              reject(err);
+                          }
                       } else {
                           reject(new Error('DECRYPTION_FAILED'));
                       }
@@ -789,16 +1724,32 @@ export const DataProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
   };
 
   const exportData = async () => {
-      const header = "Date,Type,Category,Description,Amount,Method\n";
+      const accountName = (id?: string) => accounts.find(a => a.id === id)?.name || '';
+      const categoryName = (record: { category: string; subcategory?: string }) => record.subcategory
+          ? `${getCategoryName(categories, record.category)} / ${getCategoryName(categories, record.subcategory)}`
+          : getCategoryName(categories, record.category);
+      // Split expenses list every line, e.g. "Food 300; Shopping 200"
+      const expenseCategory = (e: Expense) => e.splits && e.splits.length > 0
+          ? e.splits.map(part => `${categoryName(part)} ${part.amount}`).join('; ')
+          : categoryName(e);
+      // Tags are written as "#a #b" so they can be split back on spaces; notes may hold quotes and line breaks
+      const tagsAndNotes = (record: { tags?: string[]; notes?: string }) =>
+          `"${(record.tags || []).map(formatTag).join(' ')}","${(record.notes || '').replace(/"/g, '""')}"`;
+      const header = "Date,Type,Category,Description,Amount,Method,Account,Tags,Notes\n";
       const expRows = expenses.map(e => 
-          `${e.date},Expense,${e.category},"${e.description}",${e.amount},${e.paymentMethod}`
+          `${e.date},Expense,"${expenseCategory(e)}","${e.description}",${e.amount},${e.paymentMethod},"${accountName(e.accountId)}",${tagsAndNotes(e)}`
       ).join("\n");
       
       const incRows = incomes.map(i => 
-          `${i.date},Income,${i.category},"${i.source}",${i.amount},${i.recurrence}`
+          `${i.date},Income,"${categoryName(i)}","${i.source}",${i.amount},${i.recurrence},"${accountName(i.accountId)}",${tagsAndNotes(i)}`
+      ).join("\n");
+
+      // Transfers are listed for completeness; they are neither income nor spending
+      const transferRows = transfers.map(tr =>
+          `${tr.date},Transfer,,"${accountName(tr.fromAccountId)} → ${accountName(tr.toAccountId)}${tr.note ? ` (${tr.note})` : ''}",${tr.amount},,,,`
       ).join("\n");
 
-      const csv = header + expRows + "\n" + incRows;
+      const csv = [header + expRows, incRows, transferRows].filter(Boolean).join("\n");
       const email = userProfile?.email || 'user@example.com';
       
       await sendExportEmail(email, csv);
@@ -820,17 +1771,79 @@ export const DataProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
     expenses,
     incomes,
     budgets,
+    recurringExpenses,
+    properties,
+    tenants,
+    accounts,
+    transfers,
+    categories,
+    contacts,
+    groups,
+    settlements,
+    loans,
+    emiPlans,
+    goals,
     addExpense,
+    updateExpense,
     deleteExpense,
     restoreExpense,
+    skipRecurringExpense,
+    pauseRecurringExpense,
+    resumeRecurringExpense,
+    endRecurringExpense,
     addIncome,
+    updateIncome,
     deleteIncome,
     restoreIncome,
     markIncomeReceived,
+    recordIncomePayment,
+    deleteIncomePayment,
+    logIncomeReminder,
+    subscribeToIncomeStatus,
+    addProperty,
+    updateProperty,
+    deleteProperty,
+    addTenant,
+    updateTenant,
+    deleteTenant,
+    addAccount,
+    updateAccount,
+    deleteAccount,
+    addTransfer,
+    deleteTransfer,
+    addCategory,
+    updateCategory,
+    deleteCategory,
+    addContact,
+    updateContact,
+    deleteContact,
+    addGroup,
+    updateGroup,
+    deleteGroup,
+    addSettlement,
+    deleteSettlement,
+    addLoan,
+    updateLoan,
+    deleteLoan,
+    recordLoanRepayment,
+    deleteLoanRepayment,
+    logLoanReminder,
+    addEmiPlan,
+    updateEmiPlan,
+    deleteEmiPlan,
+    addEmiPrepayment,
+    deleteEmiPrepayment,
+    addGoal,
+    updateGoal,
+    deleteGoal,
+    addGoalContribution,
+    deleteGoalContribution,
     setBudget,
     getBudget,
     currency,
     setCurrency,
+    setReminderTemplates,
+    setNotificationSettings,
     userName,
     setUserName,
     userProfile,
@@ -853,6 +1866,7 @@ export const DataProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
     chatHistory,
     addChatMessage,
     backupData,
+    canUseLoginPasswordForBackup: sessionPassword.current !== '',
     exportData,
     importData,
     restoreUserFromBackup,
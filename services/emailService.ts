@@ -109,3 +109,66 @@ export const sendExportEmail = async (email: string, csvData: string): Promise<b
         return false;
     }
 }
+
+export const shareRentReceipt = async (receiptNumber: string, tenantName: string, html: string): Promise<boolean> => {
+    const filename = `rent_receipt_${receiptNumber}.html`;
+
+    const file = new File([html], filename, {
+        type: 'text/html',
+    });
+
+    const subject = `🧾 Rent Receipt ${receiptNumber}`;
+    const body = `Dear ${tenantName},\n\nPlease find attached the rent receipt (No. ${receiptNumber}).\n\nYou can open it in any browser and print or save it as PDF.\n\nRegards`;
+
+    const shareData = {
+        title: subject,
+        text: body,
+        files: [file]
+    };
+
+    try {
+        if (navigator.canShare && navigator.canShare(shareData)) {
+            await navigator.share(shareData);
+            return true;
+        } else {
+            // Fallback for Desktop: Download directly
+            downloadFile(filename, html, 'text/html');
+            setTimeout(() => alert(`Rent receipt '${filename}' has been downloaded to your device.`), 500);
+            return true;
+        }
+    } catch (error) {
+        console.error("Error sharing receipt:", error);
+        if ((error as Error).name !== 'AbortError') {
+             downloadFile(filename, html, 'text/html');
+             setTimeout(() => alert(`Rent receipt '${filename}' has been downloaded to your device.`), 500);
+             return true;
+        }
+        return false;
+    }
+}
+
+export const sharePaymentRequest = async (title: string, message: string, qrPng: Blob | null): Promise<boolean> => {
+    const shareData: ShareData = { title, text: message };
+    if (qrPng) {
+        shareData.files = [new File([qrPng], 'upi_payment_qr.png', { type: 'image/png' })];
+    }
+
+    try {
+        if (navigator.canShare && navigator.canShare(shareData)) {
+            await navigator.share(shareData);
+            return true;
+        } else if (navigator.canShare && navigator.canShare({ title, text: message })) {
+            // Some browsers share text but not images
+            await navigator.share({ title, text: message });
+            return true;
+        } else {
+            // Fallback for Desktop: Copy the request so it can be pasted into any chat
+            await navigator.clipboard.writeText(message);
+            setTimeout(() => alert('Payment request copied to clipboard.'), 100);
+            return true;
+        }
+    } catch (error) {
+        console.error("Error sharing payment request:", error);
+        return false;
+    }
+}
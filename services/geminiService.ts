@@ -1,5 +1,7 @@
 import { GoogleGenAI, Type, FunctionDeclaration } from "@google/genai";
-import { UserContext, ChatMessage } from "../types";
+import { UserContext, ChatMessage, CategoryDefinition, ExpenseSplit } from "../types";
+import { getIncomeReceipts, getOutstandingBalance } from "../utils/incomeLedger";
+import { createDefaultCategories, getCategoryName, getCategoryNamesForPrompt } from "../utils/categories";
 
 // Initialize Gemini Client
 // In a real app, this key should be proxied or handled securely.
@@ -9,22 +11,37 @@ const ai = new GoogleGenAI({ apiKey });
 
 const MODEL_NAME = "gemini-2.5-flash";
 
+// The model picks category names (including subcategories) from the user's own list; callers map them back to ids
+const categoryNames = (categories: CategoryDefinition[] | undefined, kind: 'expense' | 'income') =>
+  getCategoryNamesForPrompt(categories && categories.length > 0 ? categories : createDefaultCategories(), kind);
+
+// Swaps category ids for readable names (with the subcategory) in records sent as context, including split lines
+const withCategoryNames = <T extends { category: string; subcategory?: string; splits?: ExpenseSplit[] }>(record: T, categories: CategoryDefinition[] = []): T => ({
+  ...record,
+  category: record.subcategory
+    ? `${getCategoryName(categories, record.category)} / ${getCategoryName(categories, record.subcategory)}`
+    : getCategoryName(categories, record.category),
+  ...(record.splits ? { splits: record.splits.map(part => withCategoryNames(part, categories)) } : {}),
+});
+
 export const generateSpendingInsight = async (context: UserContext): Promise<string> => {
   if (!apiKey) return "API Key not configured.";
 
   try {
     const today = new Date().toISOString().split('T')[0];
     const totalExpensesAmount = context.expenses.reduce((s, e) => s + e.amount, 0);
-    const totalIncomeAmount = (context.incomes || []).filter(i => i.status === 'Received').reduce((s, i) => s + i.amount, 0);
+    const totalIncomeAmount = getIncomeReceipts(context.incomes || []).reduce((s, r) => s + r.amount, 0);
 
     const contextString = JSON.stringify({
       currentDate: today,
       totalExpensesAmount,
       totalIncomeAmount,
       cashFlow: totalIncomeAmount - totalExpensesAmount,
-      recentExpenses: context.expenses.slice(0, 20),
-      budgets: context.budgets,
-      pendingIncomes: (context.incomes || []).filter(i => i.status === 'Overdue' || i.status === 'Expected')
+      recentExpenses: context.expenses.slice(0, 20).map(e => withCategoryNames(e, context.categories)),
+      budgets: context.budgets.map(b => ({ ...b, category: getCategoryName(context.categories || [], b.category) })),
+      pendingIncomes: (context.incomes || [])
+        .filter(i => i.status !== 'Received')
+        .map(i => ({ ...i, outstandingBalance: getOutstandingBalance(i) }))
     });
 
     const response = await ai.models.generateContent({
@@ -43,7 +60,7 @@ export const generateSpendingInsight = async (context: UserContext): Promise<str
   }
 };
 
-export const parseExpenseFromText = async (text: string): Promise<any> => {
+export const parseExpenseFromText = async (text: string, categories?: CategoryDefinition[]): Promise<any> => {
     if (!apiKey) throw new Error("API Key missing");
     
     const today = new Date().toISOString().split('T')[0];
@@ -66,7 +83,7 @@ export const parseExpenseFromText = async (text: string): Promise<any> => {
                 type: Type.OBJECT,
                 properties: {
                     amount: { type: Type.NUMBER },
-                    category: { type: Type.STRING, enum: ['Food', 'Transport', 'Entertainment', 'Utilities', 'Healthcare', 'Shopping', 'Housing', 'Other'] },
+                    category: { type: Type.STRING, enum: categoryNames(categories, 'expense'), description: "Most specific matching category." },
                     description: { type: Type.STRING },
                     date: { type: Type.STRING, description: "YYYY-MM-DD format." },
                     paymentMethod: { type: Type.STRING, enum: ['Cash', 'Card', 'UPI', 'Other'] }
@@ -79,7 +96,7 @@ export const parseExpenseFromText = async (text: string): Promise<any> => {
     return JSON.parse(response.text || "{}");
 }
 
-export const parseIncomeFromText = async (text: string): Promise<any> => {
+export const parseIncomeFromText = async (text: string, categories?: CategoryDefinition[]): Promise<any> => {
     if (!apiKey) throw new Error("API Key missing");
 
     const today = new Date().toISOString().split('T')[0];
@@ -101,7 +118,7 @@ export const parseIncomeFromText = async (text: string): Promise<any> => {
                 type: Type.OBJECT,
                 properties: {
                     amount: { type: Type.NUMBER },
-                    category: { type: Type.STRING, enum: ['Salary', 'Rent', 'Interest', 'Business', 'Gift', 'Other'] },
+                    category: { type: Type.STRING, enum: categoryNames(categories, 'income'), description: "Most specific matching category." },
                     source: { type: Type.STRING },
                     date: { type: Type.STRING, description: "YYYY-MM-DD format." }
                 },
@@ -113,7 +130,7 @@ export const parseIncomeFromText = async (text: string): Promise<any> => {
     return JSON.parse(response.text || "{}");
 }
 
-const addExpenseTool: FunctionDeclaration = {
+const createAddExpenseTool = (categories?: CategoryDefinition[]): FunctionDeclaration => ({
   name: "add_expense",
   description: "Add a new expense transaction to the tracking system.",
   parameters: {
@@ -122,8 +139,8 @@ const addExpenseTool: FunctionDeclaration = {
       amount: { type: Type.NUMBER, description: "Numeric amount of the expense." },
       category: { 
         type: Type.STRING, 
-        enum: ['Food', 'Transport', 'Entertainment', 'Utilities', 'Healthcare', 'Shopping', 'Housing', 'Other'],
-        description: "Category of the expense." 
+        enum: categoryNames(categories, 'expense'),
+        description: "Category of the expense; prefer the most specific match." 
       },
       description: { type: Type.STRING, description: "Description of what was purchased." },
       date: { type: Type.STRING, description: "Date of transaction in YYYY-MM-DD format." },
@@ -135,9 +152,9 @@ const addExpenseTool: FunctionDeclaration = {
     },
     required: ["amount", "category", "description"]
   }
-};
+});
 
-const addIncomeTool: FunctionDeclaration = {
+const createAddIncomeTool = (categories?: CategoryDefinition[]): FunctionDeclaration => ({
   name: "add_income",
   description: "Add a new income source or scheduled income (like Salary, Rent) to the tracking system.",
   parameters: {
@@ -146,20 +163,29 @@ const addIncomeTool: FunctionDeclaration = {
       amount: { type: Type.NUMBER, description: "Numeric amount of the income." },
       category: { 
         type: Type.STRING, 
-        enum: ['Salary', 'Rent', 'Interest', 'Business', 'Gift', 'Other'],
-        description: "Category of the income." 
+        enum: categoryNames(categories, 'income'),
+        description: "Category of the income; prefer the most specific match." 
       },
       source: { type: Type.STRING, description: "Source of the income (e.g., Employer Name, Tenant Name)." },
       date: { type: Type.STRING, description: "Date of income receipt or due date in YYYY-MM-DD format." },
       recurrence: {
           type: Type.STRING,
-          enum: ['None', 'Monthly', 'Yearly'],
-          description: "How often this income repeats."
-      }
+          enum: ['None', 'Weekly', 'Monthly', 'Quarterly', 'Half-Yearly', 'Yearly', 'Custom'],
+          description: "How often this income repeats. Use 'Custom' with interval and intervalUnit for other schedules (e.g. every 2 weeks)."
+      },
+      interval: { type: Type.NUMBER, description: "For 'Custom' recurrence: repeat every N units." },
+      intervalUnit: {
+          type: Type.STRING,
+          enum: ['Day', 'Week', 'Month', 'Year'],
+          description: "For 'Custom' recurrence: the unit of the interval."
+      },
+      endDate: { type: Type.STRING, description: "Optional last date (YYYY-MM-DD) after which the income stops repeating." },
+      occurrences: { type: Type.NUMBER, description: "Optional total number of times the income occurs, including the first." },
+      lastDayOfMonth: { type: Type.BOOLEAN, description: "True if the income is due on the last day of each month (e.g. 'end of every month')." }
     },
     required: ["amount", "category", "source"]
   }
-};
+});
 
 const deleteTransactionTool: FunctionDeclaration = {
   name: "delete_transaction",
@@ -207,9 +233,9 @@ export const chatWithFinancialAssistant = async (
     const contextData = {
       summary: "User's recent financial data",
       currency: context.currency,
-      budgets: context.budgets,
-      recentTransactions: recentExpenses.map(e => ({ id: e.id, description: e.description, amount: e.amount, date: e.date, category: e.category })),
-      recentIncomes: recentIncomes.map(i => ({ id: i.id, source: i.source, amount: i.amount, date: i.date, category: i.category })),
+      budgets: context.budgets.map(b => ({ ...b, category: getCategoryName(context.categories || [], b.category) })),
+      recentTransactions: recentExpenses.map(e => withCategoryNames({ id: e.id, description: e.description, amount: e.amount, date: e.date, category: e.category, subcategory: e.subcategory, tags: e.tags, splits: e.splits }, context.categories)),
+      recentIncomes: recentIncomes.map(i => withCategoryNames({ id: i.id, source: i.source, amount: i.amount, date: i.date, category: i.category, subcategory: i.subcategory, tags: i.tags }, context.categories)),
       currentDate: today
     };
 
@@ -237,8 +263,8 @@ export const chatWithFinancialAssistant = async (
 
     // Construct tools array based on available callbacks
     const functionDeclarations: FunctionDeclaration[] = [];
-    if (onAddExpense) functionDeclarations.push(addExpenseTool);
-    if (onAddIncome) functionDeclarations.push(addIncomeTool);
+    if (onAddExpense) functionDeclarations.push(createAddExpenseTool(context.categories));
+    if (onAddIncome) functionDeclarations.push(createAddIncomeTool(context.categories));
     if (onDeleteTransaction) functionDeclarations.push(deleteTransactionTool);
 
     // Convert history to Gemini format
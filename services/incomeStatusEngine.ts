@@ -0,0 +1,111 @@
+import { Income, IncomeStatus } from '../types';
+import { deriveIncomeStatus } from '../utils/incomeLedger';
+
+// Keeps income statuses in step with the calendar. Statuses only depend on the date, so the engine
+// watches for the day to change (on a timer and whenever the app returns to the foreground) and
+// re-derives them then, as well as whenever the income list itself changes.
+// The clock is injectable so the transitions can be exercised with any date.
+
+export interface IncomeStatusChange {
+  incomeId: string;
+  from: IncomeStatus;
+  to: IncomeStatus;
+}
+
+export type IncomeStatusEvent =
+  | { type: 'dayChange'; today: string; previousDay: string }
+  | { type: 'statusChange'; today: string; changes: IncomeStatusChange[] };
+
+export type IncomeStatusListener = (event: IncomeStatusEvent) => void;
+
+const DEFAULT_INTERVAL_MS = 60 * 1000;
+
+export const toLocalDateString = (d: Date) => {
+  const year = d.getFullYear();
+  const month = String(d.getMonth() + 1).padStart(2, '0');
+  const day = String(d.getDate()).padStart(2, '0');
+  return `${year}-${month}-${day}`;
+};
+
+// Re-derive statuses from outstanding balances: past-due balances become Overdue
+// and future dated 'Overdue' entries self-heal. Unchanged entries keep their identity.
+export const refreshIncomeStatuses = (list: Income[], today: string): { incomes: Income[]; changes: IncomeStatusChange[] } => {
+  const changes: IncomeStatusChange[] = [];
+
+  const refreshed = list.map(inc => {
+    const status = deriveIncomeStatus(inc, today);
+    if (status === inc.status) return inc;
+    changes.push({ incomeId: inc.id, from: inc.status, to: status });
+    return { ...inc, status };
+  });
+
+  return { incomes: changes.length > 0 ? refreshed : list, changes };
+};
+
+export const createIncomeStatusEngine = (options: { getToday?: () => string; intervalMs?: number } = {}) => {
+  const getToday = options.getToday || (() => toLocalDateString(new Date()));
+  const intervalMs = options.intervalMs || DEFAULT_INTERVAL_MS;
+  const listeners = new Set<IncomeStatusListener>();
+  let currentDay = getToday();
+
+  const emit = (event: IncomeStatusEvent) => {
+    listeners.forEach(listener => {
+      try {
+        listener(event);
+      } catch (e) {
+        console.error('Income status listener failed', e);
+      }
+    });
+  };
+
+  const subscribe = (listener: IncomeStatusListener) => {
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+    };
+  };
+
+  // Reads the clock and announces a new day. Returns the current day either way.
+  const tick = (): string => {
+    const today = getToday();
+    if (today !== currentDay) {
+      const previousDay = currentDay;
+      currentDay = today;
+      emit({ type: 'dayChange', today, previousDay });
+    }
+    return currentDay;
+  };
+
+  const evaluate = (list: Income[], today: string = tick()) => {
+    const result = refreshIncomeStatuses(list, today);
+    if (result.changes.length > 0) emit({ type: 'statusChange', today, changes: result.changes });
+    return result;
+  };
+
+  // Returns a function that stops the timer and the visibility listener
+  const start = (): (() => void) => {
+    const onVisibilityChange = () => {
+      if (document.visibilityState === 'visible') tick();
+    };
+
+    tick();
+    const timer = window.setInterval(tick, intervalMs);
+    document.addEventListener('visibilitychange', onVisibilityChange);
+
+    return () => {
+      window.clearInterval(timer);
+      document.removeEventListener('visibilitychange', onVisibilityChange);
+    };
+  };
+
+  return {
+    tick,
+    evaluate,
+    start,
+    subscribe,
+  };
+};
+
+export type IncomeStatusEngine = ReturnType<typeof createIncomeStatusEngine>;
+
+export const incomeStatusEngine = createIncomeStatusEngine();
@@ -0,0 +1,91 @@
+import { DueAlert } from '../utils/notifications';
+
+// Device notifications for rent and bill reminders. They are shown through the service worker
+// registration (sw.js) when one is active, so tapping a notification can focus or reopen the app.
+
+const STORAGE_KEY_NOTIFIED = 'kanakku_notified';
+const CHECK_INTERVAL_MS = 15 * 60 * 1000;
+const NOTIFIED_RETENTION_DAYS = 60;
+
+export const isNotificationSupported = () => typeof window !== 'undefined' && 'Notification' in window;
+
+export const getNotificationPermission = (): NotificationPermission | 'unsupported' =>
+  isNotificationSupported() ? Notification.permission : 'unsupported';
+
+export const requestNotificationPermission = async (): Promise<boolean> => {
+  if (!isNotificationSupported()) return false;
+  if (Notification.permission === 'granted') return true;
+  if (Notification.permission === 'denied') return false;
+  return (await Notification.requestPermission()) === 'granted';
+};
+
+export const showNotification = async (alert: Pick<DueAlert, 'tag' | 'title' | 'body'>): Promise<boolean> => {
+  if (getNotificationPermission() !== 'granted') return false;
+  const options: NotificationOptions = { body: alert.body, tag: alert.tag, data: { url: './' } };
+
+  try {
+    const registration = 'serviceWorker' in navigator ? await navigator.serviceWorker.getRegistration() : undefined;
+    if (registration) {
+      await registration.showNotification(alert.title, options);
+    } else {
+      new Notification(alert.title, options);
+    }
+    return true;
+  } catch (e) {
+    console.error('Failed to show notification', e);
+    return false;
+  }
+};
+
+// Keys of alerts already shown, per user, with the time they were shown
+const readNotified = (userId: string): Record<string, number> => {
+  try {
+    const all = JSON.parse(localStorage.getItem(STORAGE_KEY_NOTIFIED) || '{}');
+    return all[userId] || {};
+  } catch {
+    return {};
+  }
+};
+
+const writeNotified = (userId: string, notified: Record<string, number>) => {
+  const cutoff = Date.now() - NOTIFIED_RETENTION_DAYS * 24 * 60 * 60 * 1000;
+  const kept = Object.fromEntries(Object.entries(notified).filter(([, shownAt]) => shownAt >= cutoff));
+  try {
+    const all = JSON.parse(localStorage.getItem(STORAGE_KEY_NOTIFIED) || '{}');
+    localStorage.setItem(STORAGE_KEY_NOTIFIED, JSON.stringify({ ...all, [userId]: kept }));
+  } catch (e) {
+    console.error('Failed to save notification log', e);
+  }
+};
+
+// Shows the alerts not shown before. Alerts held back by quiet hours are left for a later check.
+export const deliverAlerts = async (userId: string, alerts: DueAlert[]): Promise<number> => {
+  const notified = readNotified(userId);
+  let shown = 0;
+  for (const alert of alerts) {
+    if (notified[alert.key]) continue;
+    if (await showNotification(alert)) {
+      notified[alert.key] = Date.now();
+      shown++;
+    }
+  }
+  if (shown > 0) writeNotified(userId, notified);
+  return shown;
+};
+
+// Runs the check now, every few minutes while the app is open, and whenever it comes back to the foreground.
+// Returns a function that stops the scheduler.
+export const startNotificationScheduler = (check: () => void): (() => void) => {
+  const onVisibilityChange = () => {
+    if (document.visibilityState === 'visible') check();
+  };
+
+  check();
+  const timer = window.setInterval(check, CHECK_INTERVAL_MS);
+  document.addEventListener('visibilitychange', onVisibilityChange);
+
+  return () => {
+    window.clearInterval(timer);
+    document.removeEventListener('visibilitychange', onVisibilityChange);
+  };
+};
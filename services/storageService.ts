@@ -0,0 +1,182 @@
+import { Expense, Income, Budget, ChatMessage, LocalBackup, RecurringExpense, Property, Tenant, MoneyAccount, Transfer, CategoryDefinition, Contact, ExpenseGroup, Settlement, Loan, EmiPlan, SavingsGoal } from '../types';
+
+// IndexedDB backed storage for per-user ledger data.
+// Records are written one at a time instead of re-serializing whole arrays,
+// and every record carries its owner's userId so profiles sharing a device stay partitioned.
+
+const DB_NAME = 'kanakku_db';
+const DB_VERSION = 10;
+
+// Per-user bookkeeping such as the schema version of the stored records
+export interface MetaRecord {
+  key: string;
+  value: number | string;
+}
+
+export interface StoreRecords {
+  expenses: Expense;
+  incomes: Income;
+  budgets: Budget;
+  recurringExpenses: RecurringExpense;
+  properties: Property;
+  tenants: Tenant;
+  accounts: MoneyAccount;
+  transfers: Transfer;
+  categories: CategoryDefinition;
+  contacts: Contact;
+  groups: ExpenseGroup;
+  settlements: Settlement;
+  loans: Loan;
+  emiPlans: EmiPlan;
+  goals: SavingsGoal;
+  chat: ChatMessage;
+  backups: LocalBackup;
+  meta: MetaRecord;
+}
+
+export type StoreName = keyof StoreRecords;
+
+// Secondary indexes. 'status' only exists on incomes.
+export type IndexName = 'date' | 'category' | 'status';
+
+export interface LedgerRepository {
+  // All records of a user, or of every user on the device when userId is omitted
+  getAll<S extends StoreName>(store: S, userId?: string): Promise<StoreRecords[S][]>;
+  put<S extends StoreName>(store: S, userId: string, record: StoreRecords[S]): Promise<void>;
+  putMany<S extends StoreName>(store: S, userId: string, records: StoreRecords[S][]): Promise<void>;
+  remove(store: StoreName, userId: string, key: string): Promise<void>;
+  // Writes only the records that were added, replaced or removed between two snapshots
+  sync<S extends StoreName>(store: S, userId: string, previous: StoreRecords[S][], next: StoreRecords[S][]): Promise<void>;
+}
+
+type Owned<T> = T & { userId: string };
+
+const STORE_SCHEMA: { [S in StoreName]: { key: keyof StoreRecords[S] & string; indexes: IndexName[] } } = {
+  expenses: { key: 'id', indexes: ['date', 'category'] },
+  incomes: { key: 'id', indexes: ['date', 'category', 'status'] },
+  budgets: { key: 'category', indexes: [] },
+  recurringExpenses: { key: 'id', indexes: [] },
+  properties: { key: 'id', indexes: [] },
+  tenants: { key: 'id', indexes: [] },
+  accounts: { key: 'id', indexes: [] },
+  transfers: { key: 'id', indexes: [] },
+  categories: { key: 'id', indexes: [] },
+  contacts: { key: 'id', indexes: [] },
+  groups: { key: 'id', indexes: [] },
+  settlements: { key: 'id', indexes: [] },
+  loans: { key: 'id', indexes: [] },
+  emiPlans: { key: 'id', indexes: [] },
+  goals: { key: 'id', indexes: [] },
+  chat: { key: 'id', indexes: [] },
+  backups: { key: 'id', indexes: [] },
+  meta: { key: 'key', indexes: [] },
+};
+
+const getRecordKey = <S extends StoreName>(store: S, record: StoreRecords[S]): string => {
+  return String(record[STORE_SCHEMA[store].key]);
+};
+
+// Compound keys sort by userId first, so [userId] .. [userId, []] spans exactly one user's records
+const userRange = (userId: string) => IDBKeyRange.bound([userId], [userId, []]);
+
+const toOwned = <T>(record: T, userId: string): Owned<T> => ({ ...record, userId });
+
+const fromOwned = <T>(record: Owned<T>): T => {
+  const { userId, ...rest } = record;
+  return rest as unknown as T;
+};
+
+const promisify = <T>(request: IDBRequest<T>): Promise<T> => {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+const transactionDone = (tx: IDBTransaction): Promise<void> => {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+};
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      (Object.keys(STORE_SCHEMA) as StoreName[]).forEach(name => {
+        if (db.objectStoreNames.contains(name)) return;
+        const schema = STORE_SCHEMA[name];
+        const store = db.createObjectStore(name, { keyPath: ['userId', schema.key] });
+        schema.indexes.forEach(index => {
+          store.createIndex(index, ['userId', index]);
+        });
+      });
+    };
+
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      dbPromise = null;
+      reject(request.error);
+    };
+  });
+
+  return dbPromise;
+};
+
+const createIndexedDBRepository = (): LedgerRepository => {
+  const getAll = async <S extends StoreName>(store: S, userId?: string): Promise<StoreRecords[S][]> => {
+    const db = await openDatabase();
+    const objectStore = db.transaction(store, 'readonly').objectStore(store);
+    const records = await promisify(objectStore.getAll(userId ? userRange(userId) : undefined));
+    return records.map(r => fromOwned<StoreRecords[S]>(r));
+  };
+
+  const putMany = async <S extends StoreName>(store: S, userId: string, records: StoreRecords[S][]): Promise<void> => {
+    if (records.length === 0) return;
+    const db = await openDatabase();
+    const tx = db.transaction(store, 'readwrite');
+    const objectStore = tx.objectStore(store);
+    records.forEach(record => objectStore.put(toOwned(record, userId)));
+    await transactionDone(tx);
+  };
+
+  const put = <S extends StoreName>(store: S, userId: string, record: StoreRecords[S]): Promise<void> => {
+    return putMany(store, userId, [record]);
+  };
+
+  const remove = async (store: StoreName, userId: string, key: string): Promise<void> => {
+    const db = await openDatabase();
+    const tx = db.transaction(store, 'readwrite');
+    tx.objectStore(store).delete([userId, key]);
+    await transactionDone(tx);
+  };
+
+  const sync = async <S extends StoreName>(store: S, userId: string, previous: StoreRecords[S][], next: StoreRecords[S][]): Promise<void> => {
+    // State updates are immutable, so an unchanged record keeps its object identity
+    const previousByKey = new Map(previous.map(r => [getRecordKey(store, r), r]));
+    const nextKeys = new Set(next.map(r => getRecordKey(store, r)));
+
+    const changed = next.filter(r => previousByKey.get(getRecordKey(store, r)) !== r);
+    const removedKeys = Array.from(previousByKey.keys()).filter(key => !nextKeys.has(key));
+    if (changed.length === 0 && removedKeys.length === 0) return;
+
+    const db = await openDatabase();
+    const tx = db.transaction(store, 'readwrite');
+    const objectStore = tx.objectStore(store);
+    changed.forEach(record => objectStore.put(toOwned(record, userId)));
+    removedKeys.forEach(key => objectStore.delete([userId, key]));
+    await transactionDone(tx);
+  };
+
+  return { getAll, put, putMany, remove, sync };
+};
+
+export const ledgerRepository: LedgerRepository = createIndexedDBRepository();
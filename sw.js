@@ -33,4 +33,19 @@ self.addEventListener('activate', (event) => {
       );
     })
   );
-});
\ No newline at end of file
+});
+// Rent and bill reminders are shown from the app through this registration.
+// Tapping one brings an open app window to the front, or opens the app if none is open.
+self.addEventListener('notificationclick', (event) => {
+  event.notification.close();
+  const url = (event.notification.data && event.notification.data.url) || './';
+  event.waitUntil(
+    self.clients.matchAll({ type: 'window', includeUncontrolled: true }).then((clients) => {
+      const client = clients.find((c) => 'focus' in c);
+      if (client) {
+        return client.focus();
+      }
+      return self.clients.openWindow(url);
+    })
+  );
+});
@@ -1,38 +1,336 @@
+// Category ids. Built-in categories use their English name as id (so older records keep working),
+// except income 'Other' which is 'Other Income'; categories the user creates get generated ids.
+export type Category = string;
+export type IncomeCategory = string;
+export type CategoryKind = 'expense' | 'income';
 
+// A user-editable expense or income category. Subcategories point at a top-level parent of the same kind;
+// records store the top-level id in `category` and the optional subcategory id in `subcategory`.
+export interface CategoryDefinition {
+  id: string;
+  kind: CategoryKind;
+  name: string;
+  icon: string; // Key of CATEGORY_ICONS in components/CategoryIcon.tsx
+  color: string; // Hex colour for charts and badges
+  parentId?: string; // Only one level of nesting
+  archived?: boolean; // Hidden from pickers but kept for existing records
+  createdAt: number;
+}
 
-export type Category = 
-  | 'Food' 
-  | 'Transport' 
-  | 'Entertainment' 
-  | 'Utilities' 
-  | 'Healthcare' 
-  | 'Shopping' 
-  | 'Housing' 
-  | 'Other';
+export type Recurrence = 'None' | 'Weekly' | 'Monthly' | 'Quarterly' | 'Half-Yearly' | 'Yearly' | 'Custom';
+export type RecurrenceUnit = 'Day' | 'Week' | 'Month' | 'Year';
 
-export type IncomeCategory = 'Salary' | 'Rent' | 'Interest' | 'Business' | 'Gift' | 'Other';
-export type Recurrence = 'None' | 'Monthly' | 'Yearly';
-export type IncomeStatus = 'Expected' | 'Received' | 'Overdue';
+// Optional refinements of a Recurrence. interval/unit are only read for 'Custom'.
+export interface RecurrenceRule {
+  interval?: number; // Every N units
+  unit?: RecurrenceUnit;
+  endDate?: string; // No occurrences after this date
+  count?: number; // Total number of occurrences, including the first
+  lastDayOfMonth?: boolean; // Month based schedules land on the last day of each month
+}
+export type IncomeStatus = 'Expected' | 'Partially Received' | 'Received' | 'Overdue';
+export type SeriesStatus = 'Active' | 'Paused' | 'Ended';
+export type PaymentMethod = 'Cash' | 'Card' | 'UPI' | 'Other';
+export type MoneyAccountType = 'Bank' | 'Cash' | 'Credit Card' | 'UPI Lite' | 'Wallet' | 'Other';
 
-export interface Expense {
+// Where money lives: a bank account, cash wallet, card and so on.
+// The balance is the opening balance plus everything posted to the account since.
+export interface MoneyAccount {
+  id: string;
+  name: string;
+  type: MoneyAccountType;
+  openingBalance: number;
+  // Credit cards: the billing cycle closes on statementDay and the bill is due on the next dueDay (days of the month)
+  statementDay?: number;
+  dueDay?: number;
+  creditLimit?: number;
+  archived?: boolean; // Hidden from pickers; kept so past transactions still resolve
+  createdAt: number;
+}
+
+// Money moved between two of the user's own accounts. Not income or spending.
+export interface Transfer {
+  id: string;
+  fromAccountId: string;
+  toAccountId: string;
+  amount: number;
+  date: string;
+  note?: string;
+  createdAt: number;
+}
+
+// Someone the user shares expenses with (a friend or roommate)
+export interface Contact {
+  id: string;
+  name: string;
+  mobile?: string;
+  archived?: boolean; // Contacts with shared history are archived instead of deleted
+  createdAt: number;
+}
+
+// Contacts who share expenses, e.g. a trip or a flat. The user is always a member.
+export interface ExpenseGroup {
+  id: string;
+  name: string;
+  memberIds: string[]; // Contact ids
+  archived?: boolean;
+  createdAt: number;
+}
+
+export type ShareMode = 'equal' | 'shares' | 'exact';
+
+// One person's part of a shared expense
+export interface ShareParticipant {
+  contactId: string; // SELF_ID ('self') for the user
+  amount: number;
+  shares?: number; // Weight when the bill is split by shares
+}
+
+// How a shared bill was paid and divided. The expense's own `amount` is the user's part,
+// so only that counts towards spending and budgets.
+export interface ExpenseSharing {
+  groupId?: string;
+  total: number;
+  paidBy: string; // Contact id, or 'self'
+  mode: ShareMode;
+  participants: ShareParticipant[]; // Includes everyone sharing; amounts sum to `total`
+}
+
+// Money paid between two people to settle shared expenses; 'self' stands for the user
+export interface Settlement {
   id: string;
+  fromId: string;
+  toId: string;
+  amount: number;
+  groupId?: string;
+  accountId?: string; // The user's account the money left or arrived in
+  date: string;
+  note?: string;
+  createdAt: number;
+}
+
+export type LoanDirection = 'Given' | 'Borrowed';
+export type LoanInterestType = 'None' | 'Simple' | 'Compound';
+export type LoanCompounding = 'Monthly' | 'Quarterly' | 'Yearly';
+export type LoanRepaymentFrequency = 'Monthly' | 'Lump Sum';
+
+// One repayment against a loan, in whichever direction the loan runs
+export interface LoanRepayment {
+  id: string;
+  amount: number;
+  date: string;
+  accountId?: string; // The user's account the money arrived in (Given) or left (Borrowed)
+  note?: string;
+  createdAt: number;
+}
+
+// Money lent to or borrowed from a contact. Interest is worked out on the principal for the whole tenure
+// and the total is repaid in equal monthly instalments or in one go at the end.
+export interface Loan {
+  id: string;
+  direction: LoanDirection;
+  contactId: string;
+  principal: number;
+  startDate: string;
+  interestType: LoanInterestType;
+  interestRate: number; // Annual %, 0 for interest-free loans
+  compounding?: LoanCompounding; // Compound interest only
+  tenureMonths: number;
+  repaymentFrequency: LoanRepaymentFrequency;
+  accountId?: string; // The user's account the principal left (Given) or arrived in (Borrowed)
+  repayments: LoanRepayment[];
+  reminders?: ReminderLog[]; // Follow-ups sent for overdue repayments, oldest first
+  note?: string;
+  createdAt: number;
+}
+
+export type EmiPrepaymentMode = 'Reduce Tenure' | 'Reduce EMI';
+
+// A lump sum paid towards the principal outside the EMI schedule
+export interface EmiPrepayment {
+  id: string;
+  amount: number;
+  date: string;
+  mode: EmiPrepaymentMode; // Keep the EMI and finish sooner, or keep the end date and pay less each month
+  accountId?: string; // The user's account the money left
+  createdAt: number;
+}
+
+// A bank loan (home, vehicle, personal) repaid in equated monthly instalments on a reducing balance.
+// Each EMI is posted by the linked recurring expense; prepayments are paid straight from an account.
+export interface EmiPlan {
+  id: string;
+  name: string;
+  lender?: string;
+  principal: number;
+  interestRate: number; // Annual %
+  tenureMonths: number;
+  firstEmiDate: string; // EMIs fall due monthly from this date
+  category: Category; // Category the EMIs are posted under
+  subcategory?: Category;
+  accountId?: string; // The user's account the EMIs are paid from
+  seriesId?: string; // RecurringExpense that posts the EMIs
+  prepayments: EmiPrepayment[];
+  createdAt: number;
+}
+
+// Money set aside towards a savings goal. Contributions earmark savings; they don't move money between accounts.
+export interface GoalContribution {
+  id: string;
+  amount: number;
+  date: string;
+  incomeId?: string; // Income whose receipt triggered the goal's rule
+  note?: string;
+  createdAt: number;
+}
+
+// Sets aside a share of every income in a category when it is received
+export interface GoalRule {
+  incomeCategory: IncomeCategory;
+  percent: number;
+}
+
+export interface SavingsGoal {
+  id: string;
+  name: string;
+  targetAmount: number;
+  targetDate: string;
+  rule?: GoalRule;
+  contributions: GoalContribution[];
+  createdAt: number;
+}
+
+// One line of an expense split across categories
+export interface ExpenseSplit {
   amount: number;
   category: Category;
+  subcategory?: Category;
+  note?: string;
+}
+
+export interface Expense {
+  id: string;
+  amount: number;
+  category: Category; // The largest line's category when split
+  subcategory?: Category; // Subcategory of `category`
+  splits?: ExpenseSplit[]; // Lines summing to `amount`; budgets and reports count each in its own category
+  sharing?: ExpenseSharing; // Set when the bill was shared; `amount` is then the user's part
   description: string;
   date: string; // ISO String
-  paymentMethod: 'Cash' | 'Card' | 'UPI' | 'Other';
+  paymentMethod: PaymentMethod;
+  accountId?: string; // MoneyAccount paid from
+  recurrence?: Recurrence; // Set on occurrences of a recurring series
+  recurrenceRule?: RecurrenceRule;
+  seriesId?: string; // RecurringExpense that generated this entry
+  tags?: string[]; // Lower-case, without the leading '#'
+  notes?: string;
+  createdAt: number;
+}
+
+// Template for an expense that repeats (rent, subscriptions, bills).
+// Occurrences are posted as ordinary Expenses when nextDate falls due.
+export interface RecurringExpense {
+  id: string;
+  amount: number;
+  category: Category;
+  subcategory?: Category; // Subcategory of `category`
+  description: string;
+  paymentMethod: PaymentMethod;
+  accountId?: string;
+  tags?: string[]; // Tags, notes, splits and sharing are copied onto each occurrence
+  notes?: string;
+  splits?: ExpenseSplit[];
+  sharing?: ExpenseSharing;
+  recurrence: Recurrence;
+  recurrenceRule?: RecurrenceRule;
+  startDate: string; // Date of the first occurrence; later ones keep its day of the month
+  nextDate: string; // Date of the next occurrence to post
+  occurrenceCount: number; // Occurrences already posted or skipped
+  status: SeriesStatus;
   createdAt: number;
 }
 
+// One instalment paid against an Income
+export interface IncomePayment {
+  id: string;
+  amount: number;
+  date: string;
+  createdAt: number;
+}
+
+export type LateFeeType = 'Flat' | 'Percent' | 'PerDay';
+
+export interface LateFeeRule {
+  type: LateFeeType;
+  value: number; // Flat amount, percent of the unpaid balance, or amount per day late
+  cap?: number; // Upper limit, mainly for per-day fees
+}
+
+export interface RentEscalation {
+  percent: number; // Increase applied at each step, e.g. 5 for 5%
+  everyMonths: number; // 12 for an annual escalation
+  startDate: string; // YYYY-MM-DD the steps are counted from (usually the lease start)
+}
+
+export type ReminderStage = 'first' | 'second' | 'final';
+export type ReminderLanguage = 'en' | 'ta';
+export type ReminderChannel = 'WhatsApp' | 'Call';
+
+// Message templates per language and stage; only templates the user edited are stored
+export type ReminderTemplates = Partial<Record<ReminderLanguage, Partial<Record<ReminderStage, string>>>>;
+
+export interface ReminderLog {
+  id: string;
+  sentAt: number;
+  stage: ReminderStage;
+  channel: ReminderChannel;
+  language: ReminderLanguage;
+}
+
 export interface Income {
   id: string;
   amount: number;
   category: IncomeCategory;
+  subcategory?: Category; // Subcategory of `category`
   source: string; // Tenant Name, Employer, etc.
   date: string; // Due Date or Received Date
+  dueDate?: string; // Original due date, kept when the entry is settled on a different day
   recurrence: Recurrence;
+  recurrenceRule?: RecurrenceRule;
+  occurrence?: number; // Position in its recurring series (1 = first); missing on older records
+  anchorDate?: string; // Date the series started on (or was last rescheduled to); later dates keep its day of the month
   status: IncomeStatus;
-  tenantContact?: string; // Mobile number for rent follow-up
+  payments?: IncomePayment[]; // Missing on entries received in full before instalments were tracked
+  accountId?: string; // MoneyAccount the money is received into
+  tenantId?: string; // Tenant this rent belongs to
+  tenantContact?: string; // Mobile number for rent follow-up; superseded by the linked Tenant's contact
+  gracePeriodDays?: number; // Days after the due date before a late fee applies
+  lateFee?: LateFeeRule;
+  escalation?: RentEscalation; // Applied when the next occurrence is generated
+  reminders?: ReminderLog[]; // Follow-ups sent for this entry, oldest first
+  tags?: string[]; // Lower-case, without the leading '#'
+  notes?: string;
+  createdAt: number;
+}
+
+export interface Property {
+  id: string;
+  name: string;
+  address?: string;
+  createdAt: number;
+}
+
+export interface Tenant {
+  id: string;
+  name: string;
+  propertyId?: string; // Missing for tenants created from older rent entries until a property is assigned
+  mobile?: string; // Used for WhatsApp and call follow-ups
+  email?: string;
+  leaseStart: string;
+  leaseEnd?: string; // Open-ended lease when missing
+  agreedRent: number;
+  securityDeposit: number;
+  preferredLanguage?: ReminderLanguage; // Language of reminder messages; the app language when unset
   createdAt: number;
 }
 
@@ -45,6 +343,7 @@ export interface UserContext {
   expenses: Expense[];
   incomes: Income[];
   budgets: Budget[];
+  categories?: CategoryDefinition[];
   currency: string;
   userName?: string;
 }
@@ -64,6 +363,15 @@ export interface ExpenseStats {
   dailySpending: { date: string; amount: number }[];
 }
 
+// Local rent and bill reminders shown through the service worker
+export interface NotificationSettings {
+  enabled: boolean;
+  rentLeadDays: number; // Days before a rent due date to remind (1 = the day before)
+  billLeadDays: number; // Days before a recurring bill is posted to remind
+  quietHoursStart: string; // HH:mm, no reminders from this time...
+  quietHoursEnd: string; // ...until this time
+}
+
 export interface UserProfile {
   id: string;
   name: string;
@@ -71,10 +379,13 @@ export interface UserProfile {
   email: string;
   language: string;
   currency: string;
-  password?: string; // Hashed/Encrypted
+  password?: string; // Salted PBKDF2 hash (see utils/security.ts); plaintext only in profiles from older versions
   profilePicture?: string; // Base64 Data URL
   biometricEnabled?: boolean;
   biometricCredentialId?: string; // Base64 Encoded Credential ID
+  upiId?: string; // UPI VPA (e.g. name@bank) for payment request links, QR codes and reminders
+  reminderTemplates?: ReminderTemplates;
+  notificationSettings?: NotificationSettings;
 }
 
 export interface LocalBackup {
@@ -0,0 +1,90 @@
+import { EmiPlan, Expense, Income, Loan, MoneyAccount, MoneyAccountType, PaymentMethod, RecurringExpense, Settlement, Transfer } from '../types';
+import { getIncomeReceipts } from './incomeLedger';
+import { getAmountPaid, SELF_ID } from './sharing';
+
+// Balances of the user's money accounts. Expenses and received income post to an account;
+// transfers move money between accounts and never count as income or spending. Shared expenses post what
+// the user actually paid, and settlements with friends post the money that changed hands. Loans post the principal
+// when it is lent or borrowed and each repayment the other way. EMIs post as expenses; EMI prepayments post here.
+
+export const MONEY_ACCOUNT_TYPES: MoneyAccountType[] = ['Bank', 'Cash', 'Credit Card', 'UPI Lite', 'Wallet', 'Other'];
+
+// Accounts every user starts with; existing records are assigned to them by payment method
+export const createDefaultAccounts = (): MoneyAccount[] => {
+  const now = Date.now();
+  return [
+    { id: crypto.randomUUID(), name: 'Bank Account', type: 'Bank', openingBalance: 0, createdAt: now },
+    { id: crypto.randomUUID(), name: 'Cash', type: 'Cash', openingBalance: 0, createdAt: now + 1 },
+  ];
+};
+
+// Payment method an account implies, used to prefill forms
+export const getAccountPaymentMethod = (type: MoneyAccountType): PaymentMethod | null => {
+  if (type === 'Cash') return 'Cash';
+  if (type === 'Credit Card') return 'Card';
+  if (type === 'UPI Lite') return 'UPI';
+  return null;
+};
+
+// Account for a record saved without one: cash goes to the first cash account, anything else to the first other account
+export const getDefaultAccountId = (accounts: MoneyAccount[], paymentMethod?: PaymentMethod): string | undefined => {
+  const active = accounts.filter(a => !a.archived);
+  const cash = active.find(a => a.type === 'Cash');
+  if (paymentMethod === 'Cash' && cash) return cash.id;
+  return (active.find(a => a.type === 'Bank') || active.find(a => a.type !== 'Cash') || active[0])?.id;
+};
+
+export interface AccountBalance {
+  account: MoneyAccount;
+  balance: number;
+}
+
+export const getAccountBalances = (
+  accounts: MoneyAccount[],
+  data: { expenses: Expense[]; incomes: Income[]; transfers: Transfer[]; settlements: Settlement[]; loans: Loan[]; emiPlans: EmiPlan[] },
+  asOf?: string // Only count records dated on or before this day
+): AccountBalance[] => {
+  const balances = new Map<string, number>(accounts.map(a => [a.id, a.openingBalance]));
+  const post = (accountId: string | undefined, amount: number, date: string) => {
+    if (!accountId || !balances.has(accountId) || (asOf && date > asOf)) return;
+    balances.set(accountId, balances.get(accountId)! + amount);
+  };
+
+  data.expenses.forEach(e => post(e.accountId, -getAmountPaid(e), e.date));
+
+  const accountByIncome = new Map(data.incomes.map(i => [i.id, i.accountId]));
+  getIncomeReceipts(data.incomes).forEach(r => post(accountByIncome.get(r.incomeId), r.amount, r.date));
+
+  data.transfers.forEach(t => {
+    post(t.fromAccountId, -t.amount, t.date);
+    post(t.toAccountId, t.amount, t.date);
+  });
+
+  data.settlements.forEach(s => {
+    if (s.fromId === SELF_ID) post(s.accountId, -s.amount, s.date);
+    if (s.toId === SELF_ID) post(s.accountId, s.amount, s.date);
+  });
+
+  data.loans.forEach(loan => {
+    const sign = loan.direction === 'Given' ? -1 : 1;
+    post(loan.accountId, sign * loan.principal, loan.startDate);
+    loan.repayments.forEach(r => post(r.accountId, -sign * r.amount, r.date));
+  });
+
+  data.emiPlans.forEach(plan => plan.prepayments.forEach(p => post(p.accountId, -p.amount, p.date)));
+
+  return accounts.map(account => ({ account, balance: balances.get(account.id)! }));
+};
+
+export const isAccountInUse = (
+  accountId: string,
+  data: { expenses: Expense[]; incomes: Income[]; recurringExpenses: RecurringExpense[]; transfers: Transfer[]; settlements: Settlement[]; loans: Loan[]; emiPlans: EmiPlan[] }
+): boolean => {
+  return data.expenses.some(e => e.accountId === accountId) ||
+    data.incomes.some(i => i.accountId === accountId) ||
+    data.recurringExpenses.some(s => s.accountId === accountId && s.status !== 'Ended') ||
+    data.transfers.some(t => t.fromAccountId === accountId || t.toAccountId === accountId) ||
+    data.settlements.some(s => s.accountId === accountId) ||
+    data.loans.some(l => l.accountId === accountId || l.repayments.some(r => r.accountId === accountId)) ||
+    data.emiPlans.some(plan => plan.prepayments.some(p => p.accountId === accountId));
+};
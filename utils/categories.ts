@@ -0,0 +1,102 @@
+import { Budget, CategoryDefinition, CategoryKind, Expense, Income, RecurringExpense, SavingsGoal } from '../types';
+
+// User-editable expense and income categories with one level of subcategories.
+// Records keep the top-level id in `category`, so totals and budgets group by it directly.
+
+// Catch-all categories; records with an unknown category fall back to these
+export const OTHER_EXPENSE_CATEGORY = 'Other';
+export const OTHER_INCOME_CATEGORY = 'Other Income';
+
+// Built-ins the app relies on (rent tracking and fallbacks). They can be renamed and restyled, not removed.
+const PROTECTED_CATEGORIES = ['Rent', OTHER_EXPENSE_CATEGORY, OTHER_INCOME_CATEGORY];
+
+export const CATEGORY_COLORS = [
+  '#F97316', '#F59E0B', '#EAB308', '#22C55E', '#0D9488', '#06B6D4', '#3B82F6',
+  '#6366F1', '#8B5CF6', '#A855F7', '#EC4899', '#EF4444', '#78716C', '#64748B',
+];
+
+const defaults: [string, CategoryKind, string, string, string?][] = [
+  // id (= English name), kind, icon, colour, parent
+  ['Food', 'expense', 'utensils', '#F97316'],
+  ['Transport', 'expense', 'car', '#3B82F6'],
+  ['Entertainment', 'expense', 'film', '#A855F7'],
+  ['Utilities', 'expense', 'zap', '#EAB308'],
+  ['Healthcare', 'expense', 'heart-pulse', '#EF4444'],
+  ['Shopping', 'expense', 'shopping-bag', '#EC4899'],
+  ['Housing', 'expense', 'home', '#0D9488'],
+  [OTHER_EXPENSE_CATEGORY, 'expense', 'tag', '#64748B'],
+  ['Groceries', 'expense', 'shopping-cart', '#F97316', 'Food'],
+  ['Dining Out', 'expense', 'coffee', '#F97316', 'Food'],
+  ['Fuel', 'expense', 'fuel', '#3B82F6', 'Transport'],
+  ['Public Transport', 'expense', 'bus', '#3B82F6', 'Transport'],
+  ['Electricity', 'expense', 'zap', '#EAB308', 'Utilities'],
+  ['Mobile & Internet', 'expense', 'wifi', '#EAB308', 'Utilities'],
+  ['Salary', 'income', 'briefcase', '#22C55E'],
+  ['Rent', 'income', 'building', '#8B5CF6'],
+  ['Interest', 'income', 'percent', '#3B82F6'],
+  ['Business', 'income', 'store', '#F97316'],
+  ['Gift', 'income', 'gift', '#EC4899'],
+  [OTHER_INCOME_CATEGORY, 'income', 'hand-coins', '#64748B'],
+];
+
+// Categories every user starts with; existing records already use these ids
+export const createDefaultCategories = (): CategoryDefinition[] => {
+  const now = Date.now();
+  return defaults.map(([id, kind, icon, color, parentId], index) => ({
+    id,
+    kind,
+    name: id === OTHER_INCOME_CATEGORY ? 'Other' : id,
+    icon,
+    color,
+    ...(parentId ? { parentId } : {}),
+    createdAt: now + index,
+  }));
+};
+
+export const isProtectedCategory = (id: string) => PROTECTED_CATEGORIES.includes(id);
+
+export const getOtherCategoryId = (kind: CategoryKind) => kind === 'income' ? OTHER_INCOME_CATEGORY : OTHER_EXPENSE_CATEGORY;
+
+export const findCategory = (categories: CategoryDefinition[], id?: string) => id ? categories.find(c => c.id === id) : undefined;
+
+// Top-level categories of a kind, in creation order
+export const getTopLevelCategories = (categories: CategoryDefinition[], kind: CategoryKind, includeArchived = false) =>
+  categories.filter(c => c.kind === kind && !c.parentId && (includeArchived || !c.archived));
+
+export const getSubcategories = (categories: CategoryDefinition[], parentId: string, includeArchived = false) =>
+  categories.filter(c => c.parentId === parentId && (includeArchived || !c.archived));
+
+// Untranslated name of a category; unknown ids (e.g. from a newer backup) are shown as-is
+export const getCategoryName = (categories: CategoryDefinition[], id: string) => findCategory(categories, id)?.name || id;
+
+export const getCategoryColor = (categories: CategoryDefinition[], id: string) =>
+  findCategory(categories, id)?.color || CATEGORY_COLORS[CATEGORY_COLORS.length - 1];
+
+// Maps a category the AI or an import named (an id or a name, possibly of a subcategory) to a category and subcategory
+export const resolveCategory = (
+  categories: CategoryDefinition[],
+  kind: CategoryKind,
+  value?: string
+): { category: string; subcategory?: string } => {
+  const key = (value || '').trim().toLowerCase();
+  const match = categories.find(c => c.kind === kind && !c.archived && (c.id.toLowerCase() === key || c.name.toLowerCase() === key));
+  if (!match) return { category: getOtherCategoryId(kind) };
+  return match.parentId ? { category: match.parentId, subcategory: match.id } : { category: match.id };
+};
+
+// Names the AI may pick from: every active category and subcategory of a kind
+export const getCategoryNamesForPrompt = (categories: CategoryDefinition[], kind: CategoryKind) =>
+  Array.from(new Set(categories.filter(c => c.kind === kind && !c.archived).map(c => c.name)));
+
+// A category (or any of its subcategories) referenced by records, split lines, a budget or a goal rule cannot be deleted, only archived
+export const isCategoryInUse = (
+  categories: CategoryDefinition[],
+  id: string,
+  data: { expenses: Expense[]; incomes: Income[]; recurringExpenses: RecurringExpense[]; budgets: Budget[]; goals: SavingsGoal[] }
+) => {
+  const ids = new Set([id, ...getSubcategories(categories, id, true).map(c => c.id)]);
+  const uses = (record: { category: string; subcategory?: string; splits?: { category: string; subcategory?: string }[] }): boolean =>
+    ids.has(record.category) || (!!record.subcategory && ids.has(record.subcategory)) || !!record.splits?.some(uses);
+  return data.expenses.some(uses) || data.incomes.some(uses) || data.recurringExpenses.some(uses) || data.budgets.some(b => ids.has(b.category) && b.limit > 0) ||
+    data.goals.some(g => !!g.rule && ids.has(g.rule.incomeCategory));
+};
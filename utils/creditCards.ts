@@ -0,0 +1,125 @@
+import { EmiPlan, Expense, Income, Loan, MoneyAccount, Settlement, Transfer } from '../types';
+import { getAccountBalances } from './accounts';
+import { getAmountPaid } from './sharing';
+
+// Billing cycles of credit card accounts. A card's balance goes negative as it is used and back up
+// as the bill is paid by a transfer from another account, so the payment is never counted as spending.
+
+export interface CardStatement {
+  periodStart: string; // First day of the billed cycle
+  statementDate: string; // Last day of the cycle, when the statement is generated
+  dueDate: string;
+  spends: number; // Charges made during the cycle
+  amount: number; // Total owed on the statement date, including anything carried over
+  paid: number; // Paid towards it since the statement date
+  remaining: number;
+}
+
+export interface CardSummary {
+  account: MoneyAccount;
+  owed: number; // Everything currently owed, billed or not
+  unbilled: number; // Charges since the last statement
+  available?: number;
+  utilisation?: number; // Share of the limit in use, 0..1+
+  statement?: CardStatement; // Latest generated statement; missing before the first one
+  nextStatementDate: string;
+}
+
+export const isCreditCard = (account: MoneyAccount) => account.type === 'Credit Card' && !!account.statementDay;
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+// The given day of a month, clamped to the month's length (e.g. day 31 in February)
+const dayInMonth = (year: number, month: number, day: number) => {
+  const d = new Date(year, month, 1);
+  const lastDay = new Date(d.getFullYear(), d.getMonth() + 1, 0).getDate();
+  return `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(Math.min(day, lastDay))}`;
+};
+
+const addDays = (dateStr: string, days: number) => {
+  const d = new Date(`${dateStr}T00:00:00`);
+  d.setDate(d.getDate() + days);
+  return `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}`;
+};
+
+// Latest statement date on or before the given day
+export const getLastStatementDate = (statementDay: number, onOrBefore: string) => {
+  const [year, month] = onOrBefore.split('-').map(Number);
+  const thisMonth = dayInMonth(year, month - 1, statementDay);
+  return thisMonth <= onOrBefore ? thisMonth : dayInMonth(year, month - 2, statementDay);
+};
+
+export const getNextStatementDate = (statementDay: number, after: string) => {
+  const [year, month] = after.split('-').map(Number);
+  const thisMonth = dayInMonth(year, month - 1, statementDay);
+  return thisMonth > after ? thisMonth : dayInMonth(year, month, statementDay);
+};
+
+// Payment is due on the first due day after the statement date
+export const getStatementDueDate = (statementDate: string, dueDay: number) => {
+  const [year, month] = statementDate.split('-').map(Number);
+  const thisMonth = dayInMonth(year, month - 1, dueDay);
+  return thisMonth > statementDate ? thisMonth : dayInMonth(year, month, dueDay);
+};
+
+export const getCardSummary = (
+  card: MoneyAccount,
+  data: { expenses: Expense[]; incomes: Income[]; transfers: Transfer[]; settlements: Settlement[]; loans: Loan[]; emiPlans: EmiPlan[] },
+  today: string
+): CardSummary => {
+  const owedOn = (asOf?: string) => Math.max(0, -getAccountBalances([card], data, asOf)[0].balance);
+  const statementDay = card.statementDay || 1;
+  const owed = owedOn(today);
+
+  // No statement before the card was added, unless it came with an opening balance
+  const createdOn = new Date(card.createdAt);
+  const addedOn = `${createdOn.getFullYear()}-${pad(createdOn.getMonth() + 1)}-${pad(createdOn.getDate())}`;
+  const hasHistory = data.expenses.some(e => e.accountId === card.id && e.date < addedOn) || card.openingBalance !== 0;
+
+  const statementDate = getLastStatementDate(statementDay, today);
+  let statement: CardStatement | undefined;
+  if (statementDate >= addedOn || hasHistory) {
+    const periodStart = addDays(getLastStatementDate(statementDay, addDays(statementDate, -1)), 1);
+    const amount = owedOn(statementDate);
+    const paid = data.transfers
+      .filter(t => t.toAccountId === card.id && t.date > statementDate && t.date <= today)
+      .reduce((sum, t) => sum + t.amount, 0);
+    const spends = data.expenses
+      .filter(e => e.accountId === card.id && e.date >= periodStart && e.date <= statementDate)
+      .reduce((sum, e) => sum + getAmountPaid(e), 0);
+    statement = {
+      periodStart,
+      statementDate,
+      dueDate: getStatementDueDate(statementDate, card.dueDay || statementDay),
+      spends,
+      amount,
+      paid,
+      remaining: Math.max(0, amount - paid),
+    };
+  }
+
+  const unbilled = data.expenses
+    .filter(e => e.accountId === card.id && e.date > statementDate && e.date <= today)
+    .reduce((sum, e) => sum + getAmountPaid(e), 0);
+  const limit = card.creditLimit || 0;
+
+  return {
+    account: card,
+    owed,
+    unbilled,
+    available: limit > 0 ? Math.max(0, limit - owed) : undefined,
+    utilisation: limit > 0 ? owed / limit : undefined,
+    statement,
+    nextStatementDate: getNextStatementDate(statementDay, today),
+  };
+};
+
+export const getCardSummaries = (
+  accounts: MoneyAccount[],
+  data: { expenses: Expense[]; incomes: Income[]; transfers: Transfer[]; settlements: Settlement[]; loans: Loan[]; emiPlans: EmiPlan[] },
+  today: string
+): CardSummary[] => {
+  return accounts
+    .filter(a => !a.archived && isCreditCard(a))
+    .map(card => getCardSummary(card, data, today));
+};
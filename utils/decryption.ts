@@ -1,66 +1,89 @@
 (function() {
-    // The hardcoded key from utils/security.ts
-    const SECRET_KEY = "kanakku_offline_secret_key";
-    
+    // Developer helper: paste into the browser console to inspect a .kbf backup.
+    // Current backups (kbf2.*) are AES-GCM encrypted and need the backup password.
+    // Legacy backups used XOR with this key (or the custom backup password).
+    const LEGACY_SECRET_KEY = "kanakku_offline_secret_key";
+
     // Create a hidden file input to select the .kbf file
     const input = document.createElement('input');
     input.type = 'file';
     input.accept = '.kbf';
-    
+
+    const textEncoder = new TextEncoder();
+    const textDecoder = new TextDecoder();
+
+    const base64ToBytes = (base64: string) => {
+        const binary = atob(base64);
+        const bytes = new Uint8Array(binary.length);
+        for (let i = 0; i < binary.length; i++) {
+            bytes[i] = binary.charCodeAt(i);
+        }
+        return bytes;
+    };
+
+    const decryptAesGcm = async (content: string, password: string) => {
+        const [, iterations, salt, iv, cipherText] = content.split('.');
+        const baseKey = await crypto.subtle.importKey('raw', textEncoder.encode(password), 'PBKDF2', false, ['deriveKey']);
+        const key = await crypto.subtle.deriveKey(
+            { name: 'PBKDF2', salt: base64ToBytes(salt), iterations: parseInt(iterations, 10), hash: 'SHA-256' },
+            baseKey,
+            { name: 'AES-GCM', length: 256 },
+            false,
+            ['decrypt']
+        );
+        const plain = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: base64ToBytes(iv) }, key, base64ToBytes(cipherText));
+        return textDecoder.decode(plain);
+    };
+
+    const decryptLegacy = (content: string, password: string) => {
+        const bytes = base64ToBytes(content);
+        const keyBytes = textEncoder.encode(password || LEGACY_SECRET_KEY);
+        const decryptedBytes = new Uint8Array(bytes.length);
+        for (let i = 0; i < bytes.length; i++) {
+            decryptedBytes[i] = bytes[i] ^ keyBytes[i % keyBytes.length];
+        }
+        return textDecoder.decode(decryptedBytes);
+    };
+
     input.onchange = (e: Event) => {
         const target = e.target as HTMLInputElement;
         if (!target.files || target.files.length === 0) return;
         const file = target.files[0];
 
         const reader = new FileReader();
-        reader.onload = (event: ProgressEvent<FileReader>) => {
+        reader.onload = async (event: ProgressEvent<FileReader>) => {
             try {
                 if (!event.target || typeof event.target.result !== 'string') return;
-                
-                const base64Content = event.target.result;
-                
-                // 1. Decode Base64
-                const binary = atob(base64Content.trim());
-                const bytes = new Uint8Array(binary.length);
-                for (let i = 0; i < binary.length; i++) {
-                    bytes[i] = binary.charCodeAt(i);
-                }
-                
-                // 2. Prepare Key
-                const textEncoder = new TextEncoder();
-                const textDecoder = new TextDecoder();
-                const keyBytes = textEncoder.encode(SECRET_KEY);
-                
-                // 3. XOR Decrypt
-                const decryptedBytes = new Uint8Array(bytes.length);
-                for (let i = 0; i < bytes.length; i++) {
-                    decryptedBytes[i] = bytes[i] ^ keyBytes[i % keyBytes.length];
-                }
-                
-                // 4. Decode to String
-                const jsonString = textDecoder.decode(decryptedBytes);
-                
-                // --- NEW: Print Raw JSON String ---
+
+                const content = event.target.result.trim();
+                const isEncrypted = content.startsWith('kbf2.');
+                const password = prompt(isEncrypted
+                    ? "Enter the backup password:"
+                    : "Enter the custom backup password (leave blank for legacy default):") || '';
+
+                const jsonString = isEncrypted
+                    ? await decryptAesGcm(content, password)
+                    : decryptLegacy(content, password);
+
                 console.log("📜 RAW JSON STRING START --------------------------------");
                 console.log(jsonString);
                 console.log("📜 RAW JSON STRING END ----------------------------------");
-                
-                // 5. Parse JSON
+
                 const data = JSON.parse(jsonString);
-                
+
                 console.log("✅ Decryption Successful!");
                 console.log("👇 Parsed Data Object:");
                 console.log(data);
-                
+
                 alert("Decrypted successfully! Check the Console tab to view the raw JSON string and data.");
             } catch (err) {
                 console.error("❌ Decryption Failed:", err);
-                alert("Failed to decrypt the file. It might be corrupted or use a different key.");
+                alert("Failed to decrypt the file. Wrong password, or the file is corrupted.");
             }
         };
         reader.readAsText(file);
     };
-    
+
     // Trigger the file picker
     input.click();
 })();
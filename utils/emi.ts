@@ -0,0 +1,183 @@
+import { EmiPlan, RecurringExpense } from '../types';
+import { getNextDate } from './recurrence';
+
+// EMI plans for bank loans. Interest is charged monthly on the reducing balance and every EMI pays that
+// month's interest first, the rest going to principal. Prepayments dated before an EMI are applied ahead of it:
+// 'Reduce Tenure' keeps the EMI so the loan ends sooner, 'Reduce EMI' keeps the end date and lowers the EMI.
+
+// Guards against plans whose EMI can never clear the balance
+const MAX_INSTALMENTS = 600;
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+export const calculateEmi = (principal: number, annualRate: number, months: number): number => {
+  if (principal <= 0 || months <= 0) return 0;
+  const r = annualRate / 1200;
+  if (r === 0) return round2(principal / months);
+  const factor = Math.pow(1 + r, months);
+  return round2((principal * r * factor) / (factor - 1));
+};
+
+// EMIs still needed to clear `balance` at the given EMI
+const getRemainingInstalments = (balance: number, annualRate: number, emi: number): number => {
+  const r = annualRate / 1200;
+  if (r === 0) return Math.ceil(balance / emi - 1e-9);
+  if (emi <= balance * r) return MAX_INSTALMENTS;
+  return Math.ceil(-Math.log(1 - (r * balance) / emi) / Math.log(1 + r) - 1e-9);
+};
+
+export interface AmortizationRow {
+  number: number; // 1-based
+  date: string;
+  emi: number; // 0 when a prepayment closed the loan before this date
+  interest: number;
+  principal: number; // Principal repaid by the EMI
+  prepayment: number; // Prepaid since the previous EMI
+  balance: number; // Outstanding after this EMI
+}
+
+// EMI dates keep the first EMI's day of the month like the linked recurring series, so row N is the series' Nth occurrence
+export const getAmortizationSchedule = (plan: EmiPlan): AmortizationRow[] => {
+  const r = plan.interestRate / 1200;
+  const prepayments = [...plan.prepayments].sort((a, b) => a.date.localeCompare(b.date));
+  const rows: AmortizationRow[] = [];
+  let balance = plan.principal;
+  let emi = calculateEmi(plan.principal, plan.interestRate, plan.tenureMonths);
+  let date = plan.firstEmiDate;
+  let next = 0;
+  // Number of the last scheduled EMI. It clears whatever the rounded EMI leaves, so the loan ends on schedule.
+  let lastInstalment = plan.tenureMonths;
+
+  while (balance > 0 && emi > 0 && rows.length < MAX_INSTALMENTS) {
+    let prepaid = 0;
+    while (next < prepayments.length && prepayments[next].date < date && balance > 0) {
+      const prepayment = prepayments[next++];
+      const amount = Math.min(prepayment.amount, balance);
+      balance = round2(balance - amount);
+      prepaid = round2(prepaid + amount);
+      if (balance <= 0) continue;
+      if (prepayment.mode === 'Reduce EMI') {
+        emi = calculateEmi(balance, plan.interestRate, Math.max(1, lastInstalment - rows.length));
+      } else {
+        lastInstalment = Math.min(lastInstalment, rows.length + getRemainingInstalments(balance, plan.interestRate, emi));
+      }
+    }
+
+    if (balance <= 0) {
+      rows.push({ number: rows.length + 1, date, emi: 0, interest: 0, principal: 0, prepayment: prepaid, balance: 0 });
+      break;
+    }
+
+    const interest = round2(balance * r);
+    const payment = rows.length + 1 >= lastInstalment ? round2(balance + interest) : Math.min(emi, round2(balance + interest));
+    const principal = round2(payment - interest);
+    balance = round2(balance - principal);
+    rows.push({ number: rows.length + 1, date, emi: payment, interest, principal, prepayment: prepaid, balance });
+    date = getNextDate(date, 'Monthly', undefined, plan.firstEmiDate);
+  }
+
+  return rows;
+};
+
+// EMIs that are actually paid, i.e. without a closing row left by a prepayment
+export const getEmiInstalments = (schedule: AmortizationRow[]) => schedule.filter(row => row.emi > 0);
+
+export const getCurrentEmi = (plan: EmiPlan, today: string): number => {
+  const instalments = getEmiInstalments(getAmortizationSchedule(plan));
+  return (instalments.find(row => row.date >= today) || instalments[instalments.length - 1])?.emi || 0;
+};
+
+export const getTotalInterest = (schedule: AmortizationRow[]) => round2(schedule.reduce((sum, row) => sum + row.interest, 0));
+
+export interface EmiProgress {
+  paidInstalments: number;
+  remainingInstalments: number;
+  principalRepaid: number; // Through EMIs and prepayments
+  interestPaid: number;
+  outstanding: number;
+  endDate?: string; // Date of the last EMI
+}
+
+export const getEmiProgress = (plan: EmiPlan, today: string): EmiProgress => {
+  const instalments = getEmiInstalments(getAmortizationSchedule(plan));
+  const paid = instalments.filter(row => row.date <= today);
+  const prepaid = plan.prepayments.filter(p => p.date <= today).reduce((sum, p) => sum + p.amount, 0);
+  const principalRepaid = Math.min(plan.principal, round2(paid.reduce((sum, row) => sum + row.principal, 0) + prepaid));
+  return {
+    paidInstalments: paid.length,
+    remainingInstalments: instalments.length - paid.length,
+    principalRepaid,
+    interestPaid: getTotalInterest(paid),
+    outstanding: round2(plan.principal - principalRepaid),
+    endDate: instalments[instalments.length - 1]?.date,
+  };
+};
+
+// Indian financial year (April to March) a date falls in, e.g. "2025-26"
+export const getFinancialYear = (date: string): string => {
+  const [year, month] = date.split('-').map(Number);
+  const start = month >= 4 ? year : year - 1;
+  return `${start}-${String((start + 1) % 100).padStart(2, '0')}`;
+};
+
+export interface FinancialYearTotals {
+  year: string;
+  interest: number;
+  principal: number; // Including prepayments made in the year
+}
+
+// Interest and principal paid in each financial year, for tax deductions on home loans
+export const getFinancialYearTotals = (plan: EmiPlan): FinancialYearTotals[] => {
+  const totals = new Map<string, FinancialYearTotals>();
+  const add = (date: string, interest: number, principal: number) => {
+    const year = getFinancialYear(date);
+    const entry = totals.get(year) || { year, interest: 0, principal: 0 };
+    totals.set(year, { year, interest: round2(entry.interest + interest), principal: round2(entry.principal + principal) });
+  };
+  getAmortizationSchedule(plan).forEach(row => {
+    if (row.emi > 0) add(row.date, row.interest, row.principal);
+  });
+  plan.prepayments.forEach(p => add(p.date, 0, p.amount));
+  return Array.from(totals.values()).sort((a, b) => a.year.localeCompare(b.year));
+};
+
+// Monthly series that posts the plan's EMIs as expenses. The final EMI usually differs a little from the rest;
+// the series posts the regular amount, which can be corrected on the last entry.
+export const createEmiSeries = (plan: EmiPlan): RecurringExpense => {
+  const instalments = getEmiInstalments(getAmortizationSchedule(plan));
+  return {
+    id: crypto.randomUUID(),
+    amount: instalments[0]?.emi || 0,
+    category: plan.category,
+    subcategory: plan.subcategory,
+    description: plan.name,
+    paymentMethod: 'Other',
+    accountId: plan.accountId,
+    recurrence: 'Monthly',
+    recurrenceRule: { count: Math.max(1, instalments.length) },
+    startDate: plan.firstEmiDate,
+    nextDate: plan.firstEmiDate,
+    occurrenceCount: 0,
+    status: instalments.length > 0 ? 'Active' : 'Ended',
+    createdAt: Date.now(),
+  };
+};
+
+// Brings the series in line with an edited plan or a new prepayment: EMIs already posted stay as they are,
+// the upcoming ones take the current EMI and the count follows the (possibly shorter) schedule.
+export const syncEmiSeries = (series: RecurringExpense, plan: EmiPlan): RecurringExpense => {
+  const upcoming = getEmiInstalments(getAmortizationSchedule(plan)).filter(row => row.date >= series.nextDate);
+  const details = {
+    ...series,
+    category: plan.category,
+    subcategory: plan.subcategory,
+    description: plan.name,
+    accountId: plan.accountId,
+  };
+  if (upcoming.length === 0) return { ...details, status: 'Ended' };
+  return {
+    ...details,
+    amount: upcoming[0].emi,
+    recurrenceRule: { ...series.recurrenceRule, count: series.occurrenceCount + upcoming.length },
+  };
+};
@@ -0,0 +1,72 @@
+import { Income, SavingsGoal } from '../types';
+
+// Savings goals. Progress is the sum of contributions; the projected completion date extends the average rate
+// saved since the first contribution until the target is met.
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DAYS_PER_MONTH = 365.25 / 12;
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+const toTime = (date: string) => new Date(`${date}T00:00:00`).getTime();
+
+const toDateString = (d: Date) => `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
+
+export const getGoalSaved = (goal: SavingsGoal) => round2(goal.contributions.reduce((sum, c) => sum + c.amount, 0));
+
+export const getGoalRemaining = (goal: SavingsGoal) => Math.max(0, round2(goal.targetAmount - getGoalSaved(goal)));
+
+export const isGoalReached = (goal: SavingsGoal) => getGoalRemaining(goal) <= 0;
+
+// Share of the target saved so far, 0 to 1
+export const getGoalProgress = (goal: SavingsGoal) =>
+  goal.targetAmount > 0 ? Math.min(1, getGoalSaved(goal) / goal.targetAmount) : 0;
+
+// Average saved per month since the first contribution; contributions all made this month count as one month
+export const getMonthlyContributionRate = (goal: SavingsGoal, today: string): number => {
+  if (goal.contributions.length === 0) return 0;
+  const first = goal.contributions.reduce((earliest, c) => c.date < earliest ? c.date : earliest, goal.contributions[0].date);
+  const months = Math.max(1, (toTime(today) - toTime(first)) / DAY_MS / DAYS_PER_MONTH);
+  return getGoalSaved(goal) / months;
+};
+
+// Date the goal is met at the current rate of saving; undefined until something has been saved.
+// A reached goal returns the date of the contribution that reached it.
+export const getProjectedCompletionDate = (goal: SavingsGoal, today: string): string | undefined => {
+  if (isGoalReached(goal)) {
+    let saved = 0;
+    const sorted = [...goal.contributions].sort((a, b) => a.date.localeCompare(b.date));
+    return sorted.find(c => (saved += c.amount) >= goal.targetAmount)?.date || today;
+  }
+  const rate = getMonthlyContributionRate(goal, today);
+  if (rate <= 0) return undefined;
+  const days = Math.ceil((getGoalRemaining(goal) / rate) * DAYS_PER_MONTH);
+  return toDateString(new Date(toTime(today) + days * DAY_MS));
+};
+
+export const isGoalOnTrack = (goal: SavingsGoal, today: string) => {
+  const projected = getProjectedCompletionDate(goal, today);
+  return !!projected && projected <= goal.targetDate;
+};
+
+// Monthly saving still needed to meet the target by its date
+export const getRequiredMonthlyContribution = (goal: SavingsGoal, today: string) => {
+  const months = Math.max(1, (toTime(goal.targetDate) - toTime(today)) / DAY_MS / DAYS_PER_MONTH);
+  return round2(getGoalRemaining(goal) / months);
+};
+
+// Adds the contributions an income triggers once it is received. Each income contributes at most once per goal,
+// and goals that are already reached take nothing more.
+export const applyGoalRules = (goals: SavingsGoal[], income: Income, receivedOn: string): SavingsGoal[] => {
+  const now = Date.now();
+  return goals.map(goal => {
+    if (!goal.rule || goal.rule.incomeCategory !== income.category || goal.rule.percent <= 0) return goal;
+    if (isGoalReached(goal) || goal.contributions.some(c => c.incomeId === income.id)) return goal;
+    const amount = Math.min(round2((income.amount * goal.rule.percent) / 100), getGoalRemaining(goal));
+    if (amount <= 0) return goal;
+    return {
+      ...goal,
+      contributions: [...goal.contributions, { id: crypto.randomUUID(), amount, date: receivedOn, incomeId: income.id, createdAt: now }],
+    };
+  });
+};
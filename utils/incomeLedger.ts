@@ -0,0 +1,105 @@
+import { Income, IncomeStatus } from '../types';
+
+// Balance and arrears helpers for incomes paid in one or more instalments.
+// Entries marked Received before payments were tracked have no payment list and count as paid in full.
+
+export const getAmountReceived = (income: Income): number => {
+  if (income.payments && income.payments.length > 0) {
+    return income.payments.reduce((sum, p) => sum + p.amount, 0);
+  }
+  return income.status === 'Received' ? income.amount : 0;
+};
+
+export const getOutstandingBalance = (income: Income): number => {
+  return Math.max(0, income.amount - getAmountReceived(income));
+};
+
+// Status follows the balance: settled entries are Received, unpaid past-due balances are Overdue
+// (even if part was paid), and a part-paid entry that is not yet due is Partially Received.
+export const deriveIncomeStatus = (income: Income, today: string): IncomeStatus => {
+  const received = getAmountReceived(income);
+  // Nothing is owed on a zero-amount entry, so it only counts as settled once it has been marked received
+  const settled = income.amount > 0 ? received >= income.amount : income.status === 'Received';
+  if (settled) return 'Received';
+  if (income.date < today) return 'Overdue';
+  return received > 0 ? 'Partially Received' : 'Expected';
+};
+
+export const isIncomeOverdue = (income: Income, today: string): boolean => {
+  return income.date < today && getOutstandingBalance(income) > 0;
+};
+
+// Cash actually received, one entry per instalment (or per entry received in full before instalments were tracked)
+export const getIncomeReceipts = (incomes: Income[]): { incomeId: string; date: string; amount: number }[] => {
+  return incomes.flatMap(income => {
+    if (income.payments && income.payments.length > 0) {
+      return income.payments.map(p => ({ incomeId: income.id, date: p.date, amount: p.amount }));
+    }
+    return income.status === 'Received' ? [{ incomeId: income.id, date: income.date, amount: income.amount }] : [];
+  });
+};
+
+export interface LedgerEntry {
+  id: string;
+  incomeId: string;
+  date: string;
+  type: 'due' | 'payment';
+  amount: number;
+  balance: number; // Running arrears after this entry
+}
+
+// Chronological dues and payments with a running balance. Dues only count once they fall due.
+export const buildArrearsLedger = (incomes: Income[], today: string): LedgerEntry[] => {
+  const entries: Omit<LedgerEntry, 'balance'>[] = [];
+
+  incomes.forEach(income => {
+    const dueDate = income.dueDate || income.date;
+    if (dueDate <= today) {
+      entries.push({ id: `${income.id}-due`, incomeId: income.id, date: dueDate, type: 'due', amount: income.amount });
+    }
+    if (income.payments && income.payments.length > 0) {
+      income.payments.forEach(p => {
+        entries.push({ id: p.id, incomeId: income.id, date: p.date, type: 'payment', amount: p.amount });
+      });
+    } else if (income.status === 'Received') {
+      entries.push({ id: `${income.id}-paid`, incomeId: income.id, date: income.date, type: 'payment', amount: income.amount });
+    }
+  });
+
+  // Dues before payments on the same day, so paying on the due date never shows as an advance
+  entries.sort((a, b) => a.date.localeCompare(b.date) || (a.type === b.type ? 0 : a.type === 'due' ? -1 : 1));
+
+  let balance = 0;
+  return entries.map(entry => {
+    balance += entry.type === 'due' ? entry.amount : -entry.amount;
+    return { ...entry, balance };
+  });
+};
+
+export interface ArrearsAccount {
+  key: string;
+  name: string;
+  tenantId?: string;
+  incomes: Income[];
+  outstanding: number; // Unpaid balance of entries due today or earlier
+}
+
+// Rent is grouped by tenant when linked, otherwise by its free-text source
+export const getLedgerKey = (income: Income) => income.tenantId || `source:${income.source.trim().toLowerCase()}`;
+
+// Tenants and sources that currently owe money, largest balance first
+export const getArrearsAccounts = (incomes: Income[], today: string): ArrearsAccount[] => {
+  const accounts = new Map<string, ArrearsAccount>();
+
+  incomes.forEach(income => {
+    const key = getLedgerKey(income);
+    const account = accounts.get(key) || { key, name: income.source, tenantId: income.tenantId, incomes: [], outstanding: 0 };
+    account.incomes.push(income);
+    if (income.date <= today) account.outstanding += getOutstandingBalance(income);
+    accounts.set(key, account);
+  });
+
+  return Array.from(accounts.values())
+    .filter(a => a.outstanding > 0)
+    .sort((a, b) => b.outstanding - a.outstanding);
+};
@@ -0,0 +1,90 @@
+import { Contact, Loan, LoanCompounding } from '../types';
+import { getNextDate } from './recurrence';
+
+// Loans given to and borrowed from contacts. The amount payable is fixed when the loan is made:
+// principal plus interest for the whole tenure, due in equal monthly instalments or as one lump sum.
+// Repayments are applied to instalments oldest first, so a loan is overdue while what has fallen due exceeds what was repaid.
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const COMPOUNDING_PERIODS: Record<LoanCompounding, number> = { Monthly: 12, Quarterly: 4, Yearly: 1 };
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+const addMonths = (dateStr: string, months: number) =>
+  months > 0 ? getNextDate(dateStr, 'Custom', { interval: months, unit: 'Month' }) : dateStr;
+
+// Interest for the full tenure
+export const getLoanInterest = (loan: Pick<Loan, 'principal' | 'interestType' | 'interestRate' | 'compounding' | 'tenureMonths'>): number => {
+  const rate = loan.interestRate / 100;
+  const years = loan.tenureMonths / 12;
+  if (loan.interestType === 'None' || rate <= 0) return 0;
+  if (loan.interestType === 'Simple') return round2(loan.principal * rate * years);
+  const periods = COMPOUNDING_PERIODS[loan.compounding || 'Yearly'];
+  return round2(loan.principal * (Math.pow(1 + rate / periods, periods * years) - 1));
+};
+
+export const getLoanTotalPayable = (loan: Loan) => round2(loan.principal + getLoanInterest(loan));
+
+export const getMaturityDate = (loan: Pick<Loan, 'startDate' | 'tenureMonths'>) => addMonths(loan.startDate, loan.tenureMonths);
+
+export interface LoanInstalment {
+  number: number; // 1-based
+  dueDate: string;
+  amount: number;
+}
+
+// Monthly instalments are due a month apart from the start date; the last one absorbs the rounding
+export const getLoanSchedule = (loan: Loan): LoanInstalment[] => {
+  const total = getLoanTotalPayable(loan);
+  if (loan.repaymentFrequency === 'Lump Sum' || loan.tenureMonths <= 1) {
+    return [{ number: 1, dueDate: getMaturityDate(loan), amount: total }];
+  }
+  const count = loan.tenureMonths;
+  const instalment = Math.floor((total * 100) / count) / 100;
+  return Array.from({ length: count }, (_, i) => ({
+    number: i + 1,
+    dueDate: addMonths(loan.startDate, i + 1),
+    amount: i === count - 1 ? round2(total - instalment * (count - 1)) : instalment,
+  }));
+};
+
+export const getLoanRepaid = (loan: Loan) => round2(loan.repayments.reduce((sum, r) => sum + r.amount, 0));
+
+export const getLoanOutstanding = (loan: Loan) => Math.max(0, round2(getLoanTotalPayable(loan) - getLoanRepaid(loan)));
+
+export const isLoanClosed = (loan: Loan) => getLoanOutstanding(loan) <= 0;
+
+// What has fallen due by today but not been repaid
+export const getLoanOverdue = (loan: Loan, today: string) => {
+  const due = getLoanSchedule(loan).filter(i => i.dueDate < today).reduce((sum, i) => sum + i.amount, 0);
+  return Math.max(0, round2(due - getLoanRepaid(loan)));
+};
+
+export const isLoanOverdue = (loan: Loan, today: string) => getLoanOverdue(loan, today) > 0;
+
+export interface PendingInstalment extends LoanInstalment {
+  remaining: number; // Unpaid part after repayments so far
+}
+
+// Instalments not yet covered by repayments, oldest first
+export const getPendingInstalments = (loan: Loan): PendingInstalment[] => {
+  let repaid = getLoanRepaid(loan);
+  return getLoanSchedule(loan).flatMap(instalment => {
+    const covered = Math.min(repaid, instalment.amount);
+    repaid = round2(repaid - covered);
+    const remaining = round2(instalment.amount - covered);
+    return remaining > 0 ? [{ ...instalment, remaining }] : [];
+  });
+};
+
+export const getNextInstalment = (loan: Loan): PendingInstalment | undefined => getPendingInstalments(loan)[0];
+
+// Days since the oldest unpaid instalment fell due
+export const getLoanDaysOverdue = (loan: Loan, today: string) => {
+  const oldest = getNextInstalment(loan);
+  if (!oldest || oldest.dueDate >= today) return 0;
+  return Math.round((new Date(`${today}T00:00:00`).getTime() - new Date(`${oldest.dueDate}T00:00:00`).getTime()) / DAY_MS);
+};
+
+export const getLoanContactName = (contacts: Contact[], loan: Loan) => contacts.find(c => c.id === loan.contactId)?.name || '?';
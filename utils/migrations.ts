@@ -0,0 +1,265 @@
+import { Expense, Income, Budget, IncomeStatus, RecurringExpense, Property, Tenant, MoneyAccount, Transfer, CategoryDefinition, Contact, ExpenseGroup, Settlement, Loan, EmiPlan, SavingsGoal } from '../types';
+import { getOccurrenceDate, getRecurrenceStep } from './recurrence';
+import { createDefaultAccounts, getDefaultAccountId } from './accounts';
+import { createDefaultCategories, OTHER_EXPENSE_CATEGORY, OTHER_INCOME_CATEGORY } from './categories';
+
+// Versioned upgrades for stored ledger data and .kbf backups.
+// Each step upgrades data from version N-1 to N; older data is walked through every step in order.
+// Add a new step (and bump CURRENT_DATA_VERSION) whenever the shape of Expense/Income/Budget changes.
+
+export interface LedgerData {
+  expenses: Expense[];
+  incomes: Income[];
+  budgets: Budget[];
+  recurringExpenses: RecurringExpense[];
+  properties: Property[];
+  tenants: Tenant[];
+  accounts: MoneyAccount[];
+  transfers: Transfer[];
+  categories: CategoryDefinition[];
+  contacts: Contact[];
+  groups: ExpenseGroup[];
+  settlements: Settlement[];
+  loans: Loan[];
+  emiPlans: EmiPlan[];
+  goals: SavingsGoal[];
+}
+
+interface Migration {
+  version: number; // Version the data has after this step
+  description: string;
+  migrate: (data: any) => any;
+}
+
+const getLocalDateString = (d: Date) => {
+  const year = d.getFullYear();
+  const month = String(d.getMonth() + 1).padStart(2, '0');
+  const day = String(d.getDate()).padStart(2, '0');
+  return `${year}-${month}-${day}`;
+};
+
+const MIGRATIONS: Migration[] = [
+  {
+    version: 2,
+    description: 'Fill defaults for fields that early builds did not always write',
+    migrate: (data) => {
+      const today = getLocalDateString(new Date());
+      const toCreatedAt = (record: any) => record.createdAt || new Date(record.date).getTime() || Date.now();
+
+      return {
+        ...data,
+        expenses: (data.expenses || []).map((e: any) => ({
+          ...e,
+          id: e.id || crypto.randomUUID(),
+          amount: Number(e.amount) || 0,
+          category: e.category || 'Other',
+          description: e.description || '',
+          paymentMethod: ['Cash', 'Card', 'UPI', 'Other'].includes(e.paymentMethod) ? e.paymentMethod : 'Other',
+          createdAt: toCreatedAt(e),
+        })),
+        incomes: (data.incomes || []).map((i: any) => ({
+          ...i,
+          id: i.id || crypto.randomUUID(),
+          amount: Number(i.amount) || 0,
+          category: i.category || 'Other',
+          source: i.source || '',
+          recurrence: i.recurrence || 'None',
+          status: (i.status || (i.date <= today ? 'Received' : 'Expected')) as IncomeStatus,
+          createdAt: toCreatedAt(i),
+        })),
+        budgets: (data.budgets || [])
+          .filter((b: any) => b && b.category)
+          .map((b: any) => ({ ...b, limit: Number(b.limit) || 0 })),
+      };
+    },
+  },
+  {
+    version: 3,
+    description: 'Add recurring expense series',
+    migrate: (data) => ({
+      ...data,
+      recurringExpenses: data.recurringExpenses || [],
+    }),
+  },
+  {
+    version: 4,
+    description: 'Anchor recurring expense series to the day they started on',
+    // The first date isn't known for existing series, so their next one stands in for it
+    migrate: (data) => ({
+      ...data,
+      recurringExpenses: (data.recurringExpenses || []).map((s: any) => s.startDate ? s : { ...s, startDate: s.nextDate }),
+    }),
+  },
+  {
+    version: 5,
+    description: 'Track how many occurrences each recurring expense series has used',
+    migrate: (data) => ({
+      ...data,
+      // Occurrences are dated from the start, so existing series count the steps they have already moved past it
+      recurringExpenses: (data.recurringExpenses || []).map((s: any) => {
+        let occurrenceCount = 0;
+        while (getRecurrenceStep(s.recurrence) && getOccurrenceDate(s.startDate, s.recurrence, undefined, occurrenceCount) < s.nextDate) {
+          occurrenceCount++;
+        }
+        return { ...s, occurrenceCount };
+      }),
+    }),
+  },
+  {
+    version: 6,
+    description: 'Create tenants from free-text rent sources and link rent incomes to them',
+    migrate: (data) => {
+      const incomes: any[] = data.incomes || [];
+      const tenants: any[] = [...(data.tenants || [])];
+      const tenantIdByName = new Map<string, string>(tenants.map(t => [t.name.trim().toLowerCase(), t.id]));
+
+      // Oldest first, so each tenant's lease starts at their first rent and picks up the latest rent and contact
+      const rentIncomes = incomes
+        .filter(i => i.category === 'Rent' && !i.tenantId && i.source?.trim())
+        .sort((a, b) => a.date.localeCompare(b.date));
+
+      rentIncomes.forEach(i => {
+        const key = i.source.trim().toLowerCase();
+        const existingId = tenantIdByName.get(key);
+        const index = existingId ? tenants.findIndex(t => t.id === existingId) : -1;
+        if (index >= 0) {
+          // Replaced rather than edited so the stored tenant is seen as changed and written back
+          tenants[index] = { ...tenants[index], agreedRent: i.amount, ...(i.tenantContact ? { mobile: i.tenantContact } : {}) };
+          return;
+        }
+        const tenant = {
+          id: crypto.randomUUID(),
+          name: i.source.trim(),
+          mobile: i.tenantContact || undefined,
+          leaseStart: i.date,
+          agreedRent: i.amount,
+          securityDeposit: 0,
+          createdAt: Date.now(),
+        };
+        tenants.push(tenant);
+        tenantIdByName.set(key, tenant.id);
+      });
+
+      return {
+        ...data,
+        properties: data.properties || [],
+        tenants,
+        incomes: incomes.map(i => (i.category === 'Rent' && !i.tenantId && i.source?.trim())
+          ? { ...i, tenantId: tenantIdByName.get(i.source.trim().toLowerCase()) }
+          : i),
+      };
+    },
+  },
+  {
+    version: 7,
+    description: 'Add money accounts and post existing expenses and incomes to them',
+    migrate: (data) => {
+      const accounts: MoneyAccount[] = data.accounts && data.accounts.length > 0 ? data.accounts : createDefaultAccounts();
+      const assign = (record: any) => record.accountId ? record : { ...record, accountId: getDefaultAccountId(accounts, record.paymentMethod) };
+
+      return {
+        ...data,
+        accounts,
+        transfers: data.transfers || [],
+        expenses: (data.expenses || []).map(assign),
+        recurringExpenses: (data.recurringExpenses || []).map(assign),
+        incomes: (data.incomes || []).map(assign),
+      };
+    },
+  },
+  {
+    version: 8,
+    description: 'Add editable categories; income "Other" gets its own id and unknown categories fall back to Other',
+    migrate: (data) => {
+      const categories: CategoryDefinition[] = data.categories && data.categories.length > 0 ? data.categories : createDefaultCategories();
+      const known = (kind: string) => new Set(categories.filter(c => c.kind === kind && !c.parentId).map(c => c.id));
+      const expenseIds = known('expense');
+      const incomeIds = known('income');
+      const fixExpense = (record: any) => expenseIds.has(record.category) ? record : { ...record, category: OTHER_EXPENSE_CATEGORY };
+
+      return {
+        ...data,
+        categories,
+        expenses: (data.expenses || []).map(fixExpense),
+        recurringExpenses: (data.recurringExpenses || []).map(fixExpense),
+        incomes: (data.incomes || []).map((i: any) => incomeIds.has(i.category) ? i : { ...i, category: OTHER_INCOME_CATEGORY }),
+        budgets: (data.budgets || []).filter((b: any) => expenseIds.has(b.category)),
+      };
+    },
+  },
+  {
+    version: 9,
+    description: 'Add contacts, groups and settlements for shared expenses',
+    migrate: (data) => ({
+      ...data,
+      contacts: data.contacts || [],
+      groups: data.groups || [],
+      settlements: data.settlements || [],
+    }),
+  },
+  {
+    version: 10,
+    description: 'Add loans given and borrowed',
+    migrate: (data) => ({
+      ...data,
+      loans: data.loans || [],
+    }),
+  },
+  {
+    version: 11,
+    description: 'Add EMI plans for bank loans',
+    migrate: (data) => ({
+      ...data,
+      emiPlans: data.emiPlans || [],
+    }),
+  },
+  {
+    version: 12,
+    description: 'Add savings goals',
+    migrate: (data) => ({
+      ...data,
+      goals: data.goals || [],
+    }),
+  },
+];
+
+// Data written before versioning existed is treated as version 1
+export const BASE_DATA_VERSION = 1;
+export const CURRENT_DATA_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+// Throws UNSUPPORTED_VERSION for data written by a newer build, so it is never half-loaded
+export const migrateLedgerData = (data: any, fromVersion: number): LedgerData => {
+  if (fromVersion > CURRENT_DATA_VERSION) {
+    throw new Error('UNSUPPORTED_VERSION');
+  }
+
+  return MIGRATIONS
+    .filter(m => m.version > fromVersion)
+    .reduce((current, m) => m.migrate(current), data);
+};
+
+// Backups carry the version as "<major>.<minor>" in metadata; only the major part tracks the data shape
+export const formatBackupVersion = (version: number = CURRENT_DATA_VERSION) => `${version}.0`;
+
+const parseBackupVersion = (version: unknown): number => {
+  if (version === undefined || version === null) return BASE_DATA_VERSION;
+  const major = parseInt(String(version).split('.')[0], 10);
+  if (isNaN(major)) throw new Error('INVALID_FORMAT');
+  return major;
+};
+
+// Validates a decrypted backup and upgrades its data to the current shape
+export const migrateBackup = (backup: any) => {
+  if (!backup || !backup.userProfile || !backup.data) {
+    throw new Error('INVALID_FORMAT');
+  }
+
+  const version = parseBackupVersion(backup.metadata?.version);
+  const data = migrateLedgerData(backup.data, version);
+
+  return {
+    ...backup,
+    metadata: { ...backup.metadata, version: formatBackupVersion() },
+    data,
+  };
+};
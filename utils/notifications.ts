@@ -0,0 +1,140 @@
+import { CategoryDefinition, Contact, EmiPlan, Expense, Income, Loan, MoneyAccount, NotificationSettings, RecurringExpense, Settlement, Transfer } from '../types';
+import { getOutstandingBalance, isIncomeOverdue } from './incomeLedger';
+import { getCardSummaries } from './creditCards';
+import { getCategoryName } from './categories';
+import { getLoanContactName, getLoanOverdue, getNextInstalment, isLoanOverdue } from './loans';
+import { t } from './translations';
+
+// Local reminders for rent, bills, card dues and loan repayments. Alerts are worked out from the data on each check;
+// every alert has a stable key so it is shown once, however often the scheduler runs.
+
+export const DEFAULT_NOTIFICATION_SETTINGS: NotificationSettings = {
+  enabled: false,
+  rentLeadDays: 1,
+  billLeadDays: 2,
+  quietHoursStart: '22:00',
+  quietHoursEnd: '07:00',
+};
+
+export const getNotificationSettings = (settings: Partial<NotificationSettings> | undefined): NotificationSettings => ({
+  ...DEFAULT_NOTIFICATION_SETTINGS,
+  ...settings,
+});
+
+export interface DueAlert {
+  key: string; // Shown at most once per key
+  tag: string; // Notifications with the same tag replace each other on the device
+  title: string;
+  body: string;
+}
+
+const addDays = (dateStr: string, days: number) => {
+  const d = new Date(`${dateStr}T00:00:00`);
+  d.setDate(d.getDate() + days);
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
+};
+
+const formatDay = (dateStr: string, today: string, language: string) => {
+  if (dateStr === addDays(today, 1)) return t(language, 'tomorrow');
+  return new Date(`${dateStr}T00:00:00`).toLocaleDateString(undefined, { month: 'short', day: 'numeric' });
+};
+
+export const getDueAlerts = (
+  data: { incomes: Income[]; recurringExpenses: RecurringExpense[]; accounts: MoneyAccount[]; expenses: Expense[]; transfers: Transfer[]; settlements: Settlement[]; loans: Loan[]; emiPlans: EmiPlan[]; contacts: Contact[]; categories: CategoryDefinition[] },
+  settings: NotificationSettings,
+  context: { today: string; currency: string; language: string }
+): DueAlert[] => {
+  const { today, currency, language } = context;
+  const alerts: DueAlert[] = [];
+  const rentLimit = addDays(today, settings.rentLeadDays);
+  const billLimit = addDays(today, settings.billLeadDays);
+  const rent = data.incomes.filter(i => i.category === 'Rent' && getOutstandingBalance(i) > 0);
+
+  rent
+    .filter(i => i.date > today && i.date <= rentLimit)
+    .forEach(income => {
+      alerts.push({
+        key: `rent-due:${income.id}:${income.date}`,
+        tag: `rent-due:${income.id}`,
+        title: `${t(language, 'Rent due')} ${formatDay(income.date, today, language)}`,
+        body: `${income.source} • ${currency}${getOutstandingBalance(income).toLocaleString()}`,
+      });
+    });
+
+  // Overdue rent is summarised in one alert, repeated once a day while anything is unpaid
+  const overdue = rent.filter(i => isIncomeOverdue(i, today));
+  if (overdue.length > 0) {
+    const total = overdue.reduce((sum, i) => sum + getOutstandingBalance(i), 0);
+    alerts.push({
+      key: `rent-overdue:${today}`,
+      tag: 'rent-overdue',
+      title: `${t(language, 'Overdue rent')}: ${currency}${total.toLocaleString()}`,
+      body: overdue.map(i => i.source).filter((name, index, all) => all.indexOf(name) === index).join(', '),
+    });
+  }
+
+  data.recurringExpenses
+    .filter(s => s.status === 'Active' && s.nextDate > today && s.nextDate <= billLimit)
+    .forEach(series => {
+      alerts.push({
+        key: `bill:${series.id}:${series.nextDate}`,
+        tag: `bill:${series.id}`,
+        title: `${t(language, 'Bill due')} ${formatDay(series.nextDate, today, language)}`,
+        body: `${series.description || t(language, getCategoryName(data.categories, series.category))} • ${currency}${series.amount.toLocaleString()}`,
+      });
+    });
+
+  // Credit card bills use the bill lead time, and are repeated on the due date itself
+  getCardSummaries(data.accounts, data, today)
+    .filter(card => card.statement && card.statement.remaining > 0 && card.statement.dueDate >= today && card.statement.dueDate <= billLimit)
+    .forEach(({ account, statement }) => {
+      const dueToday = statement!.dueDate === today;
+      alerts.push({
+        key: `card:${account.id}:${statement!.dueDate}${dueToday ? ':today' : ''}`,
+        tag: `card:${account.id}`,
+        title: `${t(language, 'Card bill due')} ${dueToday ? t(language, 'today') : formatDay(statement!.dueDate, today, language)}`,
+        body: `${account.name} • ${currency}${statement!.remaining.toLocaleString()}`,
+      });
+    });
+
+  // Repayments the user owes use the bill lead time; money owed to the user is chased once it is overdue
+  data.loans
+    .filter(loan => loan.direction === 'Borrowed')
+    .forEach(loan => {
+      const next = getNextInstalment(loan);
+      if (!next || next.dueDate < today || next.dueDate > billLimit) return;
+      alerts.push({
+        key: `loan:${loan.id}:${next.dueDate}`,
+        tag: `loan:${loan.id}`,
+        title: `${t(language, 'Loan repayment due')} ${next.dueDate === today ? t(language, 'today') : formatDay(next.dueDate, today, language)}`,
+        body: `${getLoanContactName(data.contacts, loan)} • ${currency}${next.remaining.toLocaleString()}`,
+      });
+    });
+
+  const overdueLoans = data.loans.filter(loan => loan.direction === 'Given' && isLoanOverdue(loan, today));
+  if (overdueLoans.length > 0) {
+    const total = overdueLoans.reduce((sum, loan) => sum + getLoanOverdue(loan, today), 0);
+    alerts.push({
+      key: `loan-overdue:${today}`,
+      tag: 'loan-overdue',
+      title: `${t(language, 'Overdue loan repayments')}: ${currency}${total.toLocaleString()}`,
+      body: overdueLoans.map(loan => getLoanContactName(data.contacts, loan)).filter((name, index, all) => all.indexOf(name) === index).join(', '),
+    });
+  }
+
+  return alerts;
+};
+
+const toMinutes = (time: string) => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return (hours || 0) * 60 + (minutes || 0);
+};
+
+// Quiet hours may wrap past midnight (e.g. 22:00 – 07:00). Equal start and end means no quiet hours.
+export const isWithinQuietHours = (now: Date, settings: NotificationSettings): boolean => {
+  const start = toMinutes(settings.quietHoursStart);
+  const end = toMinutes(settings.quietHoursEnd);
+  if (start === end) return false;
+  const current = now.getHours() * 60 + now.getMinutes();
+  return start < end ? current >= start && current < end : current >= start || current < end;
+};
@@ -0,0 +1,345 @@
+// Minimal QR Code encoder (byte mode, error correction level M) for payment links.
+// Follows the ISO/IEC 18004 construction: data bits -> Reed-Solomon blocks -> module placement -> best mask.
+
+export type QRMatrix = boolean[][]; // [row][column], true = dark module
+
+// Indexed by version (1-40); level M only
+const ECC_CODEWORDS_PER_BLOCK = [-1, 10, 16, 26, 18, 24, 16, 18, 22, 22, 26, 30, 22, 22, 24, 24, 28, 28, 26, 26, 26, 26, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28];
+const NUM_ERROR_CORRECTION_BLOCKS = [-1, 1, 1, 1, 2, 2, 4, 4, 4, 5, 5, 5, 8, 9, 9, 10, 10, 11, 13, 14, 16, 17, 17, 18, 20, 21, 23, 25, 26, 28, 29, 31, 33, 35, 37, 38, 40, 43, 45, 47, 49];
+const FORMAT_BITS_LEVEL_M = 0;
+
+const getBit = (value: number, index: number) => ((value >>> index) & 1) !== 0;
+
+const getNumRawDataModules = (version: number): number => {
+  let result = (16 * version + 128) * version + 64;
+  if (version >= 2) {
+    const numAlign = Math.floor(version / 7) + 2;
+    result -= (25 * numAlign - 10) * numAlign - 55;
+    if (version >= 7) result -= 36;
+  }
+  return result;
+};
+
+const getNumDataCodewords = (version: number) =>
+  Math.floor(getNumRawDataModules(version) / 8) - ECC_CODEWORDS_PER_BLOCK[version] * NUM_ERROR_CORRECTION_BLOCKS[version];
+
+const getAlignmentPositions = (version: number, size: number): number[] => {
+  if (version === 1) return [];
+  const numAlign = Math.floor(version / 7) + 2;
+  const step = version === 32 ? 26 : Math.ceil((version * 4 + 4) / (numAlign * 2 - 2)) * 2;
+  const result = [6];
+  for (let pos = size - 7; result.length < numAlign; pos -= step) {
+    result.splice(1, 0, pos);
+  }
+  return result;
+};
+
+// --- Reed-Solomon over GF(2^8) with polynomial 0x11D ---
+
+const gfMultiply = (x: number, y: number): number => {
+  let z = 0;
+  for (let i = 7; i >= 0; i--) {
+    z = (z << 1) ^ ((z >>> 7) * 0x11D);
+    z ^= ((y >>> i) & 1) * x;
+  }
+  return z;
+};
+
+const computeDivisor = (degree: number): number[] => {
+  const result = new Array(degree).fill(0);
+  result[degree - 1] = 1;
+  let root = 1;
+  for (let i = 0; i < degree; i++) {
+    for (let j = 0; j < result.length; j++) {
+      result[j] = gfMultiply(result[j], root);
+      if (j + 1 < result.length) result[j] ^= result[j + 1];
+    }
+    root = gfMultiply(root, 0x02);
+  }
+  return result;
+};
+
+const computeRemainder = (data: number[], divisor: number[]): number[] => {
+  const result = divisor.map(() => 0);
+  data.forEach(b => {
+    const factor = b ^ (result.shift() as number);
+    result.push(0);
+    divisor.forEach((coef, i) => { result[i] ^= gfMultiply(coef, factor); });
+  });
+  return result;
+};
+
+// Splits data into blocks, appends each block's ECC and interleaves them
+const addEccAndInterleave = (data: number[], version: number): number[] => {
+  const numBlocks = NUM_ERROR_CORRECTION_BLOCKS[version];
+  const blockEccLen = ECC_CODEWORDS_PER_BLOCK[version];
+  const rawCodewords = Math.floor(getNumRawDataModules(version) / 8);
+  const numShortBlocks = numBlocks - rawCodewords % numBlocks;
+  const shortBlockLen = Math.floor(rawCodewords / numBlocks);
+
+  const divisor = computeDivisor(blockEccLen);
+  const blocks: number[][] = [];
+  for (let i = 0, k = 0; i < numBlocks; i++) {
+    const dat = data.slice(k, k + shortBlockLen - blockEccLen + (i < numShortBlocks ? 0 : 1));
+    k += dat.length;
+    const ecc = computeRemainder(dat, divisor);
+    if (i < numShortBlocks) dat.push(0);
+    blocks.push(dat.concat(ecc));
+  }
+
+  const result: number[] = [];
+  for (let i = 0; i < blocks[0].length; i++) {
+    blocks.forEach((block, j) => {
+      // Skip the padding byte of short blocks
+      if (i !== shortBlockLen - blockEccLen || j >= numShortBlocks) result.push(block[i]);
+    });
+  }
+  return result;
+};
+
+// --- Data encoding ---
+
+const encodeData = (bytes: number[]): { version: number; codewords: number[] } => {
+  let version = 1;
+  for (; version <= 40; version++) {
+    const countBits = version <= 9 ? 8 : 16;
+    if (4 + countBits + bytes.length * 8 <= getNumDataCodewords(version) * 8) break;
+  }
+  if (version > 40) throw new Error('Data too long for a QR code');
+
+  const bits: number[] = [];
+  const append = (value: number, length: number) => {
+    for (let i = length - 1; i >= 0; i--) bits.push((value >>> i) & 1);
+  };
+  append(0x4, 4); // Byte mode
+  append(bytes.length, version <= 9 ? 8 : 16);
+  bytes.forEach(b => append(b, 8));
+
+  const capacity = getNumDataCodewords(version) * 8;
+  append(0, Math.min(4, capacity - bits.length)); // Terminator
+  append(0, (8 - bits.length % 8) % 8);
+  for (let pad = 0xEC; bits.length < capacity; pad ^= 0xEC ^ 0x11) append(pad, 8);
+
+  const codewords: number[] = [];
+  for (let i = 0; i < bits.length; i += 8) {
+    codewords.push(bits.slice(i, i + 8).reduce((acc, bit) => (acc << 1) | bit, 0));
+  }
+  return { version, codewords };
+};
+
+// --- Module placement ---
+
+const MASKS: ((x: number, y: number) => boolean)[] = [
+  (x, y) => (x + y) % 2 === 0,
+  (x, y) => y % 2 === 0,
+  (x) => x % 3 === 0,
+  (x, y) => (x + y) % 3 === 0,
+  (x, y) => (Math.floor(x / 3) + Math.floor(y / 2)) % 2 === 0,
+  (x, y) => x * y % 2 + x * y % 3 === 0,
+  (x, y) => (x * y % 2 + x * y % 3) % 2 === 0,
+  (x, y) => ((x + y) % 2 + x * y % 3) % 2 === 0,
+];
+
+interface QRGrid {
+  version: number;
+  size: number;
+  modules: boolean[][];
+  isFunction: boolean[][];
+}
+
+const setFunctionModule = (grid: QRGrid, x: number, y: number, dark: boolean) => {
+  grid.modules[y][x] = dark;
+  grid.isFunction[y][x] = true;
+};
+
+const drawFormatBits = (grid: QRGrid, mask: number) => {
+  const { size } = grid;
+  const set = (x: number, y: number, dark: boolean) => setFunctionModule(grid, x, y, dark);
+  const data = (FORMAT_BITS_LEVEL_M << 3) | mask;
+  let rem = data;
+  for (let i = 0; i < 10; i++) rem = (rem << 1) ^ ((rem >>> 9) * 0x537);
+  const bits = ((data << 10) | rem) ^ 0x5412;
+
+  for (let i = 0; i <= 5; i++) set(8, i, getBit(bits, i));
+  set(8, 7, getBit(bits, 6));
+  set(8, 8, getBit(bits, 7));
+  set(7, 8, getBit(bits, 8));
+  for (let i = 9; i < 15; i++) set(14 - i, 8, getBit(bits, i));
+
+  for (let i = 0; i < 8; i++) set(size - 1 - i, 8, getBit(bits, i));
+  for (let i = 8; i < 15; i++) set(8, size - 15 + i, getBit(bits, i));
+  set(8, size - 8, true); // Always dark
+};
+
+const drawVersion = (grid: QRGrid) => {
+  if (grid.version < 7) return;
+  let rem = grid.version;
+  for (let i = 0; i < 12; i++) rem = (rem << 1) ^ ((rem >>> 11) * 0x1F25);
+  const bits = (grid.version << 12) | rem;
+  for (let i = 0; i < 18; i++) {
+    const bit = getBit(bits, i);
+    const a = grid.size - 11 + i % 3;
+    const b = Math.floor(i / 3);
+    setFunctionModule(grid, a, b, bit);
+    setFunctionModule(grid, b, a, bit);
+  }
+};
+
+const drawFunctionPatterns = (grid: QRGrid) => {
+  const { size } = grid;
+  const set = (x: number, y: number, dark: boolean) => setFunctionModule(grid, x, y, dark);
+
+  for (let i = 0; i < size; i++) {
+    set(6, i, i % 2 === 0);
+    set(i, 6, i % 2 === 0);
+  }
+
+  [[3, 3], [size - 4, 3], [3, size - 4]].forEach(([cx, cy]) => {
+    for (let dy = -4; dy <= 4; dy++) {
+      for (let dx = -4; dx <= 4; dx++) {
+        const dist = Math.max(Math.abs(dx), Math.abs(dy));
+        const x = cx + dx, y = cy + dy;
+        if (x >= 0 && x < size && y >= 0 && y < size) set(x, y, dist !== 2 && dist !== 4);
+      }
+    }
+  });
+
+  const positions = getAlignmentPositions(grid.version, size);
+  const last = positions.length - 1;
+  positions.forEach((px, i) => positions.forEach((py, j) => {
+    // Alignment patterns never overlap the finder patterns
+    if ((i === 0 && j === 0) || (i === 0 && j === last) || (i === last && j === 0)) return;
+    for (let dy = -2; dy <= 2; dy++) {
+      for (let dx = -2; dx <= 2; dx++) set(px + dx, py + dy, Math.max(Math.abs(dx), Math.abs(dy)) !== 1);
+    }
+  }));
+
+  drawFormatBits(grid, 0); // Reserves the area; redrawn once the mask is chosen
+  drawVersion(grid);
+};
+
+const drawCodewords = (grid: QRGrid, data: number[]) => {
+  const { size } = grid;
+  let i = 0;
+  for (let right = size - 1; right >= 1; right -= 2) {
+    if (right === 6) right = 5; // Skip the vertical timing column
+    for (let vert = 0; vert < size; vert++) {
+      for (let j = 0; j < 2; j++) {
+        const x = right - j;
+        const upward = ((right + 1) & 2) === 0;
+        const y = upward ? size - 1 - vert : vert;
+        if (!grid.isFunction[y][x] && i < data.length * 8) {
+          grid.modules[y][x] = getBit(data[i >>> 3], 7 - (i & 7));
+          i++;
+        }
+      }
+    }
+  }
+};
+
+// XOR, so applying the same mask twice undoes it
+const applyMask = (grid: QRGrid, mask: number) => {
+  for (let y = 0; y < grid.size; y++) {
+    for (let x = 0; x < grid.size; x++) {
+      if (!grid.isFunction[y][x] && MASKS[mask](x, y)) grid.modules[y][x] = !grid.modules[y][x];
+    }
+  }
+};
+
+const getPenaltyScore = ({ size, modules }: QRGrid): number => {
+  let penalty = 0;
+  const lines: boolean[][] = [];
+  for (let i = 0; i < size; i++) {
+    lines.push(modules[i]);
+    lines.push(modules.map(row => row[i]));
+  }
+
+  lines.forEach(line => {
+    // Runs of five or more modules of the same colour
+    let runLength = 1;
+    for (let i = 1; i <= size; i++) {
+      if (i < size && line[i] === line[i - 1]) {
+        runLength++;
+      } else {
+        if (runLength >= 5) penalty += 3 + (runLength - 5);
+        runLength = 1;
+      }
+    }
+    // Finder-like patterns with four light modules on either side
+    const text = line.map(dark => dark ? '1' : '0').join('');
+    for (let i = text.indexOf('1011101'); i !== -1; i = text.indexOf('1011101', i + 1)) {
+      const before = text.slice(Math.max(0, i - 4), i);
+      const after = text.slice(i + 7, i + 11);
+      if (i < 4 || before === '0000' || i + 11 > size || after === '0000') penalty += 40;
+    }
+  });
+
+  // 2x2 blocks of the same colour
+  for (let y = 0; y < size - 1; y++) {
+    for (let x = 0; x < size - 1; x++) {
+      const c = modules[y][x];
+      if (c === modules[y][x + 1] && c === modules[y + 1][x] && c === modules[y + 1][x + 1]) penalty += 3;
+    }
+  }
+
+  // Balance of dark and light modules
+  const dark = modules.reduce((sum, row) => sum + row.filter(Boolean).length, 0);
+  const total = size * size;
+  const k = Math.ceil(Math.abs(dark * 20 - total * 10) / total) - 1;
+  penalty += Math.max(0, k) * 10;
+
+  return penalty;
+};
+
+export const generateQRCode = (text: string): QRMatrix => {
+  const bytes = Array.from(new TextEncoder().encode(text));
+  const { version, codewords } = encodeData(bytes);
+
+  const size = version * 4 + 17;
+  const grid: QRGrid = {
+    version,
+    size,
+    modules: Array.from({ length: size }, () => new Array(size).fill(false)),
+    isFunction: Array.from({ length: size }, () => new Array(size).fill(false)),
+  };
+  drawFunctionPatterns(grid);
+  drawCodewords(grid, addEccAndInterleave(codewords, version));
+
+  let bestMask = 0;
+  let minPenalty = Infinity;
+  for (let mask = 0; mask < 8; mask++) {
+    applyMask(grid, mask);
+    drawFormatBits(grid, mask);
+    const penalty = getPenaltyScore(grid);
+    if (penalty < minPenalty) {
+      bestMask = mask;
+      minPenalty = penalty;
+    }
+    applyMask(grid, mask);
+  }
+  applyMask(grid, bestMask);
+  drawFormatBits(grid, bestMask);
+
+  return grid.modules;
+};
+
+
+// PNG image of a QR code (with quiet zone), for sharing as a file
+export const renderQRCodePng = (text: string, scale = 8): Promise<Blob | null> => {
+  const matrix = generateQRCode(text);
+  const quietZone = 4;
+  const dimension = (matrix.length + quietZone * 2) * scale;
+  const canvas = document.createElement('canvas');
+  canvas.width = dimension;
+  canvas.height = dimension;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return Promise.resolve(null);
+
+  ctx.fillStyle = '#ffffff';
+  ctx.fillRect(0, 0, dimension, dimension);
+  ctx.fillStyle = '#000000';
+  matrix.forEach((row, y) => row.forEach((dark, x) => {
+    if (dark) ctx.fillRect((x + quietZone) * scale, (y + quietZone) * scale, scale, scale);
+  }));
+  return new Promise(resolve => canvas.toBlob(resolve, 'image/png'));
+};
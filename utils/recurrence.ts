@@ -0,0 +1,194 @@
+import { Expense, Recurrence, RecurrenceRule, RecurrenceUnit, RecurringExpense } from '../types';
+
+// Upper bound on occurrences posted per series in one run, so a years-old series can't flood the ledger
+const MAX_OCCURRENCES_PER_RUN = 60;
+
+export const RECURRENCE_OPTIONS: Recurrence[] = ['None', 'Weekly', 'Monthly', 'Quarterly', 'Half-Yearly', 'Yearly', 'Custom'];
+export const RECURRENCE_UNITS: RecurrenceUnit[] = ['Day', 'Week', 'Month', 'Year'];
+
+interface RecurrenceStep {
+    interval: number;
+    unit: RecurrenceUnit;
+}
+
+const PRESET_STEPS: Partial<Record<Recurrence, RecurrenceStep>> = {
+    'Weekly': { interval: 1, unit: 'Week' },
+    'Monthly': { interval: 1, unit: 'Month' },
+    'Quarterly': { interval: 3, unit: 'Month' },
+    'Half-Yearly': { interval: 6, unit: 'Month' },
+    'Yearly': { interval: 1, unit: 'Year' },
+};
+
+// The interval between occurrences, or null for one-off entries
+export const getRecurrenceStep = (recurrence: Recurrence, rule?: RecurrenceRule): RecurrenceStep | null => {
+    if (recurrence === 'Custom') {
+        return { interval: Math.max(1, Math.floor(rule?.interval || 1)), unit: rule?.unit || 'Month' };
+    }
+    return PRESET_STEPS[recurrence] || null;
+};
+
+// Last-day-of-month anchoring only makes sense when stepping by months or years
+export const isMonthBased = (recurrence: Recurrence, rule?: RecurrenceRule): boolean => {
+    const step = getRecurrenceStep(recurrence, rule);
+    return !!step && (step.unit === 'Month' || step.unit === 'Year');
+};
+
+// Moves a date `count` steps along the schedule. Month-based steps land on `anchorDay` where the month has it,
+// so a date clamped to a short month doesn't stick: a series on the 31st goes Jan 31 -> Feb 28 -> Mar 31.
+const addSteps = (dateStr: string, step: RecurrenceStep, count: number, anchorDay: number, lastDayOfMonth?: boolean): string => {
+    // Create date from string parts to avoid UTC shifting
+    const parts = dateStr.split('-');
+    const year = parseInt(parts[0]);
+    const monthIndex = parseInt(parts[1]) - 1;
+    const day = parseInt(parts[2]);
+
+    let d: Date;
+    if (step.unit === 'Day' || step.unit === 'Week') {
+        d = new Date(year, monthIndex, day + count * step.interval * (step.unit === 'Week' ? 7 : 1));
+    } else {
+        const months = count * step.interval * (step.unit === 'Year' ? 12 : 1);
+        const lastDay = new Date(year, monthIndex + months + 1, 0).getDate();
+        // Handle month end overflow (e.g. Jan 31 -> Feb 28/29) unless anchored to the month end
+        d = new Date(year, monthIndex + months, lastDayOfMonth ? lastDay : Math.min(anchorDay, lastDay));
+    }
+
+    const y = d.getFullYear();
+    const m = String(d.getMonth() + 1).padStart(2, '0');
+    const dt = String(d.getDate()).padStart(2, '0');
+    return `${y}-${m}-${dt}`;
+};
+
+const getDayOfMonth = (dateStr: string) => parseInt(dateStr.split('-')[2]);
+
+// Helper to calculate next recurring date safely.
+// Month-based steps keep the day of `anchorDate`, the date the series started on.
+export const getNextDate = (dateStr: string, recurrence: Recurrence, rule?: RecurrenceRule, anchorDate: string = dateStr): string => {
+    const step = getRecurrenceStep(recurrence, rule);
+    if (!step) return dateStr;
+    return addSteps(dateStr, step, 1, getDayOfMonth(anchorDate), rule?.lastDayOfMonth);
+};
+
+// Date `index` steps after the start of a series (index 0 is the start itself)
+export const getOccurrenceDate = (startDate: string, recurrence: Recurrence, rule: RecurrenceRule | undefined, index: number): string => {
+    const step = getRecurrenceStep(recurrence, rule);
+    if (!step) return startDate;
+    return addSteps(startDate, step, index, getDayOfMonth(startDate), rule?.lastDayOfMonth);
+};
+
+// Drops settings that don't apply to the chosen recurrence, so records only store what is in effect
+export const normalizeRecurrenceRule = (recurrence: Recurrence, rule: RecurrenceRule): RecurrenceRule | undefined => {
+    if (recurrence === 'None') return undefined;
+    const normalized: RecurrenceRule = {};
+    if (recurrence === 'Custom') {
+        const step = getRecurrenceStep(recurrence, rule)!;
+        normalized.interval = step.interval;
+        normalized.unit = step.unit;
+    }
+    if (rule.lastDayOfMonth && isMonthBased(recurrence, rule)) normalized.lastDayOfMonth = true;
+    if (rule.count) normalized.count = rule.count;
+    else if (rule.endDate) normalized.endDate = rule.endDate;
+    return Object.keys(normalized).length > 0 ? normalized : undefined;
+};
+
+// Date of the occurrence after `occurrence` (1-based), or null once the rule's end date or count is reached.
+// `anchorDate` is the date the series started on, or the one it was last rescheduled to.
+export const getNextOccurrence = (dateStr: string, recurrence: Recurrence, rule?: RecurrenceRule, occurrence: number = 1, anchorDate: string = dateStr): string | null => {
+    if (recurrence === 'None') return null;
+    if (rule?.count && occurrence >= rule.count) return null;
+
+    const nextDate = getNextDate(dateStr, recurrence, rule, anchorDate);
+    if (rule?.endDate && nextDate > rule.endDate) return null;
+    return nextDate;
+};
+
+// Human readable schedule, e.g. "Every 2 Weeks" or "Monthly • until 2025-12-31"
+export const formatRecurrence = (recurrence: Recurrence, rule: RecurrenceRule | undefined, t: (key: string) => string): string => {
+    let label = t(recurrence);
+    if (recurrence === 'Custom') {
+        const step = getRecurrenceStep(recurrence, rule)!;
+        label = `${t('Every')} ${step.interval} ${t(step.interval === 1 ? step.unit : `${step.unit}s`)}`;
+    }
+    if (recurrence === 'None' || !rule) return label;
+
+    if (rule.lastDayOfMonth && isMonthBased(recurrence, rule)) label += ` • ${t('Last day')}`;
+    if (rule.count) label += ` • ${rule.count}×`;
+    else if (rule.endDate) label += ` • ${t('until')} ${rule.endDate}`;
+    return label;
+};
+
+// Date of a series' next occurrence once `occurrenceCount` have been posted or skipped. Counted from the start date
+// rather than the previous occurrence, so no clamped date is carried forward. Null once the rule has run out.
+const getSeriesDate = (s: RecurringExpense, occurrenceCount: number): string | null => {
+    const { recurrenceRule: rule } = s;
+    if (s.recurrence === 'None') return null;
+    if (rule?.count && occurrenceCount >= rule.count) return null;
+
+    const date = getOccurrenceDate(s.startDate, s.recurrence, rule, occurrenceCount);
+    if (rule?.endDate && date > rule.endDate) return null;
+    return date;
+};
+
+// Posts every occurrence of an active series that has fallen due on or before `today`.
+// Returns the new expenses and the series with their nextDate advanced; a series whose
+// rule has run out is marked Ended. Paused and ended series are untouched.
+export const generateDueExpenses = (series: RecurringExpense[], today: string): { expenses: Expense[]; series: RecurringExpense[] } => {
+    const generated: Expense[] = [];
+    const now = Date.now();
+
+    const updatedSeries = series.map(s => {
+        if (s.status !== 'Active' || s.nextDate > today) return s;
+
+        let nextDate: string | null = s.nextDate;
+        let occurrenceCount = s.occurrenceCount;
+        let count = 0;
+        while (nextDate && nextDate <= today && count < MAX_OCCURRENCES_PER_RUN) {
+            generated.push({
+                id: crypto.randomUUID(),
+                amount: s.amount,
+                category: s.category,
+                subcategory: s.subcategory,
+                description: s.description,
+                date: nextDate,
+                paymentMethod: s.paymentMethod,
+                accountId: s.accountId,
+                tags: s.tags,
+                notes: s.notes,
+                splits: s.splits,
+                sharing: s.sharing,
+                recurrence: s.recurrence,
+                recurrenceRule: s.recurrenceRule,
+                seriesId: s.id,
+                createdAt: now + generated.length,
+            });
+            occurrenceCount++;
+            nextDate = getSeriesDate(s, occurrenceCount);
+            count++;
+        }
+
+        if (!nextDate) return { ...s, occurrenceCount, status: 'Ended' as const };
+        return { ...s, nextDate, occurrenceCount };
+    });
+
+    // Newest first, matching how the expense list is kept
+    generated.sort((a, b) => b.createdAt - a.createdAt);
+    return { expenses: generated, series: updatedSeries };
+};
+
+// Moves a series past its next occurrence without posting it; ends the series if that was the last one
+export const skipOccurrence = (s: RecurringExpense): RecurringExpense => {
+    const occurrenceCount = s.occurrenceCount + 1;
+    const nextDate = getSeriesDate(s, occurrenceCount);
+    return nextDate
+        ? { ...s, nextDate, occurrenceCount }
+        : { ...s, occurrenceCount, status: 'Ended' };
+};
+
+// First occurrence on or after `today`, used when a paused series is resumed.
+// Occurrences missed while paused still count towards the rule's limit.
+export const resumeSeries = (s: RecurringExpense, today: string): RecurringExpense => {
+    let current = s;
+    while (current.status !== 'Ended' && current.nextDate < today) {
+        current = skipOccurrence(current);
+    }
+    return current.status === 'Ended' ? current : { ...current, status: 'Active' };
+};
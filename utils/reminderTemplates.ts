@@ -0,0 +1,93 @@
+import { ReminderLanguage, ReminderLog, ReminderStage, ReminderTemplates } from '../types';
+
+// Follow-up messages for overdue rent and loan repayments. Templates use {placeholders}; a line whose placeholder
+// has no value (e.g. no UPI ID saved, no late fee) is left out of the message.
+
+export const REMINDER_STAGES: ReminderStage[] = ['first', 'second', 'final'];
+export const REMINDER_LANGUAGES: ReminderLanguage[] = ['en', 'ta'];
+
+export const REMINDER_PLACEHOLDERS = ['{tenant}', '{amount}', '{dueDate}', '{daysOverdue}', '{lateFee}', '{upiId}', '{upiLink}'];
+
+export const DEFAULT_REMINDER_TEMPLATES: Record<ReminderLanguage, Record<ReminderStage, string>> = {
+  en: {
+    first: `Hi {tenant}, this is a gentle reminder that the rent of {amount} was due on {dueDate}. Please pay at your earliest convenience.
+UPI: {upiId}
+{upiLink}
+Thank you!`,
+    second: `Hi {tenant}, the rent of {amount} due on {dueDate} is still pending ({daysOverdue} days overdue). Kindly clear it at the earliest.
+Late fee so far: {lateFee}
+UPI: {upiId}
+{upiLink}`,
+    final: `Dear {tenant}, this is a final reminder. The rent of {amount} due on {dueDate} remains unpaid after {daysOverdue} days. Please pay immediately to avoid further action as per the rental agreement.
+Late fee so far: {lateFee}
+UPI: {upiId}
+{upiLink}`,
+  },
+  ta: {
+    first: `வணக்கம் {tenant}, {dueDate} அன்று செலுத்த வேண்டிய வாடகை {amount} பற்றிய நினைவூட்டல். தயவுசெய்து விரைவில் செலுத்தவும்.
+UPI: {upiId}
+{upiLink}
+நன்றி!`,
+    second: `வணக்கம் {tenant}, {dueDate} அன்று செலுத்த வேண்டிய வாடகை {amount} இன்னும் நிலுவையில் உள்ளது ({daysOverdue} நாட்கள் தாமதம்). தயவுசெய்து உடனடியாகச் செலுத்தவும்.
+இதுவரை தாமதக் கட்டணம்: {lateFee}
+UPI: {upiId}
+{upiLink}`,
+    final: `அன்புள்ள {tenant}, இது இறுதி நினைவூட்டல். {dueDate} அன்று செலுத்த வேண்டிய வாடகை {amount} {daysOverdue} நாட்களாகச் செலுத்தப்படவில்லை. வாடகை ஒப்பந்தத்தின்படி மேல் நடவடிக்கையைத் தவிர்க்க உடனடியாகச் செலுத்தவும்.
+இதுவரை தாமதக் கட்டணம்: {lateFee}
+UPI: {upiId}
+{upiLink}`,
+  },
+};
+
+// Loan reminders go to friends and relatives, so they stay polite at every stage; they are not user-editable
+export const DEFAULT_LOAN_REMINDER_TEMPLATES: Record<ReminderLanguage, Record<ReminderStage, string>> = {
+  en: {
+    first: `Hi {name}, a friendly reminder that {amount} of the loan was due on {dueDate}. Please pay when you can.
+UPI: {upiId}
+{upiLink}
+Thank you!`,
+    second: `Hi {name}, {amount} of the loan due on {dueDate} is still pending ({daysOverdue} days overdue). Kindly pay it soon.
+UPI: {upiId}
+{upiLink}`,
+    final: `Dear {name}, {amount} of the loan due on {dueDate} has been pending for {daysOverdue} days. Please let me know when you will pay it.
+UPI: {upiId}
+{upiLink}`,
+  },
+  ta: {
+    first: `வணக்கம் {name}, {dueDate} அன்று திருப்பித் தர வேண்டிய கடன் தொகை {amount} பற்றிய நினைவூட்டல். முடிந்தபோது செலுத்தவும்.
+UPI: {upiId}
+{upiLink}
+நன்றி!`,
+    second: `வணக்கம் {name}, {dueDate} அன்று தர வேண்டிய கடன் தொகை {amount} இன்னும் நிலுவையில் உள்ளது ({daysOverdue} நாட்கள் தாமதம்). விரைவில் செலுத்தவும்.
+UPI: {upiId}
+{upiLink}`,
+    final: `அன்புள்ள {name}, {dueDate} அன்று தர வேண்டிய கடன் தொகை {amount} {daysOverdue} நாட்களாக நிலுவையில் உள்ளது. எப்போது செலுத்துவீர்கள் என்று தெரிவிக்கவும்.
+UPI: {upiId}
+{upiLink}`,
+  },
+};
+
+export const getReminderTemplate = (templates: ReminderTemplates | undefined, language: ReminderLanguage, stage: ReminderStage): string => {
+  return templates?.[language]?.[stage] || DEFAULT_REMINDER_TEMPLATES[language][stage];
+};
+
+// Tone escalates with every reminder already sent for this entry
+export const getNextReminderStage = (entry: { reminders?: ReminderLog[] }): ReminderStage => {
+  const sent = entry.reminders?.length || 0;
+  return REMINDER_STAGES[Math.min(sent, REMINDER_STAGES.length - 1)];
+};
+
+export const toReminderLanguage = (language: string | undefined): ReminderLanguage => language === 'ta' ? 'ta' : 'en';
+
+export type ReminderValues = Record<'tenant' | 'amount' | 'dueDate' | 'daysOverdue' | 'lateFee' | 'upiId' | 'upiLink', string>;
+export type LoanReminderValues = Record<'name' | 'amount' | 'dueDate' | 'daysOverdue' | 'upiId' | 'upiLink', string>;
+
+export const fillReminderTemplate = (template: string, values: ReminderValues | LoanReminderValues): string => {
+  const fields = values as Record<string, string>;
+  return template
+    .split('\n')
+    .filter(line => !Object.keys(fields).some(key => line.includes(`{${key}}`) && !fields[key]))
+    .map(line => line.replace(/\{(\w+)\}/g, (match, key: string) => key in fields ? fields[key] : match))
+    .join('\n')
+    .trim();
+};
@@ -0,0 +1,190 @@
+import { Income, Property, Tenant, UserProfile } from '../types';
+import { getNextDate } from './recurrence';
+import { getAmountReceived } from './incomeLedger';
+
+// Rent receipts (e.g. for a tenant's HRA claim) built from a received rent entry.
+// The document is self-contained HTML so it can be printed / saved as PDF by the browser or shared as a file.
+
+export interface RentReceipt {
+  receiptNumber: string;
+  issuedOn: string; // YYYY-MM-DD
+  landlordName: string;
+  landlordMobile?: string;
+  tenantName: string;
+  propertyName?: string;
+  propertyAddress?: string;
+  periodStart: string; // YYYY-MM-DD
+  periodEnd?: string; // Day before the next due date, for recurring rent
+  paidOn: string; // Date of the last instalment
+  amount: number;
+  amountInWords: string;
+  currency: string;
+}
+
+const ONES = ['', 'One', 'Two', 'Three', 'Four', 'Five', 'Six', 'Seven', 'Eight', 'Nine', 'Ten',
+  'Eleven', 'Twelve', 'Thirteen', 'Fourteen', 'Fifteen', 'Sixteen', 'Seventeen', 'Eighteen', 'Nineteen'];
+const TENS = ['', '', 'Twenty', 'Thirty', 'Forty', 'Fifty', 'Sixty', 'Seventy', 'Eighty', 'Ninety'];
+
+const belowThousand = (n: number): string => {
+  const words: string[] = [];
+  if (n >= 100) {
+    words.push(`${ONES[Math.floor(n / 100)]} Hundred`);
+    n %= 100;
+  }
+  if (n >= 20) {
+    words.push(n % 10 ? `${TENS[Math.floor(n / 10)]}-${ONES[n % 10]}` : TENS[Math.floor(n / 10)]);
+  } else if (n > 0) {
+    words.push(ONES[n]);
+  }
+  return words.join(' ');
+};
+
+// Whole numbers in words. Rupee amounts use the Indian system (lakh, crore), others the international one.
+export const numberToWords = (value: number, indian = true): string => {
+  let n = Math.floor(Math.abs(value));
+  if (n === 0) return 'Zero';
+
+  const scales: [number, string][] = indian
+    ? [[10000000, 'Crore'], [100000, 'Lakh'], [1000, 'Thousand']]
+    : [[1000000000, 'Billion'], [1000000, 'Million'], [1000, 'Thousand']];
+
+  const words: string[] = [];
+  scales.forEach(([size, name]) => {
+    if (n >= size) {
+      // Crores can exceed 99, so the leading group may itself need scale words
+      const count = Math.floor(n / size);
+      words.push(`${count >= 1000 ? numberToWords(count, indian) : belowThousand(count)} ${name}`);
+      n %= size;
+    }
+  });
+  if (n > 0) words.push(belowThousand(n));
+  return words.join(' ');
+};
+
+export const amountToWords = (amount: number, currency: string): string => {
+  const rupees = currency === '₹';
+  // Rounded to paise first, so 10.999 reads as 11 rather than 10 and 100 paise
+  const paise = Math.round(amount * 100);
+  const whole = Math.floor(paise / 100);
+  const fraction = paise % 100;
+  let words = `${rupees ? 'Rupees ' : ''}${numberToWords(whole, rupees)}`;
+  if (fraction > 0) words += ` and ${numberToWords(fraction)} ${rupees ? 'Paise' : 'Cents'}`;
+  return `${words} Only`;
+};
+
+const addDays = (dateStr: string, days: number) => {
+  const d = new Date(`${dateStr}T00:00:00`);
+  d.setDate(d.getDate() + days);
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
+};
+
+// Stable per entry, so re-issuing a receipt never changes its number
+export const getReceiptNumber = (income: Income) => {
+  const due = income.dueDate || income.date;
+  return `RR-${due.slice(0, 7).replace('-', '')}-${income.id.replace(/-/g, '').slice(0, 6).toUpperCase()}`;
+};
+
+export const buildRentReceipt = (
+  income: Income,
+  details: { profile: UserProfile | null; tenant?: Tenant; property?: Property; currency: string; today: string }
+): RentReceipt => {
+  const { profile, tenant, property, currency, today } = details;
+  const periodStart = income.dueDate || income.date;
+  const periodEnd = income.recurrence !== 'None'
+    ? addDays(getNextDate(periodStart, income.recurrence, income.recurrenceRule, income.anchorDate), -1)
+    : undefined;
+  const lastPayment = income.payments && income.payments.length > 0
+    ? income.payments.reduce((latest, p) => p.date > latest ? p.date : latest, income.payments[0].date)
+    : income.date;
+  const amount = getAmountReceived(income);
+
+  return {
+    receiptNumber: getReceiptNumber(income),
+    issuedOn: today,
+    landlordName: profile?.name || '',
+    landlordMobile: profile?.mobile || undefined,
+    tenantName: tenant?.name || income.source,
+    propertyName: property?.name,
+    propertyAddress: property?.address,
+    periodStart,
+    periodEnd,
+    paidOn: lastPayment,
+    amount,
+    amountInWords: amountToWords(amount, currency),
+    currency,
+  };
+};
+
+export const formatReceiptDate = (dateStr: string) =>
+  new Date(`${dateStr}T00:00:00`).toLocaleDateString(undefined, { day: 'numeric', month: 'long', year: 'numeric' });
+
+export const formatReceiptPeriod = (receipt: RentReceipt) => receipt.periodEnd
+  ? `${formatReceiptDate(receipt.periodStart)} – ${formatReceiptDate(receipt.periodEnd)}`
+  : formatReceiptDate(receipt.periodStart);
+
+const escapeHtml = (value: string) => value
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;');
+
+export const renderRentReceiptHtml = (receipt: RentReceipt): string => {
+  const row = (label: string, value?: string) => value
+    ? `<tr><th>${label}</th><td>${escapeHtml(value)}</td></tr>`
+    : '';
+  const property = [receipt.propertyName, receipt.propertyAddress].filter(Boolean).join(', ');
+
+  return `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8">
+<title>Rent Receipt ${escapeHtml(receipt.receiptNumber)}</title>
+<style>
+  body { font-family: -apple-system, 'Segoe UI', Roboto, sans-serif; color: #1f2937; margin: 0; padding: 32px; }
+  .receipt { max-width: 640px; margin: 0 auto; border: 1px solid #d1d5db; border-radius: 12px; padding: 32px; }
+  h1 { margin: 0 0 4px; font-size: 22px; letter-spacing: 2px; text-align: center; }
+  .meta { display: flex; justify-content: space-between; font-size: 13px; color: #6b7280; margin: 16px 0 24px; }
+  table { width: 100%; border-collapse: collapse; font-size: 14px; }
+  th { text-align: left; font-weight: 600; color: #6b7280; padding: 8px 12px 8px 0; width: 35%; vertical-align: top; }
+  td { padding: 8px 0; }
+  .amount { font-size: 20px; font-weight: 700; color: #0d9488; }
+  .statement { margin: 24px 0; line-height: 1.6; font-size: 14px; }
+  .signature { margin-top: 48px; text-align: right; font-size: 14px; }
+  .signature span { display: inline-block; border-top: 1px solid #9ca3af; padding-top: 6px; min-width: 200px; text-align: center; }
+  @media print { body { padding: 0; } .receipt { border: none; } }
+</style>
+</head>
+<body>
+<div class="receipt">
+  <h1>RENT RECEIPT</h1>
+  <div class="meta"><span>Receipt No: ${escapeHtml(receipt.receiptNumber)}</span><span>Date: ${formatReceiptDate(receipt.issuedOn)}</span></div>
+  <p class="statement">Received with thanks from <strong>${escapeHtml(receipt.tenantName)}</strong> the sum of
+    <strong>${escapeHtml(receipt.currency)}${receipt.amount.toFixed(2)}</strong> (${escapeHtml(receipt.amountInWords)})
+    towards rent${property ? ` of <strong>${escapeHtml(property)}</strong>` : ''} for the period ${formatReceiptPeriod(receipt)}.</p>
+  <table>
+    ${row('Tenant', receipt.tenantName)}
+    ${row('Property', property)}
+    ${row('Rent Period', formatReceiptPeriod(receipt))}
+    ${row('Paid On', formatReceiptDate(receipt.paidOn))}
+    <tr><th>Amount</th><td class="amount">${escapeHtml(receipt.currency)}${receipt.amount.toFixed(2)}</td></tr>
+    ${row('Amount in Words', receipt.amountInWords)}
+    ${row('Landlord', receipt.landlordName)}
+    ${row('Landlord Mobile', receipt.landlordMobile)}
+  </table>
+  <div class="signature"><span>${escapeHtml(receipt.landlordName || 'Landlord')}<br>(Landlord)</span></div>
+</div>
+</body>
+</html>`;
+};
+
+// Opens the receipt in a new window and brings up the print dialog (where "Save as PDF" is available)
+export const printRentReceipt = (receipt: RentReceipt): boolean => {
+  const printWindow = window.open('', '_blank');
+  if (!printWindow) return false;
+  printWindow.document.write(renderRentReceiptHtml(receipt));
+  printWindow.document.close();
+  printWindow.focus();
+  // Give the written document a moment to lay out before printing
+  setTimeout(() => printWindow.print(), 300);
+  return true;
+};
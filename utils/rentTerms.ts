@@ -0,0 +1,78 @@
+import { Income, LateFeeRule, RentEscalation } from '../types';
+import { getOutstandingBalance } from './incomeLedger';
+
+// Lease terms attached to rent incomes: late fees after a grace period and periodic rent escalation.
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const daysBetween = (from: string, to: string) =>
+  Math.round((new Date(`${to}T00:00:00`).getTime() - new Date(`${from}T00:00:00`).getTime()) / DAY_MS);
+
+// Days past the end of the grace period (0 while still within it)
+export const getDaysLate = (income: Income, today: string): number => {
+  const dueDate = income.dueDate || income.date;
+  return Math.max(0, daysBetween(dueDate, today) - (income.gracePeriodDays || 0));
+};
+
+export const calculateLateFee = (rule: LateFeeRule, balance: number, daysLate: number): number => {
+  if (daysLate <= 0 || balance <= 0) return 0;
+  let fee = 0;
+  switch (rule.type) {
+    case 'Flat': fee = rule.value; break;
+    case 'Percent': fee = balance * rule.value / 100; break;
+    case 'PerDay': fee = rule.value * daysLate; break;
+  }
+  if (rule.cap && rule.cap > 0) fee = Math.min(fee, rule.cap);
+  return Math.round(fee);
+};
+
+// Late fee accrued so far on the unpaid balance of an entry
+export const getAccruedLateFee = (income: Income, today: string): number => {
+  if (!income.lateFee) return 0;
+  return calculateLateFee(income.lateFee, getOutstandingBalance(income), getDaysLate(income, today));
+};
+
+// Completed escalation steps between the escalation start and a date
+export const getEscalationSteps = (escalation: RentEscalation, dateStr: string): number => {
+  if (!escalation.everyMonths || dateStr < escalation.startDate) return 0;
+  const [sy, sm, sd] = escalation.startDate.split('-').map(Number);
+  const [y, m, d] = dateStr.split('-').map(Number);
+  const months = (y - sy) * 12 + (m - sm) - (d < sd ? 1 : 0);
+  return Math.floor(months / escalation.everyMonths);
+};
+
+// Amount for the occurrence due on nextDate: escalated once for every step crossed since the current entry
+export const getEscalatedAmount = (income: Income, nextDate: string): number => {
+  const { escalation } = income;
+  if (!escalation || !escalation.percent) return income.amount;
+  const steps = getEscalationSteps(escalation, nextDate) - getEscalationSteps(escalation, income.dueDate || income.date);
+  if (steps <= 0) return income.amount;
+  return Math.round(income.amount * Math.pow(1 + escalation.percent / 100, steps));
+};
+
+// The next escalation date on or after a given date, for display
+export const getNextEscalationDate = (escalation: RentEscalation, fromDate: string): string | null => {
+  if (!escalation.percent || !escalation.everyMonths) return null;
+  const [sy, sm, sd] = escalation.startDate.split('-').map(Number);
+  const steps = getEscalationSteps(escalation, fromDate) + 1;
+  const d = new Date(sy, sm - 1 + steps * escalation.everyMonths, 1);
+  const lastDay = new Date(d.getFullYear(), d.getMonth() + 1, 0).getDate();
+  d.setDate(Math.min(sd, lastDay));
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
+};
+
+export type RentTerms = Pick<Income, 'gracePeriodDays' | 'lateFee' | 'escalation'>;
+
+// Drops empty terms from the form and anchors a new escalation schedule at the entry's date
+export const normalizeRentTerms = (terms: RentTerms, date: string): RentTerms => {
+  const { gracePeriodDays, lateFee, escalation } = terms;
+  return {
+    gracePeriodDays: gracePeriodDays && gracePeriodDays > 0 ? Math.floor(gracePeriodDays) : undefined,
+    lateFee: lateFee && lateFee.value > 0
+      ? { type: lateFee.type, value: lateFee.value, cap: lateFee.cap && lateFee.cap > 0 ? lateFee.cap : undefined }
+      : undefined,
+    escalation: escalation && escalation.percent > 0
+      ? { percent: escalation.percent, everyMonths: Math.max(1, Math.floor(escalation.everyMonths || 12)), startDate: escalation.startDate || date }
+      : undefined,
+  };
+};
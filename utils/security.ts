@@ -1,66 +1,188 @@
 
-// Simple XOR + Base64 encryption for client-side demo purposes.
-// Handles Unicode correctly by encoding to UTF-8 bytes first.
-// In a production environment, use Web Crypto API (SubtleCrypto).
+// Passwords are stored as salted PBKDF2 hashes and verified in constant time.
+// Backup (.kbf) encryption uses the Web Crypto API: AES-GCM with a key derived from a
+// passphrase (the user's password or a custom backup key) via PBKDF2 and a random salt/IV per file.
+//
+// The repeating-key XOR below is kept only to read backups made by older versions and for the
+// device-local profile map, which must be readable before anyone has logged in.
+// It is obfuscation, not encryption.
 
 const DEFAULT_SECRET_KEY = "kanakku_offline_secret_key";
 const textEncoder = new TextEncoder();
 const textDecoder = new TextDecoder();
 
-export const encryptData = (data: any, customKey?: string): string => {
+// Encrypted backups are stored as "kbf2.<iterations>.<salt>.<iv>.<ciphertext>" (base64 parts).
+// Legacy XOR backups are a single base64 string, which never contains a '.'.
+const KBF_PREFIX = 'kbf2';
+const PBKDF2_ITERATIONS = 600000;
+// The iteration count comes from the file itself, so a crafted backup could otherwise stall the device
+const MAX_BACKUP_ITERATIONS = PBKDF2_ITERATIONS * 10;
+const SALT_LENGTH = 16;
+const IV_LENGTH = 12;
+
+// Convert bytes <-> base64. Using a loop prevents stack overflow with large data
+const bytesToBase64 = (bytes: Uint8Array): string => {
+  let binary = '';
+  const len = bytes.byteLength;
+  for (let i = 0; i < len; i++) {
+      binary += String.fromCharCode(bytes[i]);
+  }
+  return btoa(binary);
+};
+
+const base64ToBytes = (base64: string): Uint8Array => {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+      bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+};
+
+const xorBytes = (bytes: Uint8Array, key: string): Uint8Array => {
+  const keyBytes = textEncoder.encode(key);
+  const result = new Uint8Array(bytes.length);
+  for (let i = 0; i < bytes.length; i++) {
+    result[i] = bytes[i] ^ keyBytes[i % keyBytes.length];
+  }
+  return result;
+};
+
+export const obfuscateData = (data: any, customKey?: string): string => {
   try {
     const jsonString = JSON.stringify(data);
     // Encode to UTF-8 bytes to handle all unicode characters (Tamil, Emojis, etc.)
     const bytes = textEncoder.encode(jsonString);
-    const keyToUse = customKey || DEFAULT_SECRET_KEY;
-    const keyBytes = textEncoder.encode(keyToUse);
-    
-    const encryptedBytes = new Uint8Array(bytes.length);
-    
-    // XOR Encryption on bytes
-    for (let i = 0; i < bytes.length; i++) {
-      encryptedBytes[i] = bytes[i] ^ keyBytes[i % keyBytes.length];
-    }
-    
-    // Convert Uint8Array to binary string for btoa
-    // Using a loop prevents stack overflow with large data
-    let binary = '';
-    const len = encryptedBytes.byteLength;
-    for (let i = 0; i < len; i++) {
-        binary += String.fromCharCode(encryptedBytes[i]);
-    }
-    
-    return btoa(binary);
+    return bytesToBase64(xorBytes(bytes, customKey || DEFAULT_SECRET_KEY));
   } catch (e) {
-    console.error("Encryption failed", e);
+    console.error("Obfuscation failed", e);
     return "";
   }
 };
 
-export const decryptData = (encryptedString: string, customKey?: string): any => {
+export const deobfuscateData = (encodedString: string, customKey?: string): any => {
   try {
-    if (!encryptedString) return null;
-    
-    const binary = atob(encryptedString);
-    const bytes = new Uint8Array(binary.length);
-    
-    for (let i = 0; i < binary.length; i++) {
-        bytes[i] = binary.charCodeAt(i);
-    }
-    
-    // XOR Decryption
-    const keyToUse = customKey || DEFAULT_SECRET_KEY;
-    const keyBytes = textEncoder.encode(keyToUse);
-    const decryptedBytes = new Uint8Array(bytes.length);
-    
-    for (let i = 0; i < bytes.length; i++) {
-        decryptedBytes[i] = bytes[i] ^ keyBytes[i % keyBytes.length];
-    }
-    
-    const jsonString = textDecoder.decode(decryptedBytes);
+    if (!encodedString) return null;
+    const bytes = base64ToBytes(encodedString);
+    const jsonString = textDecoder.decode(xorBytes(bytes, customKey || DEFAULT_SECRET_KEY));
     return JSON.parse(jsonString);
   } catch (e) {
-    // console.error("Decryption failed", e); // Suppress console error as we might retry with different keys
+    // Suppress console error as we might retry with different keys
     return null;
   }
 };
+
+const deriveKey = async (passphrase: string, salt: Uint8Array, iterations: number): Promise<CryptoKey> => {
+  const baseKey = await crypto.subtle.importKey('raw', textEncoder.encode(passphrase), 'PBKDF2', false, ['deriveKey']);
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', salt, iterations, hash: 'SHA-256' },
+    baseKey,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+};
+
+export const isEncryptedBackup = (content: string) => content.startsWith(`${KBF_PREFIX}.`);
+
+export const encryptBackup = async (data: any, passphrase: string): Promise<string> => {
+  if (!passphrase) throw new Error('PASSWORD_REQUIRED');
+
+  const salt = crypto.getRandomValues(new Uint8Array(SALT_LENGTH));
+  const iv = crypto.getRandomValues(new Uint8Array(IV_LENGTH));
+  const key = await deriveKey(passphrase, salt, PBKDF2_ITERATIONS);
+  const cipherBuffer = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, textEncoder.encode(JSON.stringify(data)));
+
+  return [KBF_PREFIX, PBKDF2_ITERATIONS, bytesToBase64(salt), bytesToBase64(iv), bytesToBase64(new Uint8Array(cipherBuffer))].join('.');
+};
+
+// Returns null when the passphrase is missing or wrong, or the file was tampered with
+// (AES-GCM authentication or the iteration check fails), so callers can prompt for a password and retry.
+export const decryptBackup = async (content: string, passphrase?: string): Promise<any> => {
+  const trimmed = content.trim();
+
+  if (!isEncryptedBackup(trimmed)) {
+    // Legacy XOR backup: custom key if one was set, otherwise the built-in key
+    return deobfuscateData(trimmed, passphrase);
+  }
+
+  if (!passphrase) return null;
+
+  try {
+    const [, iterations, salt, iv, cipherText] = trimmed.split('.');
+    const iterationCount = /^\d+$/.test(iterations) ? parseInt(iterations, 10) : 0;
+    if (iterationCount <= 0 || iterationCount > MAX_BACKUP_ITERATIONS) return null;
+    const key = await deriveKey(passphrase, base64ToBytes(salt), iterationCount);
+    const plainBuffer = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: base64ToBytes(iv) }, key, base64ToBytes(cipherText));
+    return JSON.parse(textDecoder.decode(plainBuffer));
+  } catch (e) {
+    return null;
+  }
+};
+
+// --- Password Hashing ---
+
+// Stored as "pbkdf2-sha256$<iterations>$<salt>$<hash>" (base64 parts).
+// Anything else is a plaintext password from an older version, upgraded on the next successful login.
+const PASSWORD_HASH_PREFIX = 'pbkdf2-sha256';
+const PASSWORD_HASH_BITS = 256;
+
+export const isPasswordHash = (stored: string) => stored.startsWith(`${PASSWORD_HASH_PREFIX}$`);
+
+const derivePasswordBits = async (password: string, salt: Uint8Array, iterations: number): Promise<Uint8Array> => {
+  const baseKey = await crypto.subtle.importKey('raw', textEncoder.encode(password), 'PBKDF2', false, ['deriveBits']);
+  const bits = await crypto.subtle.deriveBits({ name: 'PBKDF2', salt, iterations, hash: 'SHA-256' }, baseKey, PASSWORD_HASH_BITS);
+  return new Uint8Array(bits);
+};
+
+// Compares every byte regardless of where the first mismatch is, so timing reveals nothing
+const constantTimeEqual = (a: Uint8Array, b: Uint8Array): boolean => {
+  let diff = a.length ^ b.length;
+  const len = Math.max(a.length, b.length);
+  for (let i = 0; i < len; i++) {
+    diff |= (a[i] ?? 0) ^ (b[i] ?? 0);
+  }
+  return diff === 0;
+};
+
+export const hashPassword = async (password: string): Promise<string> => {
+  const salt = crypto.getRandomValues(new Uint8Array(SALT_LENGTH));
+  const hash = await derivePasswordBits(password, salt, PBKDF2_ITERATIONS);
+  return [PASSWORD_HASH_PREFIX, PBKDF2_ITERATIONS, bytesToBase64(salt), bytesToBase64(hash)].join('$');
+};
+
+// needsUpgrade is set when a legacy plaintext password matched and should be re-saved as a hash
+export const verifyPassword = async (password: string, stored: string): Promise<{ valid: boolean; needsUpgrade: boolean }> => {
+  if (!password || !stored) return { valid: false, needsUpgrade: false };
+
+  if (!isPasswordHash(stored)) {
+    const valid = constantTimeEqual(textEncoder.encode(password), textEncoder.encode(stored));
+    return { valid, needsUpgrade: valid };
+  }
+
+  try {
+    const [, iterations, salt, hash] = stored.split('$');
+    const candidate = await derivePasswordBits(password, base64ToBytes(salt), parseInt(iterations, 10));
+    return { valid: constantTimeEqual(candidate, base64ToBytes(hash)), needsUpgrade: false };
+  } catch (e) {
+    return { valid: false, needsUpgrade: false };
+  }
+};
+
+// --- Password Policy ---
+
+export interface PasswordChecks {
+  length: boolean;
+  upper: boolean;
+  number: boolean;
+  special: boolean;
+}
+
+export const getPasswordChecks = (password: string): PasswordChecks => ({
+  length: password.length >= 8,
+  upper: /[A-Z]/.test(password),
+  number: /[0-9]/.test(password),
+  special: /[$!@#_&]/.test(password)
+});
+
+export const isStrongPassword = (password: string) => Object.values(getPasswordChecks(password)).every(Boolean);
@@ -0,0 +1,139 @@
+import { Contact, Expense, ExpenseGroup, ExpenseSharing, Loan, RecurringExpense, Settlement, ShareMode, ShareParticipant } from '../types';
+
+// Shared expenses with friends and roommates. A shared expense keeps the user's part in `amount`
+// (so budgets and reports only see that), while `sharing` records the whole bill, who paid it and
+// everyone's part. Balances are worked out from shared expenses and settlements on demand.
+
+// Participant id standing for the user
+export const SELF_ID = 'self';
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+// Divides a bill in whole paise; the paise left over go to the first participants so the parts always sum to the total
+const distribute = (total: number, weights: number[]): number[] => {
+  const totalWeight = weights.reduce((sum, w) => sum + w, 0);
+  if (totalWeight <= 0) return weights.map(() => 0);
+  const paise = Math.round(total * 100);
+  const parts = weights.map(w => Math.floor((paise * w) / totalWeight));
+  let left = paise - parts.reduce((sum, p) => sum + p, 0);
+  for (let i = 0; left > 0; i = (i + 1) % parts.length) {
+    if (weights[i] > 0) {
+      parts[i] += 1;
+      left -= 1;
+    }
+  }
+  return parts.map(p => p / 100);
+};
+
+// Everyone's part of a bill. Exact amounts are taken as given; validate them with isSharingBalanced.
+export const computeShares = (
+  total: number,
+  mode: ShareMode,
+  participants: { contactId: string; shares?: number; amount?: number }[]
+): ShareParticipant[] => {
+  if (mode === 'exact') {
+    return participants.map(p => ({ contactId: p.contactId, amount: round2(p.amount || 0) }));
+  }
+  const weights = participants.map(p => mode === 'shares' ? Math.max(0, p.shares || 0) : 1);
+  const amounts = distribute(total, weights);
+  return participants.map((p, i) => ({
+    contactId: p.contactId,
+    amount: amounts[i],
+    ...(mode === 'shares' ? { shares: weights[i] } : {}),
+  }));
+};
+
+export const isSharingBalanced = (sharing: Pick<ExpenseSharing, 'total' | 'participants'>) =>
+  Math.abs(sharing.total - sharing.participants.reduce((sum, p) => sum + p.amount, 0)) < 0.01;
+
+export const getOwnShare = (sharing: ExpenseSharing) =>
+  sharing.participants.find(p => p.contactId === SELF_ID)?.amount || 0;
+
+// What actually left the user's account for an expense: the whole bill if they paid it, nothing if a friend did
+export const getAmountPaid = (expense: Expense) =>
+  expense.sharing ? (expense.sharing.paidBy === SELF_ID ? expense.sharing.total : 0) : expense.amount;
+
+// Net position of each person across shared expenses and settlements: positive means they are owed money.
+// Pass a group id to look at one group, or null for expenses shared outside any group.
+export const getNetBalances = (
+  expenses: Expense[],
+  settlements: Settlement[],
+  groupId?: string | null
+): Record<string, number> => {
+  const inScope = (id?: string) => groupId === undefined || (id || null) === groupId;
+  const net: Record<string, number> = {};
+  const add = (id: string, amount: number) => { net[id] = round2((net[id] || 0) + amount); };
+
+  expenses.forEach(e => {
+    if (!e.sharing || !inScope(e.sharing.groupId)) return;
+    add(e.sharing.paidBy, e.sharing.total);
+    e.sharing.participants.forEach(p => add(p.contactId, -p.amount));
+  });
+  settlements.forEach(s => {
+    if (!inScope(s.groupId)) return;
+    add(s.fromId, s.amount);
+    add(s.toId, -s.amount);
+  });
+  return net;
+};
+
+export interface Debt {
+  fromId: string;
+  toId: string;
+  amount: number;
+}
+
+// The fewest payments that settle everyone: the largest debtor repeatedly pays the largest creditor
+export const simplifyDebts = (net: Record<string, number>): Debt[] => {
+  const creditors = Object.entries(net).filter(([, v]) => v > 0.005).map(([id, v]) => ({ id, amount: v }));
+  const debtors = Object.entries(net).filter(([, v]) => v < -0.005).map(([id, v]) => ({ id, amount: -v }));
+  const debts: Debt[] = [];
+
+  while (creditors.length > 0 && debtors.length > 0) {
+    creditors.sort((a, b) => b.amount - a.amount);
+    debtors.sort((a, b) => b.amount - a.amount);
+    const creditor = creditors[0];
+    const debtor = debtors[0];
+    const amount = round2(Math.min(creditor.amount, debtor.amount));
+    debts.push({ fromId: debtor.id, toId: creditor.id, amount });
+    creditor.amount = round2(creditor.amount - amount);
+    debtor.amount = round2(debtor.amount - amount);
+    if (creditor.amount <= 0.005) creditors.shift();
+    if (debtor.amount <= 0.005) debtors.shift();
+  }
+  return debts;
+};
+
+// Simplified payments for each group, plus expenses shared outside any group
+export const getGroupDebts = (expenses: Expense[], settlements: Settlement[], groups: ExpenseGroup[]): Debt[] =>
+  [...groups.map(g => g.id), null].flatMap(groupId => simplifyDebts(getNetBalances(expenses, settlements, groupId)));
+
+// What each contact owes the user (positive) or is owed by them (negative), following the simplified payments
+export const getContactBalances = (expenses: Expense[], settlements: Settlement[], groups: ExpenseGroup[]): Record<string, number> => {
+  const balances: Record<string, number> = {};
+  getGroupDebts(expenses, settlements, groups).forEach(debt => {
+    if (debt.toId === SELF_ID) balances[debt.fromId] = round2((balances[debt.fromId] || 0) + debt.amount);
+    if (debt.fromId === SELF_ID) balances[debt.toId] = round2((balances[debt.toId] || 0) - debt.amount);
+  });
+  return balances;
+};
+
+export const getParticipantName = (contacts: Contact[], id: string, you: string) =>
+  id === SELF_ID ? you : contacts.find(c => c.id === id)?.name || '?';
+
+// Contacts on shared expenses, settlements, groups or loans are archived instead of deleted
+export const isContactInUse = (
+  contactId: string,
+  data: { expenses: Expense[]; recurringExpenses: RecurringExpense[]; settlements: Settlement[]; groups: ExpenseGroup[]; loans: Loan[] }
+) => {
+  const onSharing = (sharing?: ExpenseSharing) =>
+    !!sharing && (sharing.paidBy === contactId || sharing.participants.some(p => p.contactId === contactId));
+  return data.expenses.some(e => onSharing(e.sharing)) ||
+    data.recurringExpenses.some(s => s.status !== 'Ended' && onSharing(s.sharing)) ||
+    data.settlements.some(s => s.fromId === contactId || s.toId === contactId) ||
+    data.groups.some(g => !g.archived && g.memberIds.includes(contactId)) ||
+    data.loans.some(l => l.contactId === contactId);
+};
+
+export const isGroupInUse = (groupId: string, data: { expenses: Expense[]; settlements: Settlement[] }) =>
+  data.expenses.some(e => e.sharing?.groupId === groupId) || data.settlements.some(s => s.groupId === groupId);
@@ -0,0 +1,38 @@
+import { Category, Expense, ExpenseSplit } from '../types';
+
+// An expense split into lines stays one transaction; reports and budgets count each line in its own category.
+// The expense's own `category` is its largest line, so lists and badges have one category to show.
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+export const isSplitExpense = (expense: { splits?: ExpenseSplit[] }) => !!expense.splits && expense.splits.length > 0;
+
+// The lines of an expense; an expense that is not split is a single line
+export const getExpenseParts = (expense: Expense): ExpenseSplit[] =>
+  isSplitExpense(expense)
+    ? expense.splits!
+    : [{ amount: expense.amount, category: expense.category, subcategory: expense.subcategory }];
+
+// Amount of the expenses spent in a category, counting only the lines in it
+export const getCategorySpend = (expenses: Expense[], category: Category) =>
+  expenses.reduce((sum, e) => sum + getExpenseParts(e).filter(p => p.category === category).reduce((s, p) => s + p.amount, 0), 0);
+
+// Spending per top-level category
+export const getCategoryBreakdown = (expenses: Expense[]): Record<string, number> => {
+  const breakdown: Record<string, number> = {};
+  expenses.forEach(e => getExpenseParts(e).forEach(part => {
+    breakdown[part.category] = (breakdown[part.category] || 0) + part.amount;
+  }));
+  return breakdown;
+};
+
+// What is left of the total after the lines entered so far (negative when the lines exceed it)
+export const getSplitRemainder = (total: number, splits: { amount: number }[]) =>
+  round2(total - splits.reduce((sum, s) => sum + s.amount, 0));
+
+export const isSplitBalanced = (total: number, splits: { amount: number }[]) =>
+  Math.abs(getSplitRemainder(total, splits)) < 0.01;
+
+// The category and subcategory an expense with these lines is listed under
+export const getPrimaryPart = (splits: ExpenseSplit[]): ExpenseSplit =>
+  splits.reduce((largest, part) => part.amount > largest.amount ? part : largest, splits[0]);
@@ -0,0 +1,46 @@
+// Free-form tags on expenses and incomes (e.g. #trip-madurai). Tags are stored lower-case without
+// the leading '#', so "#Trip Madurai" and "trip-madurai" are the same tag.
+
+export const normalizeTag = (value: string) =>
+  value.trim().replace(/^#+/, '').toLowerCase().replace(/\s+/g, '-').replace(/[^\p{L}\p{N}_-]/gu, '');
+
+export const formatTag = (tag: string) => `#${tag}`;
+
+// Tags typed as free text, separated by spaces or commas
+export const parseTags = (text: string): string[] =>
+  Array.from(new Set(text.split(/[\s,]+/).map(normalizeTag).filter(Boolean)));
+
+// Every tag in use, most used first, for autocomplete and the filter panel
+export const getAllTags = (records: { tags?: string[] }[]): string[] => {
+  const counts: Record<string, number> = {};
+  records.forEach(r => r.tags?.forEach(tag => { counts[tag] = (counts[tag] || 0) + 1; }));
+  return Object.keys(counts).sort((a, b) => counts[b] - counts[a] || a.localeCompare(b));
+};
+
+// Tags starting with (then containing) what has been typed so far, excluding ones already added
+export const suggestTags = (allTags: string[], input: string, selected: string[], limit = 5): string[] => {
+  const query = normalizeTag(input);
+  const available = allTags.filter(tag => !selected.includes(tag));
+  if (!query) return available.slice(0, limit);
+  return [
+    ...available.filter(tag => tag.startsWith(query)),
+    ...available.filter(tag => !tag.startsWith(query) && tag.includes(query)),
+  ].slice(0, limit);
+};
+
+export interface TagTotal {
+  tag: string;
+  total: number;
+  count: number;
+}
+
+// Sum of the records carrying each tag; a record with several tags counts towards each of them
+export const getTagTotals = (records: { amount: number; tags?: string[] }[]): TagTotal[] => {
+  const totals: Record<string, TagTotal> = {};
+  records.forEach(r => r.tags?.forEach(tag => {
+    const entry = totals[tag] || (totals[tag] = { tag, total: 0, count: 0 });
+    entry.total += r.amount;
+    entry.count += 1;
+  }));
+  return Object.values(totals).sort((a, b) => b.total - a.total);
+};
@@ -108,6 +108,9 @@ export const translations: Record<string, Record<string, string>> = {
 
     // Transaction Details
     'Delete Transaction': 'Delete Transaction',
+    'Edit Transaction': 'Edit Transaction',
+    'Edit Expense': 'Edit Expense',
+    'Edit Income': 'Edit Income',
     'Delete this expense?': 'Delete this expense?',
     'Status': 'Status',
 
@@ -152,15 +155,45 @@ export const translations: Record<string, Record<string, string>> = {
     // Encryption
     'Secure Backup': 'Secure Backup',
     'Unlock Backup': 'Unlock Backup',
-    'set_backup_password_desc': 'Set a custom password to encrypt this backup file. If you leave it blank, a default key will be used.',
+    'set_backup_password_desc': 'Set a custom password to encrypt this backup file. If you leave it blank, your login password will be used.',
     'enter_backup_password_desc': 'This backup file is protected. Please enter the password to decrypt it.',
+    'set_backup_password_required_desc': 'Set a password to encrypt this backup file. You will need it to restore the backup.',
     'Set Password (Optional)': 'Set Password (Optional)',
+    'Set Password': 'Set Password',
     'Enter Password': 'Enter Password',
     'Encrypt & Backup': 'Encrypt & Backup',
     'Skip / Use Default': 'Skip / Use Default',
     'Decrypt & Restore': 'Decrypt & Restore',
     'Password is required to decrypt': 'Password is required to decrypt',
     'Leave blank for default security': 'Leave blank for default security',
+    'Leave blank to use your login password': 'Leave blank to use your login password',
+    'backup_password_required': 'Please set a password for this backup. Your login password is only used automatically after signing in with it.',
+    'Repeat': 'Repeat',
+    'Upcoming Bills': 'Upcoming Bills',
+    'Skip': 'Skip',
+    'Pause': 'Pause',
+    'Resume': 'Resume',
+    'End': 'End',
+    'Paused': 'Paused',
+    'end_series_confirm': 'Stop this recurring expense? Entries already added will be kept.',
+    'Custom': 'Custom',
+    'Every': 'Every',
+    'Day': 'Day',
+    'Week': 'Week',
+    'Month': 'Month',
+    'Year': 'Year',
+    'Days': 'Days',
+    'Weeks': 'Weeks',
+    'Months': 'Months',
+    'Years': 'Years',
+    'On the last day of the month': 'On the last day of the month',
+    'Last day': 'Last day',
+    'Ends': 'Ends',
+    'Never': 'Never',
+    'On date': 'On date',
+    'After': 'After',
+    'occurrences': 'occurrences',
+    'until': 'until',
     'Cancel': 'Cancel',
 
     // Profile Edit
@@ -220,6 +253,9 @@ export const translations: Record<string, Record<string, string>> = {
     'Recent Device Backups': 'Recent Device Backups',
     'Restore': 'Restore',
     'restore_local_confirm': 'Restore this backup? Current data will be replaced.',
+    'backup_version_unsupported': 'This backup was created by a newer version of the app. Please update the app to restore it.',
+    'data_version_unsupported': 'Your saved data was created by a newer version of the app. Please update the app to open it.',
+    'data_migration_failed': 'Your saved data could not be upgraded. Please restore from a backup.',
     'delete_backup_confirm': 'Remove this backup from device history?',
 
     // OTP
@@ -266,6 +302,386 @@ export const translations: Record<string, Record<string, string>> = {
     'Min Amount': 'Min Amount',
     'Max Amount': 'Max Amount',
     'Clear Filters': 'Clear Filters',
+
+    // Tenants & Properties
+    'Payments': 'Payments',
+    'Tenants': 'Tenants',
+    'Not in list': 'Not in list',
+    'Property': 'Property',
+    'No property': 'No property',
+    'Add Property': 'Add Property',
+    'Edit Property': 'Edit Property',
+    'Property Name': 'Property Name',
+    'Property name is required': 'Property name is required',
+    'Address': 'Address',
+    'Save Property': 'Save Property',
+    'Add Tenant': 'Add Tenant',
+    'Edit Tenant': 'Edit Tenant',
+    'Save Tenant': 'Save Tenant',
+    'Tenant name is required': 'Tenant name is required',
+    'Agreed Rent': 'Agreed Rent',
+    'Security Deposit': 'Security Deposit',
+    'Lease': 'Lease',
+    'Lease Start': 'Lease Start',
+    'Lease End': 'Lease End',
+    'Lease end must be after lease start': 'Lease end must be after lease start',
+    'Open-ended': 'Open-ended',
+    'Lease ended': 'Lease ended',
+    'Since': 'Since',
+    'Rent History': 'Rent History',
+    'Pending': 'Pending',
+    'No rent recorded yet.': 'No rent recorded yet.',
+    'No properties or tenants yet.': 'No properties or tenants yet.',
+    'No tenants yet.': 'No tenants yet.',
+    'delete_tenant_confirm': 'Delete this tenant? Their rent entries will be kept.',
+    'delete_property_confirm': 'Delete this property? Its tenants will be kept without a property.',
+
+    // Partial Payments
+    'Partially Received': 'Partially Received',
+    'Record Payment': 'Record Payment',
+    'Balance': 'Balance',
+    'Paid': 'Paid',
+    'Arrears': 'Arrears',
+    'Arrears Ledger': 'Arrears Ledger',
+    'Due': 'Due',
+    'Payment exceeds the balance due': 'Payment exceeds the balance due',
+    'delete_payment_confirm': 'Delete this payment? The balance will be due again.',
+
+    // Rent Receipts
+    'Rent Receipt': 'Rent Receipt',
+    'Receipt No': 'Receipt No',
+    'Print / PDF': 'Print / PDF',
+    'Share': 'Share',
+    'Allow pop-ups to print the receipt.': 'Allow pop-ups to print the receipt.',
+    'Add your name in your profile to show it as the landlord.': 'Add your name in your profile to show it as the landlord.',
+
+    // Late Fees & Escalation
+    'Lease Terms': 'Lease Terms',
+    'Grace Period (days)': 'Grace Period (days)',
+    'Late Fee': 'Late Fee',
+    'late_fee_Flat': 'Fixed amount',
+    'late_fee_Percent': '% of balance',
+    'late_fee_PerDay': 'Per day late',
+    'Percent of balance': 'Percent of balance',
+    'Maximum': 'Maximum',
+    'No limit': 'No limit',
+    'Escalation %': 'Escalation %',
+    'Every (months)': 'Every (months)',
+    'Next increase': 'Next increase',
+    'days late': 'days late',
+
+    // Reminder Templates
+    'Reminder Language': 'Reminder Language',
+    'Same as app': 'Same as app',
+    'Reminders sent': 'Reminders sent',
+    'Last': 'Last',
+    'reminder_first': '1st',
+    'reminder_second': '2nd',
+    'reminder_final': 'Final',
+    'Payment Reminders': 'Payment Reminders',
+    'Your UPI ID': 'Your UPI ID',
+    'Placeholders': 'Placeholders',
+    'Reset': 'Reset',
+
+    // UPI Payment Requests
+    'Payment Request': 'Payment Request',
+    'Link copied': 'Link copied',
+    'Copy Link': 'Copy Link',
+    'Add your UPI ID in Edit Profile to request payments.': 'Add your UPI ID in Edit Profile to request payments.',
+    'Add your UPI ID in Edit Profile to include payment links.': 'Add your UPI ID in Edit Profile to include payment links.',
+    'Enter a valid UPI ID, e.g. name@bank': 'Enter a valid UPI ID, e.g. name@bank',
+    'upi_id_help': 'Used for UPI payment links and QR codes in reminders',
+    'The UPI pay link is included in the message. Show this QR code to collect in person.': 'The UPI pay link is included in the message. Show this QR code to collect in person.',
+
+    // Notifications
+    'tomorrow': 'tomorrow',
+    'Rent due': 'Rent due',
+    'Overdue rent': 'Overdue rent',
+    'Bill due': 'Bill due',
+    'Notifications': 'Notifications',
+    'Rent due, overdue rent, upcoming bills and card dues': 'Rent due, overdue rent, upcoming bills and card dues',
+    '1 day before': '1 day before',
+    'days before': 'days before',
+    'Rent reminder': 'Rent reminder',
+    'Bill reminder': 'Bill reminder',
+    'Quiet Hours': 'Quiet Hours',
+    'to': 'to',
+    'Notifications are not supported on this device.': 'Notifications are not supported on this device.',
+    'Notifications are blocked. Allow them for this app in your browser or device settings.': 'Notifications are blocked. Allow them for this app in your browser or device settings.',
+    'Reminders due during quiet hours are shown when they end.': 'Reminders due during quiet hours are shown when they end.',
+
+    // Income Status
+    'payment is now overdue': 'payment is now overdue',
+    'payments are now overdue': 'payments are now overdue',
+
+    // Money Accounts
+    'Money Accounts': 'Money Accounts',
+    'Select Account': 'Select Account',
+    'Bank': 'Bank',
+    'Credit Card': 'Credit Card',
+    'UPI Lite': 'UPI Lite',
+    'Wallet': 'Wallet',
+    'Paid From': 'Paid From',
+    'Received Into': 'Received Into',
+    'Account name is required': 'Account name is required',
+    'delete_account_confirm': 'Delete this account?',
+    'Edit Account': 'Edit Account',
+    'Add Account': 'Add Account',
+    'Account Name': 'Account Name',
+    'Account Type': 'Account Type',
+    'Opening Balance': 'Opening Balance',
+    'opening_balance_hint': 'Balance before the first entry you record here. Use a negative amount for money owed, e.g. on a credit card.',
+    'Save Account': 'Save Account',
+    'Archive Account': 'Archive Account',
+    'Unarchive Account': 'Unarchive Account',
+    'Delete Account': 'Delete Account',
+    'Valid amount required': 'Valid amount required',
+    'Choose two different accounts': 'Choose two different accounts',
+    'Transfer Money': 'Transfer Money',
+    'From': 'From',
+    'To': 'To',
+    'Note': 'Note',
+    'Save Transfer': 'Save Transfer',
+    'Deleted account': 'Deleted account',
+    'delete_transfer_confirm': 'Delete this transfer? Both account balances will be adjusted.',
+    'No accounts yet': 'No accounts yet',
+    'Archived': 'Archived',
+    'Transfers': 'Transfers',
+
+    // Credit Cards
+    'Enter statement and due days between 1 and 31': 'Enter statement and due days between 1 and 31',
+    'Statement Day': 'Statement Day',
+    'Due Day': 'Due Day',
+    'Credit Limit': 'Credit Limit',
+    'Credit Card Dues': 'Credit Card Dues',
+    'overdue since': 'overdue since',
+    'due on': 'due on',
+    'Statement paid': 'Statement paid',
+    'No amount due': 'No amount due',
+    'Unbilled': 'Unbilled',
+    'Next statement': 'Next statement',
+    'Pay Bill': 'Pay Bill',
+    'utilised': 'utilised',
+    'Available': 'Available',
+    'Pay Card Bill': 'Pay Card Bill',
+    'bill payment': 'bill payment',
+    'Card bill due': 'Card bill due',
+    'today': 'today',
+
+    // Categories
+    'Groceries': 'Groceries',
+    'Dining Out': 'Dining Out',
+    'Fuel': 'Fuel',
+    'Public Transport': 'Public Transport',
+    'Electricity': 'Electricity',
+    'Mobile & Internet': 'Mobile & Internet',
+    'Categories': 'Categories',
+    'Add Category': 'Add Category',
+    'Edit Category': 'Edit Category',
+    'Category Name': 'Category Name',
+    'Subcategory of': 'Subcategory of',
+    'None (main category)': 'None (main category)',
+    'Icon': 'Icon',
+    'Colour': 'Colour',
+    'Save Category': 'Save Category',
+    'Archive Category': 'Archive Category',
+    'Unarchive Category': 'Unarchive Category',
+    'Delete Category': 'Delete Category',
+    'delete_category_confirm': 'Delete this category and its subcategories?',
+    'Category name is required': 'Category name is required',
+    'A category with this name already exists': 'A category with this name already exists',
+    'Add Subcategory': 'Add Subcategory',
+    'Type': 'Type',
+
+    // Tags & Notes
+    'Tags': 'Tags',
+    'Notes': 'Notes',
+    'tags_placeholder': 'e.g. #trip-madurai #wedding',
+    'notes_placeholder': 'Anything worth remembering about this entry',
+
+    // Split Expenses
+    'Split': 'Split',
+    'Unsplit': 'Unsplit',
+    'parts': 'parts',
+    'Split across categories': 'Split across categories',
+    'Each part needs an amount': 'Each part needs an amount',
+    'Parts must add up to the total': 'Parts must add up to the total',
+    'Note (optional)': 'Note (optional)',
+    'Add Line': 'Add Line',
+    'Fully assigned': 'Fully assigned',
+    'Remaining': 'Remaining',
+    'Over by': 'Over by',
+    'Part of': 'Part of',
+    'delete_split_expense_confirm': 'This line is part of a split expense. Delete the whole expense?',
+
+    // Shared Expenses
+    'Shared Expenses': 'Shared Expenses',
+    'Shared Expense': 'Shared Expense',
+    'Shared': 'Shared',
+    'Share with others': 'Share with others',
+    'Not shared': 'Not shared',
+    'Total Bill': 'Total Bill',
+    'You': 'You',
+    'Your share': 'Your share',
+    'Group': 'Group',
+    'Groups': 'Groups',
+    'No group': 'No group',
+    'Not in a group': 'Not in a group',
+    'Friends': 'Friends',
+    'Paid by': 'Paid by',
+    'Paid to': 'Paid to',
+    'Received In': 'Received In',
+    'Equally': 'Equally',
+    'By Shares': 'By Shares',
+    'Exact Amounts': 'Exact Amounts',
+    'Add person…': 'Add person…',
+    'New contact name': 'New contact name',
+    'Add someone to share with': 'Add someone to share with',
+    'Shares must add up to more than zero': 'Shares must add up to more than zero',
+    'Name': 'Name',
+    'Name is required': 'Name is required',
+    'Add Contact': 'Add Contact',
+    'Edit Contact': 'Edit Contact',
+    'Save Contact': 'Save Contact',
+    'Archive Contact': 'Archive Contact',
+    'Unarchive Contact': 'Unarchive Contact',
+    'Delete Contact': 'Delete Contact',
+    'delete_contact_confirm': 'Delete this contact?',
+    'Add Group': 'Add Group',
+    'Edit Group': 'Edit Group',
+    'Group Name': 'Group Name',
+    'Group name is required': 'Group name is required',
+    'Members': 'Members',
+    'Add at least one member': 'Add at least one member',
+    'group_members_hint': 'You are always part of your groups.',
+    'Save Group': 'Save Group',
+    'Archive Group': 'Archive Group',
+    'Unarchive Group': 'Unarchive Group',
+    'Delete Group': 'Delete Group',
+    'delete_group_confirm': 'Delete this group?',
+    'Settle': 'Settle',
+    'Settle Up': 'Settle Up',
+    'Settled': 'Settled',
+    'Settlement': 'Settlement',
+    'Record Settlement': 'Record Settlement',
+    'Choose two different people': 'Choose two different people',
+    'delete_settlement_confirm': 'Delete this settlement? Balances will be recalculated.',
+    'Balances': 'Balances',
+    'Suggested Payments': 'Suggested Payments',
+    'All settled up': 'All settled up',
+    'Activity': 'Activity',
+    'You are owed': 'You are owed',
+    'You owe': 'You owe',
+    'owes you': 'owes you',
+    'you owe': 'you owe',
+    'No groups yet': 'No groups yet',
+    'No contacts yet': 'No contacts yet',
+
+    // Loans
+    'Loans': 'Loans',
+    'Lent': 'Lent',
+    'Borrowed': 'Borrowed',
+    'I lent': 'I lent',
+    'I borrowed': 'I borrowed',
+    'Lent to': 'Lent to',
+    'Borrowed from': 'Borrowed from',
+    'Select Contact': 'Select Contact',
+    'Choose who the loan is with': 'Choose who the loan is with',
+    'Add Loan': 'Add Loan',
+    'Edit Loan': 'Edit Loan',
+    'Save Loan': 'Save Loan',
+    'Delete Loan': 'Delete Loan',
+    'delete_loan_confirm': 'Delete this loan and its repayments?',
+    'Principal': 'Principal',
+    'Start Date': 'Start Date',
+    'Interest-free': 'Interest-free',
+    'Simple': 'Simple',
+    'Compound': 'Compound',
+    'Rate (% per year)': 'Rate (% per year)',
+    'Compounded': 'Compounded',
+    'Enter the interest rate': 'Enter the interest rate',
+    'Tenure (months)': 'Tenure (months)',
+    'Enter the tenure in months': 'Enter the tenure in months',
+    'Repayment': 'Repayment',
+    'Monthly instalments': 'Monthly instalments',
+    'Lump Sum': 'Lump Sum',
+    'Per month': 'Per month',
+    'Due on': 'Due on',
+    'Record Repayment': 'Record Repayment',
+    'Repaid': 'Repaid',
+    'Outstanding': 'Outstanding',
+    'Repayment Schedule': 'Repayment Schedule',
+    'Repayments': 'Repayments',
+    'Next due': 'Next due',
+    'To receive': 'To receive',
+    'To repay': 'To repay',
+    'No open loans': 'No open loans',
+    'Loan Follow Up': 'Loan Follow Up',
+    'No mobile number saved for this contact.': 'No mobile number saved for this contact.',
+    'Call': 'Call',
+    'Loan repayment due': 'Loan repayment due',
+    'Overdue loan repayments': 'Overdue loan repayments',
+
+    // EMI Planner
+    'EMI Planner': 'EMI Planner',
+    'EMI': 'EMI',
+    'Add EMI Plan': 'Add EMI Plan',
+    'Edit EMI Plan': 'Edit EMI Plan',
+    'Save EMI Plan': 'Save EMI Plan',
+    'Delete EMI Plan': 'Delete EMI Plan',
+    'delete_emi_plan_confirm': 'Delete this EMI plan? EMIs already posted stay in your expenses and no new ones will be added.',
+    'emi_plan_series_hint': 'Each EMI is added to your expenses automatically on its due date.',
+    'Lender': 'Lender',
+    'First EMI': 'First EMI',
+    'Edit': 'Edit',
+    'Monthly EMIs': 'Monthly EMIs',
+    'No EMI plans yet': 'No EMI plans yet',
+    'EMIs paid': 'EMIs paid',
+    'left': 'left',
+    'of': 'of',
+    'Principal paid': 'Principal paid',
+    'Interest paid': 'Interest paid',
+    'Schedule': 'Schedule',
+    'By Financial Year': 'By Financial Year',
+    'Financial Year': 'Financial Year',
+    'FY': 'FY',
+    'Prepay': 'Prepay',
+    'Prepaid': 'Prepaid',
+    'Prepayments': 'Prepayments',
+    'Save Prepayment': 'Save Prepayment',
+    'Prepayment exceeds the outstanding principal': 'Prepayment exceeds the outstanding principal',
+    'Reduce Tenure': 'Reduce Tenure',
+    'Reduce EMI': 'Reduce EMI',
+    'Interest saved': 'Interest saved',
+
+    // Savings Goals
+    'Savings Goals': 'Savings Goals',
+    'Goal': 'Goal',
+    'Add Goal': 'Add Goal',
+    'Edit Goal': 'Edit Goal',
+    'Save Goal': 'Save Goal',
+    'Delete Goal': 'Delete Goal',
+    'delete_goal_confirm': 'Delete this goal and its contributions?',
+    'Target': 'Target',
+    'Target Amount': 'Target Amount',
+    'Target Date': 'Target Date',
+    'Contributions': 'Contributions',
+    'Manual': 'Manual',
+    'From income': 'From income',
+    'Of each': 'Of each',
+    'of each': 'of each',
+    'Enter a percentage between 1 and 100': 'Enter a percentage between 1 and 100',
+    'goal_rule_hint': 'This share is set aside automatically whenever an income in this category is marked received.',
+    'Add Money': 'Add Money',
+    'delete_contribution_confirm': 'Delete this contribution?',
+    'No goals yet': 'No goals yet',
+    'No contributions yet': 'No contributions yet',
+    'Goal reached': 'Goal reached',
+    'Projected': 'Projected',
+    'On track': 'On track',
+    'Behind': 'Behind',
+    'Save': 'Save',
+    'a month to finish on time': 'a month to finish on time',
   },
   ta: {
     // General
@@ -374,6 +790,9 @@ export const translations: Record<string, Record<string, string>> = {
 
     // Transaction Details
     'Delete Transaction': 'பரிவர்த்தனையை நீக்கு',
+    'Edit Transaction': 'பரிவர்த்தனையைத் திருத்து',
+    'Edit Expense': 'செலவைத் திருத்து',
+    'Edit Income': 'வருமானத்தைத் திருத்து',
     'Delete this expense?': 'இந்த செலவை நீக்கவா?',
     'Status': 'நிலை',
 
@@ -418,15 +837,45 @@ export const translations: Record<string, Record<string, string>> = {
     // Encryption
     'Secure Backup': 'பாதுகாப்பான காப்புப் பிரதி',
     'Unlock Backup': 'காப்புப் பிரதியைத் திற',
-    'set_backup_password_desc': 'இந்த கோப்பைப் பாதுகாக்க கடவுச்சொல்லை அமைக்கவும். இல்லையெனில் இயல்புநிலை பயன்படுத்தப்படும்.',
+    'set_backup_password_desc': 'இந்த கோப்பைப் பாதுகாக்க கடவுச்சொல்லை அமைக்கவும். இல்லையெனில் உங்கள் உள்நுழைவு கடவுச்சொல் பயன்படுத்தப்படும்.',
     'enter_backup_password_desc': 'இந்த கோப்பு பாதுகாக்கப்பட்டுள்ளது. திறக்க கடவுச்சொல்லை உள்ளிடவும்.',
+    'set_backup_password_required_desc': 'இந்த கோப்பைப் பாதுகாக்க கடவுச்சொல்லை அமைக்கவும். மீட்டெடுக்க இது தேவைப்படும்.',
     'Set Password (Optional)': 'கடவுச்சொல் (விருப்பத் தேர்வு)',
+    'Set Password': 'கடவுச்சொல்லை அமைக்கவும்',
     'Enter Password': 'கடவுச்சொல்லை உள்ளிடவும்',
     'Encrypt & Backup': 'குறியாக்கம் செய்து சேமி',
     'Skip / Use Default': 'தவிர் / இயல்புநிலை',
     'Decrypt & Restore': 'குறிவிலக்கி மீட்டமை',
     'Password is required to decrypt': 'குறிவிலக்க கடவுச்சொல் தேவை',
     'Leave blank for default security': 'இயல்புநிலை பாதுகாப்புக்கு காலியாக விடவும்',
+    'Leave blank to use your login password': 'உள்நுழைவு கடவுச்சொல்லைப் பயன்படுத்த காலியாக விடவும்',
+    'backup_password_required': 'இந்த காப்புப்பிரதிக்கு கடவுச்சொல்லை அமைக்கவும். கடவுச்சொல்லுடன் உள்நுழைந்த பின்பே அது தானாகப் பயன்படுத்தப்படும்.',
+    'Repeat': 'மீண்டும்',
+    'Upcoming Bills': 'வரவிருக்கும் கட்டணங்கள்',
+    'Skip': 'தவிர்',
+    'Pause': 'இடைநிறுத்து',
+    'Resume': 'தொடர்',
+    'End': 'முடி',
+    'Paused': 'இடைநிறுத்தப்பட்டது',
+    'end_series_confirm': 'இந்த தொடர் செலவை நிறுத்தவா? ஏற்கனவே சேர்க்கப்பட்ட பதிவுகள் வைக்கப்படும்.',
+    'Custom': 'தனிப்பயன்',
+    'Every': 'ஒவ்வொரு',
+    'Day': 'நாள்',
+    'Week': 'வாரம்',
+    'Month': 'மாதம்',
+    'Year': 'ஆண்டு',
+    'Days': 'நாட்கள்',
+    'Weeks': 'வாரங்கள்',
+    'Months': 'மாதங்கள்',
+    'Years': 'ஆண்டுகள்',
+    'On the last day of the month': 'மாதத்தின் கடைசி நாளில்',
+    'Last day': 'கடைசி நாள்',
+    'Ends': 'முடிவு',
+    'Never': 'ஒருபோதும் இல்லை',
+    'On date': 'தேதியில்',
+    'After': 'பிறகு',
+    'occurrences': 'முறை',
+    'until': 'வரை',
     'Cancel': 'ரத்து',
 
     // Profile Edit
@@ -486,6 +935,9 @@ export const translations: Record<string, Record<string, string>> = {
     'Recent Device Backups': 'சமீபத்திய காப்புப்பிரதிகள்',
     'Restore': 'மீட்டெடு',
     'restore_local_confirm': 'இந்த காப்புப்பிரதியை மீட்டெடுக்கவா?',
+    'backup_version_unsupported': 'இந்த காப்புப்பிரதி செயலியின் புதிய பதிப்பில் உருவாக்கப்பட்டது. மீட்டெடுக்க செயலியைப் புதுப்பிக்கவும்.',
+    'data_version_unsupported': 'உங்கள் சேமிக்கப்பட்ட தரவு செயலியின் புதிய பதிப்பில் உருவாக்கப்பட்டது. திறக்க செயலியைப் புதுப்பிக்கவும்.',
+    'data_migration_failed': 'உங்கள் சேமிக்கப்பட்ட தரவைப் புதுப்பிக்க முடியவில்லை. காப்புப்பிரதியிலிருந்து மீட்டெடுக்கவும்.',
     'delete_backup_confirm': 'இந்த காப்புப்பிரதியை நீக்கவா?',
 
     // OTP
@@ -532,6 +984,386 @@ export const translations: Record<string, Record<string, string>> = {
     'Min Amount': 'குறைந்தபட்ச தொகை',
     'Max Amount': 'அதிகபட்ச தொகை',
     'Clear Filters': 'வடிகட்டிகளை அழி',
+
+    // Tenants & Properties
+    'Payments': 'கொடுப்பனவுகள்',
+    'Tenants': 'குத்தகைதாரர்கள்',
+    'Not in list': 'பட்டியலில் இல்லை',
+    'Property': 'சொத்து',
+    'No property': 'சொத்து இல்லை',
+    'Add Property': 'சொத்தைச் சேர்',
+    'Edit Property': 'சொத்தைத் திருத்து',
+    'Property Name': 'சொத்தின் பெயர்',
+    'Property name is required': 'சொத்தின் பெயர் தேவை',
+    'Address': 'முகவரி',
+    'Save Property': 'சொத்தைச் சேமி',
+    'Add Tenant': 'குத்தகைதாரரைச் சேர்',
+    'Edit Tenant': 'குத்தகைதாரரைத் திருத்து',
+    'Save Tenant': 'குத்தகைதாரரைச் சேமி',
+    'Tenant name is required': 'குத்தகைதாரர் பெயர் தேவை',
+    'Agreed Rent': 'ஒப்புக்கொண்ட வாடகை',
+    'Security Deposit': 'முன்பணம்',
+    'Lease': 'குத்தகை',
+    'Lease Start': 'குத்தகை தொடக்கம்',
+    'Lease End': 'குத்தகை முடிவு',
+    'Lease end must be after lease start': 'குத்தகை முடிவு தொடக்கத்திற்குப் பின் இருக்க வேண்டும்',
+    'Open-ended': 'காலவரையற்றது',
+    'Lease ended': 'குத்தகை முடிந்தது',
+    'Since': 'முதல்',
+    'Rent History': 'வாடகை வரலாறு',
+    'Pending': 'நிலுவை',
+    'No rent recorded yet.': 'இன்னும் வாடகை பதிவு செய்யப்படவில்லை.',
+    'No properties or tenants yet.': 'இன்னும் சொத்துகள் அல்லது குத்தகைதாரர்கள் இல்லை.',
+    'No tenants yet.': 'இன்னும் குத்தகைதாரர்கள் இல்லை.',
+    'delete_tenant_confirm': 'இந்த குத்தகைதாரரை நீக்கவா? அவர்களின் வாடகை பதிவுகள் வைக்கப்படும்.',
+    'delete_property_confirm': 'இந்த சொத்தை நீக்கவா? அதன் குத்தகைதாரர்கள் சொத்து இல்லாமல் வைக்கப்படுவார்கள்.',
+
+    // Partial Payments
+    'Partially Received': 'பகுதியாக பெறப்பட்டது',
+    'Record Payment': 'கட்டணத்தைப் பதிவு செய்',
+    'Balance': 'மீதி',
+    'Paid': 'செலுத்தியது',
+    'Arrears': 'நிலுவைகள்',
+    'Arrears Ledger': 'நிலுவைப் பேரேடு',
+    'Due': 'செலுத்த வேண்டியது',
+    'Payment exceeds the balance due': 'கட்டணம் நிலுவைத் தொகையை விட அதிகம்',
+    'delete_payment_confirm': 'இந்தக் கட்டணத்தை நீக்கவா? மீதித் தொகை மீண்டும் நிலுவையாகும்.',
+
+    // Rent Receipts
+    'Rent Receipt': 'வாடகை ரசீது',
+    'Receipt No': 'ரசீது எண்',
+    'Print / PDF': 'அச்சிடு / PDF',
+    'Share': 'பகிர்',
+    'Allow pop-ups to print the receipt.': 'ரசீதை அச்சிட பாப்-அப்களை அனுமதிக்கவும்.',
+    'Add your name in your profile to show it as the landlord.': 'உரிமையாளராகக் காட்ட உங்கள் சுயவிவரத்தில் பெயரைச் சேர்க்கவும்.',
+
+    // Late Fees & Escalation
+    'Lease Terms': 'குத்தகை விதிமுறைகள்',
+    'Grace Period (days)': 'சலுகைக் காலம் (நாட்கள்)',
+    'Late Fee': 'தாமதக் கட்டணம்',
+    'late_fee_Flat': 'நிலையான தொகை',
+    'late_fee_Percent': 'மீதியின் %',
+    'late_fee_PerDay': 'தாமதமான ஒவ்வொரு நாளுக்கும்',
+    'Percent of balance': 'மீதியின் சதவீதம்',
+    'Maximum': 'அதிகபட்சம்',
+    'No limit': 'வரம்பு இல்லை',
+    'Escalation %': 'வாடகை உயர்வு %',
+    'Every (months)': 'ஒவ்வொரு (மாதங்கள்)',
+    'Next increase': 'அடுத்த உயர்வு',
+    'days late': 'நாட்கள் தாமதம்',
+
+    // Reminder Templates
+    'Reminder Language': 'நினைவூட்டல் மொழி',
+    'Same as app': 'செயலியின் மொழி',
+    'Reminders sent': 'அனுப்பிய நினைவூட்டல்கள்',
+    'Last': 'கடைசி',
+    'reminder_first': '1வது',
+    'reminder_second': '2வது',
+    'reminder_final': 'இறுதி',
+    'Payment Reminders': 'கட்டண நினைவூட்டல்கள்',
+    'Your UPI ID': 'உங்கள் UPI ஐடி',
+    'Placeholders': 'இடக்குறிகள்',
+    'Reset': 'மீட்டமை',
+
+    // UPI Payment Requests
+    'Payment Request': 'கட்டணக் கோரிக்கை',
+    'Link copied': 'இணைப்பு நகலெடுக்கப்பட்டது',
+    'Copy Link': 'இணைப்பை நகலெடு',
+    'Add your UPI ID in Edit Profile to request payments.': 'கட்டணம் கோர சுயவிவரத் திருத்தத்தில் உங்கள் UPI ஐடியைச் சேர்க்கவும்.',
+    'Add your UPI ID in Edit Profile to include payment links.': 'கட்டண இணைப்புகளைச் சேர்க்க சுயவிவரத் திருத்தத்தில் உங்கள் UPI ஐடியைச் சேர்க்கவும்.',
+    'Enter a valid UPI ID, e.g. name@bank': 'சரியான UPI ஐடியை உள்ளிடவும், எ.கா. name@bank',
+    'upi_id_help': 'நினைவூட்டல்களில் UPI கட்டண இணைப்புகள் மற்றும் QR குறியீடுகளுக்குப் பயன்படுத்தப்படும்',
+    'The UPI pay link is included in the message. Show this QR code to collect in person.': 'UPI கட்டண இணைப்பு செய்தியில் சேர்க்கப்பட்டுள்ளது. நேரில் வசூலிக்க இந்த QR குறியீட்டைக் காட்டவும்.',
+
+    // Notifications
+    'tomorrow': 'நாளை',
+    'Rent due': 'வாடகை செலுத்த வேண்டியது',
+    'Overdue rent': 'தாமதமான வாடகை',
+    'Bill due': 'பில் செலுத்த வேண்டியது',
+    'Notifications': 'அறிவிப்புகள்',
+    'Rent due, overdue rent, upcoming bills and card dues': 'செலுத்த வேண்டிய வாடகை, தாமதமான வாடகை, வரவிருக்கும் பில்கள் மற்றும் கார்டு நிலுவைகள்',
+    '1 day before': '1 நாள் முன்',
+    'days before': 'நாட்கள் முன்',
+    'Rent reminder': 'வாடகை நினைவூட்டல்',
+    'Bill reminder': 'பில் நினைவூட்டல்',
+    'Quiet Hours': 'அமைதி நேரம்',
+    'to': 'முதல்',
+    'Notifications are not supported on this device.': 'இந்தச் சாதனத்தில் அறிவிப்புகள் ஆதரிக்கப்படவில்லை.',
+    'Notifications are blocked. Allow them for this app in your browser or device settings.': 'அறிவிப்புகள் தடுக்கப்பட்டுள்ளன. உங்கள் உலாவி அல்லது சாதன அமைப்புகளில் இந்த செயலிக்கு அனுமதிக்கவும்.',
+    'Reminders due during quiet hours are shown when they end.': 'அமைதி நேரத்தில் வரும் நினைவூட்டல்கள் அது முடிந்ததும் காட்டப்படும்.',
+
+    // Income Status
+    'payment is now overdue': 'கட்டணம் இப்போது தாமதமாகியுள்ளது',
+    'payments are now overdue': 'கட்டணங்கள் இப்போது தாமதமாகியுள்ளன',
+
+    // Money Accounts
+    'Money Accounts': 'பணக் கணக்குகள்',
+    'Select Account': 'கணக்கைத் தேர்ந்தெடுக்கவும்',
+    'Bank': 'வங்கி',
+    'Credit Card': 'கடன் அட்டை',
+    'UPI Lite': 'UPI Lite',
+    'Wallet': 'வாலட்',
+    'Paid From': 'செலுத்திய கணக்கு',
+    'Received Into': 'பெற்ற கணக்கு',
+    'Account name is required': 'கணக்கின் பெயர் தேவை',
+    'delete_account_confirm': 'இந்தக் கணக்கை நீக்கவா?',
+    'Edit Account': 'கணக்கைத் திருத்து',
+    'Add Account': 'கணக்கைச் சேர்',
+    'Account Name': 'கணக்கின் பெயர்',
+    'Account Type': 'கணக்கு வகை',
+    'Opening Balance': 'தொடக்க இருப்பு',
+    'opening_balance_hint': 'இங்கே பதிவு செய்யும் முதல் பதிவுக்கு முந்தைய இருப்பு. கடன் அட்டை போன்ற செலுத்த வேண்டிய தொகைக்கு எதிர்மறை தொகையைப் பயன்படுத்தவும்.',
+    'Save Account': 'கணக்கைச் சேமி',
+    'Archive Account': 'கணக்கைக் காப்பகப்படுத்து',
+    'Unarchive Account': 'காப்பகத்திலிருந்து மீட்டெடு',
+    'Delete Account': 'கணக்கை நீக்கு',
+    'Valid amount required': 'சரியான தொகை தேவை',
+    'Choose two different accounts': 'இரண்டு வெவ்வேறு கணக்குகளைத் தேர்ந்தெடுக்கவும்',
+    'Transfer Money': 'பணப் பரிமாற்றம்',
+    'From': 'இருந்து',
+    'To': 'க்கு',
+    'Note': 'குறிப்பு',
+    'Save Transfer': 'பரிமாற்றத்தைச் சேமி',
+    'Deleted account': 'நீக்கப்பட்ட கணக்கு',
+    'delete_transfer_confirm': 'இந்தப் பரிமாற்றத்தை நீக்கவா? இரு கணக்குகளின் இருப்பும் சரிசெய்யப்படும்.',
+    'No accounts yet': 'இன்னும் கணக்குகள் இல்லை',
+    'Archived': 'காப்பகப்படுத்தப்பட்டவை',
+    'Transfers': 'பரிமாற்றங்கள்',
+
+    // Credit Cards
+    'Enter statement and due days between 1 and 31': 'அறிக்கை மற்றும் செலுத்தும் நாட்களை 1 முதல் 31 வரை உள்ளிடவும்',
+    'Statement Day': 'அறிக்கை நாள்',
+    'Due Day': 'செலுத்தும் நாள்',
+    'Credit Limit': 'கடன் வரம்பு',
+    'Credit Card Dues': 'கிரெடிட் கார்டு நிலுவைகள்',
+    'overdue since': 'தாமதம், முதல்',
+    'due on': 'செலுத்த வேண்டிய நாள்',
+    'Statement paid': 'அறிக்கை செலுத்தப்பட்டது',
+    'No amount due': 'நிலுவைத் தொகை இல்லை',
+    'Unbilled': 'பில் செய்யப்படாதது',
+    'Next statement': 'அடுத்த அறிக்கை',
+    'Pay Bill': 'பில் செலுத்து',
+    'utilised': 'பயன்படுத்தப்பட்டது',
+    'Available': 'கிடைக்கும் தொகை',
+    'Pay Card Bill': 'கார்டு பில் செலுத்து',
+    'bill payment': 'பில் செலுத்துதல்',
+    'Card bill due': 'கார்டு பில் செலுத்த வேண்டும்',
+    'today': 'இன்று',
+
+    // Categories
+    'Groceries': 'மளிகை',
+    'Dining Out': 'வெளியில் உணவு',
+    'Fuel': 'எரிபொருள்',
+    'Public Transport': 'பொது போக்குவரத்து',
+    'Electricity': 'மின்சாரம்',
+    'Mobile & Internet': 'மொபைல் & இணையம்',
+    'Categories': 'வகைகள்',
+    'Add Category': 'வகையைச் சேர்',
+    'Edit Category': 'வகையைத் திருத்து',
+    'Category Name': 'வகையின் பெயர்',
+    'Subcategory of': 'இதன் துணை வகை',
+    'None (main category)': 'இல்லை (முதன்மை வகை)',
+    'Icon': 'சின்னம்',
+    'Colour': 'நிறம்',
+    'Save Category': 'வகையைச் சேமி',
+    'Archive Category': 'வகையைக் காப்பகப்படுத்து',
+    'Unarchive Category': 'வகையை மீட்டெடு',
+    'Delete Category': 'வகையை நீக்கு',
+    'delete_category_confirm': 'இந்த வகையையும் அதன் துணை வகைகளையும் நீக்கவா?',
+    'Category name is required': 'வகையின் பெயர் தேவை',
+    'A category with this name already exists': 'இந்தப் பெயரில் ஏற்கனவே ஒரு வகை உள்ளது',
+    'Add Subcategory': 'துணை வகையைச் சேர்',
+    'Type': 'வகை',
+
+    // Tags & Notes
+    'Tags': 'குறிச்சொற்கள்',
+    'Notes': 'குறிப்புகள்',
+    'tags_placeholder': 'எ.கா. #trip-madurai #wedding',
+    'notes_placeholder': 'இந்தப் பதிவைப் பற்றி நினைவில் கொள்ள வேண்டியவை',
+
+    // Split Expenses
+    'Split': 'பிரி',
+    'Unsplit': 'பிரிப்பை நீக்கு',
+    'parts': 'பகுதிகள்',
+    'Split across categories': 'வகைகளுக்கு இடையே பிரி',
+    'Each part needs an amount': 'ஒவ்வொரு பகுதிக்கும் தொகை தேவை',
+    'Parts must add up to the total': 'பகுதிகளின் கூட்டுத்தொகை மொத்தத்திற்குச் சமமாக இருக்க வேண்டும்',
+    'Note (optional)': 'குறிப்பு (விருப்பம்)',
+    'Add Line': 'வரியைச் சேர்',
+    'Fully assigned': 'முழுமையாக ஒதுக்கப்பட்டது',
+    'Remaining': 'மீதம்',
+    'Over by': 'கூடுதல்',
+    'Part of': 'இதன் பகுதி',
+    'delete_split_expense_confirm': 'இந்த வரி ஒரு பிரிக்கப்பட்ட செலவின் பகுதி. முழு செலவையும் நீக்கவா?',
+
+    // Shared Expenses
+    'Shared Expenses': 'பகிர்ந்த செலவுகள்',
+    'Shared Expense': 'பகிர்ந்த செலவு',
+    'Shared': 'பகிர்ந்தது',
+    'Share with others': 'மற்றவர்களுடன் பகிர்',
+    'Not shared': 'பகிரவில்லை',
+    'Total Bill': 'மொத்த பில்',
+    'You': 'நீங்கள்',
+    'Your share': 'உங்கள் பங்கு',
+    'Group': 'குழு',
+    'Groups': 'குழுக்கள்',
+    'No group': 'குழு இல்லை',
+    'Not in a group': 'குழுவில் இல்லாதவை',
+    'Friends': 'நண்பர்கள்',
+    'Paid by': 'செலுத்தியவர்',
+    'Paid to': 'பெற்றவர்',
+    'Received In': 'பெறப்பட்ட கணக்கு',
+    'Equally': 'சமமாக',
+    'By Shares': 'பங்குகளின்படி',
+    'Exact Amounts': 'சரியான தொகைகள்',
+    'Add person…': 'நபரைச் சேர்…',
+    'New contact name': 'புதிய தொடர்பின் பெயர்',
+    'Add someone to share with': 'பகிர ஒருவரைச் சேர்க்கவும்',
+    'Shares must add up to more than zero': 'பங்குகள் பூஜ்ஜியத்தை விட அதிகமாக இருக்க வேண்டும்',
+    'Name': 'பெயர்',
+    'Name is required': 'பெயர் தேவை',
+    'Add Contact': 'தொடர்பைச் சேர்',
+    'Edit Contact': 'தொடர்பைத் திருத்து',
+    'Save Contact': 'தொடர்பைச் சேமி',
+    'Archive Contact': 'தொடர்பைக் காப்பகப்படுத்து',
+    'Unarchive Contact': 'தொடர்பை மீட்டெடு',
+    'Delete Contact': 'தொடர்பை நீக்கு',
+    'delete_contact_confirm': 'இந்தத் தொடர்பை நீக்கவா?',
+    'Add Group': 'குழுவைச் சேர்',
+    'Edit Group': 'குழுவைத் திருத்து',
+    'Group Name': 'குழுவின் பெயர்',
+    'Group name is required': 'குழுவின் பெயர் தேவை',
+    'Members': 'உறுப்பினர்கள்',
+    'Add at least one member': 'குறைந்தது ஒரு உறுப்பினரைச் சேர்க்கவும்',
+    'group_members_hint': 'உங்கள் குழுக்களில் நீங்கள் எப்போதும் இருப்பீர்கள்.',
+    'Save Group': 'குழுவைச் சேமி',
+    'Archive Group': 'குழுவைக் காப்பகப்படுத்து',
+    'Unarchive Group': 'குழுவை மீட்டெடு',
+    'Delete Group': 'குழுவை நீக்கு',
+    'delete_group_confirm': 'இந்தக் குழுவை நீக்கவா?',
+    'Settle': 'தீர்',
+    'Settle Up': 'கணக்கைத் தீர்',
+    'Settled': 'தீர்ந்தது',
+    'Settlement': 'தீர்வு',
+    'Record Settlement': 'தீர்வைப் பதிவு செய்',
+    'Choose two different people': 'இரண்டு வெவ்வேறு நபர்களைத் தேர்ந்தெடுக்கவும்',
+    'delete_settlement_confirm': 'இந்தத் தீர்வை நீக்கவா? நிலுவைகள் மீண்டும் கணக்கிடப்படும்.',
+    'Balances': 'நிலுவைகள்',
+    'Suggested Payments': 'பரிந்துரைக்கப்பட்ட கொடுப்பனவுகள்',
+    'All settled up': 'அனைத்தும் தீர்ந்தது',
+    'Activity': 'செயல்பாடு',
+    'You are owed': 'உங்களுக்கு வர வேண்டியது',
+    'You owe': 'நீங்கள் தர வேண்டியது',
+    'owes you': 'உங்களுக்குத் தர வேண்டும்',
+    'you owe': 'நீங்கள் தர வேண்டும்',
+    'No groups yet': 'இன்னும் குழுக்கள் இல்லை',
+    'No contacts yet': 'இன்னும் தொடர்புகள் இல்லை',
+
+    // Loans
+    'Loans': 'கடன்கள்',
+    'Lent': 'கொடுத்தவை',
+    'Borrowed': 'வாங்கியவை',
+    'I lent': 'நான் கொடுத்தேன்',
+    'I borrowed': 'நான் வாங்கினேன்',
+    'Lent to': 'கடன் பெற்றவர்',
+    'Borrowed from': 'கடன் கொடுத்தவர்',
+    'Select Contact': 'தொடர்பைத் தேர்ந்தெடுக்கவும்',
+    'Choose who the loan is with': 'கடன் யாருடன் என்பதைத் தேர்ந்தெடுக்கவும்',
+    'Add Loan': 'கடனைச் சேர்',
+    'Edit Loan': 'கடனைத் திருத்து',
+    'Save Loan': 'கடனைச் சேமி',
+    'Delete Loan': 'கடனை நீக்கு',
+    'delete_loan_confirm': 'இந்தக் கடனையும் அதன் திருப்பிச் செலுத்தல்களையும் நீக்கவா?',
+    'Principal': 'அசல்',
+    'Start Date': 'தொடக்க தேதி',
+    'Interest-free': 'வட்டியில்லை',
+    'Simple': 'தனி வட்டி',
+    'Compound': 'கூட்டு வட்டி',
+    'Rate (% per year)': 'வட்டி விகிதம் (ஆண்டுக்கு %)',
+    'Compounded': 'கூட்டப்படுவது',
+    'Enter the interest rate': 'வட்டி விகிதத்தை உள்ளிடவும்',
+    'Tenure (months)': 'காலம் (மாதங்கள்)',
+    'Enter the tenure in months': 'காலத்தை மாதங்களில் உள்ளிடவும்',
+    'Repayment': 'திருப்பிச் செலுத்தல்',
+    'Monthly instalments': 'மாதத் தவணைகள்',
+    'Lump Sum': 'ஒரே தொகையாக',
+    'Per month': 'மாதத்திற்கு',
+    'Due on': 'செலுத்த வேண்டிய தேதி',
+    'Record Repayment': 'திருப்பிச் செலுத்தலைப் பதிவு செய்',
+    'Repaid': 'திருப்பிச் செலுத்தியது',
+    'Outstanding': 'நிலுவை',
+    'Repayment Schedule': 'திருப்பிச் செலுத்தும் அட்டவணை',
+    'Repayments': 'திருப்பிச் செலுத்தல்கள்',
+    'Next due': 'அடுத்த தவணை',
+    'To receive': 'வர வேண்டியது',
+    'To repay': 'திருப்பித் தர வேண்டியது',
+    'No open loans': 'நிலுவையில் கடன்கள் இல்லை',
+    'Loan Follow Up': 'கடன் நினைவூட்டல்',
+    'No mobile number saved for this contact.': 'இந்தத் தொடர்புக்கு கைபேசி எண் சேமிக்கப்படவில்லை.',
+    'Call': 'அழை',
+    'Loan repayment due': 'கடன் தவணை',
+    'Overdue loan repayments': 'தாமதமான கடன் தவணைகள்',
+
+    // EMI Planner
+    'EMI Planner': 'EMI திட்டமிடல்',
+    'EMI': 'EMI',
+    'Add EMI Plan': 'EMI திட்டத்தைச் சேர்',
+    'Edit EMI Plan': 'EMI திட்டத்தைத் திருத்து',
+    'Save EMI Plan': 'EMI திட்டத்தைச் சேமி',
+    'Delete EMI Plan': 'EMI திட்டத்தை நீக்கு',
+    'delete_emi_plan_confirm': 'இந்த EMI திட்டத்தை நீக்கவா? ஏற்கனவே பதிவான EMIகள் உங்கள் செலவுகளில் இருக்கும், புதியவை சேர்க்கப்படாது.',
+    'emi_plan_series_hint': 'ஒவ்வொரு EMI-யும் அதன் தேதியில் தானாக உங்கள் செலவுகளில் சேர்க்கப்படும்.',
+    'Lender': 'கடன் வழங்குநர்',
+    'First EMI': 'முதல் EMI',
+    'Edit': 'திருத்து',
+    'Monthly EMIs': 'மாத EMIகள்',
+    'No EMI plans yet': 'இன்னும் EMI திட்டங்கள் இல்லை',
+    'EMIs paid': 'EMIகள் செலுத்தப்பட்டன',
+    'left': 'மீதம்',
+    'of': 'இல்',
+    'Principal paid': 'செலுத்திய அசல்',
+    'Interest paid': 'செலுத்திய வட்டி',
+    'Schedule': 'அட்டவணை',
+    'By Financial Year': 'நிதியாண்டு வாரியாக',
+    'Financial Year': 'நிதியாண்டு',
+    'FY': 'நிதியாண்டு',
+    'Prepay': 'முன்கூட்டியே செலுத்து',
+    'Prepaid': 'முன்கூட்டியே செலுத்தியது',
+    'Prepayments': 'முன்கூட்டிய செலுத்தல்கள்',
+    'Save Prepayment': 'முன்கூட்டிய செலுத்தலைச் சேமி',
+    'Prepayment exceeds the outstanding principal': 'முன்கூட்டிய தொகை நிலுவை அசலை விட அதிகம்',
+    'Reduce Tenure': 'காலத்தைக் குறை',
+    'Reduce EMI': 'EMI-யைக் குறை',
+    'Interest saved': 'சேமித்த வட்டி',
+
+    // Savings Goals
+    'Savings Goals': 'சேமிப்பு இலக்குகள்',
+    'Goal': 'இலக்கு',
+    'Add Goal': 'இலக்கைச் சேர்',
+    'Edit Goal': 'இலக்கைத் திருத்து',
+    'Save Goal': 'இலக்கைச் சேமி',
+    'Delete Goal': 'இலக்கை நீக்கு',
+    'delete_goal_confirm': 'இந்த இலக்கையும் அதன் பங்களிப்புகளையும் நீக்கவா?',
+    'Target': 'இலக்கு',
+    'Target Amount': 'இலக்குத் தொகை',
+    'Target Date': 'இலக்குத் தேதி',
+    'Contributions': 'பங்களிப்புகள்',
+    'Manual': 'கைமுறை',
+    'From income': 'வருமானத்திலிருந்து',
+    'Of each': 'ஒவ்வொரு',
+    'of each': 'ஒவ்வொரு',
+    'Enter a percentage between 1 and 100': '1 முதல் 100 வரை ஒரு சதவீதத்தை உள்ளிடவும்',
+    'goal_rule_hint': 'இந்த வகையிலான வருமானம் பெறப்பட்டதாகக் குறிக்கப்படும் ஒவ்வொரு முறையும் இந்தப் பங்கு தானாக ஒதுக்கப்படும்.',
+    'Add Money': 'பணம் சேர்',
+    'delete_contribution_confirm': 'இந்தப் பங்களிப்பை நீக்கவா?',
+    'No goals yet': 'இன்னும் இலக்குகள் இல்லை',
+    'No contributions yet': 'இன்னும் பங்களிப்புகள் இல்லை',
+    'Goal reached': 'இலக்கை அடைந்தது',
+    'Projected': 'எதிர்பார்ப்பு',
+    'On track': 'சரியான பாதையில்',
+    'Behind': 'பின்தங்கியுள்ளது',
+    'Save': 'சேமி',
+    'a month to finish on time': 'மாதந்தோறும் சேமித்தால் குறித்த நேரத்தில் முடியும்',
   }
 };
 
@@ -0,0 +1,57 @@
+import { Income, Loan } from '../types';
+import { getOutstandingBalance } from './incomeLedger';
+
+// UPI payment requests (NPCI deep-link spec): upi://pay opens the payer's UPI app with the details filled in.
+
+const UPI_ID_PATTERN = /^[a-zA-Z0-9.\-_]{2,256}@[a-zA-Z]{2,64}$/;
+
+export const isValidUpiId = (upiId: string) => UPI_ID_PATTERN.test(upiId.trim());
+
+export interface UpiPaymentRequest {
+  upiId: string; // Payee VPA
+  payeeName?: string;
+  amount?: number;
+  note?: string;
+  reference?: string; // Shown in the note; `tr` is left out as personal VPAs reject requests that carry one
+}
+
+export const buildUpiPayLink = ({ upiId, payeeName, amount, note, reference }: UpiPaymentRequest): string => {
+  const params: [string, string][] = [['pa', upiId.trim()]];
+  if (payeeName) params.push(['pn', payeeName]);
+  if (amount && amount > 0) params.push(['am', amount.toFixed(2)]);
+  params.push(['cu', 'INR']);
+  // Notes are capped at 80 characters, so the text is shortened to keep the reference readable
+  const refText = reference ? ` Ref ${reference}` : '';
+  const text = `${(note || '').slice(0, 80 - refText.length)}${refText}`.trim();
+  if (text) params.push(['tn', text]);
+  return `upi://pay?${params.map(([k, v]) => `${k}=${encodeURIComponent(v)}`).join('&')}`;
+};
+
+// e.g. "Rent Oct 2026 - Ravi"; custom categories pass their name, as their ids are not readable
+export const getIncomePaymentNote = (income: Income, categoryName: string = income.category): string => {
+  const dueDate = income.dueDate || income.date;
+  const period = new Date(`${dueDate}T00:00:00`).toLocaleDateString('en-IN', { month: 'short', year: 'numeric' });
+  return `${categoryName} ${period} - ${income.source}`;
+};
+
+// Payment request for the unpaid balance of an expected or overdue entry
+export const buildIncomePaymentLink = (income: Income, upiId: string, payeeName?: string, categoryName?: string): string => {
+  return buildUpiPayLink({
+    upiId,
+    payeeName,
+    amount: getOutstandingBalance(income),
+    note: getIncomePaymentNote(income, categoryName),
+    reference: income.id.replace(/-/g, '').slice(0, 12),
+  });
+};
+
+// Payment request for an overdue loan repayment, e.g. "Loan repayment - Ravi"
+export const buildLoanPaymentLink = (loan: Loan, amount: number, borrowerName: string, upiId: string, payeeName?: string): string => {
+  return buildUpiPayLink({
+    upiId,
+    payeeName,
+    amount,
+    note: `Loan repayment - ${borrowerName}`,
+    reference: loan.id.replace(/-/g, '').slice(0, 12),
+  });
+};